@@ -0,0 +1,19 @@
+/**
+ * AI Provider Layer
+ * Single entry point for every model call in the pipeline.
+ *
+ * AI_PROVIDER selects the backend:
+ *   openrouter (default) - https://openrouter.ai, key from OPENROUTER_API_KEY
+ *   local                - any OpenAI-compatible server at AI_LOCAL_BASE_URL
+ *   mock                 - deterministic offline output, no network
+ *
+ * RecordingProvider / ReplayProvider capture a real generation and play it
+ * back offline - see src/scripts/recordGeneration.ts.
+ */
+
+export * from './types';
+export { getAIProvider, useAIProvider, DEFAULT_MODEL } from './provider';
+export { OpenAICompatibleProvider } from './openai-compatible';
+export { MockProvider } from './mock';
+export { RecordingProvider, ReplayProvider, RecordedExchange, promptHash } from './recording';
+export * from './routing';
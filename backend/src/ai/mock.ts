@@ -0,0 +1,126 @@
+/**
+ * Mock Provider
+ * Deterministic offline adapter - same request always gives the same answer.
+ * Used for local development, demos and CI without network or API keys.
+ */
+
+import { AIProvider, AIProviderError, ChatRequest, ChatResult } from './types';
+
+const SENTENCES = [
+  'In my project I focused on applying the core ideas of this unit to a realistic scenario.',
+  'I started by identifying the main requirements and how they relate to the vocational context.',
+  'This helped me understand why each decision mattered for the people who would use the final product.',
+  'I then compared the options that were available to me and considered their practical impact.',
+  'Working through this step showed me how theory connects to the everyday work of a professional.',
+  'I made sure that every choice could be justified with evidence from my own research.',
+  'Looking back, this approach gave the work a clear structure and a consistent purpose.',
+  'I also reflected on the limitations of my approach and how it could be improved in future.',
+];
+
+/**
+ * Small stable string hash (FNV-1a) so output only depends on the request
+ */
+function hash(input: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function paragraphs(seed: number, count: number): string {
+  const result: string[] = [];
+  for (let p = 0; p < count; p++) {
+    const sentences: string[] = [];
+    for (let s = 0; s < 4; s++) {
+      sentences.push(SENTENCES[(seed + p * 3 + s) % SENTENCES.length]);
+    }
+    result.push(sentences.join(' '));
+  }
+  return result.join('\n\n');
+}
+
+function buildResponse(purpose: string, seed: number): string {
+  if (purpose === 'PLANNER') {
+    // Empty plan - the planner falls back to building the outline from the brief
+    return '{}';
+  }
+
+  if (purpose === 'TABLE') {
+    return JSON.stringify({
+      caption: 'Comparison of key approaches',
+      headers: ['Aspect', 'Description', 'Application'],
+      rows: [1, 2, 3].map((n) => [
+        `Key Concept ${n}`,
+        SENTENCES[(seed + n) % SENTENCES.length],
+        'Applied directly to the assignment scenario',
+      ]),
+    });
+  }
+
+  if (purpose === 'REFERENCES') {
+    const years = [2019, 2020, 2021, 2022, 2023];
+    return JSON.stringify({
+      references: [1, 2, 3].map((id) => ({
+        id,
+        text: `Author, ${String.fromCharCode(65 + ((seed + id) % 26))}. (${years[(seed + id) % years.length]}) Mock Reference Title ${id}. Mock Publishing.`,
+      })),
+    });
+  }
+
+  if (purpose === 'guidance_overview') {
+    return JSON.stringify({
+      whatThisIsAbout: paragraphs(seed, 1),
+      whatAssessorLooksFor: ['Clear structure', 'Relevant examples', 'Appropriate depth', 'Accurate referencing'],
+      howToStructure: paragraphs(seed + 1, 1),
+      howToReachGrade: paragraphs(seed + 2, 1),
+    });
+  }
+
+  if (purpose.startsWith('guidance_criterion_')) {
+    return JSON.stringify({
+      criterionCode: purpose.replace('guidance_criterion_', ''),
+      criterionGoal: 'This criterion requires you to explain the topic clearly with examples.',
+      whatToInclude: ['Key definitions', 'Worked examples', 'Links to the scenario'],
+      howToApproach: paragraphs(seed, 1),
+      commonMistakes: ['Being too vague', 'Missing examples'],
+      gradeDepthReminder: 'Support every point with a relevant example.',
+    });
+  }
+
+  // Prose blocks (WRITER, INTRODUCTION, CRITERION, CONCLUSION, ...)
+  return paragraphs(seed, 3);
+}
+
+export class MockProvider implements AIProvider {
+  readonly name = 'mock' as const;
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    if (request.signal?.aborted) {
+      throw new AIProviderError('ABORTED', 'Request aborted', this.name, request.model);
+    }
+
+    const prompt = request.messages.map((m) => m.content).join('\n');
+    const seed = hash(`${request.purpose || ''}|${request.seed ?? ''}|${prompt}`);
+    const content = buildResponse(request.purpose || 'WRITER', seed);
+
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * OpenAI-Compatible Provider
+ * Adapter for any server speaking the OpenAI chat completions API:
+ * OpenRouter, llama.cpp server, Ollama, vLLM, LM Studio...
+ */
+
+import OpenAI, { APIConnectionError, APIConnectionTimeoutError, APIError, APIUserAbortError } from 'openai';
+import { AIErrorKind, AIProvider, AIProviderError, AIProviderName, ChatRequest, ChatResult } from './types';
+
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name: AIProviderName;
+  private client: OpenAI;
+
+  constructor(name: AIProviderName, baseURL: string, apiKey?: string) {
+    this.name = name;
+    this.client = new OpenAI({
+      baseURL,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: apiKey || 'not-needed',
+    });
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    let completion: OpenAI.Chat.Completions.ChatCompletion;
+
+    try {
+      completion = await this.client.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        seed: request.seed,
+        ...(request.json && { response_format: { type: 'json_object' as const } }),
+      }, { signal: request.signal });
+    } catch (error) {
+      throw this.classifyError(error, request.model);
+    }
+
+    const content = completion.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new AIProviderError('EMPTY_RESPONSE', `No content returned by ${request.model}`, this.name, request.model);
+    }
+
+    return {
+      content,
+      provider: this.name,
+      model: completion.model || request.model,
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens || 0,
+        completionTokens: completion.usage?.completion_tokens || 0,
+        totalTokens: completion.usage?.total_tokens || 0,
+      },
+    };
+  }
+
+  private classifyError(error: unknown, model: string): AIProviderError {
+    const message = error instanceof Error ? error.message : String(error);
+    let kind: AIErrorKind = 'UNKNOWN';
+    let status: number | undefined;
+
+    if (error instanceof APIUserAbortError) {
+      kind = 'ABORTED';
+    } else if (error instanceof APIConnectionTimeoutError) {
+      kind = 'TIMEOUT';
+    } else if (error instanceof APIConnectionError) {
+      kind = 'NETWORK';
+    } else if (error instanceof APIError) {
+      status = error.status;
+      if (status === 429) kind = 'RATE_LIMIT';
+      else if (status === 401 || status === 403) kind = 'AUTH';
+      else if (status === 408) kind = 'TIMEOUT';
+      else if (status !== undefined && status >= 500) kind = 'SERVER';
+      else if (status !== undefined && status >= 400) kind = 'BAD_REQUEST';
+    }
+
+    return new AIProviderError(kind, `[${this.name}] ${message}`, this.name, model, status);
+  }
+}
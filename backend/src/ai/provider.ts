@@ -0,0 +1,53 @@
+/**
+ * Provider Selection
+ * Builds the chat backend chosen by AI_PROVIDER
+ */
+
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { MockProvider } from './mock';
+import { AIProvider } from './types';
+
+export const DEFAULT_MODEL = process.env.AI_MODEL || 'qwen/qwen-2.5-72b-instruct:free';
+
+let provider: AIProvider | null = null;
+
+function createProvider(): AIProvider {
+  const name = (process.env.AI_PROVIDER || 'openrouter').toLowerCase();
+
+  switch (name) {
+    case 'mock':
+      return new MockProvider();
+    case 'local':
+      return new OpenAICompatibleProvider(
+        'local',
+        process.env.AI_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+        process.env.AI_LOCAL_API_KEY
+      );
+    case 'openrouter':
+      return new OpenAICompatibleProvider('openrouter', 'https://openrouter.ai/api/v1', process.env.OPENROUTER_API_KEY);
+    default:
+      throw new Error(`Unknown AI_PROVIDER: ${name}`);
+  }
+}
+
+/**
+ * Get the configured AI provider (created once per process)
+ */
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    provider = createProvider();
+    console.log(`[AI] Using provider: ${provider.name}`);
+  }
+  return provider;
+}
+
+/**
+ * Replace the process-wide provider (record / replay harness).
+ * null goes back to the one chosen by AI_PROVIDER.
+ */
+export function useAIProvider(next: AIProvider | null): void {
+  provider = next;
+  if (next) {
+    console.log(`[AI] Using provider: ${next.name} (override)`);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Record / Replay Providers
+ * RecordingProvider wraps a real backend and keeps every successful exchange;
+ * ReplayProvider answers from those exchanges without network, so a recorded
+ * generation can be run again deterministically.
+ */
+
+import { createHash } from 'crypto';
+import { AIProvider, AIProviderError, ChatMessage, ChatRequest, ChatResult } from './types';
+
+export interface RecordedExchange {
+  purpose: string;
+  model: string;
+  promptHash: string;
+  messages: ChatMessage[];
+  response: ChatResult;
+}
+
+/**
+ * Hash of what the model was asked - used to report prompt drift on replay
+ */
+export function promptHash(request: ChatRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ purpose: request.purpose || '', json: !!request.json, messages: request.messages }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export class RecordingProvider implements AIProvider {
+  readonly exchanges: RecordedExchange[] = [];
+
+  constructor(private readonly inner: AIProvider) {}
+
+  get name() {
+    return this.inner.name;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    // Failed calls are not kept - the router's fallback retries them
+    const response = await this.inner.chat(request);
+    this.exchanges.push({
+      purpose: request.purpose || '',
+      model: request.model,
+      promptHash: promptHash(request),
+      messages: request.messages,
+      response,
+    });
+    return response;
+  }
+}
+
+export class ReplayProvider implements AIProvider {
+  readonly name = 'replay' as const;
+
+  private readonly remaining = new Map<string, RecordedExchange[]>();
+  private served = 0;
+  private drifted: string[] = [];
+
+  constructor(exchanges: RecordedExchange[]) {
+    for (const exchange of exchanges) {
+      const queue = this.remaining.get(exchange.purpose) || [];
+      queue.push(exchange);
+      this.remaining.set(exchange.purpose, queue);
+    }
+  }
+
+  /**
+   * Answer with the recorded exchange for the same prompt, or else the next
+   * unused one for the same purpose. Calls with the same purpose run in a
+   * fixed order, so a changed prompt still gets its original response.
+   */
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    if (request.signal?.aborted) {
+      throw new AIProviderError('ABORTED', 'Request aborted', this.name, request.model);
+    }
+
+    const purpose = request.purpose || '';
+    const queue = this.remaining.get(purpose) || [];
+    if (queue.length === 0) {
+      throw new AIProviderError(
+        'BAD_REQUEST',
+        `No recorded response left for purpose ${purpose || '(none)'}`,
+        this.name,
+        request.model
+      );
+    }
+
+    const hash = promptHash(request);
+    let index = queue.findIndex((exchange) => exchange.promptHash === hash);
+    if (index < 0) {
+      index = 0;
+      this.drifted.push(purpose);
+    }
+
+    const [exchange] = queue.splice(index, 1);
+    this.served++;
+    return { ...exchange.response, provider: this.name };
+  }
+
+  /**
+   * Calls served, prompts that differ from the recording and recorded
+   * responses that were never asked for
+   */
+  summary() {
+    return {
+      served: this.served,
+      drifted: [...this.drifted],
+      unused: [...this.remaining.values()].reduce((sum, queue) => sum + queue.length, 0),
+    };
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Model Routing
+ * Runtime table (stored in SystemSetting) mapping each pipeline purpose,
+ * optionally per target grade, to a model, sampling settings and an
+ * ordered fallback chain.
+ */
+
+import { Grade } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getAIProvider, DEFAULT_MODEL } from './provider';
+import { AIProviderError, ChatRequest, ChatResult } from './types';
+
+export const MODEL_ROUTING_KEY = 'MODEL_ROUTING';
+
+export const MODEL_PURPOSES = ['PLANNER', 'WRITER', 'REFERENCES', 'TABLE', 'GUIDANCE'] as const;
+export type ModelPurpose = typeof MODEL_PURPOSES[number];
+
+export const ROUTING_GRADES: Grade[] = ['PASS', 'MERIT', 'DISTINCTION'];
+
+export interface ModelRoute {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Tried in order when the previous model errors or rate-limits
+  fallbackModels?: string[];
+}
+
+export interface PurposeRoute extends ModelRoute {
+  grades?: Partial<Record<Grade, ModelRoute>>;
+}
+
+export interface ModelRoutingTable {
+  purposes: Partial<Record<ModelPurpose, PurposeRoute>>;
+}
+
+export interface ResolvedRoute {
+  models: string[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Settings are read on every model call, so keep a short-lived copy
+const CACHE_TTL_MS = 30 * 1000;
+let cachedTable: ModelRoutingTable | null = null;
+let cachedAt = 0;
+
+// =============================================================================
+// STORAGE
+// =============================================================================
+
+/**
+ * Load the routing table (empty table = everything uses DEFAULT_MODEL)
+ */
+export async function getModelRoutingTable(): Promise<ModelRoutingTable> {
+  if (cachedTable && Date.now() - cachedAt < CACHE_TTL_MS) {
+    return cachedTable;
+  }
+
+  let table: ModelRoutingTable = { purposes: {} };
+  try {
+    const setting = await prisma.systemSetting.findUnique({
+      where: { key: MODEL_ROUTING_KEY },
+    });
+    if (setting?.value) {
+      table = validateRoutingTable(JSON.parse(setting.value));
+    }
+  } catch (error) {
+    console.error('[AI] Invalid model routing table, using defaults:', error);
+  }
+
+  cachedTable = table;
+  cachedAt = Date.now();
+  return table;
+}
+
+/**
+ * Replace the whole routing table
+ */
+export async function setModelRoutingTable(table: unknown, updatedBy?: string): Promise<ModelRoutingTable> {
+  const validated = validateRoutingTable(table);
+  const value = JSON.stringify(validated);
+
+  await prisma.systemSetting.upsert({
+    where: { key: MODEL_ROUTING_KEY },
+    create: { key: MODEL_ROUTING_KEY, value, updatedBy },
+    update: { value, updatedBy },
+  });
+
+  cachedTable = validated;
+  cachedAt = Date.now();
+  console.log(`[AI] Model routing table updated${updatedBy ? ` by ${updatedBy}` : ''}`);
+  return validated;
+}
+
+/**
+ * Set (or clear, with route = null) a single purpose / grade route
+ */
+export async function setModelRoute(
+  purpose: ModelPurpose,
+  grade: Grade | null,
+  route: ModelRoute | null,
+  updatedBy?: string
+): Promise<ModelRoutingTable> {
+  const table = await getModelRoutingTable();
+  const purposes = { ...table.purposes };
+  const current: PurposeRoute = { ...(purposes[purpose] || {}) };
+
+  if (grade) {
+    const grades = { ...(current.grades || {}) };
+    if (route) {
+      grades[grade] = route;
+    } else {
+      delete grades[grade];
+    }
+    current.grades = Object.keys(grades).length > 0 ? grades : undefined;
+    purposes[purpose] = current;
+  } else if (route) {
+    purposes[purpose] = { ...route, grades: current.grades };
+  } else if (current.grades) {
+    purposes[purpose] = { grades: current.grades };
+  } else {
+    delete purposes[purpose];
+  }
+
+  return setModelRoutingTable({ purposes }, updatedBy);
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function validateRoute(raw: any, where: string): ModelRoute {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Invalid route for ${where}`);
+  }
+
+  const route: ModelRoute = {};
+
+  if (raw.model !== undefined) {
+    if (typeof raw.model !== 'string' || !raw.model.trim()) {
+      throw new Error(`Invalid model for ${where}`);
+    }
+    route.model = raw.model.trim();
+  }
+  if (raw.temperature !== undefined && raw.temperature !== null) {
+    const temperature = Number(raw.temperature);
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+      throw new Error(`Temperature for ${where} must be between 0 and 2`);
+    }
+    route.temperature = temperature;
+  }
+  if (raw.maxTokens !== undefined && raw.maxTokens !== null) {
+    const maxTokens = Number(raw.maxTokens);
+    if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > 32000) {
+      throw new Error(`Max tokens for ${where} must be between 1 and 32000`);
+    }
+    route.maxTokens = maxTokens;
+  }
+  if (raw.fallbackModels !== undefined && raw.fallbackModels !== null) {
+    if (!Array.isArray(raw.fallbackModels) || raw.fallbackModels.some((m: any) => typeof m !== 'string' || !m.trim())) {
+      throw new Error(`Fallback models for ${where} must be a list of model names`);
+    }
+    route.fallbackModels = raw.fallbackModels.map((m: string) => m.trim());
+  }
+
+  return route;
+}
+
+/**
+ * Validate untrusted input (admin API, Discord, stored JSON)
+ */
+export function validateRoutingTable(raw: any): ModelRoutingTable {
+  if (!raw || typeof raw !== 'object' || !raw.purposes || typeof raw.purposes !== 'object') {
+    throw new Error('Routing table must have a purposes object');
+  }
+
+  const purposes: ModelRoutingTable['purposes'] = {};
+
+  for (const [key, value] of Object.entries<any>(raw.purposes)) {
+    if (!MODEL_PURPOSES.includes(key as ModelPurpose)) {
+      throw new Error(`Unknown purpose: ${key}`);
+    }
+
+    const route: PurposeRoute = validateRoute(value, key);
+
+    if (value.grades !== undefined && value.grades !== null) {
+      if (typeof value.grades !== 'object') {
+        throw new Error(`Invalid grades for ${key}`);
+      }
+      const grades: Partial<Record<Grade, ModelRoute>> = {};
+      for (const [grade, gradeRoute] of Object.entries<any>(value.grades)) {
+        if (!ROUTING_GRADES.includes(grade as Grade)) {
+          throw new Error(`Unknown grade: ${grade}`);
+        }
+        grades[grade as Grade] = validateRoute(gradeRoute, `${key}/${grade}`);
+      }
+      if (Object.keys(grades).length > 0) {
+        route.grades = grades;
+      }
+    }
+
+    purposes[key as ModelPurpose] = route;
+  }
+
+  return { purposes };
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+/**
+ * Resolve the route for a call. Grade settings override purpose settings,
+ * which override the caller's own defaults.
+ */
+export async function resolveModelRoute(
+  purpose: ModelPurpose,
+  grade?: Grade | null,
+  defaults: { temperature?: number; maxTokens?: number } = {}
+): Promise<ResolvedRoute> {
+  const table = await getModelRoutingTable();
+  const purposeRoute = table.purposes[purpose] || {};
+  const gradeRoute = (grade && purposeRoute.grades?.[grade]) || {};
+
+  const primary = gradeRoute.model || purposeRoute.model || DEFAULT_MODEL;
+  const fallbacks = gradeRoute.fallbackModels || purposeRoute.fallbackModels || [];
+
+  return {
+    models: [primary, ...fallbacks.filter((m) => m !== primary)],
+    temperature: gradeRoute.temperature ?? purposeRoute.temperature ?? defaults.temperature,
+    maxTokens: gradeRoute.maxTokens ?? purposeRoute.maxTokens ?? defaults.maxTokens,
+  };
+}
+
+/**
+ * Chat using the routing table, walking the fallback chain on failure.
+ * An AUTH error stops immediately - every model would fail the same way -
+ * and so does an aborted request.
+ */
+export async function routedChat(
+  route: { purpose: ModelPurpose; grade?: Grade | null },
+  request: Omit<ChatRequest, 'model'>
+): Promise<ChatResult> {
+  const resolved = await resolveModelRoute(route.purpose, route.grade, {
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+  });
+
+  let lastError: unknown;
+
+  for (const model of resolved.models) {
+    try {
+      return await getAIProvider().chat({
+        ...request,
+        model,
+        temperature: resolved.temperature,
+        maxTokens: resolved.maxTokens,
+      });
+    } catch (error) {
+      lastError = error;
+      if (error instanceof AIProviderError && (error.kind === 'AUTH' || error.kind === 'ABORTED')) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[AI] ${route.purpose} call to ${model} failed (${message})`);
+    }
+  }
+
+  throw lastError;
+}
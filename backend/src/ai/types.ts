@@ -0,0 +1,80 @@
+/**
+ * AI Provider Types
+ * Common contract for every chat-completion backend (OpenRouter, local, mock, replay)
+ */
+
+export type AIProviderName = 'openrouter' | 'local' | 'mock' | 'replay';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  seed?: number;
+  // Ask the model for a single JSON object (response_format json_object)
+  json?: boolean;
+  // Pipeline purpose (PLANNER, WRITER, TABLE, ...) - used by the mock provider
+  purpose?: string;
+  // Aborts the request when the generation is cancelled
+  signal?: AbortSignal;
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  provider: AIProviderName;
+  model: string;
+  usage: ChatUsage;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  chat(request: ChatRequest): Promise<ChatResult>;
+}
+
+// =============================================================================
+// ERROR CLASSIFICATION
+// =============================================================================
+
+export type AIErrorKind =
+  | 'RATE_LIMIT'     // 429 - back off and retry, or try another model
+  | 'TIMEOUT'        // Request timed out
+  | 'NETWORK'        // Connection refused / DNS / reset
+  | 'SERVER'         // 5xx from provider
+  | 'AUTH'           // Bad or missing API key
+  | 'BAD_REQUEST'    // Invalid model name, context too long, etc.
+  | 'EMPTY_RESPONSE' // Provider answered without content
+  | 'ABORTED'        // Request aborted by the caller (generation cancelled)
+  | 'UNKNOWN';
+
+const RETRYABLE_KINDS: AIErrorKind[] = ['RATE_LIMIT', 'TIMEOUT', 'NETWORK', 'SERVER', 'EMPTY_RESPONSE', 'UNKNOWN'];
+
+export class AIProviderError extends Error {
+  readonly kind: AIErrorKind;
+  readonly provider: AIProviderName;
+  readonly model: string;
+  readonly status?: number;
+
+  constructor(kind: AIErrorKind, message: string, provider: AIProviderName, model: string, status?: number) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.kind = kind;
+    this.provider = provider;
+    this.model = model;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
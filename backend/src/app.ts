@@ -11,6 +11,7 @@ import generationRoutes from './routes/generation.routes';
 import issueRoutes from './routes/issue.routes';
 import paymentRoutes from './routes/payment.routes';
 import discordRoutes from './routes/discord.routes';
+import exportRoutes from './routes/export.routes';
 import { errorHandler } from './middlewares/error';
 import path from 'path';
 
@@ -37,7 +38,8 @@ app.use(cors({
   },
   credentials: true,
 }));
-app.use(express.json());
+// Template logos and issue screenshots arrive as data URLs
+app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: true }));
 
 // Static files for exports
@@ -59,6 +61,7 @@ app.use('/api/generation', generationRoutes);
 app.use('/api/issues', issueRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/discord', discordRoutes);
+app.use('/api/export', exportRoutes);
 
 // 404 Handler
 app.use((req, res) => {
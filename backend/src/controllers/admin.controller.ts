@@ -9,7 +9,41 @@ import { AuthRequest } from '../middlewares/auth';
 import { UserRole, UserStatus, Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import * as adminService from '../services/admin.service';
+import { editBlock, resumeGeneration } from '../services/generation.service';
+import {
+  enqueueGeneration,
+  getQueueStats,
+  isGenerationPaused,
+  setGenerationPaused,
+  pauseAssignmentGeneration,
+  resumeAssignmentGeneration,
+  reserveGeneration,
+  stopGenerationForDelete,
+} from '../services/queue.service';
+import { releaseReservation } from '../services/token.service';
+import {
+  compareAssignmentVersions,
+  ensureCurrentVersion,
+  listAssignmentVersions,
+  restoreAssignmentVersion,
+} from '../services/version.service';
+import {
+  listDocumentTemplates,
+  getDocumentTemplate,
+  createDocumentTemplate,
+  updateDocumentTemplate,
+  deleteDocumentTemplate,
+} from '../services/template.service';
+import { documentTemplateSchema } from '../utils/validation';
 import { APIError } from '../types';
+import {
+  DEFAULT_MODEL,
+  MODEL_PURPOSES,
+  ROUTING_GRADES,
+  getModelRoutingTable,
+  setModelRoutingTable,
+  validateRoutingTable,
+} from '../ai';
 
 // =============================================================================
 // DASHBOARD
@@ -341,6 +375,149 @@ export const cancelAssignment = async (
     await adminService.cancelAssignment(id);
     res.status(200).json({ success: true, message: 'Assignment cancelled' });
   } catch (error) {
+    if (error instanceof Error && error.message === 'Assignment not found') {
+      res.status(404).json({ error: 'Not Found', message: error.message } as APIError);
+      return;
+    }
+    if (error instanceof Error && error.message === 'Only generating assignments can be cancelled') {
+      res.status(400).json({ error: 'Bad Request', message: error.message } as APIError);
+      return;
+    }
+    next(error);
+  }
+};
+
+/**
+ * Saved generation plan with its validation report (what the repair step changed)
+ */
+export const getAssignmentPlan = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const plan = await prisma.generationPlan.findUnique({ where: { assignmentId: id } });
+
+    if (!plan) {
+      res.status(404).json({ error: 'Not Found', message: 'No generation plan for this assignment' } as APIError);
+      return;
+    }
+
+    res.status(200).json({
+      assignmentId: id,
+      plan: plan.planData,
+      validationReport: plan.validationReport,
+      tokensUsed: plan.tokensUsed,
+      createdAt: plan.createdAt,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Known version errors → HTTP status (anything else goes to the error handler)
+function sendVersionError(error: unknown, res: Response): boolean {
+  if (!(error instanceof Error)) return false;
+
+  if (['Assignment not found', 'Version not found', 'Content block not found'].includes(error.message)) {
+    res.status(404).json({ error: 'Not Found', message: error.message } as APIError);
+    return true;
+  }
+  if ([
+    'Version is already current',
+    'Only completed assignments can be edited',
+    'Assignment has no outline to rebuild from',
+    'sectionId or criterionCode is required',
+    'Invalid block content',
+  ].includes(error.message)) {
+    res.status(400).json({ error: 'Bad Request', message: error.message } as APIError);
+    return true;
+  }
+  if (error.message === 'Block is already being regenerated') {
+    res.status(409).json({ error: 'Conflict', message: error.message } as APIError);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Version history of an assignment (newest first)
+ */
+export const getAssignmentVersions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const versions = await listAssignmentVersions(req.params.id);
+    res.status(200).json({ assignmentId: req.params.id, versions });
+  } catch (error) {
+    if (sendVersionError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Block-by-block diff of two versions (?from=1&to=2)
+ */
+export const compareVersions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const from = parseInt(String(req.query.from), 10);
+    const to = parseInt(String(req.query.to), 10);
+    if (!from || !to) {
+      res.status(400).json({ error: 'Bad Request', message: 'from and to version numbers are required' } as APIError);
+      return;
+    }
+
+    const comparison = await compareAssignmentVersions(req.params.id, from, to);
+    res.status(200).json(comparison);
+  } catch (error) {
+    if (sendVersionError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Make an earlier version current again (recorded as a new version)
+ */
+export const restoreVersion = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const version = await restoreAssignmentVersion(
+      req.params.id,
+      parseInt(req.params.version, 10),
+      undefined,
+      req.user?.userId
+    );
+    res.status(200).json({ success: true, version });
+  } catch (error) {
+    if (sendVersionError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Save a manual edit of any assignment's content block
+ */
+export const editAssignmentBlock = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { sectionId, criterionCode, content } = req.body || {};
+    const result = await editBlock(req.params.id, { sectionId, criterionCode, content }, undefined, req.user?.userId);
+    res.status(200).json(result);
+  } catch (error) {
+    if (sendVersionError(error, res)) return;
     next(error);
   }
 };
@@ -352,29 +529,73 @@ export const regenerateAssignment = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    
+
+    // A queued or running job would keep writing into the wiped assignment
+    const activeJob = await prisma.generationJob.findFirst({
+      where: { assignmentId: id, status: { in: ['QUEUED', 'RUNNING'] } },
+      select: { id: true },
+    });
+    if (activeJob) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Assignment is still generating - cancel the current generation first',
+      } as APIError);
+      return;
+    }
+
+    const assignment = await prisma.assignment.findUnique({ where: { id }, select: { userId: true } });
+    if (!assignment) {
+      res.status(404).json({ error: 'Not Found', message: 'Assignment not found' } as APIError);
+      return;
+    }
+
+    // Assignments generated before versioning get their current output recorded first
+    await ensureCurrentVersion(id, req.user?.userId);
+
+    // Hold the owner's tokens before wiping - an owner who cannot pay keeps the finished assignment
+    await reserveGeneration(id, assignment.userId);
+
     // Clear old content and reset status
-    await prisma.$transaction([
-      prisma.contentBlock.deleteMany({ where: { assignmentId: id } }),
-      prisma.generationPlan.deleteMany({ where: { assignmentId: id } }),
-      prisma.assignment.update({
-        where: { id },
-        data: {
-          status: 'DRAFT',
-          error: null,
-          content: Prisma.JsonNull,
-          guidance: Prisma.JsonNull,
-          totalTokensUsed: 0,
-          totalAiCalls: 0,
-          generationDurationMs: null,
-          completedAt: null,
-          docxUrl: null,
-        },
-      }),
-    ]);
+    try {
+      await prisma.$transaction([
+        prisma.contentBlock.deleteMany({ where: { assignmentId: id } }),
+        prisma.generationPlan.deleteMany({ where: { assignmentId: id } }),
+        prisma.assignment.update({
+          where: { id },
+          data: {
+            status: 'DRAFT',
+            error: null,
+            content: Prisma.JsonNull,
+            guidance: Prisma.JsonNull,
+            totalTokensUsed: 0,
+            tokensCharged: 0,
+            totalAiCalls: 0,
+            generationDurationMs: null,
+            completedAt: null,
+            docxUrl: null,
+            pausedAt: null,
+          },
+        }),
+      ]);
+    } catch (error) {
+      await releaseReservation(id, 'regeneration failed');
+      throw error;
+    }
 
-    res.status(200).json({ success: true, message: 'Assignment reset for regeneration' });
+    const { job, queuePosition } = await enqueueGeneration(id, assignment.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Assignment queued for regeneration',
+      jobId: job.id,
+      queuePosition,
+      status: 'GENERATING',
+    });
   } catch (error) {
+    if (error instanceof Error && error.message.includes('Insufficient tokens')) {
+      res.status(402).json({ error: 'Payment Required', message: error.message } as APIError);
+      return;
+    }
     next(error);
   }
 };
@@ -409,6 +630,10 @@ export const bulkDeleteAssignments = async (
       return;
     }
 
+    for (const id of ids) {
+      await stopGenerationForDelete(id);
+    }
+
     // Delete related records first, then assignments
     await prisma.$transaction([
       prisma.contentBlock.deleteMany({ where: { assignmentId: { in: ids } } }),
@@ -434,27 +659,76 @@ export const bulkRegenerateAssignments = async (
       return;
     }
 
+    // Assignments with a queued or running job are skipped - it would keep writing into them
+    const activeJobs = await prisma.generationJob.findMany({
+      where: { assignmentId: { in: ids }, status: { in: ['QUEUED', 'RUNNING'] } },
+      select: { assignmentId: true },
+    });
+    const active = new Set(activeJobs.map((job) => job.assignmentId));
+    const resetIds = (ids as string[]).filter((id) => !active.has(id));
+    const failed: { id: string; error: string }[] = [...active].map((id) => ({
+      id,
+      error: 'Assignment is still generating - cancel the current generation first',
+    }));
+
+    const candidates = await prisma.assignment.findMany({
+      where: { id: { in: resetIds } },
+      select: { id: true, userId: true },
+    });
+
+    // Hold each owner's tokens before wiping - owners who cannot pay keep their assignment as is
+    const assignments: typeof candidates = [];
+    for (const assignment of candidates) {
+      try {
+        await ensureCurrentVersion(assignment.id, req.user?.userId);
+        await reserveGeneration(assignment.id, assignment.userId);
+        assignments.push(assignment);
+      } catch (error: any) {
+        failed.push({ id: assignment.id, error: error.message });
+      }
+    }
+    const heldIds = assignments.map((assignment) => assignment.id);
+
     // Reset all assignments for regeneration
-    await prisma.$transaction([
-      prisma.contentBlock.deleteMany({ where: { assignmentId: { in: ids } } }),
-      prisma.generationPlan.deleteMany({ where: { assignmentId: { in: ids } } }),
-      prisma.assignment.updateMany({
-        where: { id: { in: ids } },
-        data: {
-          status: 'DRAFT',
-          error: null,
-          content: Prisma.JsonNull,
-          guidance: Prisma.JsonNull,
-          totalTokensUsed: 0,
-          totalAiCalls: 0,
-          generationDurationMs: null,
-          completedAt: null,
-          docxUrl: null,
-        },
-      }),
-    ]);
+    try {
+      await prisma.$transaction([
+        prisma.contentBlock.deleteMany({ where: { assignmentId: { in: heldIds } } }),
+        prisma.generationPlan.deleteMany({ where: { assignmentId: { in: heldIds } } }),
+        prisma.assignment.updateMany({
+          where: { id: { in: heldIds } },
+          data: {
+            status: 'DRAFT',
+            error: null,
+            content: Prisma.JsonNull,
+            guidance: Prisma.JsonNull,
+            totalTokensUsed: 0,
+            tokensCharged: 0,
+            totalAiCalls: 0,
+            generationDurationMs: null,
+            completedAt: null,
+            docxUrl: null,
+            pausedAt: null,
+          },
+        }),
+      ]);
+    } catch (error) {
+      for (const id of heldIds) {
+        await releaseReservation(id, 'regeneration failed');
+      }
+      throw error;
+    }
 
-    res.status(200).json({ success: true, regenerated: ids.length });
+    let regenerated = 0;
+    for (const assignment of assignments) {
+      try {
+        await enqueueGeneration(assignment.id, assignment.userId);
+        regenerated++;
+      } catch (error: any) {
+        failed.push({ id: assignment.id, error: error.message });
+      }
+    }
+
+    res.status(200).json({ success: true, regenerated, failed });
   } catch (error) {
     next(error);
   }
@@ -495,6 +769,134 @@ export const briefs = async (
   }
 };
 
+// =============================================================================
+// DOCUMENT TEMPLATES
+// =============================================================================
+
+const templateErrorStatus = (error: unknown): number | null => {
+  if (!(error instanceof Error)) return null;
+  if (error.message === 'Template not found') return 404;
+  if (error.message === 'Brief not found') return 400;
+  return null;
+};
+
+export const listTemplates = async (
+  _req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const templates = await listDocumentTemplates();
+    res.status(200).json({ templates });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTemplate = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const template = await getDocumentTemplate(req.params.id);
+    res.status(200).json(template);
+  } catch (error) {
+    if (templateErrorStatus(error) === 404) {
+      res.status(404).json({ error: 'Not Found', message: (error as Error).message } as APIError);
+      return;
+    }
+    next(error);
+  }
+};
+
+export const createTemplate = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const data = documentTemplateSchema.parse(req.body);
+    const template = await createDocumentTemplate(data);
+
+    if (req.user?.userId) {
+      await adminService.createAuditLog({
+        adminUserId: req.user.userId,
+        action: 'TEMPLATE_CREATE',
+        targetType: 'TEMPLATE',
+        targetId: template.id,
+        newValue: { ...data, logo: data.logo ? '[image]' : null },
+      });
+    }
+
+    res.status(201).json(template);
+  } catch (error) {
+    const status = templateErrorStatus(error);
+    if (status) {
+      res.status(status).json({ error: status === 404 ? 'Not Found' : 'Validation Error', message: (error as Error).message } as APIError);
+      return;
+    }
+    next(error);
+  }
+};
+
+export const updateTemplate = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const data = documentTemplateSchema.partial().parse(req.body);
+    const template = await updateDocumentTemplate(req.params.id, data);
+
+    if (req.user?.userId) {
+      await adminService.createAuditLog({
+        adminUserId: req.user.userId,
+        action: 'TEMPLATE_UPDATE',
+        targetType: 'TEMPLATE',
+        targetId: template.id,
+        newValue: { ...data, logo: data.logo ? '[image]' : data.logo },
+      });
+    }
+
+    res.status(200).json(template);
+  } catch (error) {
+    const status = templateErrorStatus(error);
+    if (status) {
+      res.status(status).json({ error: status === 404 ? 'Not Found' : 'Validation Error', message: (error as Error).message } as APIError);
+      return;
+    }
+    next(error);
+  }
+};
+
+export const deleteTemplate = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await deleteDocumentTemplate(req.params.id);
+
+    if (req.user?.userId) {
+      await adminService.createAuditLog({
+        adminUserId: req.user.userId,
+        action: 'TEMPLATE_DELETE',
+        targetType: 'TEMPLATE',
+        targetId: req.params.id,
+      });
+    }
+
+    res.status(200).json(result);
+  } catch (error) {
+    if (templateErrorStatus(error) === 404) {
+      res.status(404).json({ error: 'Not Found', message: (error as Error).message } as APIError);
+      return;
+    }
+    next(error);
+  }
+};
+
 // =============================================================================
 // ANALYTICS
 // =============================================================================
@@ -725,24 +1127,85 @@ export const setIssueInProgress = async (
 // =============================================================================
 
 export const pauseAllGeneration = async (
-  _req: AuthRequest,
+  req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    res.status(200).json({ success: true, message: 'Generation paused (placeholder)' });
+    await setGenerationPaused(true, req.user?.userId);
+    res.status(200).json({
+      success: true,
+      message: 'Generation paused. Queued jobs are held and running jobs stop before their next section.',
+    });
   } catch (error) {
     next(error);
   }
 };
 
 export const resumeAllGeneration = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await setGenerationPaused(false, req.user?.userId);
+    res.status(200).json({ success: true, message: 'Generation resumed' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// =============================================================================
+// MODEL ROUTING
+// =============================================================================
+
+export const getModelRouting = async (
   _req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    res.status(200).json({ success: true, message: 'Generation resumed (placeholder)' });
+    const table = await getModelRoutingTable();
+    res.status(200).json({
+      table,
+      defaultModel: DEFAULT_MODEL,
+      purposes: MODEL_PURPOSES,
+      grades: ROUTING_GRADES,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateModelRouting = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    let validated;
+    try {
+      validated = validateRoutingTable(req.body?.table);
+    } catch (validationError: any) {
+      res.status(400).json({ error: 'Validation Error', message: validationError.message } as APIError);
+      return;
+    }
+
+    const previous = await getModelRoutingTable();
+    const table = await setModelRoutingTable(validated, req.user?.userId);
+
+    if (req.user?.userId) {
+      await adminService.createAuditLog({
+        adminUserId: req.user.userId,
+        action: 'MODEL_ROUTING_UPDATE',
+        targetType: 'SYSTEM',
+        targetId: 'MODEL_ROUTING',
+        previousValue: previous,
+        newValue: table,
+      });
+    }
+
+    res.status(200).json({ success: true, table });
   } catch (error) {
     next(error);
   }
@@ -754,8 +1217,9 @@ export const getSystemStatus = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const [activeJobs, failedLast24h] = await Promise.all([
-      prisma.assignment.count({ where: { status: 'GENERATING' } }),
+    const [generationPaused, queueStats, failedLast24h] = await Promise.all([
+      isGenerationPaused(),
+      getQueueStats(),
       prisma.assignment.count({
         where: {
           status: 'FAILED',
@@ -764,12 +1228,12 @@ export const getSystemStatus = async (
       }),
     ]);
 
-    const aiModel = process.env.AI_MODEL || 'mistralai/devstral-2512:free';
+    const aiModel = DEFAULT_MODEL;
     
     res.status(200).json({
-      generationPaused: false,
-      activeJobs,
-      queuedJobs: 0,
+      generationPaused,
+      activeJobs: queueStats.running,
+      queuedJobs: queueStats.queued,
       failedJobsLast24h: failedLast24h,
       averageGenerationTime: 0,
       aiModelsHealth: [
@@ -914,19 +1378,71 @@ export const exportUsers = async (
   }
 };
 
-// Legacy placeholder exports for backward compatibility
-export const pauseAssignment = async (_req: AuthRequest, res: Response, _next: NextFunction) => {
-  res.status(200).json({ message: 'Not supported', status: 'DRAFT' });
+export const pauseAssignment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const assignment = await pauseAssignmentGeneration(id);
+    res.status(200).json({ message: 'Assignment generation paused', status: assignment.status, paused: true });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Assignment not found') {
+      res.status(404).json({ error: 'Not Found', message: error.message } as APIError);
+      return;
+    }
+    if (error instanceof Error && error.message === 'Only generating assignments can be paused') {
+      res.status(400).json({ error: 'Bad Request', message: error.message } as APIError);
+      return;
+    }
+    next(error);
+  }
 };
 
-export const resumeAssignment = async (_req: AuthRequest, res: Response, _next: NextFunction) => {
-  res.status(200).json({ message: 'Not supported', status: 'DRAFT' });
+export const resumeAssignment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const current = await prisma.assignment.findUnique({ where: { id }, select: { status: true } });
+
+    // Failed or cancelled run: continue from saved checkpoints instead of starting over
+    if (current?.status === 'FAILED' || current?.status === 'CANCELLED') {
+      const resumed = await resumeGeneration(id);
+      res.status(200).json({ ...resumed, paused: false });
+      return;
+    }
+
+    const assignment = await resumeAssignmentGeneration(id);
+    res.status(200).json({ message: 'Assignment generation resumed', status: assignment.status, paused: false });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Assignment not found') {
+      res.status(404).json({ error: 'Not Found', message: error.message } as APIError);
+      return;
+    }
+    if (error instanceof Error && error.message === 'Assignment is not paused') {
+      res.status(400).json({ error: 'Bad Request', message: error.message } as APIError);
+      return;
+    }
+    if (error instanceof Error && error.message === 'Generation is still stopping') {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'The cancelled generation is still stopping - try again in a few seconds',
+      } as APIError);
+      return;
+    }
+    next(error);
+  }
 };
 
 export const stopAssignment = cancelAssignment;
 
 export const restartAssignment = regenerateAssignment;
 
+// Approval workflow placeholders - not implemented
 export const getPendingApprovals = async (_req: AuthRequest, res: Response, _next: NextFunction) => {
   res.status(200).json({ count: 0, assignments: [] });
 };
@@ -13,8 +13,24 @@ import {
   getAssignment,
   getUserAssignments,
 } from '../services/assignment.service';
-import { startGeneration } from '../services/generation.service';
+import {
+  startGeneration,
+  resumeGeneration,
+  previewPlan,
+  updateAssignmentPlan,
+  regenerateBlock,
+  rollbackBlock,
+  editBlock,
+  getBlockRevisions,
+} from '../services/generation.service';
+import { cancelGeneration, stopGenerationForDelete } from '../services/queue.service';
+import {
+  compareAssignmentVersions,
+  listAssignmentVersions,
+  restoreAssignmentVersion,
+} from '../services/version.service';
 import { generateDocx } from '../services/docx.service';
+import { resolveDocxOptions } from '../services/template.service';
 import { prisma } from '../lib/prisma';
 import { APIError, GeneratedContent, StudentInputData } from '../types';
 
@@ -45,17 +61,17 @@ export const generate = async (
       includeTables || false
     );
 
-    // Start generation in background (orchestrator handles planner + writer)
+    // Queue generation (worker runs planner + writer)
     // Frontend will poll /api/generation/status/:id for progress
-    startGeneration(assignment.id, req.user.userId).catch((error) => {
-      console.error('[GENERATE] Background generation failed:', error);
-    });
+    const queued = await startGeneration(assignment.id, req.user.userId);
 
     // Return assignment ID immediately
     res.status(201).json({
       id: assignment.id,
-      status: assignment.status,
-      message: 'Generation started. Poll /api/generation/status/:id for progress.',
+      status: queued.status,
+      jobId: queued.jobId,
+      queuePosition: queued.queuePosition,
+      message: queued.message,
     });
   } catch (error) {
     if (error instanceof Error) {
@@ -206,7 +222,8 @@ export const download = async (
           assignment.id,
           content,
           unitName,
-          unitCode
+          unitCode,
+          await resolveDocxOptions(assignment.id)
         );
         
         if (!docxPath) {
@@ -327,6 +344,9 @@ export const deleteAssignment = async (
       return;
     }
 
+    // Stop a queued/running generation and return the tokens it still holds
+    await stopGenerationForDelete(id);
+
     // Delete the assignment
     await prisma.assignment.delete({
       where: { id },
@@ -526,15 +546,15 @@ export const startGen = async (
       return;
     }
 
-    // Start generation in background
-    startGeneration(assignment.id, req.user.userId).catch((error) => {
-      console.error('[GENERATE] Background generation failed:', error);
-    });
+    // Queue generation - worker picks it up when a slot is free
+    const queued = await startGeneration(assignment.id, req.user.userId);
 
     res.status(200).json({
       id: assignment.id,
-      status: 'GENERATING',
-      message: 'Generation started. Poll /api/generation/status/:id for progress.',
+      status: queued.status,
+      jobId: queued.jobId,
+      queuePosition: queued.queuePosition,
+      message: queued.message,
     });
   } catch (error) {
     if (error instanceof Error) {
@@ -552,7 +572,476 @@ export const startGen = async (
         } as APIError);
         return;
       }
+      if (error.message.includes('Insufficient tokens')) {
+        res.status(402).json({
+          error: 'Payment Required',
+          message: error.message,
+        } as APIError);
+        return;
+      }
+    }
+    next(error);
+  }
+};
+
+/**
+ * Resume a failed or cancelled generation from its saved plan and content blocks
+ */
+export const resumeGen = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const { id } = req.params;
+    const resumed = await resumeGeneration(id, req.user.userId);
+
+    res.status(200).json(resumed);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Assignment not found') {
+        res.status(404).json({
+          error: 'Not Found',
+          message: error.message,
+        } as APIError);
+        return;
+      }
+      if (error.message === 'Unauthorized') {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        } as APIError);
+        return;
+      }
+      if (error.message === 'Only failed or cancelled assignments can be resumed') {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: error.message,
+        } as APIError);
+        return;
+      }
+      if (error.message === 'Generation is still stopping') {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'The cancelled generation is still stopping - try again in a few seconds',
+        } as APIError);
+        return;
+      }
+      if (error.message.includes('Insufficient tokens')) {
+        res.status(402).json({
+          error: 'Payment Required',
+          message: error.message,
+        } as APIError);
+        return;
+      }
+    }
+    next(error);
+  }
+};
+
+/**
+ * Cancel a queued or running generation. Finished blocks are kept and charged.
+ */
+export const cancelGen = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const { id } = req.params;
+    const assignment = await cancelGeneration(id, 'Cancelled by student', req.user.userId);
+
+    res.status(200).json({
+      id: assignment.id,
+      assignmentId: assignment.id,
+      status: assignment.status,
+      message: 'Generation cancelled',
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Assignment not found') {
+        res.status(404).json({
+          error: 'Not Found',
+          message: error.message,
+        } as APIError);
+        return;
+      }
+      if (error.message === 'Unauthorized') {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: error.message,
+        } as APIError);
+        return;
+      }
+      if (error.message === 'Only generating assignments can be cancelled') {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: error.message,
+        } as APIError);
+        return;
+      }
     }
     next(error);
   }
-};
\ No newline at end of file
+};
+
+// =============================================================================
+// PLAN PREVIEW
+// =============================================================================
+
+/**
+ * Map plan preview errors to HTTP responses. Returns true if handled.
+ */
+function sendPlanError(error: unknown, res: Response): boolean {
+  if (!(error instanceof Error)) return false;
+
+  if (error.message === 'Assignment not found') {
+    res.status(404).json({ error: 'Not Found', message: error.message } as APIError);
+    return true;
+  }
+  if (error.message === 'Unauthorized') {
+    res.status(403).json({ error: 'Forbidden', message: error.message } as APIError);
+    return true;
+  }
+  if (
+    error.message === 'The plan can only be changed before generation starts' ||
+    error.message === 'Preview the plan before editing it' ||
+    error.message.startsWith('Invalid plan:')
+  ) {
+    res.status(400).json({ error: 'Bad Request', message: error.message } as APIError);
+    return true;
+  }
+  if (error.message.includes('Insufficient tokens')) {
+    res.status(402).json({ error: 'Payment Required', message: error.message } as APIError);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Plan the assignment without writing content: outline, tables, images and a
+ * token estimate. Body { refresh: true } plans again (charged) and drops earlier edits.
+ */
+export const previewPlanHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const preview = await previewPlan(req.params.id, req.user.userId, req.body?.refresh === true);
+    res.status(200).json(preview);
+  } catch (error) {
+    if (sendPlanError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Save the student's edits to the previewed plan (order, custom sections, tables)
+ */
+export const updatePlanHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const preview = await updateAssignmentPlan(req.params.id, req.user.userId, req.body);
+    res.status(200).json(preview);
+  } catch (error) {
+    if (sendPlanError(error, res)) return;
+    next(error);
+  }
+};
+
+// =============================================================================
+// SINGLE BLOCK REGENERATION
+// =============================================================================
+
+/**
+ * Map block service errors to HTTP responses. Returns true if handled.
+ */
+function sendBlockError(error: unknown, res: Response): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const notFound = ['Assignment not found', 'Content block not found', 'No previous version to restore', 'Version not found'];
+  const badRequest = [
+    'Only completed assignments can be edited',
+    'Version is already current',
+    'Assignment has no outline to rebuild from',
+    'sectionId or criterionCode is required',
+    'This block cannot be regenerated',
+    'Invalid block content',
+  ];
+
+  if (notFound.includes(error.message)) {
+    res.status(404).json({ error: 'Not Found', message: error.message } as APIError);
+    return true;
+  }
+  if (error.message === 'Unauthorized') {
+    res.status(403).json({ error: 'Forbidden', message: error.message } as APIError);
+    return true;
+  }
+  if (badRequest.includes(error.message)) {
+    res.status(400).json({ error: 'Bad Request', message: error.message } as APIError);
+    return true;
+  }
+  if (error.message.includes('Insufficient tokens')) {
+    res.status(402).json({ error: 'Payment Required', message: error.message } as APIError);
+    return true;
+  }
+  if (error.message === 'Block is already being regenerated') {
+    res.status(409).json({ error: 'Conflict', message: error.message } as APIError);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Regenerate one content block (by sectionId or criterionCode) and rebuild the DOCX
+ */
+export const regenerateBlockHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const { sectionId, criterionCode, instructions } = req.body || {};
+
+    if (instructions !== undefined && (typeof instructions !== 'string' || instructions.length > 2000)) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Instructions must be text of at most 2000 characters',
+      } as APIError);
+      return;
+    }
+
+    const result = await regenerateBlock(req.params.id, req.user.userId, {
+      sectionId,
+      criterionCode,
+      instructions,
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    if (sendBlockError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Restore the previous version of a content block and rebuild the DOCX
+ */
+export const rollbackBlockHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const { sectionId, criterionCode, revisionId } = req.body || {};
+    const result = await rollbackBlock(req.params.id, req.user.userId, {
+      sectionId,
+      criterionCode,
+      revisionId,
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    if (sendBlockError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Save a manual edit of a content block (autosave from the editor)
+ */
+export const editBlockHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const { sectionId, criterionCode, content } = req.body || {};
+    const result = await editBlock(
+      req.params.id,
+      { sectionId, criterionCode, content },
+      req.user.userId,
+      req.user.userId
+    );
+
+    res.status(200).json(result);
+  } catch (error) {
+    if (sendBlockError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * List previous versions of the assignment's blocks
+ */
+export const listBlockRevisions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const revisions = await getBlockRevisions(req.params.id, req.user.userId);
+    res.status(200).json({ revisions });
+  } catch (error) {
+    if (sendBlockError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Version history of the assignment (newest first)
+ */
+export const listVersions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const versions = await listAssignmentVersions(req.params.id, req.user.userId);
+    res.status(200).json({ versions });
+  } catch (error) {
+    if (sendBlockError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Compare two versions block by block (?from=1&to=2)
+ */
+export const compareVersions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const from = parseInt(String(req.query.from), 10);
+    const to = parseInt(String(req.query.to), 10);
+    if (!from || !to) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'from and to version numbers are required',
+      } as APIError);
+      return;
+    }
+
+    const comparison = await compareAssignmentVersions(req.params.id, from, to, req.user.userId);
+    res.status(200).json(comparison);
+  } catch (error) {
+    if (sendBlockError(error, res)) return;
+    next(error);
+  }
+};
+
+/**
+ * Restore an earlier version (recorded as a new version, nothing is charged)
+ */
+export const restoreVersion = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const version = await restoreAssignmentVersion(
+      req.params.id,
+      parseInt(req.params.version, 10),
+      req.user.userId,
+      req.user.userId
+    );
+    res.status(200).json({ version });
+  } catch (error) {
+    if (sendBlockError(error, res)) return;
+    next(error);
+  }
+};
@@ -1,7 +1,9 @@
 import { Response, NextFunction } from 'express';
+import { Grade, Language } from '@prisma/client';
 import { AuthRequest } from '../middlewares/auth';
 import { createBriefSchema } from '../utils/validation';
 import { createBrief, getBriefs, getBriefById, updateBrief, deleteBrief, getBriefsWithStats } from '../services/brief.service';
+import { estimateGeneration } from '../services/estimate.service';
 import { APIError } from '../types';
 
 export const create = async (
@@ -175,3 +177,47 @@ export const getMyBriefsWithStats = async (
     next(error);
   }
 };
+
+export const estimate = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const grade = String(req.query.grade || '').toUpperCase() as Grade;
+    const language = (req.query.language as Language | undefined) || undefined;
+
+    if (!Object.values(Grade).includes(grade)) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Grade must be PASS, MERIT or DISTINCTION',
+      } as APIError);
+      return;
+    }
+
+    if (language && !Object.values(Language).includes(language)) {
+      res.status(400).json({
+        error: 'Validation Error',
+        message: 'Unsupported language',
+      } as APIError);
+      return;
+    }
+
+    const result = await estimateGeneration({
+      briefId: req.params.id,
+      grade,
+      language,
+      includeTables: req.query.includeTables === 'true',
+    });
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Brief not found') {
+      res.status(404).json({
+        error: 'Not Found',
+        message: error.message,
+      } as APIError);
+      return;
+    }
+    next(error);
+  }
+};
@@ -0,0 +1,76 @@
+// =============================================================================
+// BTEC GENERATOR - EXPORT CONTROLLER
+// =============================================================================
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../middlewares/auth';
+import { exportAssignment, getExportFormats } from '../services/export.service';
+import { APIError } from '../types';
+
+export const listFormats = async (
+  _req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.status(200).json({ formats: getExportFormats() });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Header-safe file name, with the original in filename* for non-ASCII unit names
+function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export const download = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      } as APIError);
+      return;
+    }
+
+    const format = typeof req.query.format === 'string' ? req.query.format : 'docx';
+    // Admins can export any assignment
+    const ownerId = req.user.role === 'ADMIN' ? undefined : req.user.userId;
+    const file = await exportAssignment(req.params.id, format, ownerId);
+
+    res.setHeader('Content-Type', file.mimeType);
+    res.setHeader('Content-Disposition', contentDisposition(file.fileName));
+    res.setHeader('Content-Length', file.buffer.length);
+    res.status(200).send(file.buffer);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (
+        error.message === 'Assignment not found' ||
+        error.message === 'Unauthorized access to assignment'
+      ) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: error.message,
+        } as APIError);
+        return;
+      }
+      if (
+        error.message.startsWith('Unsupported export format') ||
+        error.message === 'Assignment is not yet completed'
+      ) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: error.message,
+        } as APIError);
+        return;
+      }
+    }
+    next(error);
+  }
+};
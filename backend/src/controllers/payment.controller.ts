@@ -8,6 +8,7 @@ import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../middlewares/auth';
 import { PaymentPlanType, PaymentMethod, Grade, PaymentStatus } from '@prisma/client';
 import * as paymentService from '../services/payment.service';
+import { estimateGeneration, GenerationEstimate } from '../services/estimate.service';
 import { APIError } from '../types';
 
 // =============================================================================
@@ -191,7 +192,8 @@ export const cancelPayment = async (
 
 /**
  * POST /api/payments/calculate-custom
- * Calculate price for custom plan
+ * Calculate price for custom plan.
+ * With briefId + grade the token need is estimated; tokens may then be omitted.
  */
 export const calculateCustomPrice = async (
   req: AuthRequest,
@@ -199,23 +201,48 @@ export const calculateCustomPrice = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { tokens } = req.body;
+    const { tokens, grade, briefId, language, includeTables } = req.body;
 
-    if (!tokens || tokens < paymentService.MIN_CUSTOM_TOKENS) {
+    if (grade && !Object.values(Grade).includes(grade)) {
+      res.status(400).json({ error: 'Validation Error', message: 'Invalid grade' } as APIError);
+      return;
+    }
+
+    let estimate: GenerationEstimate | null = null;
+    if (briefId) {
+      if (!grade) {
+        res.status(400).json({ error: 'Validation Error', message: 'Grade is required to estimate a brief' } as APIError);
+        return;
+      }
+      estimate = await estimateGeneration({ briefId, grade, language, includeTables: !!includeTables });
+    }
+
+    const minTokens = grade ? paymentService.getMinTokensForGrade(grade) : paymentService.MIN_CUSTOM_TOKENS;
+    const requestedTokens = tokens || (estimate ? Math.max(estimate.recommendedTokens, minTokens) : 0);
+
+    if (!requestedTokens || requestedTokens < minTokens) {
       res.status(400).json({ 
         error: 'Validation Error', 
-        message: `Minimum tokens is ${paymentService.MIN_CUSTOM_TOKENS}` 
+        message: `Minimum tokens is ${minTokens}` 
       } as APIError);
       return;
     }
 
-    const price = paymentService.calculateCustomPlanPrice(tokens);
+    const price = paymentService.calculateCustomPlanPrice(requestedTokens, grade);
     res.status(200).json({ 
-      tokens, 
+      tokens: requestedTokens, 
       price,
       priceFormatted: price.toLocaleString('uz-UZ') + ' UZS',
+      minTokens,
+      estimate,
+      // Fewer tokens than predicted - generation would likely run out
+      insufficient: estimate ? requestedTokens < estimate.totalTokens : false,
     });
   } catch (error) {
+    if (error instanceof Error && error.message === 'Brief not found') {
+      res.status(404).json({ error: 'Not Found', message: error.message } as APIError);
+      return;
+    }
     next(error);
   }
 };
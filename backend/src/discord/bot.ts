@@ -73,6 +73,14 @@ const slashCommands = [
         .setDescription('Assignment ID')
         .setRequired(true)),
   
+  new SlashCommandBuilder()
+    .setName('cancel')
+    .setDescription('Cancel a running generation')
+    .addStringOption(option =>
+      option.setName('id')
+        .setDescription('Assignment ID')
+        .setRequired(true)),
+  
   new SlashCommandBuilder()
     .setName('payments')
     .setDescription('View your payment history'),
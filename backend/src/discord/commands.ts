@@ -11,6 +11,8 @@ import {
 } from 'discord.js';
 import { discordBotService } from './service';
 import { SUPER_ADMIN_DISCORD_ID } from './types';
+import { DEFAULT_MODEL, MODEL_PURPOSES, ModelRoute, ModelRoutingTable } from '../ai';
+import type { GenerationEstimate } from '../services/estimate.service';
 
 // ============================================
 // MESSAGE FORMATTERS (No Emojis)
@@ -100,6 +102,63 @@ function formatAssignment(assignment: any): EmbedBuilder {
     .setTimestamp();
 }
 
+function formatRoute(route: ModelRoute): string {
+  let text = route.model || `${DEFAULT_MODEL} (default)`;
+  if (route.temperature !== undefined) text += ` | temp ${route.temperature}`;
+  if (route.maxTokens !== undefined) text += ` | max ${route.maxTokens}`;
+  if (route.fallbackModels?.length) text += `\nFallbacks: ${route.fallbackModels.join(' > ')}`;
+  return text;
+}
+
+function formatEstimate(estimate: GenerationEstimate, minTokens: Record<string, number>): EmbedBuilder {
+  const byType = new Map<string, number>();
+  for (const item of estimate.items) {
+    byType.set(item.type, (byType.get(item.type) || 0) + item.totalTokens);
+  }
+  const recommended = Math.max(estimate.recommendedTokens, minTokens[estimate.grade] || 0);
+  const fromHistory = estimate.items.filter((item) => item.source === 'history').length;
+
+  return new EmbedBuilder()
+    .setTitle(`Token Estimate - ${estimate.unitCode} ${estimate.grade}`)
+    .setColor(0x000000)
+    .setDescription(estimate.unitName)
+    .addFields(
+      { name: 'Predicted Tokens', value: estimate.totalTokens.toLocaleString(), inline: true },
+      { name: 'Prompt / Completion', value: `${estimate.promptTokens.toLocaleString()} / ${estimate.completionTokens.toLocaleString()}`, inline: true },
+      { name: 'Recommended Purchase', value: `**${recommended.toLocaleString()}** tokens`, inline: true },
+      {
+        name: 'Breakdown',
+        value: Array.from(byType.entries()).map(([type, tokens]) => `${type}: ${tokens.toLocaleString()}`).join('\n'),
+        inline: false,
+      },
+      {
+        name: 'Based On',
+        value: `${fromHistory}/${estimate.items.length} sections from ${estimate.historyAssignments} past assignment(s), rest from length rules`,
+        inline: false,
+      }
+    )
+    .setFooter({ text: `Tables: ${estimate.includeTables ? 'yes' : 'no'} • Buy with !buy custom ${estimate.grade} ${recommended}` })
+    .setTimestamp();
+}
+
+function formatModelRouting(table: ModelRoutingTable): EmbedBuilder {
+  const embed = new EmbedBuilder()
+    .setTitle('AI Model Routing')
+    .setColor(0x000000)
+    .setDescription(`Default model: \`${DEFAULT_MODEL}\``);
+
+  for (const purpose of MODEL_PURPOSES) {
+    const route = table.purposes[purpose] || {};
+    let value = formatRoute(route);
+    for (const [grade, gradeRoute] of Object.entries(route.grades || {})) {
+      value += `\n${grade}: ${formatRoute(gradeRoute)}`;
+    }
+    embed.addFields({ name: purpose, value: value.substring(0, 1024) });
+  }
+
+  return embed.setTimestamp();
+}
+
 // ============================================
 // COMMAND DEFINITIONS
 // ============================================
@@ -135,10 +194,12 @@ const commands: CommandHandler[] = [
       helpText += '`!tokens` - View token balance\n';
       helpText += '`!assignments` - List your assignments\n';
       helpText += '`!assignment <id>` - View assignment status\n';
+      helpText += '`!cancel <id>` - Cancel a running generation\n';
       helpText += '\n**Payment Commands:**\n';
       helpText += '`!buy` - View available plans\n';
       helpText += '`!buy <P|PM|PMD>` - Start a plan purchase\n';
       helpText += '`!buy custom <grade> <tokens>` - Buy custom tokens\n';
+      helpText += '`!buy estimate <unit code> <grade> [tables]` - Estimate tokens for a brief\n';
       helpText += '`!payments` - View payment history\n';
       helpText += '`!support` - Get support info\n';
 
@@ -166,6 +227,7 @@ const commands: CommandHandler[] = [
         helpText += '`!admin unsuspend <userId>` - Unsuspend user\n';
         helpText += '`!admin logs` - Recent system logs\n';
         helpText += '`!admin users` - List all users\n';
+        helpText += '`!admin models` - View AI model routing\n';
       }
 
       await reply(helpText);
@@ -301,6 +363,29 @@ const commands: CommandHandler[] = [
     },
   },
 
+  {
+    name: 'cancel',
+    description: 'Cancel a running generation',
+    usage: '!cancel <id>',
+    execute: async (args, user, reply) => {
+      if (!args[0]) {
+        await reply('Usage: `!cancel <assignmentId>`');
+        return;
+      }
+
+      const linkedUser = await discordBotService.getUserByDiscordId(user.id);
+      if (!linkedUser && !discordBotService.isAdmin(user.id)) {
+        await reply('Account not linked. Use `!link <email>` first.');
+        return;
+      }
+
+      // Admins can cancel any assignment, students only their own
+      const ownerId = discordBotService.isAdmin(user.id) ? undefined : linkedUser!.id;
+      const result = await discordBotService.cancelAssignment(args[0], ownerId);
+      await reply(result.message);
+    },
+  },
+
   {
     name: 'payments',
     description: 'View your payment history',
@@ -358,7 +443,7 @@ Website: https://btec-generator.com`;
   {
     name: 'buy',
     description: 'View plans and start a purchase',
-    usage: '!buy [plan] OR !buy custom <grade> <tokens>',
+    usage: '!buy [plan] OR !buy custom <grade> <tokens|unit code> OR !buy estimate <unit code> <grade> [tables]',
     execute: async (args, user, reply) => {
       const { prisma } = await import('../lib/prisma');
       const { PAYMENT_PLANS, CUSTOM_MIN_TOKENS, getPaymentCard } = await import('../services/payment.service');
@@ -392,7 +477,7 @@ Website: https://btec-generator.com`;
             },
             { 
               name: '🔧 Custom Plan', 
-              value: `**1 UZS per token** - One assignment only\n• Min: 20,000 tokens (PASS/MERIT)\n• Min: 25,000 tokens (DISTINCTION)\n\n\`!buy custom PASS 25000\``, 
+              value: `**1 UZS per token** - One assignment only\n• Min: 20,000 tokens (PASS/MERIT)\n• Min: 25,000 tokens (DISTINCTION)\n\n\`!buy custom PASS 25000\`\nNot sure how many? \`!buy estimate <unit code> <grade>\``, 
               inline: false 
             }
           )
@@ -403,6 +488,23 @@ Website: https://btec-generator.com`;
         return;
       }
 
+      // Token estimate for a brief - no account needed
+      if (args[0].toUpperCase() === 'ESTIMATE') {
+        if (!args[1] || !args[2]) {
+          await reply('❌ Usage: `!buy estimate <unit code> <PASS|MERIT|DISTINCTION> [tables]`\n\nExample: `!buy estimate U4 MERIT tables`');
+          return;
+        }
+
+        const result = await discordBotService.estimateBriefTokens(args[1], args[2], args[3]?.toLowerCase() === 'tables');
+        if (!result.success || !result.estimate) {
+          await reply(`❌ ${result.message}`);
+          return;
+        }
+
+        await reply({ embeds: [formatEstimate(result.estimate, CUSTOM_MIN_TOKENS)] });
+        return;
+      }
+
       // Check if user is linked
       if (!linkedUser) {
         await reply('❌ Please link your account first using `!link <code>` (get the code from the website dashboard).');
@@ -428,7 +530,7 @@ Website: https://btec-generator.com`;
       // Handle custom plan
       if (planArg === 'CUSTOM') {
         const grade = args[1]?.toUpperCase();
-        const tokens = parseInt(args[2] || '0');
+        let tokens = parseInt(args[2] || '0');
 
         if (!grade || !['PASS', 'MERIT', 'DISTINCTION'].includes(grade)) {
           await reply('❌ Invalid grade. Usage: `!buy custom <PASS|MERIT|DISTINCTION> <tokens>`\n\nExample: `!buy custom MERIT 25000`');
@@ -436,6 +538,16 @@ Website: https://btec-generator.com`;
         }
 
         const minTokens = CUSTOM_MIN_TOKENS[grade as keyof typeof CUSTOM_MIN_TOKENS];
+
+        // A unit code instead of a number buys the estimated amount
+        if (args[2] && isNaN(tokens)) {
+          const result = await discordBotService.estimateBriefTokens(args[2], grade, args[3]?.toLowerCase() === 'tables');
+          if (!result.success || !result.estimate) {
+            await reply(`❌ ${result.message}`);
+            return;
+          }
+          tokens = Math.max(result.estimate.recommendedTokens, minTokens);
+        }
         if (!tokens || tokens < minTokens) {
           await reply(`❌ Minimum tokens for ${grade} grade is **${minTokens.toLocaleString()}**.\n\nUsage: \`!buy custom ${grade} ${minTokens}\``);
           return;
@@ -669,7 +781,11 @@ Website: https://btec-generator.com`;
 \`!admin users\` - List all users
 \`!admin card\` - View current payment card
 \`!admin set-card <newCard>\` - Change payment card (DMs verification code)
-\`!admin verify-card <code>\` - Verify and apply card change`);
+\`!admin verify-card <code>\` - Verify and apply card change
+\`!admin models\` - View AI model routing
+\`!admin set-model <purpose> [grade] <model> [temperature] [maxTokens]\` - Route a purpose to a model
+\`!admin set-fallbacks <purpose> [grade] <model1,model2,...>\` - Set fallback chain
+\`!admin reset-model <purpose> [grade]\` - Reset a route to the default model`);
         return;
       }
 
@@ -866,6 +982,45 @@ Expires: ${result.expiresAt?.toLocaleDateString()}`);
         return;
       }
 
+      // View model routing
+      if (subcommand === 'models') {
+        const table = await discordBotService.getModelRouting();
+        await reply({ embeds: [formatModelRouting(table)] });
+        return;
+      }
+
+      // Model routing changes: <purpose> [grade] ...
+      if (['set-model', 'set-fallbacks', 'reset-model'].includes(subcommand) && args[1]) {
+        const purpose = args[1];
+        const hasGrade = ['PASS', 'MERIT', 'DISTINCTION'].includes(args[2]?.toUpperCase());
+        const grade = hasGrade ? args[2] : null;
+        const rest = args.slice(hasGrade ? 3 : 2);
+
+        let changes: ModelRoute | null = null;
+
+        if (subcommand === 'set-model') {
+          if (!rest[0]) {
+            await reply('Usage: `!admin set-model <purpose> [grade] <model> [temperature] [maxTokens]`');
+            return;
+          }
+          changes = {
+            model: rest[0],
+            ...(rest[1] !== undefined && { temperature: parseFloat(rest[1]) }),
+            ...(rest[2] !== undefined && { maxTokens: parseInt(rest[2], 10) }),
+          };
+        } else if (subcommand === 'set-fallbacks') {
+          if (!rest[0]) {
+            await reply('Usage: `!admin set-fallbacks <purpose> [grade] <model1,model2,...>`');
+            return;
+          }
+          changes = { fallbackModels: rest.join(',').split(',').map(m => m.trim()).filter(Boolean) };
+        }
+
+        const result = await discordBotService.updateModelRoute(purpose, grade, changes, user.id);
+        await reply(result.message);
+        return;
+      }
+
       await reply('Unknown subcommand. Use `!admin help` for available commands.');
     },
   },
@@ -922,6 +1077,7 @@ export async function handleSlashCommand(interaction: ChatInputCommandInteractio
     'tokens': { command: 'tokens', args: () => [] },
     'assignments': { command: 'assignments', args: () => [] },
     'assignment': { command: 'assignment', args: () => [interaction.options.getString('id') || ''] },
+    'cancel': { command: 'cancel', args: () => [interaction.options.getString('id') || ''] },
     'payments': { command: 'payments', args: () => [] },
     'support': { command: 'support', args: () => [] },
     'admin-overview': { command: 'admin', args: () => ['overview'] },
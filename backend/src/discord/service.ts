@@ -4,7 +4,19 @@
  */
 
 import { prisma } from '../lib/prisma';
+import { Grade } from '@prisma/client';
 import { SUPER_ADMIN_DISCORD_ID, WebsiteRole } from './types';
+import {
+  MODEL_PURPOSES,
+  ROUTING_GRADES,
+  ModelPurpose,
+  ModelRoute,
+  PurposeRoute,
+  getModelRoutingTable,
+  setModelRoute,
+} from '../ai';
+import { estimateGeneration, GenerationEstimate } from '../services/estimate.service';
+import { cancelGeneration } from '../services/queue.service';
 
 export class DiscordBotService {
   // ============================================
@@ -351,6 +363,29 @@ export class DiscordBotService {
     });
   }
 
+  /**
+   * Cancel a queued or running generation. Pass ownerId to enforce
+   * ownership (student), omit for admin.
+   */
+  async cancelAssignment(assignmentId: string, ownerId?: string) {
+    try {
+      await cancelGeneration(
+        assignmentId,
+        ownerId ? 'Cancelled by student (Discord)' : 'Cancelled by admin (Discord)',
+        ownerId
+      );
+      return { success: true, message: 'Generation cancelled. Finished sections are kept and charged.' };
+    } catch (error: any) {
+      if (error.message === 'Unauthorized') {
+        return { success: false, message: 'You do not have permission to cancel this assignment.' };
+      }
+      if (error.message === 'Assignment not found' || error.message === 'Only generating assignments can be cancelled') {
+        return { success: false, message: `${error.message}.` };
+      }
+      throw error;
+    }
+  }
+
   // ============================================
   // BRIEF OPERATIONS (TEACHER)
   // ============================================
@@ -463,6 +498,87 @@ export class DiscordBotService {
     });
     return setting?.value || '9680 3501 4687 8359';
   }
+
+  // ============================================
+  // MODEL ROUTING
+  // ============================================
+
+  async getModelRouting() {
+    return getModelRoutingTable();
+  }
+
+  // Merge changes into one purpose / grade route (changes = null clears it)
+  async updateModelRoute(
+    purposeInput: string,
+    gradeInput: string | null,
+    changes: ModelRoute | null,
+    discordId: string
+  ): Promise<{ success: boolean; message: string }> {
+    const purpose = purposeInput.toUpperCase() as ModelPurpose;
+    if (!MODEL_PURPOSES.includes(purpose)) {
+      return { success: false, message: `Unknown purpose. Use one of: ${MODEL_PURPOSES.join(', ')}` };
+    }
+
+    const grade = gradeInput ? (gradeInput.toUpperCase() as Grade) : null;
+    if (grade && !ROUTING_GRADES.includes(grade)) {
+      return { success: false, message: `Unknown grade. Use one of: ${ROUTING_GRADES.join(', ')}` };
+    }
+
+    let route: ModelRoute | null = null;
+    if (changes) {
+      const table = await getModelRoutingTable();
+      const purposeRoute = table.purposes[purpose];
+      const existing: PurposeRoute = (grade ? purposeRoute?.grades?.[grade] : purposeRoute) || {};
+      route = {
+        model: existing.model,
+        temperature: existing.temperature,
+        maxTokens: existing.maxTokens,
+        fallbackModels: existing.fallbackModels,
+        ...changes,
+      };
+    }
+
+    try {
+      await setModelRoute(purpose, grade, route, discordId);
+    } catch (error: any) {
+      return { success: false, message: error.message };
+    }
+
+    const target = grade ? `${purpose}/${grade}` : purpose;
+    return { success: true, message: route ? `Route for ${target} updated` : `Route for ${target} reset to default` };
+  }
+
+  // ============================================
+  // TOKEN ESTIMATES
+  // ============================================
+
+  // Brief reference is a brief ID or a unit code (newest published brief wins)
+  async estimateBriefTokens(
+    briefRef: string,
+    gradeInput: string,
+    includeTables: boolean
+  ): Promise<{ success: boolean; message: string; estimate?: GenerationEstimate }> {
+    const grade = gradeInput.toUpperCase() as Grade;
+    if (!Object.values(Grade).includes(grade)) {
+      return { success: false, message: 'Invalid grade. Use PASS, MERIT or DISTINCTION' };
+    }
+
+    const brief = await prisma.brief.findFirst({
+      where: {
+        status: 'PUBLISHED',
+        OR: [{ id: briefRef }, { unitCode: { equals: briefRef, mode: 'insensitive' } }],
+      },
+      orderBy: { updatedAt: 'desc' },
+      select: { id: true },
+    });
+
+    if (!brief) {
+      return { success: false, message: `No published brief found for \`${briefRef}\`` };
+    }
+
+    const estimate = await estimateGeneration({ briefId: brief.id, grade, includeTables });
+    return { success: true, message: 'Estimate ready', estimate };
+  }
 }
 
 export const discordBotService = new DiscordBotService();
@@ -0,0 +1,257 @@
+// =============================================================================
+// EXPORT DOCUMENT
+// =============================================================================
+// Turns GeneratedContent into a flat list of headings, paragraphs, tables,
+// figures and references. Numbering, captions and the evidence appendix follow
+// docx.service, so every format reads the same as the DOCX - including the
+// fixed text, which comes from utils/locale in the assignment's language.
+
+import { Grade, Language } from '@prisma/client';
+import { AtomicContentBlock, EvidenceChecklistItem, GeneratedContent } from '../types';
+import { evidenceLocation, evidenceStatusLabel } from '../services/docx.service';
+import { WritingGuidance } from '../services/guidance.service';
+import { DocumentLocale, getDocumentLocale } from '../utils/locale';
+import { ExportBlock, ExportDocument } from './types';
+
+function paragraphs(text: string | undefined): ExportBlock[] {
+  return (text || '')
+    .split('\n\n')
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map((paragraph) => ({ kind: 'paragraph', text: paragraph }));
+}
+
+export function buildExportDocument(
+  content: GeneratedContent,
+  unitName: string,
+  unitCode: string,
+  language: Language
+): ExportDocument {
+  const locale = getDocumentLocale(language);
+  const blocks = content.atomicBlocks && content.atomicBlocks.length > 0
+    ? fromAtomicBlocks(content.atomicBlocks, locale)
+    : fromLegacyStructure(content, locale);
+
+  if (content.evidenceChecklist && content.evidenceChecklist.length > 0) {
+    blocks.push(...evidenceAppendix(content.evidenceChecklist, locale));
+  }
+
+  return { title: `${unitName} (${unitCode})`, language: locale.language, blocks };
+}
+
+function fromAtomicBlocks(atomicBlocks: AtomicContentBlock[], locale: DocumentLocale): ExportBlock[] {
+  const blocks: ExportBlock[] = [];
+  let sectionNumber = 0;
+  let tableCounter = 1;
+  let figureCounter = 1;
+  let currentAimNumber = 0;
+  const numbered = (title: string) => `${locale.number(sectionNumber)}. ${title}`;
+
+  for (const block of atomicBlocks) {
+    switch (block.type) {
+      case 'INTRODUCTION':
+        sectionNumber++;
+        blocks.push({ kind: 'heading', level: 1, text: numbered(locale.text('introduction')) });
+        blocks.push(...paragraphs(block.content));
+        break;
+
+      case 'LEARNING_AIM': {
+        sectionNumber++;
+        currentAimNumber++;
+        const aimCode = block.aimCode || String.fromCharCode(64 + currentAimNumber);
+        blocks.push({ kind: 'heading', level: 1, text: numbered(block.aimTitle || locale.text('learningAim', { code: aimCode })) });
+        blocks.push(...paragraphs(block.aimContent));
+        break;
+      }
+
+      case 'TASK':
+        sectionNumber++;
+        blocks.push({ kind: 'heading', level: 1, text: numbered(block.taskTitle || locale.text('task', { number: block.taskNumber || 1 })) });
+        break;
+
+      case 'CUSTOM':
+        sectionNumber++;
+        blocks.push({ kind: 'heading', level: 1, text: numbered(block.title || locale.text('additionalSection')) });
+        blocks.push(...paragraphs(block.content));
+        break;
+
+      case 'CRITERION':
+        blocks.push({ kind: 'heading', level: 2, text: block.criterionTitle || block.criterionCode || 'A.P1' });
+        blocks.push(...paragraphs(block.criterionContent));
+        if (block.table) {
+          blocks.push({
+            kind: 'table',
+            headers: block.table.headers,
+            rows: block.table.rows,
+            caption: block.table.caption || locale.text('tableCaption', { number: tableCounter, caption: locale.text('dataTable') }),
+          });
+          tableCounter++;
+        }
+        if (block.image) {
+          blocks.push({
+            kind: 'figure',
+            caption: block.image.caption || locale.text('figureCaption', {
+              number: figureCounter,
+              caption: block.image.description || locale.text('diagram'),
+            }),
+          });
+          figureCounter++;
+        }
+        break;
+
+      case 'CONCLUSION':
+        sectionNumber++;
+        blocks.push({ kind: 'heading', level: 1, text: numbered(locale.text('conclusion')) });
+        blocks.push(...paragraphs(block.content));
+        break;
+
+      case 'REFERENCES':
+        sectionNumber++;
+        blocks.push({ kind: 'heading', level: 1, text: numbered(locale.text('references')) });
+        if (block.references && block.references.length > 0) {
+          const sorted = [...block.references].sort((a, b) => (a.id || a.order || 0) - (b.id || b.order || 0));
+          blocks.push({
+            kind: 'references',
+            items: sorted.map((ref) => ({ number: ref.id || ref.order || 1, text: ref.text })),
+          });
+        }
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Content generated before atomic blocks: one section per learning aim with
+ * optional structured criteria
+ */
+function fromLegacyStructure(content: GeneratedContent, locale: DocumentLocale): ExportBlock[] {
+  const blocks: ExportBlock[] = [];
+  let tableCounter = 1;
+  let figureCounter = 1;
+
+  if (content.introduction) {
+    blocks.push({ kind: 'heading', level: 1, text: locale.text('introduction') });
+    blocks.push(...paragraphs(content.introduction));
+  }
+
+  let learningAimLetter = 'A';
+  for (const section of content.sections || []) {
+    if (!section.heading || !section.content) continue;
+
+    const heading = section.heading.replace(/^Learning Aim [A-Z]\s*[-–:]?\s*/i, '');
+    blocks.push({ kind: 'heading', level: 1, text: locale.text('aimHeading', { code: learningAimLetter, title: heading }) });
+
+    if (section.criteria && section.criteria.length > 0) {
+      blocks.push(...paragraphs(section.content.split('\n\n')[0]));
+      for (const criterion of section.criteria) {
+        const code = /^[PMD]\d+$/i.test(criterion.code) || !criterion.code.includes('.')
+          ? `${learningAimLetter}.${criterion.code.toUpperCase()}`
+          : criterion.code.toUpperCase();
+        blocks.push({ kind: 'heading', level: 2, text: code });
+        blocks.push(...paragraphs(criterion.content));
+      }
+    } else {
+      blocks.push(...paragraphs(section.content));
+    }
+
+    for (const table of section.tables || []) {
+      blocks.push({
+        kind: 'table',
+        headers: table.headers,
+        rows: table.rows,
+        caption: locale.text('tableCaption', { number: tableCounter, caption: table.caption || locale.text('dataTable') }),
+      });
+      tableCounter++;
+    }
+    for (const image of section.images || []) {
+      blocks.push({
+        kind: 'figure',
+        caption: locale.text('figureCaption', { number: figureCounter, caption: image.description || locale.text('diagram') }),
+      });
+      figureCounter++;
+    }
+
+    learningAimLetter = String.fromCharCode(learningAimLetter.charCodeAt(0) + 1);
+  }
+
+  if (content.conclusion) {
+    blocks.push({ kind: 'heading', level: 1, text: locale.text('conclusion') });
+    blocks.push(...paragraphs(content.conclusion));
+  }
+
+  if (content.references && content.references.length > 0) {
+    const sorted = [...content.references].sort((a, b) =>
+      a.order !== b.order ? (a.order || 0) - (b.order || 0) : (a.text || '').localeCompare(b.text || '')
+    );
+    blocks.push({ kind: 'heading', level: 1, text: locale.text('references') });
+    blocks.push({ kind: 'references', items: sorted.map((ref, index) => ({ number: index + 1, text: ref.text })) });
+  }
+
+  return blocks;
+}
+
+function evidenceAppendix(checklist: EvidenceChecklistItem[], locale: DocumentLocale): ExportBlock[] {
+  return [
+    { kind: 'heading', level: 1, text: locale.text('evidenceAppendix'), pageBreakBefore: true },
+    { kind: 'paragraph', text: locale.text('evidenceIntro', { missing: locale.text('evidenceMissing') }) },
+    {
+      kind: 'table',
+      headers: [locale.text('evidenceRequired'), locale.text('evidenceStatus'), locale.text('evidenceLocation')],
+      rows: checklist.map((entry) => [
+        entry.item,
+        evidenceStatusLabel(entry.status, locale),
+        evidenceLocation(entry, locale),
+      ]),
+      caption: '',
+    },
+  ];
+}
+
+/**
+ * Writing guidance as an appendix - the same sections as the guidance panel
+ * in the app. The checklist is left out; the evidence appendix already has it.
+ */
+export function buildGuidanceBlocks(guidance: WritingGuidance, grade: Grade, language: Language): ExportBlock[] {
+  const locale = getDocumentLocale(language);
+  const gradeName = grade.charAt(0) + grade.slice(1).toLowerCase();
+  const { overview } = guidance;
+  const blocks: ExportBlock[] = [
+    { kind: 'heading', level: 1, text: locale.text('guidanceAppendix'), pageBreakBefore: true },
+    { kind: 'paragraph', text: locale.text('guidanceIntro') },
+    { kind: 'heading', level: 2, text: locale.text('guidanceOverview') },
+    { kind: 'heading', level: 3, text: locale.text('guidanceAbout') },
+    ...paragraphs(overview.whatThisIsAbout),
+    { kind: 'heading', level: 3, text: locale.text('guidanceAssessor') },
+    { kind: 'list', items: overview.whatAssessorLooksFor || [] },
+    { kind: 'heading', level: 3, text: locale.text('guidanceStructure') },
+    ...paragraphs(overview.howToStructure),
+    { kind: 'heading', level: 3, text: locale.text('guidanceGrade', { grade: gradeName }) },
+    ...paragraphs(overview.howToReachGrade),
+  ];
+
+  for (const criterion of guidance.criteriaGuidance || []) {
+    blocks.push(
+      { kind: 'heading', level: 2, text: criterion.criterionCode },
+      { kind: 'heading', level: 3, text: locale.text('criterionGoal') },
+      ...paragraphs(criterion.criterionGoal),
+      { kind: 'heading', level: 3, text: locale.text('criterionInclude') },
+      { kind: 'list', items: criterion.whatToInclude || [] },
+      { kind: 'heading', level: 3, text: locale.text('criterionApproach') },
+      ...paragraphs(criterion.howToApproach),
+      { kind: 'heading', level: 3, text: locale.text('criterionMistakes') },
+      { kind: 'list', items: criterion.commonMistakes || [] },
+      { kind: 'heading', level: 3, text: locale.text('criterionDepth') },
+      ...paragraphs(criterion.gradeDepthReminder)
+    );
+  }
+
+  // Drop headings of sections the guidance left empty
+  return blocks.filter((block, i) => {
+    if (block.kind === 'list') return block.items.length > 0;
+    if (block.kind !== 'heading' || block.level !== 3) return true;
+    const next = blocks[i + 1];
+    return !!next && !(next.kind === 'heading') && !(next.kind === 'list' && next.items.length === 0);
+  });
+}
@@ -0,0 +1,23 @@
+import fs from 'fs';
+import { generateDocx } from '../services/docx.service';
+import { ExportFormat } from './types';
+
+export const docxFormat: ExportFormat = {
+  id: 'docx',
+  label: 'Word (DOCX)',
+  extension: 'docx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  async render(input) {
+    if (input.docxPath && fs.existsSync(input.docxPath)) {
+      return fs.readFileSync(input.docxPath);
+    }
+
+    // Build a one-off copy - the stored docxUrl is managed by the generation pipeline
+    const file = await generateDocx(input.assignmentId, input.content, input.unitName, input.unitCode, input.docx);
+    try {
+      return fs.readFileSync(file);
+    } finally {
+      fs.unlinkSync(file);
+    }
+  },
+};
@@ -0,0 +1,132 @@
+// =============================================================================
+// HTML EXPORT
+// =============================================================================
+// One self-contained page (inline stylesheet, no scripts or external assets)
+// styled like the DOCX, with a linked table of contents. Copying from the
+// browser into Google Docs or a Moodle editor keeps headings, tables and lists.
+
+import { buildExportDocument, buildGuidanceBlocks } from './document';
+import { ExportBlock, ExportDocument, ExportFormat } from './types';
+import { DocumentLocale, getDocumentLocale } from '../utils/locale';
+
+const STYLESHEET = `
+body { font-family: 'Times New Roman', Times, serif; font-size: 14pt; line-height: 1.5; max-width: 48em; margin: 2em auto; padding: 0 1em; color: #000; }
+h1, h2 { text-align: center; font-size: 16pt; }
+h3, h4 { text-align: left; font-size: 14pt; }
+p { text-align: justify; text-indent: 0.5in; margin: 0; }
+nav p, .references li, li { text-indent: 0; }
+nav ul { list-style: none; padding-left: 0; }
+nav ul ul { padding-left: 1.5em; }
+table { width: 100%; border-collapse: collapse; margin: 0.5em 0; }
+th, td { border: 1px solid #000; padding: 4px; text-align: center; vertical-align: top; line-height: 1.15; }
+.caption { text-align: center; text-indent: 0; font-weight: bold; font-style: italic; margin-bottom: 0.75em; }
+.figure { border: 1px solid #000; text-align: center; text-indent: 0; font-weight: bold; padding: 4px; margin-top: 0.75em; }
+.appendix { page-break-before: always; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderBlock(block: ExportBlock, anchor: string | null, locale: DocumentLocale): string {
+  switch (block.kind) {
+    case 'heading': {
+      const tag = `h${block.level + 1}`;
+      const attributes = [
+        anchor ? ` id="${anchor}"` : '',
+        block.pageBreakBefore ? ' class="appendix"' : '',
+      ].join('');
+      return `<${tag}${attributes}>${escapeHtml(block.text)}</${tag}>`;
+    }
+    case 'paragraph':
+      return `<p>${escapeHtml(block.text).replace(/\n/g, '<br>')}</p>`;
+    case 'list':
+      return `<ul>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    case 'table': {
+      const columns = Math.max(block.headers.length, ...block.rows.map((row) => row.length), 1);
+      const cells = (row: string[], tag: 'th' | 'td') =>
+        Array.from({ length: columns }, (_, i) => `<${tag}>${escapeHtml(row[i] || '')}</${tag}>`).join('');
+      const head = block.headers.length > 0 ? `<thead><tr>${cells(block.headers, 'th')}</tr></thead>` : '';
+      const body = `<tbody>${block.rows.map((row) => `<tr>${cells(row, 'td')}</tr>`).join('')}</tbody>`;
+      const caption = block.caption ? `\n<p class="caption">${escapeHtml(block.caption)}</p>` : '';
+      return `<table>${head}${body}</table>${caption}`;
+    }
+    case 'figure':
+      return `<p class="figure">${escapeHtml(locale.text('imagePlaceholder'))}</p>\n<p class="caption">${escapeHtml(block.caption)}</p>`;
+    case 'references':
+      return `<ol class="references">${block.items
+        .map((item) => `<li value="${item.number}">${escapeHtml(item.text)}</li>`)
+        .join('')}</ol>`;
+  }
+}
+
+/**
+ * Contents for headings 1-2 (as the DOCX field), nested by level
+ */
+function renderContents(entries: Array<{ level: number; text: string; anchor: string }>): string {
+  let html = '<ul>';
+  let nested = false;
+  entries.forEach((entry, i) => {
+    if (entry.level === 2 && !nested && i > 0) {
+      html += '<ul>';
+      nested = true;
+    } else if (entry.level === 1 && nested) {
+      html += '</li></ul></li>';
+      nested = false;
+    } else if (i > 0) {
+      html += '</li>';
+    }
+    html += `<li><a href="#${entry.anchor}">${escapeHtml(entry.text)}</a>`;
+  });
+  if (entries.length > 0) html += nested ? '</li></ul></li>' : '</li>';
+  return html + '</ul>';
+}
+
+export function renderHtml(document: ExportDocument): string {
+  const locale = getDocumentLocale(document.language);
+  const contents: Array<{ level: number; text: string; anchor: string }> = [];
+  const body = document.blocks.map((block) => {
+    if (block.kind !== 'heading' || block.level === 3) return renderBlock(block, null, locale);
+    const anchor = `section-${contents.length + 1}`;
+    contents.push({ level: block.level, text: block.text, anchor });
+    return renderBlock(block, anchor, locale);
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${locale.tag}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(document.title)}</title>`,
+    `<style>${STYLESHEET}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(document.title)}</h1>`,
+    '<nav>',
+    `<h2>${escapeHtml(locale.text('tableOfContents'))}</h2>`,
+    renderContents(contents),
+    '</nav>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+export const htmlFormat: ExportFormat = {
+  id: 'html',
+  label: 'HTML',
+  extension: 'html',
+  mimeType: 'text/html; charset=utf-8',
+  async render(input) {
+    const document = buildExportDocument(input.content, input.unitName, input.unitCode, input.language);
+    if (input.guidance) {
+      document.blocks.push(...buildGuidanceBlocks(input.guidance, input.grade, input.language));
+    }
+    return Buffer.from(renderHtml(document), 'utf8');
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Export Formats
+ * Registry of the formats an assignment can be downloaded in
+ * (GET /api/export/:id?format=...). Every format renders from the stored
+ * GeneratedContent; all but DOCX go through the format-neutral document in
+ * ./document. Markdown and HTML also carry the writing guidance as an appendix.
+ */
+
+import { ExportFormat } from './types';
+import { docxFormat } from './docx';
+import { pdfFormat } from './pdf';
+import { markdownFormat } from './markdown';
+import { htmlFormat } from './html';
+
+export * from './types';
+export { buildExportDocument, buildGuidanceBlocks } from './document';
+export { renderPdf } from './pdf';
+export { renderMarkdown } from './markdown';
+export { renderHtml } from './html';
+
+const formats = new Map<string, ExportFormat>();
+
+export function registerExportFormat(format: ExportFormat): void {
+  formats.set(format.id, format);
+}
+
+export function getExportFormat(id: string): ExportFormat | undefined {
+  return formats.get(id);
+}
+
+export function listExportFormats(): ExportFormat[] {
+  return [...formats.values()];
+}
+
+registerExportFormat(docxFormat);
+registerExportFormat(pdfFormat);
+registerExportFormat(markdownFormat);
+registerExportFormat(htmlFormat);
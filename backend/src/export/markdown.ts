@@ -0,0 +1,61 @@
+// =============================================================================
+// MARKDOWN EXPORT
+// =============================================================================
+// Plain Markdown for pasting into LMS editors (Moodle, Google Docs) or a quick
+// look at the output. The document title is the only # heading, so H1 and H2
+// sections become ## and ###.
+
+import { buildExportDocument, buildGuidanceBlocks } from './document';
+import { ExportBlock, ExportDocument, ExportFormat } from './types';
+import { DocumentLocale, getDocumentLocale } from '../utils/locale';
+
+// Markers that would turn the start of a line into a heading, quote or list
+function escapeLine(text: string): string {
+  return text.replace(/^(\s*)([#>+\-*]|\d+[.)])(?=\s)/, '$1\\$2');
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function renderBlock(block: ExportBlock, locale: DocumentLocale): string {
+  switch (block.kind) {
+    case 'heading':
+      return `${'#'.repeat(block.level + 1)} ${block.text}`;
+    case 'paragraph':
+      return block.text.split('\n').map(escapeLine).join('  \n');
+    case 'list':
+      return block.items.map((item) => `- ${item}`).join('\n');
+    case 'table': {
+      const columns = Math.max(block.headers.length, ...block.rows.map((row) => row.length), 1);
+      const row = (cells: string[]) =>
+        `| ${Array.from({ length: columns }, (_, i) => escapeCell(cells[i] || '')).join(' | ')} |`;
+      const lines = [row(block.headers), `|${' --- |'.repeat(columns)}`, ...block.rows.map(row)];
+      if (block.caption) lines.push('', `***${block.caption}***`);
+      return lines.join('\n');
+    }
+    case 'figure':
+      return `> ${locale.text('imagePlaceholder')}\n\n***${block.caption}***`;
+    case 'references':
+      return block.items.map((item) => `${item.number}. ${item.text}`).join('\n');
+  }
+}
+
+export function renderMarkdown(document: ExportDocument): string {
+  const locale = getDocumentLocale(document.language);
+  return [`# ${document.title}`, ...document.blocks.map((block) => renderBlock(block, locale))].join('\n\n') + '\n';
+}
+
+export const markdownFormat: ExportFormat = {
+  id: 'markdown',
+  label: 'Markdown',
+  extension: 'md',
+  mimeType: 'text/markdown; charset=utf-8',
+  async render(input) {
+    const document = buildExportDocument(input.content, input.unitName, input.unitCode, input.language);
+    if (input.guidance) {
+      document.blocks.push(...buildGuidanceBlocks(input.guidance, input.grade, input.language));
+    }
+    return Buffer.from(renderMarkdown(document), 'utf8');
+  },
+};
@@ -0,0 +1,675 @@
+// =============================================================================
+// PDF EXPORT
+// =============================================================================
+// Lays the export document out on A4 pages and writes the PDF directly - no
+// LibreOffice or conversion service. The layout follows docx.service: Times
+// New Roman 14pt, 1.5 line spacing, justified body text with a 0.5 inch first
+// line indent, centred H1s, numbered table and figure captions and a table of
+// contents, here with real page numbers and links. Fonts are embedded as
+// subsets of the first family findFonts() locates.
+
+import fs from 'fs';
+import path from 'path';
+import { deflateSync } from 'zlib';
+import { TrueTypeFont } from './ttf';
+import { buildExportDocument } from './document';
+import { ExportDocument, ExportFormat } from './types';
+import { getDocumentLocale } from '../utils/locale';
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 72; // 1 inch, the Word default
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+const FONT_SIZE = 14;
+const HEADING_1_SIZE = 16;
+const FOOTER_SIZE = 10;
+const LINE_SPACING = 1.5;
+const FIRST_LINE_INDENT = 36; // 0.5 inch
+const HANGING_INDENT = 18; // References
+const TOC_INDENT = 18; // Criterion entries
+const CELL_PADDING = 4;
+
+// =============================================================================
+// FONTS
+// =============================================================================
+
+type FontStyle = 'regular' | 'bold' | 'boldItalic';
+
+// Times New Roman (Windows / macOS / msttcorefonts), then the metric-compatible
+// Liberation Serif, then DejaVu Serif
+const FONT_FAMILIES: Array<Record<FontStyle, string>> = [
+  { regular: 'times.ttf', bold: 'timesbd.ttf', boldItalic: 'timesbi.ttf' },
+  { regular: 'Times New Roman.ttf', bold: 'Times New Roman Bold.ttf', boldItalic: 'Times New Roman Bold Italic.ttf' },
+  { regular: 'Times_New_Roman.ttf', bold: 'Times_New_Roman_Bold.ttf', boldItalic: 'Times_New_Roman_Bold_Italic.ttf' },
+  { regular: 'LiberationSerif-Regular.ttf', bold: 'LiberationSerif-Bold.ttf', boldItalic: 'LiberationSerif-BoldItalic.ttf' },
+  { regular: 'DejaVuSerif.ttf', bold: 'DejaVuSerif-Bold.ttf', boldItalic: 'DejaVuSerif-BoldItalic.ttf' },
+];
+
+function fontDirectories(): string[] {
+  return [
+    process.env.PDF_FONT_DIR,
+    path.join(process.cwd(), 'fonts'),
+    'C:\\Windows\\Fonts',
+    '/Library/Fonts',
+    '/System/Library/Fonts/Supplemental',
+    '/usr/share/fonts/truetype/msttcorefonts',
+    '/usr/share/fonts/truetype/liberation',
+    '/usr/share/fonts/truetype/liberation2',
+    '/usr/share/fonts/liberation', // Alpine ttf-liberation
+    '/usr/share/fonts/truetype/dejavu',
+  ].filter((dir): dir is string => !!dir);
+}
+
+const loadedFonts = new Map<string, TrueTypeFont>();
+
+function loadFont(file: string): TrueTypeFont {
+  let font = loadedFonts.get(file);
+  if (!font) {
+    font = TrueTypeFont.load(file);
+    loadedFonts.set(file, font);
+  }
+  return font;
+}
+
+/**
+ * Faces of the first family found (PDF_FONT_DIR first). A missing bold italic
+ * falls back to bold, a missing bold to regular.
+ */
+function findFonts(): Record<FontStyle, TrueTypeFont> {
+  for (const dir of fontDirectories()) {
+    for (const family of FONT_FAMILIES) {
+      const file = (style: FontStyle) => path.join(dir, family[style]);
+      if (!fs.existsSync(file('regular'))) continue;
+
+      const regular = loadFont(file('regular'));
+      const bold = fs.existsSync(file('bold')) ? loadFont(file('bold')) : regular;
+      const boldItalic = fs.existsSync(file('boldItalic')) ? loadFont(file('boldItalic')) : bold;
+      return { regular, bold, boldItalic };
+    }
+  }
+
+  throw new Error('No TrueType font found for PDF export - set PDF_FONT_DIR to a folder containing times.ttf');
+}
+
+/**
+ * A font as used by one document: text is written as two-byte glyph ids and
+ * every glyph used is remembered for the subset and the ToUnicode map
+ */
+class PdfFont {
+  readonly used = new Map<number, number>(); // glyph id -> code point
+  referenced = false;
+
+  constructor(readonly resource: string, readonly ttf: TrueTypeFont) {}
+
+  // Single line height and ascent, in ems
+  get lineHeight(): number {
+    return (this.ttf.ascender - this.ttf.descender + this.ttf.lineGap) / this.ttf.unitsPerEm;
+  }
+
+  get ascent(): number {
+    return this.ttf.ascender / this.ttf.unitsPerEm;
+  }
+
+  width(text: string, size: number): number {
+    let units = 0;
+    for (const char of text) {
+      units += this.ttf.advance(this.ttf.glyphId(char.codePointAt(0)!));
+    }
+    return (units * size) / this.ttf.unitsPerEm;
+  }
+
+  encode(text: string): string {
+    this.referenced = true;
+    let hex = '';
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!;
+      const gid = this.ttf.glyphId(codePoint);
+      if (gid !== 0) this.used.set(gid, codePoint);
+      hex += gid.toString(16).padStart(4, '0');
+    }
+    return `<${hex}>`;
+  }
+}
+
+// =============================================================================
+// LAYOUT
+// =============================================================================
+
+interface TextStyle {
+  font: PdfFont;
+  size: number;
+  spacing: number; // Line spacing multiple
+}
+
+interface Page {
+  ops: string[];
+  links: Array<{ rect: [number, number, number, number]; heading: number }>;
+}
+
+type Align = 'left' | 'center' | 'justify';
+
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+// Words wider than a line (long URLs in references) are broken between characters
+function splitWord(word: string, style: TextStyle, width: number): string[] {
+  if (style.font.width(word, style.size) <= width) return [word];
+
+  const pieces: string[] = [];
+  let piece = '';
+  for (const char of word) {
+    if (piece && style.font.width(piece + char, style.size) > width) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += char;
+  }
+  if (piece) pieces.push(piece);
+  return pieces;
+}
+
+/**
+ * Greedy line breaking - returns the words of each line
+ */
+function wrap(text: string, style: TextStyle, firstWidth: number, width: number): string[][] {
+  const lines: string[][] = [];
+  const space = style.font.width(' ', style.size);
+  let line: string[] = [];
+  let lineWidth = 0;
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    for (const piece of splitWord(word, style, Math.min(firstWidth, width))) {
+      const limit = lines.length === 0 ? firstWidth : width;
+      const pieceWidth = style.font.width(piece, style.size);
+      if (line.length > 0 && lineWidth + space + pieceWidth > limit) {
+        lines.push(line);
+        line = [];
+        lineWidth = 0;
+      }
+      lineWidth += (line.length > 0 ? space : 0) + pieceWidth;
+      line.push(piece);
+    }
+  }
+
+  if (line.length > 0) lines.push(line);
+  return lines;
+}
+
+class Layout {
+  readonly pages: Page[] = [];
+  // Page index and top edge of every heading, in document order
+  readonly headings: Array<{ page: number; top: number }> = [];
+  private y = 0;
+
+  constructor(readonly fonts: Record<FontStyle, PdfFont>) {
+    this.newPage();
+  }
+
+  get body(): TextStyle {
+    return { font: this.fonts.regular, size: FONT_SIZE, spacing: LINE_SPACING };
+  }
+
+  private get page(): Page {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private get atPageTop(): boolean {
+    return this.y === PAGE_HEIGHT - MARGIN;
+  }
+
+  newPage(): void {
+    this.pages.push({ ops: [], links: [] });
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  breakPage(): void {
+    if (!this.atPageTop) this.newPage();
+  }
+
+  // Space before a block - dropped at the top of a page
+  spaceBefore(points: number): void {
+    if (!this.atPageTop) this.y -= points;
+  }
+
+  spaceAfter(points: number): void {
+    this.y -= points;
+  }
+
+  private ensure(height: number): void {
+    if (this.y - height < MARGIN && !this.atPageTop) this.newPage();
+  }
+
+  private lineHeight(style: TextStyle): number {
+    return style.size * style.font.lineHeight * style.spacing;
+  }
+
+  // Extra line spacing is split above and below the text
+  private baseline(top: number, style: TextStyle): number {
+    const single = style.size * style.font.lineHeight;
+    return top - (this.lineHeight(style) - single) / 2 - style.size * style.font.ascent;
+  }
+
+  private text(words: string[], style: TextStyle, x: number, baseline: number, extraSpace = 0): void {
+    const { font, size } = style;
+    const shown = extraSpace > 0 && words.length > 1
+      ? `[${words.map((word, i) => font.encode(i === 0 ? word : ` ${word}`)).join(` ${fmt((-extraSpace * 1000) / size)} `)}] TJ`
+      : `${font.encode(words.join(' '))} Tj`;
+    this.page.ops.push(`BT /${font.resource} ${fmt(size)} Tf ${fmt(x)} ${fmt(baseline)} Td ${shown} ET`);
+  }
+
+  private rect(x: number, y: number, width: number, height: number): void {
+    this.page.ops.push(`${fmt(x)} ${fmt(y)} ${fmt(width)} ${fmt(height)} re S`);
+  }
+
+  measure(text: string, style: TextStyle, width = CONTENT_WIDTH): number {
+    return wrap(text, style, width, width).length * this.lineHeight(style);
+  }
+
+  paragraph(text: string, style: TextStyle, align: Align, firstIndent = 0, indent = 0): void {
+    const lines = wrap(text, style, CONTENT_WIDTH - firstIndent, CONTENT_WIDTH - indent);
+    const lineHeight = this.lineHeight(style);
+    const space = style.font.width(' ', style.size);
+
+    lines.forEach((words, i) => {
+      this.ensure(lineHeight);
+      const offset = i === 0 ? firstIndent : indent;
+      const available = CONTENT_WIDTH - offset;
+      const natural = style.font.width(words.join(' '), style.size);
+      const baseline = this.baseline(this.y, style);
+
+      if (align === 'center') {
+        this.text(words, style, MARGIN + offset + (available - natural) / 2, baseline);
+      } else if (align === 'justify' && i < lines.length - 1 && words.length > 1) {
+        const extra = (available - natural) / (words.length - 1);
+        this.text(words, style, MARGIN + offset, baseline, extra > space * 4 ? 0 : extra);
+      } else {
+        this.text(words, style, MARGIN + offset, baseline);
+      }
+      this.y -= lineHeight;
+    });
+  }
+
+  // index: position in the contents, null for headings it leaves out
+  heading(text: string, level: 1 | 2 | 3, index: number | null): void {
+    const style: TextStyle = {
+      font: this.fonts.bold,
+      size: level === 1 ? HEADING_1_SIZE : FONT_SIZE,
+      spacing: 1,
+    };
+
+    this.spaceBefore(level === 1 ? 20 : 15);
+    // Keep the heading with the first lines of what follows
+    this.ensure(this.measure(text, style) + 10 + 2 * this.lineHeight(this.body));
+    if (index !== null) this.headings[index] = { page: this.pages.length - 1, top: this.y };
+    this.paragraph(text, style, level === 1 ? 'center' : 'left');
+    this.spaceAfter(10);
+  }
+
+  caption(text: string): void {
+    if (!text) return;
+    this.paragraph(text, { font: this.fonts.boldItalic, size: FONT_SIZE, spacing: 1 }, 'center');
+    this.spaceAfter(10);
+  }
+
+  /**
+   * Bordered table with equal columns; the header row repeats on every page
+   */
+  table(headers: string[], rows: string[][]): void {
+    const columns = Math.max(headers.length, ...rows.map((row) => row.length), 1);
+    const columnWidth = CONTENT_WIDTH / columns;
+    const cellWidth = columnWidth - 2 * CELL_PADDING;
+
+    const layoutRow = (cells: string[], style: TextStyle) => {
+      const lines = Array.from({ length: columns }, (_, i) => wrap(cells[i] || '', style, cellWidth, cellWidth));
+      const height = Math.max(1, ...lines.map((cell) => cell.length)) * this.lineHeight(style) + 2 * CELL_PADDING;
+      return { lines, height, style };
+    };
+
+    const drawRow = (row: ReturnType<typeof layoutRow>) => {
+      const lineHeight = this.lineHeight(row.style);
+      row.lines.forEach((lines, column) => {
+        const x = MARGIN + column * columnWidth;
+        this.rect(x, this.y - row.height, columnWidth, row.height);
+        lines.forEach((words, i) => {
+          const natural = row.style.font.width(words.join(' '), row.style.size);
+          const baseline = this.baseline(this.y - CELL_PADDING - i * lineHeight, row.style);
+          this.text(words, row.style, x + (columnWidth - natural) / 2, baseline);
+        });
+      });
+      this.y -= row.height;
+    };
+
+    const header = headers.length > 0 ? layoutRow(headers, { font: this.fonts.bold, size: FONT_SIZE, spacing: 1 }) : null;
+    const body = rows.map((row) => layoutRow(row, { font: this.fonts.regular, size: FONT_SIZE, spacing: 1 }));
+
+    this.spaceBefore(6);
+    this.ensure((header?.height || 0) + (body[0]?.height || 0));
+    if (header) drawRow(header);
+    for (const row of body) {
+      if (this.y - row.height < MARGIN) {
+        this.newPage();
+        if (header) drawRow(header);
+      }
+      drawRow(row);
+    }
+    this.spaceAfter(6);
+  }
+
+  figure(label: string, caption: string): void {
+    const style: TextStyle = { font: this.fonts.bold, size: FONT_SIZE, spacing: 1 };
+    const boxHeight = this.lineHeight(style) + 2 * CELL_PADDING;
+
+    this.spaceBefore(10);
+    this.ensure(boxHeight + 5 + this.measure(caption, style));
+    this.rect(MARGIN, this.y - boxHeight, CONTENT_WIDTH, boxHeight);
+    this.text(
+      [label],
+      style,
+      MARGIN + (CONTENT_WIDTH - style.font.width(label, style.size)) / 2,
+      this.baseline(this.y - CELL_PADDING, style)
+    );
+    this.y -= boxHeight + 5;
+    this.caption(caption);
+  }
+
+  /**
+   * Contents entries with dot leaders and right-aligned page numbers. Numbers
+   * get a fixed slot, so the layout is the same with or without them.
+   */
+  contents(entries: Array<{ level: 1 | 2; text: string }>, pageNumbers: number[] | null): void {
+    const style: TextStyle = { font: this.fonts.regular, size: FONT_SIZE, spacing: 1.15 };
+    const lineHeight = this.lineHeight(style);
+    const numberSlot = style.font.width('0000', style.size);
+    const dotWidth = style.font.width('.', style.size);
+    const right = PAGE_WIDTH - MARGIN;
+
+    entries.forEach((entry, index) => {
+      const indent = entry.level === 2 ? TOC_INDENT : 0;
+      const width = CONTENT_WIDTH - indent - numberSlot - 2 * dotWidth;
+      const lines = wrap(entry.text, style, width, width);
+
+      lines.forEach((words, i) => {
+        this.ensure(lineHeight);
+        const x = MARGIN + indent;
+        const baseline = this.baseline(this.y, style);
+        this.text(words, style, x, baseline);
+
+        if (i === lines.length - 1) {
+          const textEnd = x + style.font.width(words.join(' '), style.size) + dotWidth;
+          const dots = Math.floor((right - numberSlot - dotWidth - textEnd) / dotWidth);
+          if (dots > 0) {
+            this.text(['.'.repeat(dots)], style, right - numberSlot - dotWidth - dots * dotWidth, baseline);
+          }
+          if (pageNumbers) {
+            const number = String(pageNumbers[index]);
+            this.text([number], style, right - style.font.width(number, style.size), baseline);
+          }
+        }
+
+        this.page.links.push({ rect: [MARGIN, this.y - lineHeight, right, this.y], heading: index });
+        this.y -= lineHeight;
+      });
+    });
+  }
+
+  // Page numbers in the footer of every page after the first
+  footers(): void {
+    const style: TextStyle = { font: this.fonts.regular, size: FOOTER_SIZE, spacing: 1 };
+    this.pages.forEach((page, index) => {
+      if (index === 0) return;
+      const number = String(index + 1);
+      const x = (PAGE_WIDTH - style.font.width(number, style.size)) / 2;
+      page.ops.push(`BT /${style.font.resource} ${fmt(style.size)} Tf ${fmt(x)} ${fmt(MARGIN / 2)} Td ${style.font.encode(number)} Tj ET`);
+    });
+  }
+}
+
+function layoutDocument(document: ExportDocument, fonts: Record<FontStyle, PdfFont>, pageNumbers: number[] | null): Layout {
+  const layout = new Layout(fonts);
+  const locale = getDocumentLocale(document.language);
+  const titleStyle: TextStyle = { font: fonts.bold, size: HEADING_1_SIZE, spacing: 1 };
+
+  // COVER - title, then the table of contents
+  layout.paragraph(document.title, titleStyle, 'center');
+  layout.spaceAfter(20);
+  layout.paragraph(locale.text('tableOfContents'), titleStyle, 'center');
+  layout.spaceAfter(10);
+
+  // Contents list headings 1-2, like the DOCX field
+  const headings = document.blocks.flatMap((block) =>
+    block.kind === 'heading' && block.level !== 3 ? [{ level: block.level, text: block.text }] : []
+  );
+  layout.contents(headings, pageNumbers);
+  layout.newPage();
+
+  let headingIndex = 0;
+  for (const block of document.blocks) {
+    switch (block.kind) {
+      case 'heading':
+        if (block.pageBreakBefore) layout.breakPage();
+        layout.heading(block.text, block.level, block.level === 3 ? null : headingIndex++);
+        break;
+      case 'paragraph':
+        layout.paragraph(block.text, layout.body, 'justify', FIRST_LINE_INDENT);
+        break;
+      case 'list':
+        for (const item of block.items) {
+          layout.paragraph(`\u2022 ${item}`, layout.body, 'left', 0, HANGING_INDENT);
+        }
+        break;
+      case 'table':
+        layout.table(block.headers, block.rows);
+        layout.caption(block.caption);
+        break;
+      case 'figure':
+        layout.figure(locale.text('imagePlaceholder'), block.caption);
+        break;
+      case 'references':
+        for (const item of block.items) {
+          layout.paragraph(`${item.number}. ${item.text}`, layout.body, 'left', 0, HANGING_INDENT);
+          layout.spaceAfter(6);
+        }
+        break;
+    }
+  }
+
+  layout.footers();
+  return layout;
+}
+
+// =============================================================================
+// PDF FILE
+// =============================================================================
+
+// Text strings outside ASCII are written as UTF-16BE with a byte order mark
+function pdfString(text: string): string {
+  return `<FEFF${Buffer.from(text, 'utf16le').swap16().toString('hex')}>`;
+}
+
+function toUnicodeMap(font: PdfFont): Buffer {
+  const entries = [...font.used.entries()].sort(([a], [b]) => a - b);
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    blocks.push(
+      `${chunk.length} beginbfchar\n` +
+      chunk
+        .map(([gid, codePoint]) =>
+          `<${gid.toString(16).padStart(4, '0')}> <${Buffer.from(String.fromCodePoint(codePoint), 'utf16le').swap16().toString('hex')}>`
+        )
+        .join('\n') +
+      '\nendbfchar'
+    );
+  }
+
+  return Buffer.from(
+    [
+      '/CIDInit /ProcSet findresource begin',
+      '12 dict begin',
+      'begincmap',
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+      '/CMapName /Adobe-Identity-UCS def',
+      '/CMapType 2 def',
+      '1 begincodespacerange',
+      '<0000> <FFFF>',
+      'endcodespacerange',
+      ...blocks,
+      'endcmap',
+      'CMapName currentdict /CMap defineresource pop',
+      'end',
+      'end',
+    ].join('\n'),
+    'latin1'
+  );
+}
+
+function writePdf(layout: Layout, title: string, lang: string): Buffer {
+  const objects: Buffer[] = [];
+  const reserve = () => objects.push(Buffer.alloc(0));
+  const set = (id: number, body: string | Buffer) => {
+    objects[id - 1] = typeof body === 'string' ? Buffer.from(body, 'latin1') : body;
+  };
+  const stream = (dictionary: string, data: Buffer) => {
+    const packed = deflateSync(data);
+    return Buffer.concat([
+      Buffer.from(`<< ${dictionary} /Filter /FlateDecode /Length ${packed.length} >>\nstream\n`, 'latin1'),
+      packed,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+  };
+
+  const catalogId = reserve();
+  const pagesId = reserve();
+  const infoId = reserve();
+  const pageIds = layout.pages.map(() => reserve());
+
+  // FONTS - Type0 / CIDFontType2 with glyph ids as CIDs
+  const fontResources: string[] = [];
+  Object.values(layout.fonts).forEach((font, index) => {
+    if (!font.referenced) return;
+
+    const { ttf } = font;
+    const scale = 1000 / ttf.unitsPerEm;
+    const name = `BTECA${String.fromCharCode(65 + index)}+${ttf.postScriptName}`;
+    const original = ttf.subset(font.used.keys());
+    const widths = [...font.used.keys()]
+      .sort((a, b) => a - b)
+      .map((gid) => `${gid} [${Math.round(ttf.advance(gid) * scale)}]`)
+      .join(' ');
+
+    const fileId = reserve();
+    set(fileId, stream(`/Length1 ${original.length}`, original));
+
+    const descriptorId = reserve();
+    set(
+      descriptorId,
+      `<< /Type /FontDescriptor /FontName /${name} /Flags ${ttf.italicAngle !== 0 ? 98 : 34}` +
+      ` /FontBBox [${ttf.bbox.map((value) => Math.round(value * scale)).join(' ')}]` +
+      ` /ItalicAngle ${fmt(ttf.italicAngle)} /Ascent ${Math.round(ttf.ascender * scale)}` +
+      ` /Descent ${Math.round(ttf.descender * scale)} /CapHeight ${Math.round(ttf.capHeight * scale)}` +
+      ` /StemV 80 /FontFile2 ${fileId} 0 R >>`
+    );
+
+    const cidFontId = reserve();
+    set(
+      cidFontId,
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name}` +
+      ' /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >>' +
+      ` /FontDescriptor ${descriptorId} 0 R /DW 1000 /W [${widths}] /CIDToGIDMap /Identity >>`
+    );
+
+    const toUnicodeId = reserve();
+    set(toUnicodeId, stream('', toUnicodeMap(font)));
+
+    const fontId = reserve();
+    set(
+      fontId,
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H` +
+      ` /DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`
+    );
+    fontResources.push(`/${font.resource} ${fontId} 0 R`);
+  });
+
+  // PAGES
+  layout.pages.forEach((page, index) => {
+    const contentId = reserve();
+    set(contentId, stream('', Buffer.from(['0.5 w', ...page.ops].join('\n'), 'latin1')));
+
+    const annotationIds = page.links.map((link) => {
+      const target = layout.headings[link.heading];
+      const id = reserve();
+      set(
+        id,
+        `<< /Type /Annot /Subtype /Link /Rect [${link.rect.map(fmt).join(' ')}] /Border [0 0 0]` +
+        ` /Dest [${pageIds[target.page]} 0 R /XYZ null ${fmt(target.top)} null] >>`
+      );
+      return `${id} 0 R`;
+    });
+
+    set(
+      pageIds[index],
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]` +
+      ` /Resources << /Font << ${fontResources.join(' ')} >> >> /Contents ${contentId} 0 R` +
+      (annotationIds.length > 0 ? ` /Annots [${annotationIds.join(' ')}]` : '') +
+      ' >>'
+    );
+  });
+
+  set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R /PageMode /UseNone /Lang ${pdfString(lang)} >>`);
+  set(infoId, `<< /Title ${pdfString(title)} /Producer (BTEC Generator) >>`);
+
+  // FILE - header, objects, cross-reference table
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let position = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    offsets.push(position);
+    chunks.push(chunk);
+    position += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(position),
+    '%%EOF',
+    '',
+  ].join('\n');
+  chunks.push(Buffer.from(xref, 'latin1'));
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Render an export document to PDF. The layout runs twice: the first pass
+ * finds the page of every heading, the second prints them in the contents.
+ */
+export function renderPdf(document: ExportDocument): Buffer {
+  const faces = findFonts();
+  const fonts = (): Record<FontStyle, PdfFont> => ({
+    regular: new PdfFont('F1', faces.regular),
+    bold: new PdfFont('F2', faces.bold),
+    boldItalic: new PdfFont('F3', faces.boldItalic),
+  });
+
+  const draft = layoutDocument(document, fonts(), null);
+  const layout = layoutDocument(document, fonts(), draft.headings.map((heading) => heading.page + 1));
+  return writePdf(layout, document.title, getDocumentLocale(document.language).tag);
+}
+
+export const pdfFormat: ExportFormat = {
+  id: 'pdf',
+  label: 'PDF',
+  extension: 'pdf',
+  mimeType: 'application/pdf',
+  render: async (input) => renderPdf(buildExportDocument(input.content, input.unitName, input.unitCode, input.language)),
+};
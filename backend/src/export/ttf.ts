@@ -0,0 +1,330 @@
+// =============================================================================
+// TRUETYPE FONTS
+// =============================================================================
+// Just enough of the TrueType format to embed a font in a PDF: the character
+// map, advance widths, vertical metrics and a glyph subset, so a document only
+// carries the outlines it actually uses.
+
+import fs from 'fs';
+
+// Tables a PDF viewer needs to render an embedded TrueType font
+const SUBSET_TABLES = ['cmap', 'cvt ', 'fpgm', 'glyf', 'head', 'hhea', 'hmtx', 'loca', 'maxp', 'OS/2', 'prep'];
+
+// Composite glyph flags
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+export class TrueTypeFont {
+  readonly postScriptName: string;
+  readonly unitsPerEm: number;
+  readonly ascender: number;
+  readonly descender: number;
+  readonly lineGap: number;
+  readonly capHeight: number;
+  readonly italicAngle: number;
+  readonly bbox: [number, number, number, number];
+  readonly numGlyphs: number;
+
+  private readonly tables = new Map<string, { offset: number; length: number }>();
+  private readonly advances: number[] = [];
+  private readonly glyphs = new Map<number, number>();
+
+  constructor(private readonly data: Buffer) {
+    if (data.toString('latin1', 0, 4) === 'OTTO') {
+      throw new Error('Only TrueType outline fonts can be embedded');
+    }
+
+    const numTables = data.readUInt16BE(4);
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      this.tables.set(data.toString('latin1', record, record + 4), {
+        offset: data.readUInt32BE(record + 8),
+        length: data.readUInt32BE(record + 12),
+      });
+    }
+
+    const head = this.table('head');
+    this.unitsPerEm = data.readUInt16BE(head + 18);
+    this.bbox = [
+      data.readInt16BE(head + 36),
+      data.readInt16BE(head + 38),
+      data.readInt16BE(head + 40),
+      data.readInt16BE(head + 42),
+    ];
+
+    const hhea = this.table('hhea');
+    this.ascender = data.readInt16BE(hhea + 4);
+    this.descender = data.readInt16BE(hhea + 6);
+    this.lineGap = data.readInt16BE(hhea + 8);
+    this.numGlyphs = data.readUInt16BE(this.table('maxp') + 4);
+
+    // Glyphs past numberOfHMetrics share the last advance width
+    const hmtx = this.table('hmtx');
+    const metrics = data.readUInt16BE(hhea + 34);
+    for (let gid = 0; gid < this.numGlyphs; gid++) {
+      this.advances.push(data.readUInt16BE(hmtx + Math.min(gid, metrics - 1) * 4));
+    }
+
+    const os2 = this.tables.get('OS/2');
+    this.capHeight = os2 && data.readUInt16BE(os2.offset) >= 2
+      ? data.readInt16BE(os2.offset + 88)
+      : Math.round(this.ascender * 0.7);
+
+    const post = this.tables.get('post');
+    this.italicAngle = post
+      ? data.readInt16BE(post.offset + 4) + data.readUInt16BE(post.offset + 6) / 65536
+      : 0;
+
+    this.postScriptName = this.readPostScriptName();
+    this.readCharacterMap();
+  }
+
+  static load(file: string): TrueTypeFont {
+    return new TrueTypeFont(fs.readFileSync(file));
+  }
+
+  /**
+   * Glyph for a Unicode code point - 0 (.notdef) when the font has none
+   */
+  glyphId(codePoint: number): number {
+    return this.glyphs.get(codePoint) || 0;
+  }
+
+  /**
+   * Advance width in font units
+   */
+  advance(glyphId: number): number {
+    return this.advances[glyphId] ?? 0;
+  }
+
+  /**
+   * A copy of the font that only has outlines for the given glyphs (and the
+   * components of composite glyphs). Glyph ids stay the same, so text
+   * encoded against the full font renders unchanged.
+   */
+  subset(glyphIds: Iterable<number>): Buffer {
+    const { data } = this;
+    const offsets = this.glyphOffsets();
+    const glyf = this.table('glyf');
+
+    const keep = new Set<number>();
+    const pending = [0, ...glyphIds];
+    while (pending.length > 0) {
+      const gid = pending.pop()!;
+      if (gid >= this.numGlyphs || keep.has(gid)) continue;
+      keep.add(gid);
+      pending.push(...this.components(gid, offsets).filter((component) => !keep.has(component)));
+    }
+
+    const parts: Buffer[] = [];
+    const loca = Buffer.alloc((this.numGlyphs + 1) * 4);
+    let position = 0;
+    for (let gid = 0; gid < this.numGlyphs; gid++) {
+      loca.writeUInt32BE(position, gid * 4);
+      if (!keep.has(gid) || offsets[gid + 1] <= offsets[gid]) continue;
+      const outline = data.subarray(glyf + offsets[gid], glyf + offsets[gid + 1]);
+      parts.push(outline, Buffer.alloc((4 - (outline.length % 4)) % 4));
+      position += outline.length + ((4 - (outline.length % 4)) % 4);
+    }
+    loca.writeUInt32BE(position, this.numGlyphs * 4);
+
+    // Long loca offsets; checkSumAdjustment is recomputed below
+    const head = Buffer.from(this.tableData('head'));
+    head.writeUInt32BE(0, 8);
+    head.writeInt16BE(1, 50);
+
+    const tables: Array<[string, Buffer]> = [];
+    for (const tag of SUBSET_TABLES) {
+      if (tag === 'glyf') tables.push([tag, Buffer.concat(parts)]);
+      else if (tag === 'loca') tables.push([tag, loca]);
+      else if (tag === 'head') tables.push([tag, head]);
+      else if (this.tables.has(tag)) tables.push([tag, this.tableData(tag)]);
+    }
+
+    return buildFont(tables);
+  }
+
+  private table(tag: string): number {
+    const table = this.tables.get(tag);
+    if (!table) {
+      throw new Error(`Font has no ${tag} table`);
+    }
+    return table.offset;
+  }
+
+  private tableData(tag: string): Buffer {
+    const table = this.tables.get(tag)!;
+    return this.data.subarray(table.offset, table.offset + table.length);
+  }
+
+  private glyphOffsets(): number[] {
+    const { data } = this;
+    const loca = this.table('loca');
+    const long = data.readInt16BE(this.table('head') + 50) === 1;
+    const offsets: number[] = [];
+    for (let gid = 0; gid <= this.numGlyphs; gid++) {
+      offsets.push(long ? data.readUInt32BE(loca + gid * 4) : data.readUInt16BE(loca + gid * 2) * 2);
+    }
+    return offsets;
+  }
+
+  private components(gid: number, offsets: number[]): number[] {
+    const { data } = this;
+    if (offsets[gid + 1] <= offsets[gid]) return [];
+
+    let position = this.table('glyf') + offsets[gid];
+    if (data.readInt16BE(position) >= 0) return []; // Simple glyph
+
+    const components: number[] = [];
+    position += 10;
+    let flags: number;
+    do {
+      flags = data.readUInt16BE(position);
+      components.push(data.readUInt16BE(position + 2));
+      position += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+      if (flags & WE_HAVE_A_SCALE) position += 2;
+      else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) position += 4;
+      else if (flags & WE_HAVE_A_TWO_BY_TWO) position += 8;
+    } while (flags & MORE_COMPONENTS);
+
+    return components;
+  }
+
+  private readPostScriptName(): string {
+    const name = this.tables.get('name');
+    if (!name) return 'EmbeddedFont';
+
+    const { data } = this;
+    const count = data.readUInt16BE(name.offset + 2);
+    const strings = name.offset + data.readUInt16BE(name.offset + 4);
+    for (let i = 0; i < count; i++) {
+      const record = name.offset + 6 + i * 12;
+      if (data.readUInt16BE(record + 6) !== 6) continue;
+
+      const platform = data.readUInt16BE(record);
+      const start = strings + data.readUInt16BE(record + 10);
+      const raw = data.subarray(start, start + data.readUInt16BE(record + 8));
+      const value = platform === 3 || platform === 0
+        ? Buffer.from(raw).swap16().toString('utf16le')
+        : raw.toString('latin1');
+      const cleaned = value.replace(/[^A-Za-z0-9-]/g, '');
+      if (cleaned) return cleaned;
+    }
+    return 'EmbeddedFont';
+  }
+
+  /**
+   * Read the best Unicode subtable: full-range format 12, else BMP format 4
+   */
+  private readCharacterMap(): void {
+    const { data } = this;
+    const cmap = this.table('cmap');
+    const count = data.readUInt16BE(cmap + 2);
+
+    let best = -1;
+    let bestRank = 0;
+    for (let i = 0; i < count; i++) {
+      const record = cmap + 4 + i * 8;
+      const platform = data.readUInt16BE(record);
+      const encoding = data.readUInt16BE(record + 2);
+      const subtable = cmap + data.readUInt32BE(record + 4);
+      const format = data.readUInt16BE(subtable);
+      const rank =
+        platform === 3 && encoding === 10 && format === 12 ? 3 :
+        platform === 3 && encoding === 1 && format === 4 ? 2 :
+        platform === 0 && (format === 4 || format === 12) ? 1 : 0;
+      if (rank > bestRank) {
+        best = subtable;
+        bestRank = rank;
+      }
+    }
+
+    if (best < 0) {
+      throw new Error('Font has no Unicode character map');
+    }
+
+    if (data.readUInt16BE(best) === 12) {
+      const groups = data.readUInt32BE(best + 12);
+      for (let i = 0; i < groups; i++) {
+        const group = best + 16 + i * 12;
+        const startChar = data.readUInt32BE(group);
+        const endChar = data.readUInt32BE(group + 4);
+        const startGlyph = data.readUInt32BE(group + 8);
+        for (let code = startChar; code <= endChar; code++) {
+          this.glyphs.set(code, startGlyph + code - startChar);
+        }
+      }
+      return;
+    }
+
+    const segments = data.readUInt16BE(best + 6) / 2;
+    const ends = best + 14;
+    const starts = ends + segments * 2 + 2;
+    const deltas = starts + segments * 2;
+    const rangeOffsets = deltas + segments * 2;
+    for (let s = 0; s < segments; s++) {
+      const start = data.readUInt16BE(starts + s * 2);
+      const end = data.readUInt16BE(ends + s * 2);
+      const delta = data.readUInt16BE(deltas + s * 2);
+      const rangeOffset = data.readUInt16BE(rangeOffsets + s * 2);
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        let gid: number;
+        if (rangeOffset === 0) {
+          gid = (code + delta) & 0xffff;
+        } else {
+          gid = data.readUInt16BE(rangeOffsets + s * 2 + rangeOffset + (code - start) * 2);
+          if (gid !== 0) gid = (gid + delta) & 0xffff;
+        }
+        if (gid !== 0) this.glyphs.set(code, gid);
+      }
+    }
+  }
+}
+
+function checksum(table: Buffer): number {
+  const padded = table.length % 4 === 0 ? table : Buffer.concat([table, Buffer.alloc(4 - (table.length % 4))]);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) {
+    sum = (sum + padded.readUInt32BE(i)) >>> 0;
+  }
+  return sum;
+}
+
+/**
+ * Assemble a font file from its tables (sorted by tag, 4-byte aligned)
+ */
+function buildFont(tables: Array<[string, Buffer]>): Buffer {
+  tables.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  const count = tables.length;
+  const power = 2 ** Math.floor(Math.log2(count));
+  const header = Buffer.alloc(12 + count * 16);
+  header.writeUInt32BE(0x00010000, 0);
+  header.writeUInt16BE(count, 4);
+  header.writeUInt16BE(power * 16, 6);
+  header.writeUInt16BE(Math.log2(power), 8);
+  header.writeUInt16BE(count * 16 - power * 16, 10);
+
+  const body: Buffer[] = [];
+  let offset = header.length;
+  let headOffset = 0;
+  tables.forEach(([tag, table], i) => {
+    const record = 12 + i * 16;
+    header.write(tag, record, 4, 'latin1');
+    header.writeUInt32BE(checksum(table), record + 4);
+    header.writeUInt32BE(offset, record + 8);
+    header.writeUInt32BE(table.length, record + 12);
+    if (tag === 'head') headOffset = offset;
+
+    const padding = (4 - (table.length % 4)) % 4;
+    body.push(table, Buffer.alloc(padding));
+    offset += table.length + padding;
+  });
+
+  const font = Buffer.concat([header, ...body]);
+  font.writeUInt32BE((0xb1b0afba - checksum(font)) >>> 0, headOffset + 8);
+  return font;
+}
@@ -0,0 +1,49 @@
+import { Grade, Language } from '@prisma/client';
+import { GeneratedContent } from '../types';
+import { WritingGuidance } from '../services/guidance.service';
+import { DocxOptions } from '../services/docx.service';
+
+/**
+ * Everything a format needs to render one assignment
+ */
+export interface ExportInput {
+  assignmentId: string;
+  content: GeneratedContent;
+  unitName: string;
+  unitCode: string;
+  grade: Grade;
+  // Language of the fixed document text (headings, captions, appendices)
+  language: Language;
+  // Instructional guidance stored with the assignment (not part of the submission)
+  guidance: WritingGuidance | null;
+  // Template and cover/front sheet details for the DOCX (see template.service)
+  docx: DocxOptions;
+  // DOCX built at the end of generation, if it is still on disk
+  docxPath: string | null;
+}
+
+export interface ExportFormat {
+  id: string;          // ?format= value
+  label: string;
+  extension: string;
+  mimeType: string;
+  render(input: ExportInput): Promise<Buffer>;
+}
+
+// =============================================================================
+// FORMAT-NEUTRAL DOCUMENT
+// =============================================================================
+
+export type ExportBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string; pageBreakBefore?: boolean }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; headers: string[]; rows: string[][]; caption: string }
+  | { kind: 'figure'; caption: string }
+  | { kind: 'references'; items: Array<{ number: number; text: string }> };
+
+export interface ExportDocument {
+  title: string;
+  language: Language;
+  blocks: ExportBlock[];
+}
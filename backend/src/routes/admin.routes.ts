@@ -22,6 +22,11 @@ import {
   getAllAssignments,
   forceCompleteAssignment,
   cancelAssignment,
+  getAssignmentPlan,
+  getAssignmentVersions,
+  compareVersions,
+  restoreVersion,
+  editAssignmentBlock,
   regenerateAssignment,
   deleteAssignment,
   bulkDeleteAssignments,
@@ -30,6 +35,11 @@ import {
   exportAssignments,
   exportUsers,
   briefs,
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
   aiAnalytics,
   getTokenAnalytics,
   getRecap,
@@ -43,6 +53,8 @@ import {
   pauseAllGeneration,
   resumeAllGeneration,
   getSystemStatus,
+  getModelRouting,
+  updateModelRouting,
   // Legacy placeholders
   pauseAssignment,
   resumeAssignment,
@@ -105,6 +117,11 @@ router.get('/all-assignments', getAllAssignments);
 router.get('/assignments/:assignmentId/download', downloadAssignment);
 router.post('/assignments/:id/force-complete', forceCompleteAssignment);
 router.post('/assignments/:id/cancel', cancelAssignment);
+router.get('/assignments/:id/plan', getAssignmentPlan);
+router.get('/assignments/:id/versions', getAssignmentVersions);
+router.get('/assignments/:id/versions/compare', compareVersions);
+router.post('/assignments/:id/versions/:version/restore', restoreVersion);
+router.put('/assignments/:id/blocks', editAssignmentBlock);
 router.post('/assignments/:id/regenerate', regenerateAssignment);
 router.delete('/assignments/:id', deleteAssignment);
 
@@ -128,6 +145,15 @@ router.post('/assignments/:id/reject', rejectAssignment);
 // =============================================================================
 router.get('/briefs', briefs);
 
+// =============================================================================
+// DOCUMENT TEMPLATES
+// =============================================================================
+router.get('/templates', listTemplates);
+router.get('/templates/:id', getTemplate);
+router.post('/templates', createTemplate);
+router.put('/templates/:id', updateTemplate);
+router.delete('/templates/:id', deleteTemplate);
+
 // =============================================================================
 // EXPORT
 // =============================================================================
@@ -157,5 +183,7 @@ router.post('/issues/:issueId/in-progress', setIssueInProgress);
 router.get('/system/status', getSystemStatus);
 router.post('/system/pause-generation', pauseAllGeneration);
 router.post('/system/resume-generation', resumeAllGeneration);
+router.get('/system/model-routing', getModelRouting);
+router.put('/system/model-routing', updateModelRouting);
 
 export default router;
@@ -4,6 +4,17 @@ import {
   create,
   updateInputs,
   startGen,
+  resumeGen,
+  cancelGen,
+  previewPlanHandler,
+  updatePlanHandler,
+  regenerateBlockHandler,
+  rollbackBlockHandler,
+  editBlockHandler,
+  listBlockRevisions,
+  listVersions,
+  compareVersions,
+  restoreVersion,
   getById, 
   list, 
   download, 
@@ -51,6 +62,69 @@ router.post(
   startGen
 );
 
+// Resume a failed or cancelled generation from saved checkpoints
+router.post(
+  '/:id/resume',
+  authMiddleware,
+  requireRole(UserRole.USER, UserRole.VIP, UserRole.ADMIN),
+  resumeGen
+);
+
+// Cancel a queued or running generation (finished blocks are kept and charged)
+router.post(
+  '/:id/cancel',
+  authMiddleware,
+  requireRole(UserRole.USER, UserRole.VIP, UserRole.ADMIN),
+  cancelGen
+);
+
+// Outline dry run before generation - preview (no content written) and edit the plan
+router.post(
+  '/:id/plan/preview',
+  authMiddleware,
+  requireRole(UserRole.USER, UserRole.VIP, UserRole.ADMIN),
+  previewPlanHandler
+);
+router.put(
+  '/:id/plan',
+  authMiddleware,
+  requireRole(UserRole.USER, UserRole.VIP, UserRole.ADMIN),
+  updatePlanHandler
+);
+
+// Regenerate / roll back a single content block of a completed assignment
+router.post(
+  '/:id/blocks/regenerate',
+  authMiddleware,
+  requireRole(UserRole.USER, UserRole.VIP, UserRole.ADMIN),
+  regenerateBlockHandler
+);
+router.post(
+  '/:id/blocks/rollback',
+  authMiddleware,
+  requireRole(UserRole.USER, UserRole.VIP, UserRole.ADMIN),
+  rollbackBlockHandler
+);
+router.get('/:id/blocks/revisions', authMiddleware, listBlockRevisions);
+
+// Save a manual edit of a content block (editor autosave)
+router.put(
+  '/:id/blocks',
+  authMiddleware,
+  requireRole(UserRole.USER, UserRole.VIP, UserRole.ADMIN),
+  editBlockHandler
+);
+
+// Assignment versions - history, block-by-block diff and restore
+router.get('/:id/versions', authMiddleware, listVersions);
+router.get('/:id/versions/compare', authMiddleware, compareVersions);
+router.post(
+  '/:id/versions/:version/restore',
+  authMiddleware,
+  requireRole(UserRole.USER, UserRole.VIP, UserRole.ADMIN),
+  restoreVersion
+);
+
 router.get('/', authMiddleware, list);
 router.get('/:id', authMiddleware, getById);
 router.get('/:id/download', authMiddleware, download);
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { create, list, getById, update, remove, getMyBriefsWithStats } from '../controllers/brief.controller';
+import { create, list, getById, update, remove, getMyBriefsWithStats, estimate } from '../controllers/brief.controller';
 import { authMiddleware } from '../middlewares/auth';
 import { requireRole } from '../middlewares/role';
 import { UserRole } from '@prisma/client';
@@ -12,6 +12,7 @@ router.get('/my-stats', authMiddleware, requireRole(UserRole.ADMIN, UserRole.TEA
 router.post('/', authMiddleware, requireRole(UserRole.ADMIN, UserRole.TEACHER), create);
 router.get('/', authMiddleware, list);
 router.get('/:id', authMiddleware, getById);
+router.get('/:id/estimate', authMiddleware, estimate);
 router.put('/:id', authMiddleware, requireRole(UserRole.ADMIN, UserRole.TEACHER), update);
 router.delete('/:id', authMiddleware, requireRole(UserRole.ADMIN, UserRole.TEACHER), remove);
 
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { listFormats, download } from '../controllers/export.controller';
+import { authMiddleware } from '../middlewares/auth';
+
+const router = Router();
+
+// Formats the frontend can offer
+router.get('/formats', authMiddleware, listFormats);
+
+// Download a completed assignment: ?format=docx|pdf|markdown|html (default docx)
+router.get('/:id', authMiddleware, download);
+
+export default router;
@@ -14,7 +14,7 @@ router.post('/start/:assignmentId', authMiddleware, async (req: AuthRequest, res
     const result = await startGeneration(req.params.assignmentId, req.user!.userId);
     res.json(result);
   } catch (error: any) {
-    res.status(500).json({ message: error.message });
+    res.status(error.message?.includes('Insufficient tokens') ? 402 : 500).json({ message: error.message });
   }
 });
 
@@ -0,0 +1,134 @@
+// =============================================================================
+// BTEC GENERATOR - CANCEL / RESUME TOKEN CHECK
+// =============================================================================
+// Runs a fixture for a paying student through the real queue with the
+// recorded AI responses, cancels it at the first criterion, resumes it and
+// lets it complete. The student must pay once for every block: the blocks
+// charged on cancel are not charged again when the resumed run settles.
+// Exits with 1 on failure.
+//
+// Point DATABASE_URL at a test database with no other queued jobs - scratch
+// rows are created and deleted during the run.
+//
+// Usage: npx tsx src/scripts/checkCancelResume.ts <fixture.json>
+// =============================================================================
+
+import { prisma } from '../lib/prisma';
+import { AIProvider, ReplayProvider, useAIProvider } from '../ai';
+import { cancelGeneration } from '../services/queue.service';
+import { resumeGeneration, startGeneration } from '../services/generation.service';
+import { createScratchAssignment, deleteScratchAssignment, readFixture } from './generationHarness';
+
+const STARTING_BALANCE = 1_000_000;
+const JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
+async function waitForJobs(assignmentId: string) {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  while (await prisma.generationJob.count({ where: { assignmentId, status: { in: ['QUEUED', 'RUNNING'] } } })) {
+    if (Date.now() > deadline) {
+      throw new Error('Generation job did not finish in time');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+}
+
+async function loadState(assignmentId: string, userId: string) {
+  const [assignment, plan, blocks] = await Promise.all([
+    prisma.assignment.findUniqueOrThrow({ where: { id: assignmentId } }),
+    prisma.tokenPlan.findUniqueOrThrow({ where: { userId } }),
+    prisma.contentBlock.aggregate({ where: { assignmentId }, _sum: { tokensUsed: true } }),
+  ]);
+  return {
+    status: assignment.status,
+    tokensReserved: assignment.tokensReserved,
+    tokensCharged: assignment.tokensCharged,
+    spent: STARTING_BALANCE - plan.tokensRemaining,
+    blockTokens: blocks._sum.tokensUsed || 0,
+  };
+}
+
+async function checkCancelResume(fixtureFile: string): Promise<string[]> {
+  const fixture = readFixture(fixtureFile);
+  const scratch = await createScratchAssignment(fixture, 'USER');
+  const { userId, assignmentId } = scratch;
+  const failures: string[] = [];
+
+  try {
+    await prisma.tokenPlan.create({
+      data: { userId, planType: 'PRO', tokensPerMonth: STARTING_BALANCE, tokensRemaining: STARTING_BALANCE },
+    });
+
+    // First run: cancelled as soon as the first criterion has been answered
+    const replay = new ReplayProvider(fixture.exchanges);
+    let cancelled = false;
+    const cancelling: AIProvider = {
+      name: replay.name,
+      chat: async (request) => {
+        const result = await replay.chat(request);
+        if (request.purpose === 'CRITERION' && !cancelled) {
+          cancelled = true;
+          await cancelGeneration(assignmentId, 'Cancel / resume check');
+        }
+        return result;
+      },
+    };
+
+    useAIProvider(cancelling);
+    await startGeneration(assignmentId, userId);
+    await waitForJobs(assignmentId);
+
+    const afterCancel = await loadState(assignmentId, userId);
+    console.log(`[HARNESS] Cancelled: ${afterCancel.spent} tokens charged, ${afterCancel.blockTokens} in blocks`);
+    if (afterCancel.status !== 'CANCELLED') {
+      failures.push(`expected CANCELLED after cancel, got ${afterCancel.status}`);
+    }
+    if (afterCancel.spent <= 0 || afterCancel.tokensCharged !== afterCancel.spent) {
+      failures.push(`cancel charged ${afterCancel.spent} tokens, recorded ${afterCancel.tokensCharged} as charged`);
+    }
+
+    // Second run: a fresh replay, the saved blocks are kept
+    useAIProvider(new ReplayProvider(fixture.exchanges));
+    await resumeGeneration(assignmentId, userId);
+    await waitForJobs(assignmentId);
+
+    const afterResume = await loadState(assignmentId, userId);
+    console.log(`[HARNESS] Completed: ${afterResume.spent} tokens charged, ${afterResume.blockTokens} in blocks`);
+    if (afterResume.status !== 'COMPLETED') {
+      failures.push(`expected COMPLETED after resume, got ${afterResume.status}`);
+    }
+    if (afterResume.spent !== afterResume.blockTokens) {
+      failures.push(`student paid ${afterResume.spent} tokens for ${afterResume.blockTokens} tokens of blocks`);
+    }
+    if (afterResume.tokensReserved !== 0) {
+      failures.push(`${afterResume.tokensReserved} tokens still reserved after completion`);
+    }
+  } finally {
+    useAIProvider(null);
+    await deleteScratchAssignment(scratch);
+  }
+
+  return failures;
+}
+
+const [fixtureFile] = process.argv.slice(2);
+if (!fixtureFile) {
+  console.error('Usage: checkCancelResume <fixture.json>');
+  process.exit(1);
+}
+
+checkCancelResume(fixtureFile)
+  .then((failures) => {
+    if (failures.length > 0) {
+      console.error(`[HARNESS] ✗ Cancel / resume check failed:\n${failures.join('\n')}`);
+      process.exit(1);
+    }
+    console.log('[HARNESS] ✓ Resumed run charged each block once');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('[HARNESS] Cancel / resume check failed:', error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
@@ -0,0 +1,350 @@
+// =============================================================================
+// GENERATION RECORD / REPLAY HARNESS
+// =============================================================================
+// A fixture holds the inputs of one generation (brief snapshot, grade,
+// language, student inputs, edited plan) and every AI exchange it made.
+// runHarness() recreates those inputs under a throwaway VIP user, runs the
+// real orchestrator and returns a snapshot of what it produced: the
+// GeneratedContent, the ContentBlock order and the DOCX document XML. The
+// scratch rows are deleted afterwards, so any database with the schema works.
+// createScratchAssignment() sets up the same inputs for checks that drive the
+// queue themselves (see checkCancelResume.ts).
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Grade, Language, Prisma, UserRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { AIProvider, AIProviderName, RecordedExchange, useAIProvider } from '../ai';
+import { runGeneration } from '../services/generation.service';
+import { getDocumentLocale } from '../utils/locale';
+import { readZipEntry } from '../utils/zip';
+
+export const FIXTURE_VERSION = 2;
+
+// Where the committed fixtures live (replayed by npm test)
+export const FIXTURE_DIR = path.join(__dirname, '../../fixtures/generation');
+
+export interface GenerationFixture {
+  version: number;
+  recordedAt: string;
+  // Provider the exchanges came from - 'mock' fixtures hold template text, not model output
+  provider: AIProviderName;
+  sourceAssignmentId: string;
+  brief: {
+    subjectName: string;
+    unitName: string;
+    unitCode: string;
+    level: number;
+    semester: string;
+    learningAims: string[];
+    vocationalScenario: string;
+    tasks: unknown;
+    assessmentCriteria: unknown;
+    checklistOfEvidence: string[];
+    sourcesOfInformation: string[];
+    requiredInputs: unknown;
+  };
+  assignment: {
+    grade: Grade;
+    language: Language;
+    includeTables: boolean;
+    includeImages: boolean;
+    studentInputs: unknown;
+    studentProfileSnapshot: unknown;
+  };
+  // Set when the student edited the previewed outline - otherwise the planner runs
+  plan: unknown;
+  exchanges: RecordedExchange[];
+}
+
+export interface GenerationSnapshot {
+  content: unknown;
+  blocks: Array<{ blockOrder: number; sectionId: string; criterionCode: string | null; words: number }>;
+  documentXml: string;
+}
+
+// =============================================================================
+// FIXTURES
+// =============================================================================
+
+/**
+ * Build a fixture (without exchanges) from an existing assignment
+ */
+export async function fixtureFromAssignment(assignmentId: string, provider: AIProviderName): Promise<GenerationFixture> {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    include: { snapshot: true, generationPlan: true },
+  });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  const { snapshot } = assignment;
+  return {
+    version: FIXTURE_VERSION,
+    recordedAt: new Date().toISOString(),
+    provider,
+    sourceAssignmentId: assignment.id,
+    brief: {
+      subjectName: snapshot.subjectName,
+      unitName: snapshot.unitName,
+      unitCode: snapshot.unitCode,
+      level: snapshot.level,
+      semester: snapshot.semester,
+      learningAims: snapshot.learningAims,
+      vocationalScenario: snapshot.vocationalScenario,
+      tasks: snapshot.tasks,
+      assessmentCriteria: snapshot.assessmentCriteria,
+      checklistOfEvidence: snapshot.checklistOfEvidence,
+      sourcesOfInformation: snapshot.sourcesOfInformation,
+      requiredInputs: snapshot.requiredInputs,
+    },
+    assignment: {
+      grade: assignment.grade,
+      language: assignment.language,
+      includeTables: assignment.includeTables,
+      includeImages: assignment.includeImages,
+      studentInputs: assignment.studentInputs,
+      studentProfileSnapshot: assignment.studentProfileSnapshot,
+    },
+    plan: assignment.generationPlan?.editedAt ? assignment.generationPlan.planData : null,
+    exchanges: [],
+  };
+}
+
+export function readFixture(file: string): GenerationFixture {
+  const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as GenerationFixture;
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version ${fixture.version} (expected ${FIXTURE_VERSION})`);
+  }
+  return fixture;
+}
+
+/**
+ * Fixture files in a directory (snapshots next to them are skipped)
+ */
+export function listFixtures(dir: string = FIXTURE_DIR): string[] {
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.json') && !file.endsWith('.snapshot.json'))
+    .sort()
+    .map((file) => path.join(dir, file));
+}
+
+export function writeFixture(file: string, fixture: GenerationFixture): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+}
+
+// =============================================================================
+// RUN
+// =============================================================================
+
+// Nullable JSON columns need Prisma.DbNull rather than null
+function json(value: unknown) {
+  return value === null || value === undefined ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export interface ScratchAssignment {
+  userId: string;
+  assignmentId: string;
+}
+
+/**
+ * Recreate the fixture's inputs under a throwaway user. VIP users are never
+ * charged - a USER needs a token plan. Remove with deleteScratchAssignment().
+ */
+export async function createScratchAssignment(
+  fixture: GenerationFixture,
+  role: UserRole = 'VIP'
+): Promise<ScratchAssignment> {
+  const user = await prisma.user.create({
+    data: {
+      email: `harness-${randomUUID()}@harness.invalid`,
+      password: '!', // Not a bcrypt hash - the account cannot log in
+      name: 'Generation harness',
+      role,
+    },
+  });
+
+  try {
+    // Briefs are unique per unit, level and semester and the recorded one may
+    // be in this database - generation reads the snapshot's unit code
+    const brief = await prisma.brief.create({
+      data: {
+        ...fixture.brief,
+        unitCode: `harness-${user.id}`,
+        tasks: fixture.brief.tasks as Prisma.InputJsonValue,
+        assessmentCriteria: fixture.brief.assessmentCriteria as Prisma.InputJsonValue,
+        requiredInputs: json(fixture.brief.requiredInputs),
+        createdById: user.id,
+      },
+    });
+    const snapshot = await prisma.resolvedBriefSnapshot.create({
+      data: {
+        ...fixture.brief,
+        tasks: fixture.brief.tasks as Prisma.InputJsonValue,
+        assessmentCriteria: fixture.brief.assessmentCriteria as Prisma.InputJsonValue,
+        requiredInputs: json(fixture.brief.requiredInputs),
+        briefId: brief.id,
+        language: fixture.assignment.language,
+        includeTables: fixture.assignment.includeTables,
+        includeImages: fixture.assignment.includeImages,
+      },
+    });
+    const assignment = await prisma.assignment.create({
+      data: {
+        ...fixture.assignment,
+        studentInputs: json(fixture.assignment.studentInputs),
+        studentProfileSnapshot: json(fixture.assignment.studentProfileSnapshot),
+        userId: user.id,
+        snapshotId: snapshot.id,
+      },
+    });
+    if (fixture.plan) {
+      await prisma.generationPlan.create({
+        data: { assignmentId: assignment.id, planData: fixture.plan as Prisma.InputJsonValue, editedAt: new Date() },
+      });
+    }
+
+    return { userId: user.id, assignmentId: assignment.id };
+  } catch (error) {
+    await prisma.user.delete({ where: { id: user.id } });
+    throw error;
+  }
+}
+
+/**
+ * Delete a scratch assignment's DOCX and user
+ */
+export async function deleteScratchAssignment(scratch: ScratchAssignment): Promise<void> {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: scratch.assignmentId },
+    select: { docxUrl: true },
+  });
+  if (assignment?.docxUrl && fs.existsSync(assignment.docxUrl)) {
+    fs.unlinkSync(assignment.docxUrl);
+  }
+  // Cascades to the brief, snapshot, assignment, blocks and usage logs
+  await prisma.user.delete({ where: { id: scratch.userId } });
+}
+
+/**
+ * Run the orchestrator on the fixture's inputs with the given provider and
+ * snapshot the result. Throws if the generation fails.
+ */
+export async function runHarness(fixture: GenerationFixture, provider: AIProvider): Promise<GenerationSnapshot> {
+  const scratch = await createScratchAssignment(fixture);
+  const { userId, assignmentId } = scratch;
+
+  try {
+    useAIProvider(provider);
+    try {
+      await runGeneration(assignmentId, userId);
+    } finally {
+      useAIProvider(null);
+    }
+
+    const [result, blocks] = await Promise.all([
+      prisma.assignment.findUniqueOrThrow({ where: { id: assignmentId } }),
+      prisma.contentBlock.findMany({ where: { assignmentId }, orderBy: { blockOrder: 'asc' } }),
+    ]);
+    if (!result.docxUrl) {
+      throw new Error('Generation finished without a DOCX');
+    }
+
+    const documentXml = readZipEntry(fs.readFileSync(result.docxUrl), 'word/document.xml');
+    if (!documentXml) {
+      throw new Error('DOCX has no word/document.xml');
+    }
+
+    // Ids and timestamps differ on every run
+    const normalize = (text: string) =>
+      text
+        .split(assignmentId).join('<assignment>')
+        .split(userId).join('<user>')
+        .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g, '<timestamp>');
+
+    // The cover page ends with the year the document was built
+    const coverYear = getDocumentLocale(fixture.assignment.language).date(new Date(), { year: 'numeric' });
+    const coverYearPattern = new RegExp(`(>|, )${coverYear.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}<`, 'g');
+
+    return {
+      content: JSON.parse(normalize(JSON.stringify(result.content))),
+      blocks: blocks.map((block) => ({
+        blockOrder: block.blockOrder,
+        sectionId: block.sectionId,
+        criterionCode: block.criterionCode,
+        words: countWords(block.content),
+      })),
+      // One element per line so snapshot diffs stay readable
+      documentXml: normalize(documentXml.toString('utf8'))
+        .replace(coverYearPattern, '$1<year><')
+        .replace(/></g, '>\n<'),
+    };
+  } finally {
+    await deleteScratchAssignment(scratch);
+  }
+}
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+function snapshotFiles(fixtureFile: string) {
+  const base = fixtureFile.replace(/\.json$/, '');
+  return {
+    json: `${base}.snapshot.json`,
+    xml: `${base}.document.xml`,
+  };
+}
+
+function renderSnapshot(snapshot: GenerationSnapshot) {
+  return {
+    json: JSON.stringify({ content: snapshot.content, blocks: snapshot.blocks }, null, 2) + '\n',
+    xml: snapshot.documentXml + '\n',
+  };
+}
+
+export function writeSnapshot(fixtureFile: string, snapshot: GenerationSnapshot): void {
+  const files = snapshotFiles(fixtureFile);
+  const rendered = renderSnapshot(snapshot);
+  fs.writeFileSync(files.json, rendered.json);
+  fs.writeFileSync(files.xml, rendered.xml);
+}
+
+/**
+ * Compare a snapshot with the stored one. Returns one message per mismatch
+ * (empty = identical).
+ */
+export function compareSnapshot(fixtureFile: string, snapshot: GenerationSnapshot): string[] {
+  const files = snapshotFiles(fixtureFile);
+  const rendered = renderSnapshot(snapshot);
+  const mismatches: string[] = [];
+
+  for (const kind of ['json', 'xml'] as const) {
+    const file = files[kind];
+    if (!fs.existsSync(file)) {
+      mismatches.push(`${file}: missing (run with --update to create it)`);
+      continue;
+    }
+
+    const expected = fs.readFileSync(file, 'utf8').split('\n');
+    const actual = rendered[kind].split('\n');
+    const line = expected.findIndex((text, idx) => text !== actual[idx]);
+    if (line >= 0 || expected.length !== actual.length) {
+      const at = line >= 0 ? line : Math.min(expected.length, actual.length);
+      mismatches.push(
+        `${file}:${at + 1}\n  expected: ${expected[at] ?? '(end of file)'}\n  actual:   ${actual[at] ?? '(end of file)'}`
+      );
+    }
+  }
+
+  return mismatches;
+}
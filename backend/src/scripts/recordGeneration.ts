@@ -0,0 +1,44 @@
+// =============================================================================
+// BTEC GENERATOR - RECORD A GENERATION
+// =============================================================================
+// Runs a fresh generation with the inputs of an existing assignment, using
+// the provider chosen by AI_PROVIDER, and saves every AI exchange to a
+// fixture. The snapshot of the result is written next to it. The source
+// assignment is not changed and no tokens are charged.
+//
+// Usage: npx tsx src/scripts/recordGeneration.ts <assignmentId> <fixture.json>
+// =============================================================================
+
+import { prisma } from '../lib/prisma';
+import { getAIProvider, RecordingProvider } from '../ai';
+import { fixtureFromAssignment, runHarness, writeFixture, writeSnapshot } from './generationHarness';
+
+async function recordGeneration(assignmentId: string, fixtureFile: string) {
+  console.log(`[HARNESS] Recording generation of assignment ${assignmentId}...`);
+
+  const recorder = new RecordingProvider(getAIProvider());
+  const fixture = await fixtureFromAssignment(assignmentId, recorder.name);
+  const snapshot = await runHarness(fixture, recorder);
+
+  fixture.exchanges = recorder.exchanges;
+  writeFixture(fixtureFile, fixture);
+  writeSnapshot(fixtureFile, snapshot);
+
+  console.log(`[HARNESS] Recorded ${fixture.exchanges.length} AI exchanges to ${fixtureFile}`);
+}
+
+const [assignmentId, fixtureFile] = process.argv.slice(2);
+if (!assignmentId || !fixtureFile) {
+  console.error('Usage: recordGeneration <assignmentId> <fixture.json>');
+  process.exit(1);
+}
+
+recordGeneration(assignmentId, fixtureFile)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('[HARNESS] Recording failed:', error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
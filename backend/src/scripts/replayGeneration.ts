@@ -0,0 +1,72 @@
+// =============================================================================
+// BTEC GENERATOR - REPLAY RECORDED GENERATIONS
+// =============================================================================
+// Runs the orchestrator on each fixture with the recorded AI responses (no
+// network) and compares the GeneratedContent, ContentBlock order and DOCX
+// XML with the stored snapshots. Exits with 1 on any difference. --update
+// rewrites the snapshots instead, after an intended pipeline change.
+//
+// Without fixture files every fixture in fixtures/generation is replayed.
+//
+// Point DATABASE_URL at a test database - scratch rows are created and
+// deleted during the run.
+//
+// Usage: npx tsx src/scripts/replayGeneration.ts [--update] [<fixture.json>...]
+// =============================================================================
+
+import { prisma } from '../lib/prisma';
+import { ReplayProvider } from '../ai';
+import { compareSnapshot, listFixtures, readFixture, runHarness, writeSnapshot } from './generationHarness';
+
+async function replayGenerations(fixtureFiles: string[], update: boolean): Promise<boolean> {
+  let passed = true;
+
+  for (const file of fixtureFiles) {
+    const fixture = readFixture(file);
+    console.log(`[HARNESS] Replaying ${file} (recorded with ${fixture.provider})...`);
+    const replay = new ReplayProvider(fixture.exchanges);
+    const snapshot = await runHarness(fixture, replay);
+
+    const { served, drifted, unused } = replay.summary();
+    console.log(`[HARNESS] ${served} responses replayed, ${unused} unused`);
+    if (drifted.length > 0) {
+      // Expected after a prompt change - the recorded answers are reused in order
+      console.log(`[HARNESS] ${drifted.length} prompts differ from the recording (${[...new Set(drifted)].join(', ')})`);
+    }
+
+    if (update) {
+      writeSnapshot(file, snapshot);
+      console.log(`[HARNESS] ✓ Snapshot updated`);
+      continue;
+    }
+
+    const mismatches = compareSnapshot(file, snapshot);
+    if (mismatches.length === 0) {
+      console.log(`[HARNESS] ✓ Matches snapshot`);
+    } else {
+      passed = false;
+      console.error(`[HARNESS] ✗ Snapshot mismatch:\n${mismatches.join('\n')}`);
+    }
+  }
+
+  return passed;
+}
+
+const args = process.argv.slice(2);
+const update = args.includes('--update');
+const named = args.filter((arg) => arg !== '--update');
+const fixtureFiles = named.length > 0 ? named : listFixtures();
+if (fixtureFiles.length === 0) {
+  console.error('Usage: replayGeneration [--update] [<fixture.json>...]');
+  process.exit(1);
+}
+
+replayGenerations(fixtureFiles, update)
+  .then((passed) => process.exit(passed ? 0 : 1))
+  .catch((error) => {
+    console.error('[HARNESS] Replay failed:', error);
+    process.exit(1);
+  })
+  .finally(() => {
+    prisma.$disconnect();
+  });
@@ -5,6 +5,8 @@ dotenv.config();
 import app from './app';
 import { expireOldPayments } from './services/payment.service';
 import { discordBot } from './discord';
+import { startQueueWorker, stopQueueWorker } from './services/queue.service';
+import { attachProgressSocket, closeProgressSocket } from './services/progress.service';
 
 const PORT = process.env.PORT || 3000;
 
@@ -14,9 +16,15 @@ const server = app.listen(PORT, async () => {
   console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`⏰ Started at: ${new Date().toISOString()}`);
   
+  // Live generation progress (WebSocket on the same port)
+  attachProgressSocket(server);
+  
   // Start payment expiration job (runs every 5 minutes)
   startPaymentExpirationJob();
   
+  // Start generation queue worker (re-queues jobs interrupted by a restart)
+  await startGenerationQueue();
+  
   // Start Discord bot
   await startDiscordBot();
 });
@@ -30,6 +38,15 @@ async function startDiscordBot() {
   }
 }
 
+// Generation queue worker startup
+async function startGenerationQueue() {
+  try {
+    await startQueueWorker();
+  } catch (error) {
+    console.error('[QUEUE] Failed to start worker:', error);
+  }
+}
+
 // Payment expiration job
 let paymentExpirationInterval: NodeJS.Timeout | null = null;
 
@@ -56,6 +73,12 @@ function startPaymentExpirationJob() {
 const shutdown = async () => {
   console.log('\n🛑 Shutting down gracefully...');
   
+  // Stop claiming generation jobs (running ones are re-queued on next start)
+  stopQueueWorker();
+  
+  // Disconnect live progress clients
+  closeProgressSocket();
+  
   // Stop Discord bot
   await discordBot.stop();
   
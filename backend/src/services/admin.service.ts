@@ -6,6 +6,8 @@
 
 import { prisma } from '../lib/prisma';
 import { UserRole, AssignmentStatus } from '@prisma/client';
+import { cancelGeneration, stopGenerationForDelete } from './queue.service';
+import { getResetBalance } from './token.service';
 
 // Status type (matches schema but may not be exported from client yet)
 type UserStatus = 'ACTIVE' | 'SUSPENDED' | 'BANNED';
@@ -307,7 +309,7 @@ export const resetUserTokens = async (userId: string, reason?: string) => {
   const tokenPlan = await prisma.tokenPlan.findUnique({ where: { userId } });
   if (!tokenPlan) throw new Error('User has no token plan');
 
-  const newBalance = tokenPlan.tokensPerMonth;
+  const newBalance = await getResetBalance(userId, tokenPlan.tokensPerMonth);
   
   await prisma.$transaction([
     prisma.tokenPlan.update({
@@ -386,21 +388,17 @@ export const forceCompleteAssignment = async (assignmentId: string) => {
     data: { 
       status: 'COMPLETED',
       completedAt: new Date(),
+      pausedAt: null,
     },
   });
 };
 
 export const cancelAssignment = async (assignmentId: string) => {
-  return prisma.assignment.update({
-    where: { id: assignmentId },
-    data: { 
-      status: 'FAILED',
-      error: 'Cancelled by admin',
-    },
-  });
+  return cancelGeneration(assignmentId, 'Cancelled by admin');
 };
 
 export const deleteAssignment = async (assignmentId: string) => {
+  await stopGenerationForDelete(assignmentId);
   return prisma.assignment.delete({
     where: { id: assignmentId },
   });
@@ -440,7 +438,7 @@ export const getAllBriefs = async () => {
 export const getAIUsageAnalytics = async (days = 7) => {
   const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
-  const [totalLogs, totalTokens, byModel, byPurpose] = await Promise.all([
+  const [totalLogs, totalTokens, byModel, byPurpose, languageChecks, languageMismatches] = await Promise.all([
     prisma.aIUsageLog.count({ where: { createdAt: { gte: startDate } } }),
     prisma.aIUsageLog.aggregate({
       where: { createdAt: { gte: startDate } },
@@ -458,13 +456,38 @@ export const getAIUsageAnalytics = async (days = 7) => {
       _count: true,
       _sum: { totalTokens: true },
     }),
+    prisma.languageCheckLog.groupBy({
+      by: ['aiModel'],
+      where: { createdAt: { gte: startDate } },
+      _count: true,
+    }),
+    prisma.languageCheckLog.groupBy({
+      by: ['aiModel'],
+      where: { createdAt: { gte: startDate }, mismatch: true },
+      _count: true,
+    }),
   ]);
 
+  // Share of generated blocks and guidance sections not in the assignment language
+  const mismatchesByModel = new Map(languageMismatches.map((row) => [row.aiModel, row._count]));
+  const languageByModel = languageChecks
+    .map((row) => {
+      const mismatches = mismatchesByModel.get(row.aiModel) || 0;
+      return {
+        aiModel: row.aiModel || 'unknown',
+        checks: row._count,
+        mismatches,
+        mismatchRate: row._count > 0 ? Math.round((mismatches / row._count) * 1000) / 10 : 0,
+      };
+    })
+    .sort((a, b) => b.mismatchRate - a.mismatchRate);
+
   return {
     totalLogs,
     totalTokens: totalTokens._sum.totalTokens || 0,
     byModel,
     byPurpose,
+    languageByModel,
   };
 };
 
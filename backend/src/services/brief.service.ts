@@ -10,6 +10,7 @@ import { z } from 'zod';
 const taskBlockSchema = z.object({
   title: z.string().min(1, 'Task title is required'),
   description: z.string().min(1, 'Task description is required'),
+  criteria: z.array(z.string()).optional(), // Criterion codes this task covers (e.g. A.P1)
 });
 
 // Assessment criteria schema (simple string arrays)
@@ -0,0 +1,41 @@
+// =============================================================================
+// BTEC GENERATOR - GENERATION CANCELLATION
+// =============================================================================
+// One AbortController per generation running in this process. Every model
+// call of the run carries its signal, so cancelling aborts the in-flight
+// completions; the orchestrator then stops at its next checkpoint.
+// =============================================================================
+
+const runs = new Map<string, AbortController>();
+
+/**
+ * Register a generation run and return the signal its model calls use
+ */
+export function beginGenerationRun(assignmentId: string): AbortSignal {
+  const controller = new AbortController();
+  runs.set(assignmentId, controller);
+  return controller.signal;
+}
+
+export function endGenerationRun(assignmentId: string): void {
+  runs.delete(assignmentId);
+}
+
+/**
+ * Signal for the assignment's running generation (undefined outside a run,
+ * e.g. when a single block is regenerated)
+ */
+export function generationSignal(assignmentId: string): AbortSignal | undefined {
+  return runs.get(assignmentId)?.signal;
+}
+
+/**
+ * Abort the assignment's run in this process. Returns false when it is not
+ * running here.
+ */
+export function abortGenerationRun(assignmentId: string): boolean {
+  const controller = runs.get(assignmentId);
+  if (!controller) return false;
+  controller.abort();
+  return true;
+}
@@ -11,8 +11,29 @@ import {
   WidthType,
   TableOfContents,
   BorderStyle,
+  Header,
+  Footer,
+  ImageRun,
+  PageBreak,
+  PageNumber,
+  PageReference,
+  Bookmark,
+  BookmarkStart,
+  BookmarkEnd,
+  convertMillimetersToTwip,
 } from 'docx';
-import { GeneratedContent, TableData, AtomicContentBlock } from '../types';
+import { DocumentTemplate, Language } from '@prisma/client';
+import {
+  GeneratedContent,
+  TableData,
+  AtomicContentBlock,
+  EvidenceChecklistItem,
+  EvidenceMatch,
+  EvidenceNote,
+  EvidenceStatus,
+  StudentProfileSnapshot,
+} from '../types';
+import { DocumentLocale, DocumentStringKey, getDocumentLocale } from '../utils/locale';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -24,29 +45,110 @@ if (!fs.existsSync(EXPORT_DIR)) {
 }
 
 /**
- * GLOBAL DOCUMENT RULES:
+ * GLOBAL DOCUMENT RULES (defaults - a DocumentTemplate can override each one):
  * - Font: Times New Roman
  * - Font size: 14pt (28 half-points)
  * - Alignment: Justified
  * - First line indent: 0.5 inch (720 twips)
  * - Line spacing: 1.5 (360)
- * - Language: User-selected
+ * - Margins: 1 inch
+ * - Language: User-selected - headings, captions and front matter from utils/locale
  * 
  * HEADING STRUCTURE:
- * - Heading 1: Introduction, Learning Aims, Conclusion, References (centered)
+ * - Heading 1: Introduction, Learning Aims, Conclusion, References (centered, 16pt)
  * - Heading 2: Criteria codes (e.g., A.P1, A.M1, B.D1) (left-aligned)
  */
 
-const FONT_SIZE = 28; // 14pt in half-points
-const FONT_NAME = 'Times New Roman';
-const FIRST_LINE_INDENT = 720; // 0.5 inch in twips
-const LINE_SPACING = 360; // 1.5 line spacing
+/**
+ * The DocumentTemplate fields the renderer reads
+ */
+export type DocxTemplate = Pick<
+  DocumentTemplate,
+  | 'universityName'
+  | 'fontName'
+  | 'fontSize'
+  | 'headingFontSize'
+  | 'lineSpacing'
+  | 'firstLineIndentMm'
+  | 'marginTopMm'
+  | 'marginBottomMm'
+  | 'marginLeftMm'
+  | 'marginRightMm'
+  | 'centerHeadings'
+  | 'headingNumbering'
+  | 'coverLayout'
+  | 'includeFrontSheet'
+  | 'headerText'
+  | 'footerText'
+  | 'logo'
+>;
+
+export const DEFAULT_DOCX_TEMPLATE: DocxTemplate = {
+  universityName: null,
+  fontName: 'Times New Roman',
+  fontSize: 14,
+  headingFontSize: 16,
+  lineSpacing: 1.5,
+  firstLineIndentMm: 12.7,
+  marginTopMm: 25.4,
+  marginBottomMm: 25.4,
+  marginLeftMm: 25.4,
+  marginRightMm: 25.4,
+  centerHeadings: true,
+  headingNumbering: 'SECTIONS',
+  coverLayout: 'TITLE_PAGE',
+  includeFrontSheet: true,
+  headerText: null,
+  footerText: null,
+  logo: null,
+};
+
+/**
+ * What the cover page and assessment front sheet are filled in with
+ */
+export interface DocxFrontMatter {
+  profile: StudentProfileSnapshot | null;
+  level: number | null;
+  // Every P/M/D criterion in the brief snapshot, in grade order
+  criteria: Array<{ code: string; description: string }>;
+}
+
+export interface DocxOptions {
+  template?: DocxTemplate;
+  frontMatter?: DocxFrontMatter;
+  // Assignment language - the document's fixed text is written in it
+  language?: Language;
+}
+
+// Template values in docx units
+interface DocxStyle {
+  font: string;
+  size: number;            // half-points
+  firstLineIndent: number; // twips
+  lineSpacing: number;     // 240ths of a line
+  headingAlignment: (typeof AlignmentType)[keyof typeof AlignmentType];
+}
+
+const FOOTER_SIZE = 20; // 10pt in half-points
+const LOGO_MAX_WIDTH = 200; // px
+const LOGO_MAX_HEIGHT = 100;
+
+function docxStyle(template: DocxTemplate): DocxStyle {
+  return {
+    font: template.fontName,
+    size: template.fontSize * 2,
+    firstLineIndent: convertMillimetersToTwip(template.firstLineIndentMm),
+    lineSpacing: Math.round(template.lineSpacing * 240),
+    headingAlignment: template.centerHeadings ? AlignmentType.CENTER : AlignmentType.LEFT,
+  };
+}
 
 export const generateDocx = async (
   assignmentId: string,
   content: GeneratedContent,
   unitName: string,
-  unitCode: string
+  unitCode: string,
+  options: DocxOptions = {}
 ): Promise<string> => {
   console.log('[DOCX] Starting generation for assignment:', assignmentId);
   console.log('[DOCX] Content structure:', {
@@ -64,11 +166,18 @@ export const generateDocx = async (
   // Use atomic blocks if available, otherwise fall back to legacy structure
   if (content.atomicBlocks && content.atomicBlocks.length > 0) {
     console.log('[DOCX] Using ATOMIC block structure');
-    return generateDocxFromAtomicBlocks(assignmentId, content.atomicBlocks, unitName, unitCode);
+    return generateDocxFromAtomicBlocks(
+      assignmentId,
+      content.atomicBlocks,
+      unitName,
+      unitCode,
+      content.evidenceChecklist || [],
+      options
+    );
   }
   
   console.log('[DOCX] Using LEGACY section structure');
-  return generateDocxFromLegacyStructure(assignmentId, content, unitName, unitCode);
+  return generateDocxFromLegacyStructure(assignmentId, content, unitName, unitCode, options);
 };
 
 /**
@@ -80,53 +189,41 @@ async function generateDocxFromAtomicBlocks(
   assignmentId: string,
   atomicBlocks: AtomicContentBlock[],
   unitName: string,
-  unitCode: string
+  unitCode: string,
+  evidenceChecklist: EvidenceChecklistItem[] = [],
+  options: DocxOptions = {}
 ): Promise<string> {
+  const template = options.template || DEFAULT_DOCX_TEMPLATE;
+  const style = docxStyle(template);
+  const locale = getDocumentLocale(options.language);
   const sections: any[] = [];
+  const bookmarks = new Map<string, string>();
   let sectionNumber = 0;
+  let criterionNumber = 0;
   let tableCounter = 1;
   let figureCounter = 1;
   let currentAimNumber = 0;
 
-  // COVER PAGE - Title (Centered, Bold, Heading 1)
-  sections.push(
-    new Paragraph({
-      text: `${unitName} (${unitCode})`,
-      heading: HeadingLevel.HEADING_1,
-      alignment: AlignmentType.CENTER,
-      spacing: { after: 400 },
-      style: 'Heading1'
-    })
-  );
-
-  // TABLE OF CONTENTS
-  sections.push(
-    new Paragraph({
-      text: 'Table of Contents',
-      heading: HeadingLevel.HEADING_1,
-      alignment: AlignmentType.CENTER,
-      spacing: { before: 400, after: 200 },
-    })
-  );
-  
-  sections.push(
-    new TableOfContents('Table of Contents', {
-      hyperlink: true,
-      headingStyleRange: '1-2',
-    })
-  );
+  // "2. Learning Aim A" / "2.1 A.P1 ..." depending on the template
+  const sectionTitle = (title: string) =>
+    template.headingNumbering === 'NONE' ? title : `${locale.number(sectionNumber)}. ${title}`;
+  const criterionHeading = (title: string) =>
+    template.headingNumbering === 'SECTIONS_AND_CRITERIA' && sectionNumber > 0
+      ? `${locale.number(sectionNumber)}.${locale.number(criterionNumber)} ${title}`
+      : title;
 
   // Process each atomic block
   for (const block of atomicBlocks) {
     switch (block.type) {
       case 'INTRODUCTION': {
         sectionNumber++;
+        criterionNumber = 0;
         // Introduction heading (Heading 1, centered)
         sections.push(
           new Paragraph({
-            text: `${sectionNumber}. Introduction`,
+            text: sectionTitle(locale.text('introduction')),
             heading: HeadingLevel.HEADING_1,
-            alignment: AlignmentType.CENTER,
+            alignment: style.headingAlignment,
             spacing: { before: 400, after: 200 },
           })
         );
@@ -135,7 +232,7 @@ async function generateDocxFromAtomicBlocks(
         if (block.content) {
           const paragraphs = block.content.split('\n\n').filter(p => p.trim());
           for (const paragraph of paragraphs) {
-            sections.push(createContentParagraph(paragraph));
+            sections.push(createContentParagraph(paragraph, style));
           }
         }
         break;
@@ -143,17 +240,18 @@ async function generateDocxFromAtomicBlocks(
 
       case 'LEARNING_AIM': {
         sectionNumber++;
+        criterionNumber = 0;
         currentAimNumber++;
         const aimCode = block.aimCode || String.fromCharCode(64 + currentAimNumber);
         
         // Learning Aim heading (Heading 1, centered)
         // Format: "2. Learning Aim A: [Title]" or "AIM A: [Title]"
-        const aimTitle = block.aimTitle || `Learning Aim ${aimCode}`;
+        const aimTitle = block.aimTitle || locale.text('learningAim', { code: aimCode });
         sections.push(
           new Paragraph({
-            text: `${sectionNumber}. ${aimTitle}`,
+            text: sectionTitle(aimTitle),
             heading: HeadingLevel.HEADING_1,
-            alignment: AlignmentType.CENTER,
+            alignment: style.headingAlignment,
             spacing: { before: 400, after: 200 },
           })
         );
@@ -162,7 +260,46 @@ async function generateDocxFromAtomicBlocks(
         if (block.aimContent) {
           const paragraphs = block.aimContent.split('\n\n').filter(p => p.trim());
           for (const paragraph of paragraphs) {
-            sections.push(createContentParagraph(paragraph));
+            sections.push(createContentParagraph(paragraph, style));
+          }
+        }
+        break;
+      }
+
+      case 'TASK': {
+        sectionNumber++;
+        criterionNumber = 0;
+
+        // Task heading (Heading 1, centered) - replaces learning aims in task-driven outlines
+        // Format: "2. Task 1: [Title]"
+        sections.push(
+          new Paragraph({
+            text: sectionTitle(block.taskTitle || locale.text('task', { number: block.taskNumber || 1 })),
+            heading: HeadingLevel.HEADING_1,
+            alignment: style.headingAlignment,
+            spacing: { before: 400, after: 200 },
+          })
+        );
+        break;
+      }
+
+      case 'CUSTOM': {
+        sectionNumber++;
+        criterionNumber = 0;
+        // Student-added section heading (Heading 1, centered)
+        sections.push(
+          new Paragraph({
+            text: sectionTitle(block.title || locale.text('additionalSection')),
+            heading: HeadingLevel.HEADING_1,
+            alignment: style.headingAlignment,
+            spacing: { before: 400, after: 200 },
+          })
+        );
+
+        if (block.content) {
+          const paragraphs = block.content.split('\n\n').filter(p => p.trim());
+          for (const paragraph of paragraphs) {
+            sections.push(createContentParagraph(paragraph, style));
           }
         }
         break;
@@ -171,36 +308,30 @@ async function generateDocxFromAtomicBlocks(
       case 'CRITERION': {
         const criterionCode = block.criterionCode || 'A.P1';
         const criterionTitle = block.criterionTitle || criterionCode;
+        criterionNumber++;
         
         // Criterion heading (Heading 2, left-aligned)
         // Format: "2.1 A.P1 Describe the key components..."
-        sections.push(
-          new Paragraph({
-            text: criterionTitle,
-            heading: HeadingLevel.HEADING_2,
-            alignment: AlignmentType.LEFT,
-            spacing: { before: 300, after: 200 },
-          })
-        );
+        sections.push(createCriterionHeading(criterionCode, criterionHeading(criterionTitle), bookmarks));
 
         // Criterion content
         if (block.criterionContent) {
           const paragraphs = block.criterionContent.split('\n\n').filter(p => p.trim());
           for (const paragraph of paragraphs) {
-            sections.push(createContentParagraph(paragraph));
+            sections.push(createContentParagraph(paragraph, style));
           }
         }
 
         // Table for this criterion (if present)
         if (block.table) {
-          sections.push(createFormattedTable(block.table));
+          sections.push(createFormattedTable(block.table, style));
           sections.push(
             new Paragraph({
               children: [
                 new TextRun({
-                  text: block.table.caption || `Table ${tableCounter}. Data table`,
-                  font: FONT_NAME,
-                  size: FONT_SIZE,
+                  text: block.table.caption || locale.text('tableCaption', { number: tableCounter, caption: locale.text('dataTable') }),
+                  font: style.font,
+                  size: style.size,
                   bold: true,
                   italics: true,
                 }),
@@ -218,9 +349,9 @@ async function generateDocxFromAtomicBlocks(
             new Paragraph({
               children: [
                 new TextRun({
-                  text: `[IMAGE PLACEHOLDER]`,
-                  font: FONT_NAME,
-                  size: FONT_SIZE,
+                  text: locale.text('imagePlaceholder'),
+                  font: style.font,
+                  size: style.size,
                   bold: true,
                 }),
               ],
@@ -239,9 +370,12 @@ async function generateDocxFromAtomicBlocks(
             new Paragraph({
               children: [
                 new TextRun({
-                  text: block.image.caption || `Figure ${figureCounter}. ${block.image.description || 'Diagram'}`,
-                  font: FONT_NAME,
-                  size: FONT_SIZE,
+                  text: block.image.caption || locale.text('figureCaption', {
+                    number: figureCounter,
+                    caption: block.image.description || locale.text('diagram'),
+                  }),
+                  font: style.font,
+                  size: style.size,
                   bold: true,
                   italics: true,
                 }),
@@ -257,12 +391,13 @@ async function generateDocxFromAtomicBlocks(
 
       case 'CONCLUSION': {
         sectionNumber++;
+        criterionNumber = 0;
         // Conclusion heading (Heading 1, centered)
         sections.push(
           new Paragraph({
-            text: `${sectionNumber}. Conclusion`,
+            text: sectionTitle(locale.text('conclusion')),
             heading: HeadingLevel.HEADING_1,
-            alignment: AlignmentType.CENTER,
+            alignment: style.headingAlignment,
             spacing: { before: 400, after: 200 },
           })
         );
@@ -271,7 +406,7 @@ async function generateDocxFromAtomicBlocks(
         if (block.content) {
           const paragraphs = block.content.split('\n\n').filter(p => p.trim());
           for (const paragraph of paragraphs) {
-            sections.push(createContentParagraph(paragraph));
+            sections.push(createContentParagraph(paragraph, style));
           }
         }
         break;
@@ -279,12 +414,13 @@ async function generateDocxFromAtomicBlocks(
 
       case 'REFERENCES': {
         sectionNumber++;
+        criterionNumber = 0;
         // References heading (Heading 1, centered)
         sections.push(
           new Paragraph({
-            text: `${sectionNumber}. References`,
+            text: sectionTitle(locale.text('references')),
             heading: HeadingLevel.HEADING_1,
-            alignment: AlignmentType.CENTER,
+            alignment: style.headingAlignment,
             spacing: { before: 400, after: 200 },
           })
         );
@@ -302,14 +438,14 @@ async function generateDocxFromAtomicBlocks(
               new Paragraph({
                 children: [
                   new TextRun({
-                    text: `${refNumber}. ${ref.text}`,
-                    font: FONT_NAME,
-                    size: FONT_SIZE,
+                    text: `${locale.number(refNumber)}. ${ref.text}`,
+                    font: style.font,
+                    size: style.size,
                   }),
                 ],
                 alignment: AlignmentType.LEFT,
                 indent: { left: 360, hanging: 360 }, // Hanging indent for references
-                spacing: { line: LINE_SPACING, after: 120 },
+                spacing: { line: style.lineSpacing, after: 120 },
               })
             );
           }
@@ -319,15 +455,15 @@ async function generateDocxFromAtomicBlocks(
     }
   }
 
-  // Create document
-  const doc = new Document({
-    sections: [
-      {
-        properties: {},
-        children: sections,
-      },
-    ],
-  });
+  // APPENDIX - Evidence checklist from the brief (own page, after references)
+  if (evidenceChecklist.length > 0) {
+    sections.push(...createEvidenceAppendix(evidenceChecklist, style, locale));
+  }
+
+  // COVER PAGE, FRONT SHEET + TABLE OF CONTENTS - built last so the front
+  // sheet can point at the criterion headings
+  const front = createFrontMatter(template, style, locale, options.frontMatter, unitName, unitCode, bookmarks);
+  const doc = createDocument([...front, ...sections], template, locale, unitName, unitCode);
 
   const buffer = await Packer.toBuffer(doc);
   const filename = `assignment_${assignmentId}_${Date.now()}.docx`;
@@ -340,76 +476,499 @@ async function generateDocxFromAtomicBlocks(
   return filepath;
 }
 
+const EVIDENCE_STATUS_KEYS: Record<EvidenceStatus, DocumentStringKey> = {
+  COVERED: 'evidenceCovered',
+  PLACEHOLDER: 'evidencePlaceholder',
+  MISSING: 'evidenceMissing',
+};
+
+export const evidenceStatusLabel = (status: EvidenceStatus, locale: DocumentLocale): string =>
+  locale.text(EVIDENCE_STATUS_KEYS[status]);
+
+const EVIDENCE_NOTE_KEYS: Record<EvidenceNote, DocumentStringKey> = {
+  SECTIONS: 'evidenceNoteSections',
+  WHOLE_REPORT: 'evidenceNoteWholeReport',
+  NO_SECTION: 'evidenceNoteNoSection',
+  TABLES: 'evidenceNoteTables',
+  NO_TABLE: 'evidenceNoteNoTable',
+  FIGURE: 'evidenceNoteFigure',
+  CAPTURE: 'evidenceNoteCapture',
+  SUPPLY: 'evidenceNoteSupply',
+};
+
+export function evidenceMatchLabel(match: EvidenceMatch, locale: DocumentLocale): string {
+  if (match.title) return match.title;
+
+  switch (match.source) {
+    case 'INTRODUCTION':
+      return locale.text('introduction');
+    case 'CONCLUSION':
+      return locale.text('conclusion');
+    case 'CUSTOM':
+      return locale.text('additionalSection');
+    case 'CRITERION': {
+      const key = match.kind === 'TABLE' ? 'evidenceMatchTable' : match.kind === 'IMAGE' ? 'evidenceMatchFigure' : 'evidenceMatchCriterion';
+      return locale.text(key, { code: match.code || '' });
+    }
+    default:
+      return match.label || ''; // Checklist stored before localisation
+  }
+}
+
+/**
+ * "Where to find it" cell: the matching sections, or why there are none
+ */
+export function evidenceLocation(entry: EvidenceChecklistItem, locale: DocumentLocale): string {
+  if (entry.matches.length > 0) {
+    return entry.matches.map((match) => evidenceMatchLabel(match, locale)).join(', ');
+  }
+  return entry.noteCode ? locale.text(EVIDENCE_NOTE_KEYS[entry.noteCode]) : entry.note || '';
+}
+
+/**
+ * Evidence checklist appendix: each item the brief asks for, whether the
+ * document covers it and where
+ */
+function createEvidenceAppendix(
+  checklist: EvidenceChecklistItem[],
+  style: DocxStyle,
+  locale: DocumentLocale
+): Array<Paragraph | Table> {
+  const rows = checklist.map((entry) => [
+    entry.item,
+    evidenceStatusLabel(entry.status, locale),
+    evidenceLocation(entry, locale),
+  ]);
+
+  return [
+    new Paragraph({
+      text: locale.text('evidenceAppendix'),
+      heading: HeadingLevel.HEADING_1,
+      alignment: style.headingAlignment,
+      pageBreakBefore: true,
+      spacing: { after: 200 },
+    }),
+    createContentParagraph(locale.text('evidenceIntro', { missing: locale.text('evidenceMissing') }), style),
+    createFormattedTable(
+      {
+        caption: '',
+        headers: [locale.text('evidenceRequired'), locale.text('evidenceStatus'), locale.text('evidenceLocation')],
+        rows,
+      },
+      style
+    ),
+  ];
+}
+
 /**
  * Create a content paragraph with proper formatting
  */
-function createContentParagraph(text: string): Paragraph {
+function createContentParagraph(text: string, style: DocxStyle): Paragraph {
   return new Paragraph({
     children: [
       new TextRun({
         text: text.trim(),
-        font: FONT_NAME,
-        size: FONT_SIZE,
+        font: style.font,
+        size: style.size,
       }),
     ],
     alignment: AlignmentType.JUSTIFIED,
-    indent: { firstLine: FIRST_LINE_INDENT },
-    spacing: { line: LINE_SPACING },
+    indent: { firstLine: style.firstLineIndent },
+    spacing: { line: style.lineSpacing },
   });
 }
 
 /**
- * LEGACY DOCX GENERATION (backward compatibility)
+ * Cover, front sheet and contents in page order. A title page comes first;
+ * otherwise the front sheet opens the document and the title sits above the
+ * contents.
  */
-async function generateDocxFromLegacyStructure(
-  assignmentId: string,
-  content: GeneratedContent,
+function createFrontMatter(
+  template: DocxTemplate,
+  style: DocxStyle,
+  locale: DocumentLocale,
+  frontMatter: DocxFrontMatter | undefined,
   unitName: string,
-  unitCode: string
-): Promise<string> {
-  if (!content.sections || content.sections.length === 0) {
-    throw new Error('Invalid content structure: missing sections');
+  unitCode: string,
+  bookmarks: Map<string, string>
+): Array<Paragraph | Table | TableOfContents> {
+  const frontSheet = template.includeFrontSheet && frontMatter && frontMatter.criteria.length > 0
+    ? createFrontSheet(frontMatter, style, locale, unitName, unitCode, bookmarks)
+    : [];
+
+  if (template.coverLayout === 'TITLE_PAGE') {
+    return [...createTitlePage(template, locale, frontMatter, unitName, unitCode), ...frontSheet, ...createContents(locale)];
   }
-  
-  const sections: any[] = [];
-  let tableCounter = 1;
-  let figureCounter = 1;
 
-  // COVER PAGE - Title (Centered, Bold, Heading 1)
-  sections.push(
+  const logo = createLogo(template.logo);
+  const title = new Paragraph({
+    text: `${unitName} (${unitCode})`,
+    heading: HeadingLevel.HEADING_1,
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 400 },
+    style: 'Heading1'
+  });
+  return [...frontSheet, ...(logo ? [logo] : []), title, ...createContents(locale)];
+}
+
+/**
+ * Title page: logo and university at the top, unit in the middle, student
+ * details below and the city and year at the foot
+ */
+function createTitlePage(
+  template: DocxTemplate,
+  locale: DocumentLocale,
+  frontMatter: DocxFrontMatter | undefined,
+  unitName: string,
+  unitCode: string
+): Paragraph[] {
+  const profile = frontMatter?.profile || null;
+  const line = (text: string, options: { size?: number; bold?: boolean; before?: number; after?: number } = {}) =>
     new Paragraph({
-      text: `${unitName} (${unitCode})`,
-      heading: HeadingLevel.HEADING_1,
+      children: [new TextRun({ text, font: template.fontName, size: options.size || template.fontSize * 2, bold: options.bold })],
       alignment: AlignmentType.CENTER,
-      spacing: { after: 400 },
-      style: 'Heading1'
-    })
+      spacing: { before: options.before || 0, after: options.after || 0 },
+    });
+
+  const page: Paragraph[] = [];
+  const logo = createLogo(template.logo);
+  if (logo) page.push(logo);
+
+  const universityName = profile?.universityName || template.universityName;
+  if (universityName) page.push(line(universityName, { size: template.headingFontSize * 2, bold: true, before: 200 }));
+  if (profile?.faculty) page.push(line(profile.faculty, { before: 120 }));
+
+  // Unit roughly a third of the way down the page - not a heading, so it stays out of the contents
+  page.push(line(locale.text('coverAssignment'), { before: 2400, after: 200 }));
+  page.push(line(unitName, { size: template.headingFontSize * 2 + 8, bold: true, after: 120 }));
+  page.push(
+    line(
+      frontMatter?.level
+        ? locale.text('coverUnitLevel', { code: unitCode, level: frontMatter.level })
+        : locale.text('coverUnit', { code: unitCode })
+    )
   );
 
-  // TABLE OF CONTENTS
-  sections.push(
+  if (profile) {
+    page.push(line(`${locale.text('student')}: ${profile.fullName}`, { before: 1600 }));
+    page.push(line(`${locale.text('group')}: ${profile.groupName}`, { before: 120 }));
+    if (profile.academicYear) page.push(line(`${locale.text('academicYear')}: ${profile.academicYear}`, { before: 120 }));
+  }
+
+  const year = locale.date(new Date(), { year: 'numeric' });
+  page.push(line(profile?.city ? `${profile.city}, ${year}` : year, { before: 1600 }));
+  page.push(new Paragraph({ children: [new PageBreak()] }));
+  return page;
+}
+
+// Bookmark the first heading for each criterion - the front sheet's PAGEREF fields point at it
+function createCriterionHeading(code: string, text: string, bookmarks: Map<string, string>): Paragraph {
+  const key = code.trim().toUpperCase();
+  const run = new TextRun(text);
+  let child: TextRun | Bookmark = run;
+
+  if (!bookmarks.has(key)) {
+    const linkId = bookmarks.size + 1;
+    const id = `criterion_${linkId}`;
+    bookmarks.set(key, id);
+    // docx 8 numbers every bookmark 1 and Word pairs start and end by that number
+    child = Object.assign(new Bookmark({ id, children: [run] }), {
+      start: new BookmarkStart(id, linkId),
+      end: new BookmarkEnd(linkId),
+    });
+  }
+
+  return new Paragraph({
+    children: [child],
+    heading: HeadingLevel.HEADING_2,
+    alignment: AlignmentType.LEFT,
+    spacing: { before: 300, after: 200 },
+  });
+}
+
+// Brief codes may omit the learning aim ("P1" for the "A.P1" heading)
+function findCriterionBookmark(code: string, bookmarks: Map<string, string>): string | undefined {
+  const key = code.trim().toUpperCase();
+  if (bookmarks.has(key)) return bookmarks.get(key);
+
+  const withoutAim = (value: string) => value.replace(/^[A-Z]\./, '');
+  for (const [heading, id] of bookmarks) {
+    if (withoutAim(heading) === withoutAim(key)) return id;
+  }
+  return undefined;
+}
+
+/**
+ * BTEC assignment front sheet: learner and unit details, every criterion
+ * with the page its evidence starts on, and the declarations
+ */
+function createFrontSheet(
+  frontMatter: DocxFrontMatter,
+  style: DocxStyle,
+  locale: DocumentLocale,
+  unitName: string,
+  unitCode: string,
+  bookmarks: Map<string, string>
+): Array<Paragraph | Table> {
+  const tableSize = Math.max(style.size - 4, 20); // 2pt smaller than the body, at least 10pt
+  const cell = (children: Array<TextRun | PageReference>, options: { width: number; bold?: boolean; center?: boolean }) =>
+    new TableCell({
+      children: [
+        new Paragraph({
+          children,
+          alignment: options.center ? AlignmentType.CENTER : AlignmentType.LEFT,
+        }),
+      ],
+      width: { size: options.width, type: WidthType.PERCENTAGE },
+    });
+  const text = (value: string, bold = false) => new TextRun({ text: value, font: style.font, size: tableSize, bold });
+
+  const profile = frontMatter.profile;
+  const details: Array<[string, string]> = [
+    [locale.text('learnerName'), profile?.fullName || ''],
+    [locale.text('group'), profile?.groupName || ''],
+    [locale.text('university'), profile?.universityName || ''],
+    [locale.text('unit'), `${unitCode} ${unitName}`],
+    [locale.text('level'), frontMatter.level ? locale.text('btecLevel', { level: frontMatter.level }) : ''],
+    [locale.text('assessor'), ''],
+    [locale.text('dateIssued'), ''],
+    [locale.text('dateSubmitted'), ''],
+  ];
+
+  const detailsTable = new Table({
+    rows: details.map(([label, value]) =>
+      new TableRow({
+        children: [cell([text(label, true)], { width: 30 }), cell([text(value)], { width: 70 })],
+      })
+    ),
+    width: { size: 100, type: WidthType.PERCENTAGE },
+  });
+
+  const criteriaTable = new Table({
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: [
+          cell([text(locale.text('criterion'), true)], { width: 12, center: true }),
+          cell([text(locale.text('criterionEvidence'), true)], { width: 58 }),
+          cell([text(locale.text('evidencePage'), true)], { width: 15, center: true }),
+          cell([text(locale.text('achieved'), true)], { width: 15, center: true }),
+        ],
+      }),
+      ...frontMatter.criteria.map((criterion) => {
+        const bookmark = findCriterionBookmark(criterion.code, bookmarks);
+        return new TableRow({
+          children: [
+            cell([text(criterion.code, true)], { width: 12, center: true }),
+            cell([text(criterion.description)], { width: 58 }),
+            cell(bookmark ? [new PageReference(bookmark)] : [text('')], { width: 15, center: true }),
+            cell([text('')], { width: 15, center: true }),
+          ],
+        });
+      }),
+    ],
+    width: { size: 100, type: WidthType.PERCENTAGE },
+  });
+
+  const heading = (value: string, before: number) =>
     new Paragraph({
-      text: 'Table of Contents',
+      children: [new TextRun({ text: value, font: style.font, size: style.size, bold: true })],
+      spacing: { before, after: 120 },
+    });
+  const signatureLine = (label: string) =>
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: `${label}: ______________________________    ${locale.text('date')}: ______________`,
+          font: style.font,
+          size: tableSize,
+        }),
+      ],
+      spacing: { before: 240 },
+    });
+  const statement = (value: string) =>
+    new Paragraph({
+      children: [new TextRun({ text: value, font: style.font, size: tableSize })],
+      alignment: AlignmentType.JUSTIFIED,
+    });
+
+  return [
+    new Paragraph({
+      children: [new TextRun({ text: locale.text('frontSheetTitle'), font: style.font, size: style.size + 4, bold: true })],
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 240 },
+    }),
+    detailsTable,
+    heading(locale.text('assessmentCriteria'), 240),
+    criteriaTable,
+    heading(locale.text('learnerDeclaration'), 360),
+    statement(locale.text('learnerDeclarationText')),
+    signatureLine(locale.text('learnerSignature')),
+    heading(locale.text('assessorDeclaration'), 360),
+    statement(locale.text('assessorDeclarationText')),
+    signatureLine(locale.text('assessorSignature')),
+    new Paragraph({ children: [new PageBreak()] }),
+  ];
+}
+
+function createContents(locale: DocumentLocale): Array<Paragraph | TableOfContents> {
+  return [
+    new Paragraph({
+      text: locale.text('tableOfContents'),
       heading: HeadingLevel.HEADING_1,
       alignment: AlignmentType.CENTER,
       spacing: { before: 400, after: 200 },
-    })
-  );
-  
-  sections.push(
-    new TableOfContents('Table of Contents', {
+    }),
+    new TableOfContents(locale.text('tableOfContents'), {
       hyperlink: true,
       headingStyleRange: '1-2',
-    })
-  );
+    }),
+  ];
+}
+
+/**
+ * Logo from a PNG or JPEG data URL, scaled to fit LOGO_MAX_WIDTH x LOGO_MAX_HEIGHT
+ */
+function createLogo(dataUrl: string | null): Paragraph | null {
+  const match = dataUrl?.match(/^data:image\/(?:png|jpeg);base64,(.+)$/);
+  if (!match) return null;
+
+  const data = Buffer.from(match[1], 'base64');
+  const size = imageSize(data);
+  if (!size) {
+    console.warn('[DOCX] Template logo is not a readable PNG or JPEG - skipped');
+    return null;
+  }
+
+  const scale = Math.min(1, LOGO_MAX_WIDTH / size.width, LOGO_MAX_HEIGHT / size.height);
+  return new Paragraph({
+    children: [
+      new ImageRun({
+        data,
+        transformation: { width: Math.round(size.width * scale), height: Math.round(size.height * scale) },
+      }),
+    ],
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 200 },
+  });
+}
+
+// Pixel size from the PNG IHDR chunk or the first JPEG SOF marker
+function imageSize(data: Buffer): { width: number; height: number } | null {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length >= 4 && data.readUInt16BE(0) === 0xffd8) {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+}
+
+/**
+ * Header/footer line. {unitName} and {unitCode} are filled in here, {page}
+ * and {pages} become Word fields.
+ */
+function createRunningParagraph(text: string, template: DocxTemplate, unitName: string, unitCode: string): Paragraph {
+  const filled = text.replace(/\{unitName\}/g, unitName).replace(/\{unitCode\}/g, unitCode);
+  const children = filled
+    .split(/(\{page\}|\{pages\})/)
+    .filter(Boolean)
+    .map((part) => {
+      if (part === '{page}') return PageNumber.CURRENT;
+      if (part === '{pages}') return PageNumber.TOTAL_PAGES;
+      return part;
+    });
+
+  return new Paragraph({
+    children: [new TextRun({ children, font: template.fontName, size: FOOTER_SIZE })],
+    alignment: AlignmentType.CENTER,
+  });
+}
+
+/**
+ * Wrap the body in one section with the template's margins, heading styles
+ * and running header/footer
+ */
+function createDocument(
+  children: any[],
+  template: DocxTemplate,
+  locale: DocumentLocale,
+  unitName: string,
+  unitCode: string
+): Document {
+  const headingRun = { font: template.fontName, bold: true, color: '000000' };
+
+  return new Document({
+    // Word asks to refresh fields on open - fills in the contents and front sheet pages
+    features: { updateFields: true },
+    styles: {
+      default: {
+        // Proofing language, so Word spell-checks in the assignment's language
+        document: { run: { font: template.fontName, size: template.fontSize * 2, language: { value: locale.tag } } },
+        heading1: { run: { ...headingRun, size: template.headingFontSize * 2 } },
+        heading2: { run: { ...headingRun, size: template.fontSize * 2 } },
+      },
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            margin: {
+              top: convertMillimetersToTwip(template.marginTopMm),
+              bottom: convertMillimetersToTwip(template.marginBottomMm),
+              left: convertMillimetersToTwip(template.marginLeftMm),
+              right: convertMillimetersToTwip(template.marginRightMm),
+            },
+          },
+        },
+        headers: template.headerText
+          ? { default: new Header({ children: [createRunningParagraph(template.headerText, template, unitName, unitCode)] }) }
+          : undefined,
+        footers: template.footerText
+          ? { default: new Footer({ children: [createRunningParagraph(template.footerText, template, unitName, unitCode)] }) }
+          : undefined,
+        children,
+      },
+    ],
+  });
+}
+
+/**
+ * LEGACY DOCX GENERATION (backward compatibility)
+ */
+async function generateDocxFromLegacyStructure(
+  assignmentId: string,
+  content: GeneratedContent,
+  unitName: string,
+  unitCode: string,
+  options: DocxOptions = {}
+): Promise<string> {
+  if (!content.sections || content.sections.length === 0) {
+    throw new Error('Invalid content structure: missing sections');
+  }
+  
+  const template = options.template || DEFAULT_DOCX_TEMPLATE;
+  const style = docxStyle(template);
+  const locale = getDocumentLocale(options.language);
+  const sections: any[] = [];
+  const bookmarks = new Map<string, string>();
+  let tableCounter = 1;
+  let figureCounter = 1;
 
   // INTRODUCTION
   if (content.introduction) {
     sections.push(
       new Paragraph({
-        text: 'Introduction',
+        text: locale.text('introduction'),
         heading: HeadingLevel.HEADING_1,
-        alignment: AlignmentType.CENTER,
+        alignment: style.headingAlignment,
         spacing: { before: 400, after: 200 },
       })
     );
@@ -421,13 +980,13 @@ async function generateDocxFromLegacyStructure(
           children: [
             new TextRun({
               text: paragraph.trim(),
-              font: FONT_NAME,
-              size: FONT_SIZE,
+              font: style.font,
+              size: style.size,
             }),
           ],
           alignment: AlignmentType.JUSTIFIED,
-          indent: { firstLine: FIRST_LINE_INDENT },
-          spacing: { line: LINE_SPACING },
+          indent: { firstLine: style.firstLineIndent },
+          spacing: { line: style.lineSpacing },
         })
       );
     });
@@ -442,14 +1001,14 @@ async function generateDocxFromLegacyStructure(
     // Learning Aim Heading (Heading 1, Centered, Bold)
     // Format as "AIM A: [Title]" or "AIM B: [Title]"
     const aimHeading = section.heading.toUpperCase().startsWith('LEARNING AIM') 
-      ? `AIM ${learningAimLetter}: ${section.heading.replace(/^Learning Aim [A-Z]\s*[-–:]?\s*/i, '')}`
-      : `AIM ${learningAimLetter}: ${section.heading}`;
+      ? locale.text('aimHeading', { code: learningAimLetter, title: section.heading.replace(/^Learning Aim [A-Z]\s*[-–:]?\s*/i, '') })
+      : locale.text('aimHeading', { code: learningAimLetter, title: section.heading });
     
     sections.push(
       new Paragraph({
         text: aimHeading,
         heading: HeadingLevel.HEADING_1,
-        alignment: AlignmentType.CENTER,
+        alignment: style.headingAlignment,
         spacing: { before: 400, after: 200 },
       })
     );
@@ -466,13 +1025,13 @@ async function generateDocxFromLegacyStructure(
             children: [
               new TextRun({
                 text: introText,
-                font: FONT_NAME,
-                size: FONT_SIZE,
+                font: style.font,
+                size: style.size,
               }),
             ],
             alignment: AlignmentType.JUSTIFIED,
-            indent: { firstLine: FIRST_LINE_INDENT },
-            spacing: { line: LINE_SPACING },
+            indent: { firstLine: style.firstLineIndent },
+            spacing: { line: style.lineSpacing },
           })
         );
       }
@@ -496,14 +1055,7 @@ async function generateDocxFromLegacyStructure(
         console.log(`[DOCX] Adding criterion: ${formattedCode}`);
 
         // Add criterion heading (Heading 2)
-        sections.push(
-          new Paragraph({
-            text: formattedCode,
-            heading: HeadingLevel.HEADING_2,
-            alignment: AlignmentType.LEFT,
-            spacing: { before: 300, after: 200 },
-          })
-        );
+        sections.push(createCriterionHeading(formattedCode, formattedCode, bookmarks));
 
         // Add criterion content paragraphs
         const criterionParagraphs = criterion.content.split('\n\n').filter(p => p.trim());
@@ -513,13 +1065,13 @@ async function generateDocxFromLegacyStructure(
               children: [
                 new TextRun({
                   text: paragraph.trim(),
-                  font: FONT_NAME,
-                  size: FONT_SIZE,
+                  font: style.font,
+                  size: style.size,
                 }),
               ],
               alignment: AlignmentType.JUSTIFIED,
-              indent: { firstLine: FIRST_LINE_INDENT },
-              spacing: { line: LINE_SPACING },
+              indent: { firstLine: style.firstLineIndent },
+              spacing: { line: style.lineSpacing },
             })
           );
         }
@@ -540,13 +1092,13 @@ async function generateDocxFromLegacyStructure(
             children: [
               new TextRun({
                 text: contentParagraphs[0].trim(),
-                font: FONT_NAME,
-                size: FONT_SIZE,
+                font: style.font,
+                size: style.size,
               }),
             ],
             alignment: AlignmentType.JUSTIFIED,
-            indent: { firstLine: FIRST_LINE_INDENT },
-            spacing: { line: LINE_SPACING },
+            indent: { firstLine: style.firstLineIndent },
+            spacing: { line: style.lineSpacing },
           })
         );
       }
@@ -581,13 +1133,13 @@ async function generateDocxFromLegacyStructure(
             children: [
               new TextRun({
                 text: paragraph,
-                font: FONT_NAME,
-                size: FONT_SIZE,
+                font: style.font,
+                size: style.size,
               }),
             ],
             alignment: AlignmentType.JUSTIFIED,
-            indent: { firstLine: FIRST_LINE_INDENT },
-            spacing: { line: LINE_SPACING },
+            indent: { firstLine: style.firstLineIndent },
+            spacing: { line: style.lineSpacing },
           })
         );
       }
@@ -599,16 +1151,16 @@ async function generateDocxFromLegacyStructure(
     // Add tables if present (after explanatory paragraphs)
     if (section.tables && section.tables.length > 0) {
       for (const tableData of section.tables) {
-        sections.push(createFormattedTable(tableData));
+        sections.push(createFormattedTable(tableData, style));
         
         // Table caption (below table, centered, bold + italic)
         sections.push(
           new Paragraph({
             children: [
               new TextRun({
-                text: `Table ${tableCounter}. ${tableData.caption || 'Data table'}`,
-                font: FONT_NAME,
-                size: FONT_SIZE,
+                text: locale.text('tableCaption', { number: tableCounter, caption: tableData.caption || locale.text('dataTable') }),
+                font: style.font,
+                size: style.size,
                 bold: true,
                 italics: true,
               }),
@@ -629,9 +1181,9 @@ async function generateDocxFromLegacyStructure(
           new Paragraph({
             children: [
               new TextRun({
-                text: `[IMAGE PLACEHOLDER]`,
-                font: FONT_NAME,
-                size: FONT_SIZE,
+                text: locale.text('imagePlaceholder'),
+                font: style.font,
+                size: style.size,
                 bold: true,
               }),
             ],
@@ -651,9 +1203,9 @@ async function generateDocxFromLegacyStructure(
           new Paragraph({
             children: [
               new TextRun({
-                text: `Figure ${figureCounter}. ${image.description || 'Diagram'}`,
-                font: FONT_NAME,
-                size: FONT_SIZE,
+                text: locale.text('figureCaption', { number: figureCounter, caption: image.description || locale.text('diagram') }),
+                font: style.font,
+                size: style.size,
                 bold: true,
                 italics: true,
               }),
@@ -671,9 +1223,9 @@ async function generateDocxFromLegacyStructure(
   if (content.conclusion) {
     sections.push(
       new Paragraph({
-        text: 'Conclusion',
+        text: locale.text('conclusion'),
         heading: HeadingLevel.HEADING_1,
-        alignment: AlignmentType.CENTER,
+        alignment: style.headingAlignment,
         spacing: { before: 400, after: 200 },
       })
     );
@@ -685,13 +1237,13 @@ async function generateDocxFromLegacyStructure(
           children: [
             new TextRun({
               text: paragraph.trim(),
-              font: FONT_NAME,
-              size: FONT_SIZE,
+              font: style.font,
+              size: style.size,
             }),
           ],
           alignment: AlignmentType.JUSTIFIED,
-          indent: { firstLine: FIRST_LINE_INDENT },
-          spacing: { line: LINE_SPACING },
+          indent: { firstLine: style.firstLineIndent },
+          spacing: { line: style.lineSpacing },
         })
       );
     });
@@ -701,9 +1253,9 @@ async function generateDocxFromLegacyStructure(
   if (content.references && content.references.length > 0) {
     sections.push(
       new Paragraph({
-        text: 'References',
+        text: locale.text('references'),
         heading: HeadingLevel.HEADING_1,
-        alignment: AlignmentType.CENTER,
+        alignment: style.headingAlignment,
         spacing: { before: 400, after: 200 },
       })
     );
@@ -722,27 +1274,21 @@ async function generateDocxFromLegacyStructure(
         new Paragraph({
           children: [
             new TextRun({
-              text: `${index + 1}. ${reference.text}`,
-              font: FONT_NAME,
-              size: FONT_SIZE,
+              text: `${locale.number(index + 1)}. ${reference.text}`,
+              font: style.font,
+              size: style.size,
             }),
           ],
           alignment: AlignmentType.LEFT,
           indent: { left: 360, hanging: 360 }, // Hanging indent for references
-          spacing: { line: LINE_SPACING, after: 120 },
+          spacing: { line: style.lineSpacing, after: 120 },
         })
       );
     });
   }
 
-  const doc = new Document({
-    sections: [
-      {
-        properties: {},
-        children: sections,
-      },
-    ],
-  });
+  const front = createFrontMatter(template, style, locale, options.frontMatter, unitName, unitCode, bookmarks);
+  const doc = createDocument([...front, ...sections], template, locale, unitName, unitCode);
 
   const buffer = await Packer.toBuffer(doc);
   const filename = `assignment_${assignmentId}_${Date.now()}.docx`;
@@ -763,7 +1309,7 @@ async function generateDocxFromLegacyStructure(
  * - Times New Roman, 14pt
  * - Bordered
  */
-const createFormattedTable = (tableData: TableData): Table => {
+const createFormattedTable = (tableData: TableData, style: DocxStyle): Table => {
   const rows: TableRow[] = [];
 
   // Header row (bold)
@@ -777,8 +1323,8 @@ const createFormattedTable = (tableData: TableData): Table => {
                 children: [
                   new TextRun({
                     text: header,
-                    font: FONT_NAME,
-                    size: FONT_SIZE,
+                    font: style.font,
+                    size: style.size,
                     bold: true,
                   }),
                 ],
@@ -806,8 +1352,8 @@ const createFormattedTable = (tableData: TableData): Table => {
                   children: [
                     new TextRun({
                       text: cell,
-                      font: FONT_NAME,
-                      size: FONT_SIZE,
+                      font: style.font,
+                      size: style.size,
                     }),
                   ],
                   alignment: AlignmentType.CENTER,
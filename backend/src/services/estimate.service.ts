@@ -0,0 +1,325 @@
+// =============================================================================
+// BTEC GENERATOR - TOKEN ESTIMATE SERVICE
+// =============================================================================
+// Predicts prompt and completion tokens for every outline item before any AI
+// work is done. Items that earlier assignments on the same brief already wrote
+// are predicted from their recorded usage; everything else falls back to the
+// writer's length rules.
+// Only outline items are estimated - they are what a generation is charged for.
+// =============================================================================
+
+import { Grade, Language } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { buildAtomicPlanFromBrief, GenerationPlan, normalizeCriteria, normalizeTasks, outlineItemKey } from './planner.service';
+
+// =============================================================================
+// HEURISTICS
+// =============================================================================
+
+// Upper bounds of the writer's length rules (see writer.service depth rules)
+const CRITERION_WORDS: Record<'PASS' | 'MERIT' | 'DISTINCTION', number> = {
+  PASS: 350,
+  MERIT: 450,
+  DISTINCTION: 550,
+};
+const INTRODUCTION_WORDS = 180;
+const LEARNING_AIM_WORDS = 120;
+const CUSTOM_WORDS = 250;
+const CONCLUSION_WORDS = 180;
+
+// Same counts as generateStructuredReferences()
+const REFERENCE_COUNT: Record<Grade, number> = { PASS: 3, MERIT: 5, DISTINCTION: 8 };
+const TOKENS_PER_REFERENCE = 70;
+const TABLE_COMPLETION_TOKENS = 450;
+
+// Cyrillic and agglutinative text splits into more tokens per word
+const TOKENS_PER_WORD: Record<Language, number> = {
+  en: 1.4,
+  es: 1.7,
+  uz: 2.2,
+  ru: 2.6,
+};
+
+// Fixed instruction overhead per outline item type (system prompt + task framing)
+const PROMPT_BASE_TOKENS: Record<string, number> = {
+  INTRODUCTION: 900,
+  LEARNING_AIM: 700,
+  CRITERION: 1500,
+  TABLE: 700,
+  CUSTOM: 900,
+  CONCLUSION: 900,
+  REFERENCES: 500,
+};
+
+// Headroom on top of the prediction when recommending a purchase
+const SAFETY_MARGIN = 0.15;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface EstimateOptions {
+  briefId: string;
+  grade: Grade;
+  language?: Language;
+  includeTables?: boolean;
+}
+
+export interface ItemEstimate {
+  key: string;                 // Content block sectionId (e.g. criterion_A.P1)
+  type: string;                // Outline item type, or TABLE
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  source: 'history' | 'heuristic';
+  samples: number;             // Past blocks the history figure is based on
+}
+
+export interface GenerationEstimate {
+  briefId: string;
+  unitCode: string;
+  unitName: string;
+  grade: Grade;
+  language: Language;
+  includeTables: boolean;
+  items: ItemEstimate[];
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  recommendedTokens: number;   // totalTokens plus safety margin, rounded up to 1,000
+  historyAssignments: number;  // Completed assignments on this brief used for calibration
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function criterionGrade(code: string): 'PASS' | 'MERIT' | 'DISTINCTION' {
+  const level = code.replace(/^[A-Z]\./i, '').charAt(0).toUpperCase();
+  if (level === 'D') return 'DISTINCTION';
+  if (level === 'M') return 'MERIT';
+  return 'PASS';
+}
+
+// Writer purpose logged in AIUsageLog for a content block sectionId
+function purposeForKey(key: string): string {
+  if (key.startsWith('criterion_')) return 'CRITERION';
+  if (key.startsWith('table_')) return 'TABLE';
+  if (key.startsWith('aim_')) return 'LEARNING_AIM';
+  if (key.startsWith('custom_')) return 'CUSTOM_SECTION';
+  return key.toUpperCase();
+}
+
+function heuristicEstimate(
+  key: string,
+  type: string,
+  grade: Grade,
+  language: Language,
+  contextTokens: number
+): { promptTokens: number; completionTokens: number } {
+  const perWord = TOKENS_PER_WORD[language] || TOKENS_PER_WORD.en;
+  let completionTokens: number;
+
+  switch (type) {
+    case 'INTRODUCTION':
+      completionTokens = INTRODUCTION_WORDS * perWord;
+      break;
+    case 'LEARNING_AIM':
+      completionTokens = LEARNING_AIM_WORDS * perWord;
+      break;
+    case 'CRITERION':
+      completionTokens = CRITERION_WORDS[criterionGrade(key.replace('criterion_', ''))] * perWord;
+      break;
+    case 'TABLE':
+      completionTokens = TABLE_COMPLETION_TOKENS;
+      break;
+    case 'CUSTOM':
+      completionTokens = CUSTOM_WORDS * perWord;
+      break;
+    case 'CONCLUSION':
+      completionTokens = CONCLUSION_WORDS * perWord;
+      break;
+    default:
+      completionTokens = REFERENCE_COUNT[grade] * TOKENS_PER_REFERENCE;
+  }
+
+  return {
+    promptTokens: Math.ceil((PROMPT_BASE_TOKENS[type] || 800) + contextTokens),
+    completionTokens: Math.ceil(completionTokens),
+  };
+}
+
+// =============================================================================
+// ESTIMATION
+// =============================================================================
+
+// Brief fields the estimate needs - a Brief or a ResolvedBriefSnapshot
+interface BriefSource {
+  unitName: string;
+  unitCode: string;
+  level: number;
+  vocationalScenario: string;
+  learningAims: string[];
+  assessmentCriteria: unknown;
+  tasks: unknown;
+}
+
+/**
+ * Estimate the tokens a generation of this brief will use.
+ * The outline is the deterministic one the planner falls back to, so the
+ * item list matches what the generator writes for most briefs.
+ */
+export async function estimateGeneration(options: EstimateOptions): Promise<GenerationEstimate> {
+  const brief = await prisma.brief.findUnique({ where: { id: options.briefId } });
+
+  if (!brief) {
+    throw new Error('Brief not found');
+  }
+
+  return estimateFromBrief(brief, options);
+}
+
+/**
+ * Estimate an existing assignment from its frozen brief snapshot and options.
+ * A saved plan (previewed, possibly edited by the student) is estimated as is.
+ */
+export async function estimateAssignment(assignmentId: string): Promise<GenerationEstimate> {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    include: { snapshot: true, generationPlan: true },
+  });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  return estimateFromBrief(assignment.snapshot, {
+    briefId: assignment.snapshot.briefId,
+    grade: assignment.grade,
+    language: assignment.language,
+    includeTables: assignment.includeTables,
+  }, assignment.generationPlan?.planData as unknown as GenerationPlan | undefined);
+}
+
+async function estimateFromBrief(
+  brief: BriefSource,
+  options: EstimateOptions,
+  savedPlan?: GenerationPlan
+): Promise<GenerationEstimate> {
+  const language = options.language || 'en';
+  const includeTables = !!options.includeTables;
+  const assessmentCriteria = brief.assessmentCriteria as any;
+
+  const plan = savedPlan?.documentOutline?.length ? savedPlan : buildAtomicPlanFromBrief({
+    unitName: brief.unitName,
+    unitCode: brief.unitCode,
+    level: brief.level,
+    scenario: brief.vocationalScenario,
+    learningAims: brief.learningAims,
+    assessmentCriteria: {
+      pass: normalizeCriteria(assessmentCriteria?.pass, 'P'),
+      merit: normalizeCriteria(assessmentCriteria?.merit, 'M'),
+      distinction: normalizeCriteria(assessmentCriteria?.distinction, 'D'),
+    },
+    tasks: normalizeTasks(brief.tasks),
+    targetGrade: options.grade,
+    language,
+    options: { includeTables, includeImages: false },
+  });
+
+  // Flatten outline into charged blocks (tables are separate blocks)
+  const keys: Array<{ key: string; type: string }> = [];
+  for (const item of plan.documentOutline) {
+    // Task headings are not written by the AI
+    if (item.type === 'TASK') continue;
+    keys.push({ key: outlineItemKey(item), type: item.type });
+    if (
+      item.type === 'CRITERION' &&
+      includeTables &&
+      (plan.tablesRequired || []).some((t) => t.criterionCode === item.criterionCode)
+    ) {
+      keys.push({ key: `table_${item.criterionCode}`, type: 'TABLE' });
+    }
+  }
+
+  // History from completed assignments on the same brief and language
+  const pastAssignments = { status: 'COMPLETED' as const, language, snapshot: { briefId: options.briefId } };
+
+  const [blockHistory, usageHistory, historyAssignments] = await Promise.all([
+    prisma.contentBlock.groupBy({
+      by: ['sectionId'],
+      where: { assignment: pastAssignments },
+      _avg: { tokensUsed: true },
+      _count: { _all: true },
+    }),
+    prisma.aIUsageLog.groupBy({
+      by: ['purpose'],
+      where: { assignment: pastAssignments },
+      _sum: { promptTokens: true, completionTokens: true },
+    }),
+    prisma.assignment.count({ where: pastAssignments }),
+  ]);
+
+  const blocksByKey = new Map(blockHistory.map((b) => [b.sectionId, b]));
+  const promptShareByPurpose = new Map<string, number>();
+  for (const usage of usageHistory) {
+    const prompt = usage._sum.promptTokens || 0;
+    const completion = usage._sum.completionTokens || 0;
+    if (prompt + completion > 0) {
+      promptShareByPurpose.set(usage.purpose, prompt / (prompt + completion));
+    }
+  }
+
+  // Scenario and criteria are sent with most writer prompts
+  const contextTokens = Math.ceil((brief.vocationalScenario.length + brief.unitName.length) / 4);
+
+  const items: ItemEstimate[] = keys.map(({ key, type }) => {
+    const heuristic = heuristicEstimate(key, type, options.grade, language, contextTokens);
+    const past = blocksByKey.get(key);
+
+    if (past && past._avg.tokensUsed) {
+      const total = Math.ceil(past._avg.tokensUsed);
+      const share = promptShareByPurpose.get(purposeForKey(key))
+        ?? heuristic.promptTokens / (heuristic.promptTokens + heuristic.completionTokens);
+      const promptTokens = Math.round(total * share);
+
+      return {
+        key,
+        type,
+        promptTokens,
+        completionTokens: total - promptTokens,
+        totalTokens: total,
+        source: 'history',
+        samples: past._count._all,
+      };
+    }
+
+    return {
+      key,
+      type,
+      ...heuristic,
+      totalTokens: heuristic.promptTokens + heuristic.completionTokens,
+      source: 'heuristic',
+      samples: 0,
+    };
+  });
+
+  const promptTokens = items.reduce((sum, item) => sum + item.promptTokens, 0);
+  const completionTokens = items.reduce((sum, item) => sum + item.completionTokens, 0);
+  const totalTokens = promptTokens + completionTokens;
+
+  return {
+    briefId: options.briefId,
+    unitCode: brief.unitCode,
+    unitName: brief.unitName,
+    grade: options.grade,
+    language,
+    includeTables,
+    items,
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    recommendedTokens: Math.ceil((totalTokens * (1 + SAFETY_MARGIN)) / 1000) * 1000,
+    historyAssignments,
+  };
+}
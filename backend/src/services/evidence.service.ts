@@ -0,0 +1,187 @@
+// =============================================================================
+// BTEC GENERATOR - EVIDENCE CHECKLIST SERVICE
+// =============================================================================
+// Maps the brief's checklist of evidence ("screenshots of testing", "evaluation
+// report") to the generated blocks, tables and image placeholders that satisfy
+// it. Matching is deterministic: each item is classified by the kind of
+// evidence it asks for and its keywords are compared with the criterion text.
+// Anything the generator cannot produce (screenshots, recordings, code) is left
+// for the student and flagged in the guidance and the DOCX appendix.
+// =============================================================================
+
+import { AtomicContentBlock, EvidenceChecklistItem, EvidenceKind, EvidenceMatch } from '../types';
+
+// Checked in this order - "screenshots of the test log" is a screenshot
+const KIND_PATTERNS: Array<[EvidenceKind, RegExp]> = [
+  ['VISUAL', /screen\s?shot|screen\s?capture|diagram|image|photo|picture|figure|chart|graph|drawing|sketch|wireframe|flow\s?chart|mock-?up|storyboard/i],
+  ['TABLE', /\btables?\b|matrix|comparison grid|spreadsheet|gantt/i],
+  ['PRACTICAL', /video|recording|audio|witness|observation|source code|\bcode\b|prototype|artefact|artifact|\bfiles?\b|portfolio|presentation|slides|poster|certificate|signed|minutes|questionnaire|survey|website|\bapp\b|program\b|log\s?book|logbook|demonstration/i],
+];
+
+// Words that say how evidence is handed in, not what it is about
+const STOPWORDS = new Set([
+  'report', 'reports', 'evidence', 'document', 'documents', 'documentation', 'written', 'write',
+  'student', 'students', 'learner', 'learners', 'your', 'their', 'with', 'from', 'that', 'this',
+  'which', 'including', 'include', 'includes', 'showing', 'shows', 'show', 'each', 'must', 'should',
+  'into', 'also', 'have', 'will', 'been', 'copy', 'copies', 'final', 'full', 'page', 'pages', 'word',
+  'words', 'submitted', 'submit', 'section', 'sections', 'task', 'tasks', 'part', 'parts',
+]);
+
+// Terms are compared on this many leading letters (evaluate / evaluation)
+const STEM_LENGTH = 5;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function stems(text: string): string[] {
+  return [...new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length >= 4 && !STOPWORDS.has(word))
+      .map((word) => word.slice(0, STEM_LENGTH))
+  )];
+}
+
+function evidenceKind(item: string): EvidenceKind {
+  return KIND_PATTERNS.find(([, pattern]) => pattern.test(item))?.[0] || 'WRITTEN';
+}
+
+// Share of the item's terms found in the text (short terms match longer stems: test → testi)
+function overlap(terms: string[], text: string[]): number {
+  if (terms.length === 0) return 0;
+  const found = terms.filter((term) => text.some((stem) => stem === term || (term.length < STEM_LENGTH && stem.startsWith(term))));
+  return found.length / terms.length;
+}
+
+interface Candidate {
+  match: EvidenceMatch;
+  stems: string[];
+}
+
+// Candidates whose text covers at least half of the item's terms, best first
+function bestMatches(terms: string[], candidates: Candidate[]): EvidenceMatch[] {
+  return candidates
+    .map((candidate) => ({ candidate, score: overlap(terms, candidate.stems) }))
+    .filter(({ score }) => score >= 0.5)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate.match);
+}
+
+// =============================================================================
+// CHECKLIST
+// =============================================================================
+
+/**
+ * Map each checklist item to the generated evidence that satisfies it.
+ * criterionDescriptions holds the full brief text per criterion code - the
+ * block content may be in another language than the brief.
+ */
+export function buildEvidenceChecklist(
+  checklist: string[],
+  atomicBlocks: AtomicContentBlock[],
+  criterionDescriptions: Map<string, string>
+): EvidenceChecklistItem[] {
+  const prose: Candidate[] = [];
+  const tables: Candidate[] = [];
+  const images: Candidate[] = [];
+
+  for (const block of atomicBlocks) {
+    if (block.type === 'INTRODUCTION' || block.type === 'CONCLUSION') {
+      const sectionId = block.type.toLowerCase();
+      prose.push({
+        match: { sectionId, kind: 'BLOCK', source: block.type, title: block.title || undefined },
+        stems: stems(`${block.title || ''} ${block.content || ''}`),
+      });
+      continue;
+    }
+
+    if (block.type === 'CUSTOM') {
+      prose.push({
+        match: { sectionId: `custom_${block.customNumber || 1}`, kind: 'BLOCK', source: 'CUSTOM', title: block.title || undefined },
+        stems: stems(`${block.title || ''} ${block.content || ''}`),
+      });
+      continue;
+    }
+
+    if (block.type !== 'CRITERION' || !block.criterionCode) continue;
+
+    const code = block.criterionCode;
+    const criterionText = `${criterionDescriptions.get(code) || ''} ${block.criterionTitle || ''}`;
+
+    prose.push({
+      match: { sectionId: `criterion_${code}`, kind: 'BLOCK', source: 'CRITERION', code },
+      stems: stems(`${criterionText} ${block.criterionContent || ''}`),
+    });
+
+    if (block.table) {
+      tables.push({
+        match: { sectionId: `table_${code}`, kind: 'TABLE', source: 'CRITERION', code, title: block.table.caption || undefined },
+        stems: stems(`${criterionText} ${block.table.caption || ''} ${(block.table.headers || []).join(' ')}`),
+      });
+    }
+
+    if (block.image) {
+      images.push({
+        match: { sectionId: `criterion_${code}`, kind: 'IMAGE', source: 'CRITERION', code, title: block.image.caption || undefined },
+        stems: stems(`${criterionText} ${block.image.description || ''}`),
+      });
+    }
+  }
+
+  return checklist
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item): EvidenceChecklistItem => {
+      const kind = evidenceKind(item);
+      const terms = stems(item);
+
+      switch (kind) {
+        case 'WRITTEN': {
+          // "Written report" names no topic - the document as a whole is the evidence
+          const matches = terms.length === 0 ? [] : bestMatches(terms, prose);
+          const covered = terms.length === 0 || matches.length > 0;
+          return {
+            item,
+            kind,
+            status: covered ? 'COVERED' : 'MISSING',
+            matches,
+            noteCode: covered ? (matches.length > 0 ? 'SECTIONS' : 'WHOLE_REPORT') : 'NO_SECTION',
+          };
+        }
+
+        case 'TABLE': {
+          const matches = terms.length === 0 ? tables.map((t) => t.match) : bestMatches(terms, tables);
+          return {
+            item,
+            kind,
+            status: matches.length > 0 ? 'COVERED' : 'MISSING',
+            matches,
+            noteCode: matches.length > 0 ? 'TABLES' : 'NO_TABLE',
+          };
+        }
+
+        case 'VISUAL': {
+          const matches = terms.length === 0 ? images.map((i) => i.match) : bestMatches(terms, images);
+          return {
+            item,
+            kind,
+            status: matches.length > 0 ? 'PLACEHOLDER' : 'MISSING',
+            matches,
+            noteCode: matches.length > 0 ? 'FIGURE' : 'CAPTURE',
+          };
+        }
+
+        default:
+          return {
+            item,
+            kind,
+            status: 'MISSING',
+            matches: [],
+            noteCode: 'SUPPLY',
+          };
+      }
+    });
+}
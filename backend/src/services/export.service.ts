@@ -0,0 +1,77 @@
+// =============================================================================
+// BTEC GENERATOR - EXPORT SERVICE
+// =============================================================================
+// Downloads of a completed assignment in any registered format (see src/export).
+// =============================================================================
+
+import { prisma } from '../lib/prisma';
+import { getExportFormat, listExportFormats } from '../export';
+import { GeneratedContent } from '../types';
+import { WritingGuidance } from './guidance.service';
+import { resolveDocxOptions } from './template.service';
+
+export interface ExportedFile {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export const getExportFormats = () =>
+  listExportFormats().map(({ id, label, extension, mimeType }) => ({ id, label, extension, mimeType }));
+
+/**
+ * Render a completed assignment. userId enforces ownership - omit it for admins.
+ */
+export const exportAssignment = async (
+  assignmentId: string,
+  formatId: string,
+  userId?: string
+): Promise<ExportedFile> => {
+  const format = getExportFormat(formatId);
+  if (!format) {
+    throw new Error(`Unsupported export format: ${formatId}`);
+  }
+
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    include: { snapshot: true },
+  });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  if (userId && assignment.userId !== userId) {
+    throw new Error('Unauthorized access to assignment');
+  }
+
+  if (assignment.status !== 'COMPLETED') {
+    throw new Error('Assignment is not yet completed');
+  }
+
+  if (!assignment.content) {
+    throw new Error('Assignment content is missing');
+  }
+
+  const unitName = assignment.snapshot?.unitName || 'Assignment';
+  const unitCode = assignment.snapshot?.unitCode || assignment.id.slice(0, 8);
+
+  console.log(`[EXPORT] Rendering ${format.id} for assignment ${assignment.id}`);
+  const buffer = await format.render({
+    assignmentId: assignment.id,
+    content: assignment.content as unknown as GeneratedContent,
+    unitName,
+    unitCode,
+    grade: assignment.grade,
+    language: assignment.language,
+    guidance: assignment.guidance as unknown as WritingGuidance | null,
+    docx: await resolveDocxOptions(assignment.id),
+    docxPath: assignment.docxUrl,
+  });
+
+  return {
+    buffer,
+    fileName: `Assignment_${unitName}_${unitCode}.${format.extension}`,
+    mimeType: format.mimeType,
+  };
+};
@@ -1,5 +1,14 @@
+import { Assignment, ContentBlock, Language, ResolvedBriefSnapshot } from '@prisma/client';
 import { prisma } from '../lib/prisma';
-import { generatePlan, GenerationPlan } from './planner.service';
+import {
+  applyPlanEdits,
+  generatePlan,
+  GenerationPlan,
+  normalizeCriteria,
+  normalizeTasks,
+  outlineItemKey,
+} from './planner.service';
+import { estimateAssignment } from './estimate.service';
 import { 
   generateContentBlock, 
   generateIntroduction, 
@@ -9,13 +18,40 @@ import {
   generateLearningAimBlock,
   generateCriterionBlock,
   generateCriterionTable,
-  generateStructuredReferences
+  generateCustomSection,
+  generateStructuredReferences,
+  RevisionRequest,
 } from './writer.service';
-import { deductTokens } from './token.service';
+import { holdTokens, settleHold, settleReservation } from './token.service';
 import { generateDocx } from './docx.service';
+import { resolveDocxOptions } from './template.service';
 import { generateWritingGuidance } from './guidance.service';
+import { buildEvidenceChecklist } from './evidence.service';
+import { publishProgress } from './progress.service';
+import { abortGenerationRun } from './cancellation.service';
+import {
+  buildQualityReport,
+  checkBlock,
+  isCheckedBlock,
+  recordLanguageCheck,
+  QUALITY_MAX_REWRITES,
+  BlockQualityResult,
+  QualityReport,
+} from './quality.service';
+import { enqueueGeneration, getQueuePosition, isGenerationPaused, waitWhilePaused } from './queue.service';
+import { findOpenEditSession, recordAssignmentVersion, refreshEditVersion } from './version.service';
+import { blockTextSchema, referencesSchema, tableDataSchema } from '../utils/validation';
 import { GeneratedContent, ContentSection, CriterionBlock, AtomicContentBlock, Reference, TableData, ImagePlaceholder } from '../types';
 
+// Criteria of one learning aim written concurrently (1 = strictly sequential)
+const CRITERION_PARALLELISM = Math.max(1, parseInt(process.env.GENERATION_CRITERION_PARALLELISM || '1', 10) || 1);
+
+// Hold for a plan refresh when the earlier plan recorded no usage
+const PLAN_REFRESH_MIN_TOKENS = 3000;
+
+// A block regeneration claim older than this is from a crashed request
+const BLOCK_REGENERATION_STALE_MS = 10 * 60 * 1000;
+
 /**
  * CANONICAL ASSIGNMENT GENERATION FLOW
  * 
@@ -50,7 +86,206 @@ import { GeneratedContent, ContentSection, CriterionBlock, AtomicContentBlock, R
  * - No AI, just formatting
  */
 
+/**
+ * Queue an assignment for generation.
+ * Validates ownership and status, then hands off to the durable job queue.
+ * The actual pipeline runs in runGeneration() when a worker picks the job up.
+ */
 export async function startGeneration(assignmentId: string, userId: string) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+  });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  if (assignment.userId !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  if (assignment.status !== 'DRAFT') {
+    throw new Error('Assignment already generating or completed');
+  }
+
+  const { job, queuePosition } = await enqueueGeneration(assignmentId, userId);
+
+  return {
+    id: assignmentId,
+    assignmentId,
+    jobId: job.id,
+    status: 'GENERATING',
+    queuePosition,
+    message: 'Generation queued. Poll /api/generation/status/:id for progress.',
+  };
+}
+
+/**
+ * Resume a failed or cancelled generation from its checkpoints.
+ * Keeps the saved plan and content blocks; only missing outline items are
+ * generated again. Pass userId to enforce ownership (student), omit for admin.
+ */
+export async function resumeGeneration(assignmentId: string, userId?: string) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    include: { _count: { select: { contentBlocks: true } } },
+  });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  if (userId && assignment.userId !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  if (assignment.status !== 'FAILED' && assignment.status !== 'CANCELLED') {
+    throw new Error('Only failed or cancelled assignments can be resumed');
+  }
+
+  // A cancelled run settles its blocks when its job stops - enqueueing before
+  // that would hand back the stopping job
+  const stopping = await prisma.generationJob.count({
+    where: { assignmentId, status: { in: ['QUEUED', 'RUNNING'] } },
+  });
+  if (stopping > 0) {
+    throw new Error('Generation is still stopping');
+  }
+
+  const { job, queuePosition } = await enqueueGeneration(assignmentId, assignment.userId);
+
+  console.log(`[ORCHESTRATOR] Resuming assignment ${assignmentId} from ${assignment._count.contentBlocks} saved blocks`);
+
+  return {
+    id: assignmentId,
+    assignmentId,
+    jobId: job.id,
+    status: 'GENERATING',
+    queuePosition,
+    savedBlocks: assignment._count.contentBlocks,
+    message: 'Generation resumed from last checkpoint. Poll /api/generation/status/:id for progress.',
+  };
+}
+
+/**
+ * Load a DRAFT assignment the user owns, with its snapshot and saved plan
+ */
+async function loadDraftAssignment(assignmentId: string, userId: string) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    include: { snapshot: true, generationPlan: true },
+  });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  if (assignment.userId !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  if (assignment.status !== 'DRAFT') {
+    throw new Error('The plan can only be changed before generation starts');
+  }
+
+  return assignment;
+}
+
+/**
+ * Saved plan of an assignment with the token estimate for it
+ */
+async function buildPlanPreview(assignmentId: string) {
+  const [saved, estimate] = await Promise.all([
+    prisma.generationPlan.findUniqueOrThrow({ where: { assignmentId } }),
+    estimateAssignment(assignmentId),
+  ]);
+  const plan = saved.planData as unknown as GenerationPlan;
+
+  return {
+    assignmentId,
+    plan: {
+      documentOutline: plan.documentOutline || [],
+      tablesRequired: plan.tablesRequired || [],
+      imagesSuggested: plan.imagesSuggested || [],
+    },
+    edited: !!saved.editedAt,
+    estimate,
+  };
+}
+
+/**
+ * Dry run of the planning phase: returns the outline, tables, images and a
+ * token estimate without writing any content. The plan is saved, and
+ * runGeneration() reuses a saved plan, so the outline the student confirms is
+ * the one that gets written. refresh discards the saved plan and its edits.
+ */
+export async function previewPlan(assignmentId: string, userId: string, refresh = false) {
+  const assignment = await loadDraftAssignment(assignmentId, userId);
+
+  if (!assignment.generationPlan) {
+    await generatePlan(buildBriefSnapshot(assignment), userId, assignmentId);
+  } else if (refresh) {
+    await refreshPlan(assignment, userId);
+  }
+
+  return buildPlanPreview(assignmentId);
+}
+
+/**
+ * Plan again from scratch. The first plan is part of the generation; every
+ * re-plan is charged, held up front at what the last planner call used.
+ * The saved plan and its edits are only replaced once the planner succeeded.
+ */
+async function refreshPlan(assignment: Awaited<ReturnType<typeof loadDraftAssignment>>, userId: string) {
+  const previous = assignment.generationPlan!;
+  const held = await holdTokens(
+    userId,
+    assignment.id,
+    Math.max(previous.tokensUsed, PLAN_REFRESH_MIN_TOKENS),
+    'PLAN_REFRESH'
+  );
+
+  let tokensUsed = 0;
+  try {
+    await generatePlan(buildBriefSnapshot(assignment), userId, assignment.id, true);
+    const saved = await prisma.generationPlan.findUniqueOrThrow({
+      where: { assignmentId: assignment.id },
+      select: { tokensUsed: true },
+    });
+    tokensUsed = saved.tokensUsed;
+  } finally {
+    await settleHold(userId, assignment.id, held, tokensUsed, 'PLAN_REFRESH');
+  }
+}
+
+/**
+ * Save the student's edits to a previewed plan (see applyPlanEdits)
+ */
+export async function updateAssignmentPlan(assignmentId: string, userId: string, edits: unknown) {
+  const assignment = await loadDraftAssignment(assignmentId, userId);
+
+  if (!assignment.generationPlan) {
+    throw new Error('Preview the plan before editing it');
+  }
+
+  const plan = applyPlanEdits(assignment.generationPlan.planData as unknown as GenerationPlan, edits);
+
+  await prisma.generationPlan.update({
+    where: { id: assignment.generationPlan.id },
+    data: { planData: plan as any, editedAt: new Date() },
+  });
+
+  console.log(`[PLANNER] Plan of assignment ${assignmentId} edited: ${plan.documentOutline.length} outline items`);
+
+  return buildPlanPreview(assignmentId);
+}
+
+/**
+ * Run the full generation pipeline for a queued assignment.
+ * Called by the queue worker only. Throws on failure - the queue decides
+ * whether to retry or mark the assignment as FAILED.
+ */
+export async function runGeneration(assignmentId: string, userId: string) {
   // Get assignment with snapshot
   const assignment = await prisma.assignment.findUnique({
     where: { id: assignmentId },
@@ -68,20 +303,15 @@ export async function startGeneration(assignmentId: string, userId: string) {
     throw new Error('Unauthorized');
   }
 
-  if (assignment.status !== 'DRAFT') {
-    throw new Error('Assignment already generating or completed');
-  }
-
-  // Update status to GENERATING
+  // Plan and content blocks from an earlier (failed or interrupted) attempt
+  // are kept as checkpoints - see generateFromAtomicOutline()
   await prisma.assignment.update({
     where: { id: assignmentId },
-    data: { status: 'GENERATING' },
+    data: { status: 'GENERATING', error: null },
   });
 
   try {
     const startTime = Date.now();
-    const assessmentCriteria = assignment.snapshot.assessmentCriteria as any;
-
     // PHASE 0: VALIDATE INPUTS
     console.log(`[ORCHESTRATOR] ========================================`);
     console.log(`[ORCHESTRATOR] PHASE 0: Validating inputs`);
@@ -89,31 +319,7 @@ export async function startGeneration(assignmentId: string, userId: string) {
 
     // Build brief snapshot for AI with properly structured criteria
     // AND include student context for personalised first-person writing
-    const briefSnapshot = {
-      unitName: assignment.snapshot.unitName,
-      unitCode: assignment.snapshot.unitCode,
-      level: assignment.snapshot.level,
-      scenario: assignment.snapshot.vocationalScenario,
-      learningAims: assignment.snapshot.learningAims as any[],
-      assessmentCriteria: {
-        pass: normalizeCriteria(assessmentCriteria?.pass, 'P'),
-        merit: normalizeCriteria(assessmentCriteria?.merit, 'M'),
-        distinction: normalizeCriteria(assessmentCriteria?.distinction, 'D'),
-      },
-      checklistOfEvidence: assignment.snapshot.checklistOfEvidence || [],
-      sources: assignment.snapshot.sourcesOfInformation || [],
-      targetGrade: assignment.grade,
-      language: assignment.language,
-      options: {
-        includeTables: assignment.includeTables,
-        includeImages: assignment.includeImages,
-      },
-      // STUDENT CONTEXT - For first-person personalised writing
-      studentContext: {
-        profileSnapshot: (assignment as any).studentProfileSnapshot || null,
-        studentInputs: (assignment as any).studentInputs || null,
-      },
-    };
+    const briefSnapshot = buildBriefSnapshot(assignment);
 
     console.log(`[ORCHESTRATOR] Target Grade: ${briefSnapshot.targetGrade}`);
     console.log(`[ORCHESTRATOR] Language: ${briefSnapshot.language}`);
@@ -122,11 +328,21 @@ export async function startGeneration(assignmentId: string, userId: string) {
     console.log(`[ORCHESTRATOR] Distinction Criteria: ${briefSnapshot.assessmentCriteria.distinction.length}`);
 
     // PHASE 1: PLANNING
+    await waitWhilePaused(assignmentId);
     console.log(`[ORCHESTRATOR] ========================================`);
     console.log(`[ORCHESTRATOR] PHASE 1: Generating plan (NO CONTENT)`);
     console.log(`[ORCHESTRATOR] ========================================`);
-    const generationPlan = await generatePlan(briefSnapshot, userId, assignmentId);
+    publishProgress(assignmentId, 'job:progress', { stage: 'planning', progress: 0 });
+    const savedPlan = await prisma.generationPlan.findUnique({ where: { assignmentId } });
+    let generationPlan: GenerationPlan;
+    if (savedPlan) {
+      console.log(`[ORCHESTRATOR] Reusing saved plan (checkpoint)`);
+      generationPlan = savedPlan.planData as unknown as GenerationPlan;
+    } else {
+      generationPlan = await generatePlan(briefSnapshot, userId, assignmentId);
+    }
     console.log(`[ORCHESTRATOR] Plan sections: ${generationPlan.sections?.length || 0}`);
+    publishProgress(assignmentId, 'job:stageComplete', { stage: 'planning', reused: !!savedPlan });
 
     // PHASE 2-5: CONTENT GENERATION (phased approach)
     console.log(`[ORCHESTRATOR] ========================================`);
@@ -134,13 +350,29 @@ export async function startGeneration(assignmentId: string, userId: string) {
     console.log(`[ORCHESTRATOR] ========================================`);
     
     // Generate content using the new phase-based approach
-    const generatedContent = await generatePhasedContent(
+    let generatedContent = await generatePhasedContent(
       briefSnapshot,
       generationPlan,
       userId,
       assignmentId
     );
 
+    // Quality gate - rewrite blocks that break the writer rules, then reassemble
+    let qualityReport: QualityReport | null = null;
+    if (generationPlan.documentOutline?.length) {
+      publishProgress(assignmentId, 'job:progress', { stage: 'quality_check', progress: 100 });
+      qualityReport = await applyQualityGate(briefSnapshot, generationPlan, userId, assignmentId);
+      publishProgress(assignmentId, 'job:stageComplete', {
+        stage: 'quality_check',
+        rewrites: qualityReport.totalRewrites,
+        blocksFailed: qualityReport.blocksFailed,
+      });
+
+      if (qualityReport.totalRewrites > 0) {
+        generatedContent = await generateFromAtomicOutline(briefSnapshot, generationPlan, userId, assignmentId, true);
+      }
+    }
+
     // Get all blocks for token counting
     const blocks = await prisma.contentBlock.findMany({
       where: { assignmentId },
@@ -150,8 +382,8 @@ export async function startGeneration(assignmentId: string, userId: string) {
     // Calculate total tokens
     const totalTokens = blocks.reduce((sum, block) => sum + block.tokensUsed, 0);
 
-    // Deduct tokens from user's balance
-    await deductTokens(userId, totalTokens, assignmentId, 'ASSIGNMENT_GENERATION');
+    // Last pause checkpoint - a cancel after this is still caught by the completing update below
+    await waitWhilePaused(assignmentId);
 
     const endTime = Date.now();
     const durationMs = endTime - startTime;
@@ -160,6 +392,7 @@ export async function startGeneration(assignmentId: string, userId: string) {
     console.log(`[ORCHESTRATOR] ========================================`);
     console.log(`[ORCHESTRATOR] PHASE 6: DOCX Assembly (NO AI)`);
     console.log(`[ORCHESTRATOR] ========================================`);
+    publishProgress(assignmentId, 'job:progress', { stage: 'assembling', progress: 100, tokensUsed: totalTokens });
     console.log('[ORCHESTRATOR] Content structure:', {
       hasIntroduction: !!generatedContent.introduction,
       sectionsCount: generatedContent.sections?.length || 0,
@@ -176,7 +409,8 @@ export async function startGeneration(assignmentId: string, userId: string) {
         assignmentId,
         generatedContent,
         unitName,
-        unitCode
+        unitCode,
+        await resolveDocxOptions(assignmentId)
       );
       if (!docxPath) {
         throw new Error('generateDocx returned undefined');
@@ -205,6 +439,7 @@ export async function startGeneration(assignmentId: string, userId: string) {
           vocationalScenario: assignment.snapshot.vocationalScenario || '',
           targetGrade: assignment.grade,
           language: assignment.language,
+          evidenceChecklist: generatedContent.evidenceChecklist || [],
         },
         assignmentId
       );
@@ -214,26 +449,51 @@ export async function startGeneration(assignmentId: string, userId: string) {
       console.error('[ORCHESTRATOR] Guidance error:', guidanceError?.message);
     }
 
-    // Update assignment as completed
-    await prisma.assignment.update({
-      where: { id: assignmentId },
-      data: {
-        status: 'COMPLETED',
-        content: generatedContent as any,
-        guidance: writingGuidance as any,
-        totalTokensUsed: totalTokens,
-        totalAiCalls: blocks.length + 1,
-        generationDurationMs: durationMs,
-        completedAt: new Date(),
-        docxUrl: docxPath,
-      },
+    // Update assignment as completed - unless it was cancelled meanwhile - and
+    // settle the tokens held at enqueue against actual usage in the same
+    // transaction. A cancel that got in first settles the finished blocks itself.
+    await prisma.$transaction(async (tx) => {
+      const completed = await tx.assignment.updateMany({
+        where: { id: assignmentId, status: 'GENERATING' },
+        data: {
+          status: 'COMPLETED',
+          content: generatedContent as any,
+          ...(qualityReport && { qualityReport: qualityReport as any }),
+          guidance: writingGuidance as any,
+          totalTokensUsed: totalTokens,
+          totalAiCalls: blocks.length + 1,
+          generationDurationMs: durationMs,
+          completedAt: new Date(),
+          docxUrl: docxPath,
+        },
+      });
+      if (completed.count === 0) {
+        throw new Error('Generation cancelled');
+      }
+
+      await settleReservation(userId, assignmentId, totalTokens, tx);
     });
 
+    // The assignment is already complete - a failed snapshot must not fail the job
+    try {
+      await recordAssignmentVersion(assignmentId, 'GENERATION', { tokensUsed: totalTokens });
+    } catch (versionError: any) {
+      console.error('[ORCHESTRATOR] ✗ Failed to record assignment version:', versionError?.message);
+    }
+
     console.log(`[ORCHESTRATOR] ========================================`);
     console.log(`[ORCHESTRATOR] Generation completed in ${durationMs}ms`);
     console.log(`[ORCHESTRATOR] Total tokens: ${totalTokens}`);
     console.log(`[ORCHESTRATOR] ========================================`);
 
+    publishProgress(assignmentId, 'job:complete', {
+      totalTokens,
+      totalBlocks: blocks.length,
+      wordCount: countWords(blocks.map((block) => block.content).join(' ')),
+      durationMs,
+      hasDocx: !!docxPath,
+    });
+
     return {
       success: true,
       assignmentId,
@@ -243,34 +503,42 @@ export async function startGeneration(assignmentId: string, userId: string) {
     };
   } catch (error: any) {
     console.error('[ORCHESTRATOR] Generation failed:', error);
-
-    await prisma.assignment.update({
-      where: { id: assignmentId },
-      data: {
-        status: 'FAILED',
-        error: error.message || 'Unknown error',
-      },
-    });
-
     throw error;
   }
 }
 
 /**
- * Normalize criteria array - handle both string[] and object[] formats
+ * Build the brief snapshot passed to the planner and writer
  */
-function normalizeCriteria(criteria: any, prefix: string): Array<{ code: string; description: string }> {
-  if (!Array.isArray(criteria)) return [];
-  
-  return criteria.map((item: any, idx: number) => {
-    if (typeof item === 'string') {
-      return { code: `${prefix}${idx + 1}`, description: item };
-    }
-    return {
-      code: item.code || `${prefix}${idx + 1}`,
-      description: item.description || item.text || String(item)
-    };
-  });
+function buildBriefSnapshot(assignment: Assignment & { snapshot: ResolvedBriefSnapshot }) {
+  const assessmentCriteria = assignment.snapshot.assessmentCriteria as any;
+
+  return {
+    unitName: assignment.snapshot.unitName,
+    unitCode: assignment.snapshot.unitCode,
+    level: assignment.snapshot.level,
+    scenario: assignment.snapshot.vocationalScenario,
+    learningAims: assignment.snapshot.learningAims as any[],
+    assessmentCriteria: {
+      pass: normalizeCriteria(assessmentCriteria?.pass, 'P'),
+      merit: normalizeCriteria(assessmentCriteria?.merit, 'M'),
+      distinction: normalizeCriteria(assessmentCriteria?.distinction, 'D'),
+    },
+    checklistOfEvidence: assignment.snapshot.checklistOfEvidence || [],
+    sources: assignment.snapshot.sourcesOfInformation || [],
+    tasks: normalizeTasks(assignment.snapshot.tasks),
+    targetGrade: assignment.grade,
+    language: assignment.language,
+    options: {
+      includeTables: assignment.includeTables,
+      includeImages: assignment.includeImages,
+    },
+    // STUDENT CONTEXT - For first-person personalised writing
+    studentContext: {
+      profileSnapshot: (assignment as any).studentProfileSnapshot || null,
+      studentInputs: (assignment as any).studentInputs || null,
+    },
+  };
 }
 
 /**
@@ -305,10 +573,27 @@ async function generateFromAtomicOutline(
   briefSnapshot: any,
   generationPlan: GenerationPlan,
   userId: string,
-  assignmentId: string
+  assignmentId: string,
+  assembleOnly = false
 ): Promise<GeneratedContent> {
   let blockOrder = 0;
   let previousSummary = '';
+
+  // Blocks saved by an earlier attempt - reused instead of regenerated.
+  // blockOrder still advances for skipped items so ordering and seeds stay stable.
+  const checkpoints = await loadCheckpoints(assignmentId);
+  if (checkpoints.size > 0 && !assembleOnly) {
+    console.log(`[GENERATION] Resuming with ${checkpoints.size} saved blocks`);
+  }
+
+  // In assemble-only mode nothing is generated - the document is rebuilt from saved blocks
+  const saved = (key: string) => {
+    const block = checkpoints.get(key);
+    if (!block && assembleOnly) {
+      throw new Error(`Missing content block: ${key}`);
+    }
+    return block;
+  };
   
   const atomicBlocks: AtomicContentBlock[] = [];
   
@@ -324,192 +609,383 @@ async function generateFromAtomicOutline(
   let tableCounter = 1;
   let figureCounter = 1;
 
-  for (const item of generationPlan.documentOutline!) {
-    console.log(`[GENERATION] Processing outline item: ${item.type} ${item.criterionCode || item.aimCode || item.title || ''}`);
+  const outline = generationPlan.documentOutline!;
+  const progress = assembleOnly ? null : createOutlineProgress(assignmentId, outline.length);
+
+  const tableRequirement = (criterionCode: string) => (generationPlan.tablesRequired || []).find(
+    (t: any) => t.criterionCode === criterionCode
+  );
+
+  // Parallel mode: the criteria following a learning aim (or task) heading are written
+  // ahead of the loop (keyed by outline index) and consumed in outline order below.
+  // Each gets the heading's context instead of the previous criterion's summary.
+  // blockOrder is reserved up front exactly as the sequential path would assign it.
+  const prefetched = new Map<number, Promise<{ content: string; table?: TableData }>>();
+  const limit = createLimiter(CRITERION_PARALLELISM);
+
+  // When the run fails, prefetches not yet started are skipped and running ones
+  // aborted - then awaited, so none writes a block after the job has failed
+  let prefetchStopped = false;
+  const stopPrefetching = async () => {
+    if (prefetched.size === 0) return;
+    prefetchStopped = true;
+    abortGenerationRun(assignmentId);
+    await Promise.allSettled(prefetched.values());
+  };
+  const assertPrefetching = () => {
+    if (prefetchStopped) throw new Error('Generation stopped');
+  };
+
+  const prefetchCriteria = (aimCode: string, context: string, firstOrder: number, startIndex: number) => {
+    let order = firstOrder;
+
+    for (let index = startIndex; index < outline.length && outline[index].type === 'CRITERION'; index++) {
+      const next = outline[index];
+      const criterionCode = next.criterionCode || 'A.P1';
+      const criterionDescription = next.criterionDescription || next.criterionTitle || '';
+      const tableReq = tableRequirement(criterionCode);
+      const criterionOrder = order++;
+      const tableOrder = tableReq && briefSnapshot.options.includeTables ? order++ : null;
+
+      const task = limit(async () => {
+        assertPrefetching();
+        await waitWhilePaused(assignmentId);
+        assertPrefetching();
 
-    switch (item.type) {
-      case 'INTRODUCTION': {
-        console.log(`[GENERATION] PHASE 2: Introduction`);
-        introductionContent = await generateIntroduction(
+        const content = checkpoints.get(`criterion_${criterionCode}`)?.content ?? await generateCriterionBlock(
           briefSnapshot,
-          generationPlan,
+          next.aimCode || aimCode,
+          criterionCode,
+          criterionDescription,
+          context,
           userId,
           assignmentId,
-          blockOrder++
+          criterionOrder
         );
-        previousSummary = introductionContent.substring(0, 200);
-        
-        atomicBlocks.push({
-          type: 'INTRODUCTION',
-          title: 'Introduction',
-          content: introductionContent
-        });
-        break;
+
+        if (tableOrder === null) {
+          return { content };
+        }
+
+        assertPrefetching();
+        const savedTable = checkpoints.get(`table_${criterionCode}`);
+        const table = savedTable
+          ? JSON.parse(savedTable.content) as TableData
+          : await generateCriterionTable(
+            briefSnapshot,
+            criterionCode,
+            criterionDescription,
+            tableReq!.tableType || 'Comparison',
+            userId,
+            assignmentId,
+            tableOrder
+          );
+        return { content, table };
+      });
+
+      // Awaited in outline order; a failure surfaces there, not as an unhandled rejection
+      task.catch(() => undefined);
+      prefetched.set(index, task);
+    }
+  };
+
+  try {
+    for (const [index, item] of outline.entries()) {
+      // Pause checkpoint - stop cleanly between outline items
+      if (!assembleOnly) {
+        await waitWhilePaused(assignmentId);
       }
 
-      case 'LEARNING_AIM': {
-        // Save previous section if exists
-        if (currentSection) {
-          sections.push(currentSection);
+      console.log(`[GENERATION] Processing outline item: ${item.type} ${item.criterionCode || item.aimCode || item.taskTitle || item.title || ''}`);
+      const itemKey = outlineItemKey(item);
+      progress?.started(itemKey);
+
+      switch (item.type) {
+        case 'INTRODUCTION': {
+          console.log(`[GENERATION] PHASE 2: Introduction`);
+          const order = blockOrder++;
+          introductionContent = saved('introduction')?.content ?? await generateIntroduction(
+            briefSnapshot,
+            generationPlan,
+            userId,
+            assignmentId,
+            order
+          );
+          previousSummary = introductionContent.substring(0, 200);
+        
+          atomicBlocks.push({
+            type: 'INTRODUCTION',
+            title: 'Introduction',
+            content: introductionContent
+          });
+          break;
         }
+
+        case 'LEARNING_AIM': {
+          // Save previous section if exists
+          if (currentSection) {
+            sections.push(currentSection);
+          }
         
-        currentAimCode = item.aimCode || 'A';
-        console.log(`[GENERATION] PHASE 3: Learning Aim ${currentAimCode}`);
+          currentAimCode = item.aimCode || 'A';
+          console.log(`[GENERATION] PHASE 3: Learning Aim ${currentAimCode}`);
         
-        const aimContent = await generateLearningAimBlock(
-          briefSnapshot,
-          currentAimCode,
-          item.aimTitle || `Learning Aim ${currentAimCode}`,
-          previousSummary,
-          userId,
-          assignmentId,
-          blockOrder++
-        );
-        previousSummary = aimContent.substring(0, 200);
+          const order = blockOrder++;
+          const aimContent = saved(`aim_${currentAimCode}`)?.content ?? await generateLearningAimBlock(
+            briefSnapshot,
+            currentAimCode,
+            item.aimTitle || `Learning Aim ${currentAimCode}`,
+            previousSummary,
+            userId,
+            assignmentId,
+            order
+          );
+          previousSummary = aimContent.substring(0, 200);
+
+          if (CRITERION_PARALLELISM > 1 && !assembleOnly) {
+            prefetchCriteria(currentAimCode, `Learning aim context: ${aimContent}`, blockOrder, index + 1);
+          }
         
-        atomicBlocks.push({
-          type: 'LEARNING_AIM',
-          aimCode: currentAimCode,
-          aimTitle: item.aimTitle,
-          aimContent: aimContent
-        });
+          atomicBlocks.push({
+            type: 'LEARNING_AIM',
+            aimCode: currentAimCode,
+            aimTitle: item.aimTitle,
+            aimContent: aimContent
+          });
         
-        // Start new section for legacy structure
-        currentSection = {
-          heading: item.aimTitle || `Learning Aim ${currentAimCode}`,
-          content: aimContent,
-          criteria: [],
-          tables: [],
-          images: []
-        };
-        break;
-      }
+          // Start new section for legacy structure
+          currentSection = {
+            heading: item.aimTitle || `Learning Aim ${currentAimCode}`,
+            content: aimContent,
+            criteria: [],
+            tables: [],
+            images: []
+          };
+          break;
+        }
 
-      case 'CRITERION': {
-        const criterionCode = item.criterionCode || 'A.P1';
-        const criterionDescription = item.criterionDescription || item.criterionTitle || '';
-        
-        console.log(`[GENERATION] Generating CRITERION: ${criterionCode}`);
+        case 'TASK': {
+          // Task-driven outline: a heading for the teacher's task, no AI block of its own
+          if (currentSection) {
+            sections.push(currentSection);
+          }
+
+          const taskTitle = item.taskTitle || `Task ${item.taskNumber || 1}`;
+          console.log(`[GENERATION] PHASE 3: ${taskTitle}`);
+
+          if (CRITERION_PARALLELISM > 1 && !assembleOnly) {
+            prefetchCriteria(
+              currentAimCode || 'A',
+              `Task context: ${taskTitle}. ${item.taskDescription || ''}`.trim(),
+              blockOrder,
+              index + 1
+            );
+          }
+
+          atomicBlocks.push({
+            type: 'TASK',
+            taskNumber: item.taskNumber,
+            taskTitle,
+          });
+
+          currentSection = {
+            heading: taskTitle,
+            content: '',
+            criteria: [],
+            tables: [],
+            images: []
+          };
+          break;
+        }
+
+        case 'CUSTOM': {
+          // Section the student added when editing the plan - it stands on its own
+          if (currentSection) {
+            sections.push(currentSection);
+          }
+
+          const customNumber = item.customNumber || 1;
+          const title = item.title || `Section ${customNumber}`;
+          console.log(`[GENERATION] Custom section: ${title}`);
+
+          const order = blockOrder++;
+          const customContent = saved(`custom_${customNumber}`)?.content ?? await generateCustomSection(
+            briefSnapshot,
+            customNumber,
+            title,
+            item.customDescription || '',
+            previousSummary,
+            userId,
+            assignmentId,
+            order
+          );
+          previousSummary = customContent.substring(0, 200);
+
+          atomicBlocks.push({
+            type: 'CUSTOM',
+            customNumber,
+            title,
+            content: customContent
+          });
+
+          currentSection = {
+            heading: title,
+            content: customContent,
+            criteria: [],
+            tables: [],
+            images: []
+          };
+          break;
+        }
+
+        case 'CRITERION': {
+          const criterionCode = item.criterionCode || 'A.P1';
+          const criterionDescription = item.criterionDescription || item.criterionTitle || '';
         
-        const criterionContent = await generateCriterionBlock(
-          briefSnapshot,
-          item.aimCode || currentAimCode,
-          criterionCode,
-          criterionDescription,
-          previousSummary,
-          userId,
-          assignmentId,
-          blockOrder++
-        );
-        previousSummary = criterionContent.substring(0, 200);
+          console.log(`[GENERATION] Generating CRITERION: ${criterionCode}`);
         
-        // Check if this criterion needs a table
-        let table: TableData | undefined;
-        const tableReq = (generationPlan.tablesRequired || []).find(
-          (t: any) => t.criterionCode === criterionCode
-        );
-        if (tableReq && briefSnapshot.options.includeTables) {
-          table = await generateCriterionTable(
+          const order = blockOrder++;
+          const written = prefetched.has(index) ? await prefetched.get(index)! : null;
+          const criterionContent = written?.content ?? saved(`criterion_${criterionCode}`)?.content ?? await generateCriterionBlock(
             briefSnapshot,
+            item.aimCode || currentAimCode,
             criterionCode,
             criterionDescription,
-            tableReq.tableType || 'Comparison',
+            previousSummary,
             userId,
             assignmentId,
-            blockOrder++
+            order
           );
-          table.caption = `Table ${tableCounter}. ${table.caption}`;
-          tableCounter++;
-        }
+          previousSummary = criterionContent.substring(0, 200);
         
-        // Check if this criterion needs an image
-        let image: ImagePlaceholder | undefined;
-        const imageReq = (generationPlan.imagesSuggested || []).find(
-          (i: any) => i.criterionCode === criterionCode
-        );
-        if (imageReq && briefSnapshot.options.includeImages) {
-          image = {
-            description: imageReq.imageType || 'Diagram',
-            figureNumber: figureCounter,
-            caption: `Figure ${figureCounter}. ${imageReq.imageType || 'Illustrative diagram'}`
-          };
-          figureCounter++;
-        }
+          // Check if this criterion needs a table
+          let table: TableData | undefined;
+          const tableReq = tableRequirement(criterionCode);
+          const savedTable = checkpoints.get(`table_${criterionCode}`);
+          // Assignments generated before tables were saved as blocks have none to rebuild from
+          if (tableReq && briefSnapshot.options.includeTables && (savedTable || !assembleOnly)) {
+            const tableOrder = blockOrder++;
+            table = written?.table ?? (savedTable
+              ? JSON.parse(savedTable.content) as TableData
+              : await generateCriterionTable(
+                briefSnapshot,
+                criterionCode,
+                criterionDescription,
+                tableReq.tableType || 'Comparison',
+                userId,
+                assignmentId,
+                tableOrder
+              ));
+            table.caption = `Table ${tableCounter}. ${table.caption}`;
+            tableCounter++;
+          }
         
-        atomicBlocks.push({
-          type: 'CRITERION',
-          aimCode: item.aimCode || currentAimCode,
-          criterionCode,
-          criterionTitle: item.criterionTitle,
-          criterionContent,
-          table,
-          image
-        });
+          // Check if this criterion needs an image
+          let image: ImagePlaceholder | undefined;
+          const imageReq = (generationPlan.imagesSuggested || []).find(
+            (i: any) => i.criterionCode === criterionCode
+          );
+          if (imageReq && briefSnapshot.options.includeImages) {
+            image = {
+              description: imageReq.imageType || 'Diagram',
+              figureNumber: figureCounter,
+              caption: `Figure ${figureCounter}. ${imageReq.imageType || 'Illustrative diagram'}`
+            };
+            figureCounter++;
+          }
         
-        // Add to current section for legacy structure
-        if (currentSection) {
-          currentSection.content += `\n\n${criterionContent}`;
-          currentSection.criteria = currentSection.criteria || [];
-          currentSection.criteria.push({
-            code: criterionCode,
-            content: criterionContent,
-            description: criterionDescription
+          atomicBlocks.push({
+            type: 'CRITERION',
+            aimCode: item.aimCode || currentAimCode,
+            criterionCode,
+            criterionTitle: item.criterionTitle,
+            criterionContent,
+            table,
+            image
           });
-          if (table) {
-            currentSection.tables = currentSection.tables || [];
-            currentSection.tables.push(table);
-          }
-          if (image) {
-            currentSection.images = currentSection.images || [];
-            currentSection.images.push(image);
+        
+          // Add to current section for legacy structure
+          if (currentSection) {
+            currentSection.content += `\n\n${criterionContent}`;
+            currentSection.criteria = currentSection.criteria || [];
+            currentSection.criteria.push({
+              code: criterionCode,
+              content: criterionContent,
+              description: criterionDescription
+            });
+            if (table) {
+              currentSection.tables = currentSection.tables || [];
+              currentSection.tables.push(table);
+            }
+            if (image) {
+              currentSection.images = currentSection.images || [];
+              currentSection.images.push(image);
+            }
           }
+          break;
         }
-        break;
-      }
 
-      case 'CONCLUSION': {
-        // Save final section
-        if (currentSection) {
-          sections.push(currentSection);
-          currentSection = null;
-        }
+        case 'CONCLUSION': {
+          // Save final section
+          if (currentSection) {
+            sections.push(currentSection);
+            currentSection = null;
+          }
         
-        console.log(`[GENERATION] PHASE 4: Conclusion`);
-        conclusionContent = await generateConclusion(
-          briefSnapshot,
-          generationPlan,
-          previousSummary,
-          userId,
-          assignmentId,
-          blockOrder++
-        );
+          console.log(`[GENERATION] PHASE 4: Conclusion`);
+          const order = blockOrder++;
+          conclusionContent = saved('conclusion')?.content ?? await generateConclusion(
+            briefSnapshot,
+            generationPlan,
+            previousSummary,
+            userId,
+            assignmentId,
+            order
+          );
         
-        atomicBlocks.push({
-          type: 'CONCLUSION',
-          title: 'Conclusion',
-          content: conclusionContent
-        });
-        break;
+          atomicBlocks.push({
+            type: 'CONCLUSION',
+            title: 'Conclusion',
+            content: conclusionContent
+          });
+          break;
+        }
+
+        case 'REFERENCES': {
+          console.log(`[GENERATION] PHASE 5: References`);
+          const order = blockOrder++;
+          const savedReferences = saved('references');
+          references = savedReferences
+            ? JSON.parse(savedReferences.content) as Reference[]
+            : await generateStructuredReferences(
+              briefSnapshot,
+              briefSnapshot.targetGrade,
+              userId,
+              assignmentId,
+              order
+            );
+        
+          atomicBlocks.push({
+            type: 'REFERENCES',
+            title: 'References',
+            references
+          });
+          break;
+        }
       }
 
-      case 'REFERENCES': {
-        console.log(`[GENERATION] PHASE 5: References`);
-        references = await generateStructuredReferences(
-          briefSnapshot,
-          briefSnapshot.targetGrade,
-          userId,
-          assignmentId,
-          blockOrder++
+      if (progress) {
+        const last = atomicBlocks[atomicBlocks.length - 1];
+        await progress.finished(
+          itemKey,
+          last?.content || last?.aimContent || last?.criterionContent || '',
+          checkpoints.has(itemKey)
         );
-        
-        atomicBlocks.push({
-          type: 'REFERENCES',
-          title: 'References',
-          references
-        });
-        break;
       }
     }
+  } catch (error) {
+    await stopPrefetching();
+    throw error;
   }
 
   // Ensure final section is saved
@@ -519,12 +995,95 @@ async function generateFromAtomicOutline(
 
   console.log(`[GENERATION] Atomic generation complete: ${atomicBlocks.length} blocks, ${sections.length} sections`);
 
+  // Map the brief's checklist of evidence to what was written
+  const criterionDescriptions = new Map(
+    outline
+      .filter((item) => item.type === 'CRITERION' && item.criterionCode)
+      .map((item) => [item.criterionCode!, item.criterionDescription || item.criterionTitle || ''])
+  );
+  const evidenceChecklist = buildEvidenceChecklist(
+    briefSnapshot.checklistOfEvidence || [],
+    atomicBlocks,
+    criterionDescriptions
+  );
+
   return {
     introduction: introductionContent,
     sections,
     conclusion: conclusionContent,
     references,
-    atomicBlocks
+    atomicBlocks,
+    evidenceChecklist
+  };
+}
+
+/**
+ * Run async tasks with at most `limit` in flight; a finishing task hands its slot to the next waiter
+ */
+function createLimiter(limit: number) {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= limit) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Live progress for one outline run (published to progress.service subscribers).
+ * Word count and token usage include blocks reused from checkpoints.
+ */
+function createOutlineProgress(assignmentId: string, totalItems: number) {
+  let completedItems = 0;
+  let wordCount = 0;
+  const percent = () => Math.round((completedItems / Math.max(totalItems, 1)) * 100);
+
+  return {
+    started(stage: string) {
+      publishProgress(assignmentId, 'job:progress', {
+        stage,
+        completedItems,
+        totalItems,
+        progress: percent(),
+        wordCount,
+      });
+    },
+
+    async finished(stage: string, text: string, reused: boolean) {
+      completedItems++;
+      wordCount += countWords(text);
+
+      const usage = await prisma.contentBlock.aggregate({
+        where: { assignmentId },
+        _sum: { tokensUsed: true },
+      });
+
+      publishProgress(assignmentId, 'job:stageComplete', {
+        stage,
+        reused,
+        completedItems,
+        totalItems,
+        progress: percent(),
+        wordCount,
+        tokensUsed: usage._sum.tokensUsed || 0,
+      });
+    },
   };
 }
 
@@ -540,6 +1099,9 @@ async function generateLegacyPhasedContent(
   let blockOrder = 0;
   let previousSummary = '';
 
+  // Legacy plans have no stable block ids - drop partial output and start over
+  await prisma.contentBlock.deleteMany({ where: { assignmentId } });
+
   // Determine which criteria to include based on target grade
   const targetGrade = briefSnapshot.targetGrade;
   let criteriaToGenerate: any[] = [...briefSnapshot.assessmentCriteria.pass];
@@ -570,6 +1132,7 @@ async function generateLegacyPhasedContent(
   const sections: ContentSection[] = [];
 
   for (const section of (generationPlan.sections || [])) {
+    await waitWhilePaused(assignmentId);
     console.log(`[GENERATION] Processing section: ${section.title}`);
     
     // Generate aim context block
@@ -603,6 +1166,7 @@ async function generateLegacyPhasedContent(
       // Create full criterion code with aim letter prefix (e.g., "A.P1", "B.M2")
       const fullCriterionCode = `${aimLetter}.${criterion.code}`;
 
+      await waitWhilePaused(assignmentId);
       console.log(`[GENERATION] Generating criterion: ${fullCriterionCode}`);
       
       const criterionContent = await generateContentBlock(
@@ -696,6 +1260,7 @@ async function generateLegacyPhasedContent(
   }
 
   // PHASE 4: CONCLUSION
+  await waitWhilePaused(assignmentId);
   console.log(`[GENERATION] PHASE 4: Conclusion (120-180 words)`);
   const conclusionContent = await generateConclusion(
     briefSnapshot,
@@ -707,6 +1272,7 @@ async function generateLegacyPhasedContent(
   );
 
   // PHASE 5: REFERENCES
+  await waitWhilePaused(assignmentId);
   console.log(`[GENERATION] PHASE 5: References (Oxford style)`);
   const references = await generateReferences(
     briefSnapshot,
@@ -724,6 +1290,18 @@ async function generateLegacyPhasedContent(
   };
 }
 
+/**
+ * Load saved content blocks keyed by sectionId (checkpoints for resume)
+ */
+async function loadCheckpoints(assignmentId: string) {
+  const blocks = await prisma.contentBlock.findMany({
+    where: { assignmentId },
+    orderBy: { blockOrder: 'asc' },
+  });
+
+  return new Map(blocks.map((block) => [block.sectionId, block]));
+}
+
 /**
  * Find criterion by code across all grade levels
  */
@@ -769,14 +1347,15 @@ export async function getGenerationStatus(assignmentId: string, userId: string)
   }
 
   // Calculate total expected blocks from plan
-  const totalBlocks = assignment.generationPlan 
-    ? (JSON.parse(assignment.generationPlan.planData as string)?.sections?.length || 5) 
-    : 5;
+  const planData = assignment.generationPlan?.planData as any;
+  const totalBlocks = planData?.documentOutline?.length || planData?.sections?.length || 5;
   
   // Determine stage based on status and progress
-  let stage: 'planning' | 'writing' | 'assembling' | 'completed' | 'failed' = 'planning';
+  let stage: 'planning' | 'writing' | 'assembling' | 'completed' | 'failed' | 'cancelled' = 'planning';
   if (assignment.status === 'FAILED') {
     stage = 'failed';
+  } else if (assignment.status === 'CANCELLED') {
+    stage = 'cancelled';
   } else if (assignment.status === 'COMPLETED') {
     stage = 'completed';
   } else if (assignment.contentBlocks.length > 0) {
@@ -785,6 +1364,14 @@ export async function getGenerationStatus(assignmentId: string, userId: string)
     stage = 'writing';
   }
 
+  // Paused globally or for this assignment
+  const paused = assignment.status === 'GENERATING' && (!!assignment.pausedAt || await isGenerationPaused());
+
+  // Position in the generation queue (0 = running, null = not queued)
+  const queuePosition = assignment.status === 'GENERATING'
+    ? await getQueuePosition(assignmentId)
+    : null;
+
   return {
     // Old format fields for compatibility
     id: assignment.id,
@@ -800,6 +1387,8 @@ export async function getGenerationStatus(assignmentId: string, userId: string)
     },
     currentWordCount: typeof assignment.content === 'string' ? assignment.content.length : 0,
     targetWordCount: 3000,
+    queuePosition,
+    paused,
     totalTokensUsed: assignment.totalTokensUsed,
     totalAiCalls: assignment.totalAiCalls,
     generationDurationMs: assignment.generationDurationMs,
@@ -855,6 +1444,628 @@ export async function getAssignmentContent(assignmentId: string, userId: string)
       criterionCode: block.criterionCode,
       content: block.content,
       blockOrder: block.blockOrder,
+      tokensUsed: block.tokensUsed,
+      generatedAt: block.generatedAt,
     })),
   };
 }
+
+// =============================================================================
+// SINGLE BLOCK REGENERATION
+// =============================================================================
+
+interface BlockTarget {
+  sectionId?: string;
+  criterionCode?: string;
+}
+
+/**
+ * Resolve the block a request points at (criterion codes map to their criterion block)
+ */
+function resolveSectionId(target: BlockTarget): string {
+  if (target.sectionId) return target.sectionId;
+  if (target.criterionCode) return `criterion_${target.criterionCode}`;
+  throw new Error('sectionId or criterionCode is required');
+}
+
+// Tables and references are JSON, not prose - they give no continuity context
+function isTextBlock(sectionId: string): boolean {
+  return !sectionId.startsWith('table_') && sectionId !== 'references';
+}
+
+/**
+ * Load a completed, outline-based assignment. Pass userId to enforce
+ * ownership (student), omit for admin.
+ */
+async function loadEditableAssignment(assignmentId: string, userId?: string) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    include: { snapshot: true, generationPlan: true },
+  });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  if (userId && assignment.userId !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  if (assignment.status !== 'COMPLETED') {
+    throw new Error('Only completed assignments can be edited');
+  }
+
+  const plan = assignment.generationPlan?.planData as unknown as GenerationPlan | undefined;
+  if (!plan?.documentOutline?.length) {
+    throw new Error('Assignment has no outline to rebuild from');
+  }
+
+  return { assignment, plan };
+}
+
+/**
+ * Rebuild Assignment.content and the DOCX from the stored blocks (no AI calls)
+ */
+async function rebuildAssignmentDocument(
+  assignment: Assignment & { snapshot: ResolvedBriefSnapshot },
+  plan: GenerationPlan
+) {
+  const briefSnapshot = buildBriefSnapshot(assignment);
+  const content = await generateFromAtomicOutline(briefSnapshot, plan, assignment.userId, assignment.id, true);
+
+  const docxPath = await generateDocx(
+    assignment.id,
+    content,
+    assignment.snapshot.unitName || 'Assignment',
+    assignment.snapshot.unitCode || 'N/A',
+    await resolveDocxOptions(assignment.id)
+  );
+
+  return { content, docxPath };
+}
+
+/**
+ * Write one outline block again with the matching writer.
+ * Each writer saves the new text as a fresh ContentBlock row next to the old one.
+ */
+async function writeBlock(
+  briefSnapshot: any,
+  plan: GenerationPlan,
+  sectionId: string,
+  order: number,
+  previousSummary: string,
+  revision: RevisionRequest,
+  userId: string,
+  assignmentId: string
+): Promise<void> {
+  const outline = plan.documentOutline!;
+
+  if (sectionId === 'introduction') {
+    await generateIntroduction(briefSnapshot, plan, userId, assignmentId, order, revision);
+  } else if (sectionId === 'conclusion') {
+    await generateConclusion(briefSnapshot, plan, previousSummary, userId, assignmentId, order, revision);
+  } else if (sectionId === 'references') {
+    await generateStructuredReferences(briefSnapshot, briefSnapshot.targetGrade, userId, assignmentId, order, revision);
+  } else if (sectionId.startsWith('aim_')) {
+    const aimCode = sectionId.replace('aim_', '');
+    const item = outline.find((i) => i.type === 'LEARNING_AIM' && i.aimCode === aimCode);
+    await generateLearningAimBlock(
+      briefSnapshot,
+      aimCode,
+      item?.aimTitle || `Learning Aim ${aimCode}`,
+      previousSummary,
+      userId,
+      assignmentId,
+      order,
+      revision
+    );
+  } else if (sectionId.startsWith('custom_')) {
+    const item = outline.find((i) => i.type === 'CUSTOM' && outlineItemKey(i) === sectionId);
+    await generateCustomSection(
+      briefSnapshot,
+      item?.customNumber || parseInt(sectionId.replace('custom_', ''), 10) || 1,
+      item?.title || 'Additional section',
+      item?.customDescription || '',
+      previousSummary,
+      userId,
+      assignmentId,
+      order,
+      revision
+    );
+  } else if (sectionId.startsWith('criterion_') || sectionId.startsWith('table_')) {
+    const criterionCode = sectionId.replace(/^(criterion|table)_/, '');
+    const item = outline.find((i) => i.type === 'CRITERION' && i.criterionCode === criterionCode);
+    const criterionDescription = item?.criterionDescription || item?.criterionTitle ||
+      findCriterion(briefSnapshot.assessmentCriteria, criterionCode)?.description || '';
+
+    if (sectionId.startsWith('table_')) {
+      const tableReq = (plan.tablesRequired || []).find((t: any) => t.criterionCode === criterionCode);
+      await generateCriterionTable(
+        briefSnapshot,
+        criterionCode,
+        criterionDescription,
+        tableReq?.tableType || 'Comparison',
+        userId,
+        assignmentId,
+        order,
+        revision
+      );
+    } else {
+      await generateCriterionBlock(
+        briefSnapshot,
+        item?.aimCode || criterionCode.split('.')[0],
+        criterionCode,
+        criterionDescription,
+        previousSummary,
+        userId,
+        assignmentId,
+        order,
+        revision
+      );
+    }
+  } else {
+    throw new Error('This block cannot be regenerated');
+  }
+}
+
+/**
+ * Quality gate: check every prose block and table against the writer rules and
+ * the assignment language, and rewrite failing ones up to QUALITY_MAX_REWRITES
+ * times each. A rewrite replaces the block row and carries over the tokens of
+ * the attempts before it.
+ */
+async function applyQualityGate(
+  briefSnapshot: any,
+  plan: GenerationPlan,
+  userId: string,
+  assignmentId: string
+): Promise<QualityReport> {
+  const language = (briefSnapshot.language || 'en') as Language;
+  const blocks = await prisma.contentBlock.findMany({
+    where: { assignmentId },
+    orderBy: { blockOrder: 'asc' },
+  });
+  const results: BlockQualityResult[] = [];
+  const briefCodes: string[] = [
+    ...plan.documentOutline.map((item) => item.criterionCode || '').filter(Boolean),
+    ...(['pass', 'merit', 'distinction'] as const).flatMap(
+      (tier) => (briefSnapshot.assessmentCriteria?.[tier] || []).map((criterion: { code: string }) => criterion.code)
+    ),
+  ];
+
+  for (const [index, block] of blocks.entries()) {
+    if (!isCheckedBlock(block.sectionId)) continue;
+
+    let current = block;
+    const check = async () => {
+      const result = checkBlock(current.sectionId, current.criterionCode, current.content, language, briefCodes);
+      if (result.detection) {
+        await recordLanguageCheck(assignmentId, current.sectionId, current.aiModel, language, result.detection);
+      }
+      return result;
+    };
+
+    let { wordCount, detection, issues } = await check();
+    let rewrites = 0;
+
+    while (issues.length > 0 && rewrites < QUALITY_MAX_REWRITES) {
+      await waitWhilePaused(assignmentId);
+      rewrites++;
+      console.log(`[QUALITY] Rewriting ${current.sectionId} (attempt ${rewrites}): ${issues.map((i) => i.code).join(', ')}`);
+
+      const previous = blocks.slice(0, index).reverse().find((b) => isTextBlock(b.sectionId));
+      const next = blocks.slice(index + 1).find((b) => isTextBlock(b.sectionId));
+
+      try {
+        await writeBlock(
+          briefSnapshot,
+          plan,
+          current.sectionId,
+          current.blockOrder,
+          previous ? previous.content.slice(-400) : '',
+          { nextContent: next?.content.substring(0, 200), qualityIssues: issues.map((i) => i.message) },
+          userId,
+          assignmentId
+        );
+      } catch (error: any) {
+        // The criterion writer throws on "ERROR:" output - count it as a failed attempt
+        if (!String(error?.message).startsWith('ERROR:')) throw error;
+        continue;
+      }
+
+      const replacement = await prisma.contentBlock.findFirst({
+        where: { assignmentId, sectionId: current.sectionId, id: { not: current.id } },
+        orderBy: { generatedAt: 'desc' },
+      });
+      if (!replacement) continue;
+
+      [, current] = await prisma.$transaction([
+        prisma.contentBlock.delete({ where: { id: current.id } }),
+        prisma.contentBlock.update({
+          where: { id: replacement.id },
+          data: { tokensUsed: { increment: current.tokensUsed } },
+        }),
+      ]);
+      ({ wordCount, detection, issues } = await check());
+    }
+
+    // Later rewrites get the rewritten text as continuity context
+    blocks[index] = current;
+    results.push({
+      sectionId: current.sectionId,
+      criterionCode: current.criterionCode,
+      wordCount,
+      detectedLanguage: detection?.language ?? null,
+      passed: issues.length === 0,
+      issues,
+      rewrites,
+    });
+  }
+
+  const report = buildQualityReport(results);
+  console.log(
+    `[QUALITY] ${report.blocksChecked} blocks checked, ${report.totalRewrites} rewrites, ` +
+    `${report.blocksFailed} still failing`
+  );
+  return report;
+}
+
+// Edits and rollbacks wait for a running regeneration - it would replace them
+function assertNotRegenerating(block: ContentBlock) {
+  if (block.regeneratingAt && block.regeneratingAt.getTime() > Date.now() - BLOCK_REGENERATION_STALE_MS) {
+    throw new Error('Block is already being regenerated');
+  }
+}
+
+/**
+ * Regenerate one content block of a completed assignment.
+ * Neighbouring blocks are passed as continuity context, the old text is kept
+ * as a ContentBlockRevision, and only the new block's tokens are charged.
+ */
+export async function regenerateBlock(
+  assignmentId: string,
+  userId: string,
+  target: BlockTarget & { instructions?: string }
+) {
+  const { assignment, plan } = await loadEditableAssignment(assignmentId, userId);
+  const sectionId = resolveSectionId(target);
+
+  const blocks = await prisma.contentBlock.findMany({
+    where: { assignmentId },
+    orderBy: { blockOrder: 'asc' },
+  });
+  const index = blocks.findIndex((block) => block.sectionId === sectionId);
+  if (index === -1) {
+    throw new Error('Content block not found');
+  }
+  const current = blocks[index];
+
+  // One regeneration per block at a time - the claim goes with the block when it is replaced,
+  // and the writer's new row sits next to it until then
+  if (blocks.filter((block) => block.sectionId === sectionId).length > 1) {
+    throw new Error('Block is already being regenerated');
+  }
+  const claimed = await prisma.contentBlock.updateMany({
+    where: {
+      id: current.id,
+      OR: [
+        { regeneratingAt: null },
+        { regeneratingAt: { lt: new Date(Date.now() - BLOCK_REGENERATION_STALE_MS) } },
+      ],
+    },
+    data: { regeneratingAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new Error('Block is already being regenerated');
+  }
+
+  try {
+    return await replaceBlock(assignment, plan, blocks, index, userId, target.instructions);
+  } finally {
+    await prisma.contentBlock.updateMany({ where: { id: current.id }, data: { regeneratingAt: null } });
+  }
+}
+
+/**
+ * Write the new text of a claimed block, charge it and swap it in
+ */
+async function replaceBlock(
+  assignment: Awaited<ReturnType<typeof loadEditableAssignment>>['assignment'],
+  plan: GenerationPlan,
+  blocks: ContentBlock[],
+  index: number,
+  userId: string,
+  instructions?: string
+) {
+  const assignmentId = assignment.id;
+  const current = blocks[index];
+  const sectionId = current.sectionId;
+
+  const previous = blocks.slice(0, index).reverse().find((block) => isTextBlock(block.sectionId));
+  const next = blocks.slice(index + 1).find((block) => isTextBlock(block.sectionId));
+  const previousSummary = previous ? previous.content.slice(-400) : '';
+  const revision: RevisionRequest = {
+    instructions: instructions?.trim() || undefined,
+    nextContent: next?.content.substring(0, 200),
+  };
+
+  const briefSnapshot = buildBriefSnapshot(assignment);
+
+  // Hold what the block is expected to cost before the writer is called
+  const estimate = await estimateAssignment(assignmentId);
+  const expected = estimate.items.find((item) => item.key === sectionId)?.totalTokens || 0;
+  const held = await holdTokens(userId, assignmentId, Math.max(expected, current.tokensUsed, 1), 'BLOCK_REGENERATION');
+
+  console.log(`[GENERATION] Regenerating block ${sectionId} for assignment ${assignmentId}`);
+
+  // Charge only this block - on failure the old text stays in place and the hold is returned
+  let replacement: ContentBlock | null = null;
+  try {
+    await writeBlock(briefSnapshot, plan, sectionId, current.blockOrder, previousSummary, revision, userId, assignmentId);
+
+    replacement = await prisma.contentBlock.findFirst({
+      where: { assignmentId, sectionId, id: { not: current.id } },
+      orderBy: { generatedAt: 'desc' },
+    });
+    if (!replacement) {
+      throw new Error('Regenerated block was not saved');
+    }
+  } finally {
+    await settleHold(userId, assignmentId, held, replacement?.tokensUsed || 0, 'BLOCK_REGENERATION');
+  }
+
+  await prisma.$transaction([
+    prisma.contentBlockRevision.create({
+      data: {
+        assignmentId,
+        sectionId: current.sectionId,
+        criterionCode: current.criterionCode,
+        blockOrder: current.blockOrder,
+        content: current.content,
+        tokensUsed: current.tokensUsed,
+        generatedAt: current.generatedAt,
+        reason: 'REGENERATE',
+        instructions: revision.instructions,
+      },
+    }),
+    prisma.contentBlock.delete({ where: { id: current.id } }),
+  ]);
+
+  const { content, docxPath } = await rebuildAssignmentDocument(assignment, plan);
+
+  await prisma.assignment.update({
+    where: { id: assignmentId },
+    data: {
+      content: content as any,
+      docxUrl: docxPath,
+      totalTokensUsed: { increment: replacement.tokensUsed },
+      totalAiCalls: { increment: 1 },
+    },
+  });
+
+  await recordAssignmentVersion(assignmentId, 'REGENERATE_BLOCK', {
+    tokensUsed: replacement.tokensUsed,
+    note: sectionId,
+    createdById: userId,
+  });
+
+  console.log(`[GENERATION] Block ${sectionId} regenerated (${replacement.tokensUsed} tokens)`);
+
+  return {
+    block: {
+      id: replacement.id,
+      sectionId: replacement.sectionId,
+      criterionCode: replacement.criterionCode,
+      content: replacement.content,
+      blockOrder: replacement.blockOrder,
+    },
+    tokensUsed: replacement.tokensUsed,
+    docxUrl: docxPath,
+  };
+}
+
+/**
+ * Restore an earlier version of a block (default: the text replaced by the
+ * latest regeneration). The current text is kept as a revision, so nothing is lost.
+ */
+export async function rollbackBlock(
+  assignmentId: string,
+  userId: string,
+  target: BlockTarget & { revisionId?: string }
+) {
+  const { assignment, plan } = await loadEditableAssignment(assignmentId, userId);
+  const sectionId = resolveSectionId(target);
+
+  const [current, restore] = await Promise.all([
+    prisma.contentBlock.findFirst({ where: { assignmentId, sectionId } }),
+    prisma.contentBlockRevision.findFirst({
+      where: target.revisionId
+        ? { id: target.revisionId, assignmentId, sectionId }
+        : { assignmentId, sectionId, reason: 'REGENERATE' },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+
+  if (!current) {
+    throw new Error('Content block not found');
+  }
+  assertNotRegenerating(current);
+  if (!restore) {
+    throw new Error('No previous version to restore');
+  }
+
+  await prisma.$transaction([
+    prisma.contentBlockRevision.create({
+      data: {
+        assignmentId,
+        sectionId: current.sectionId,
+        criterionCode: current.criterionCode,
+        blockOrder: current.blockOrder,
+        content: current.content,
+        tokensUsed: current.tokensUsed,
+        generatedAt: current.generatedAt,
+        reason: 'ROLLBACK',
+      },
+    }),
+    prisma.contentBlock.update({
+      where: { id: current.id },
+      data: {
+        content: restore.content,
+        tokensUsed: restore.tokensUsed,
+        generatedAt: restore.generatedAt,
+      },
+    }),
+    prisma.contentBlockRevision.delete({ where: { id: restore.id } }),
+  ]);
+
+  const { content, docxPath } = await rebuildAssignmentDocument(assignment, plan);
+
+  await prisma.assignment.update({
+    where: { id: assignmentId },
+    data: { content: content as any, docxUrl: docxPath },
+  });
+
+  await recordAssignmentVersion(assignmentId, 'ROLLBACK', { note: sectionId, createdById: userId });
+
+  console.log(`[GENERATION] Block ${sectionId} rolled back to revision ${restore.id}`);
+
+  return {
+    block: {
+      id: current.id,
+      sectionId: current.sectionId,
+      criterionCode: current.criterionCode,
+      content: restore.content,
+      blockOrder: current.blockOrder,
+    },
+    docxUrl: docxPath,
+  };
+}
+
+// Validate edited content and serialize it the way the writers store it
+function serializeEditedContent(sectionId: string, content: unknown): string {
+  if (sectionId.startsWith('table_')) {
+    const table = tableDataSchema.safeParse(content);
+    if (!table.success) throw new Error('Invalid block content');
+    return JSON.stringify(table.data);
+  }
+
+  if (sectionId === 'references') {
+    const references = referencesSchema.safeParse(content);
+    if (!references.success) throw new Error('Invalid block content');
+    const normalized: Reference[] = references.data.map((ref, index) => ({ text: ref.text, order: index + 1 }));
+    return JSON.stringify(normalized);
+  }
+
+  const text = blockTextSchema.safeParse(content);
+  if (!text.success) throw new Error('Invalid block content');
+  return text.data;
+}
+
+/**
+ * Save a manual edit of one block (text, table or references) and rebuild the
+ * assembled content. The text before an edit session is kept as a revision.
+ * The DOCX is not written per save: docxUrl is cleared and the next download
+ * builds it from the edited blocks. Pass userId to enforce ownership
+ * (student), omit for admin.
+ */
+export async function editBlock(
+  assignmentId: string,
+  target: BlockTarget & { content: unknown },
+  userId?: string,
+  editorId?: string
+) {
+  const { assignment, plan } = await loadEditableAssignment(assignmentId, userId);
+  const sectionId = resolveSectionId(target);
+
+  const current = await prisma.contentBlock.findFirst({ where: { assignmentId, sectionId } });
+  if (!current) {
+    throw new Error('Content block not found');
+  }
+  assertNotRegenerating(current);
+
+  const content = serializeEditedContent(sectionId, target.content);
+  const block = {
+    id: current.id,
+    sectionId: current.sectionId,
+    criterionCode: current.criterionCode,
+    content,
+    blockOrder: current.blockOrder,
+  };
+
+  if (content === current.content) {
+    return { block, saved: false };
+  }
+
+  // Only the first save of a session keeps the old text - later autosaves
+  // would otherwise store every intermediate draft
+  const openSession = await findOpenEditSession(assignmentId, sectionId, editorId);
+
+  await prisma.$transaction([
+    ...(openSession
+      ? []
+      : [prisma.contentBlockRevision.create({
+        data: {
+          assignmentId,
+          sectionId: current.sectionId,
+          criterionCode: current.criterionCode,
+          blockOrder: current.blockOrder,
+          content: current.content,
+          tokensUsed: current.tokensUsed,
+          generatedAt: current.generatedAt,
+          reason: 'EDIT',
+        },
+      })]),
+    prisma.contentBlock.update({ where: { id: current.id }, data: { content } }),
+  ]);
+
+  const briefSnapshot = buildBriefSnapshot(assignment);
+  const assembled = await generateFromAtomicOutline(briefSnapshot, plan, assignment.userId, assignmentId, true);
+
+  await prisma.assignment.update({
+    where: { id: assignmentId },
+    data: { content: assembled as any, docxUrl: null },
+  });
+
+  if (openSession) {
+    await refreshEditVersion(openSession);
+  } else {
+    await recordAssignmentVersion(assignmentId, 'EDIT', { note: sectionId, createdById: editorId });
+  }
+
+  console.log(`[GENERATION] Block ${sectionId} edited for assignment ${assignmentId}`);
+
+  return { block, saved: true };
+}
+
+/**
+ * List saved revisions of an assignment's blocks (newest first)
+ */
+export async function getBlockRevisions(assignmentId: string, userId: string) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: { userId: true },
+  });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  if (assignment.userId !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  const revisions = await prisma.contentBlockRevision.findMany({
+    where: { assignmentId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return revisions.map((revision) => ({
+    id: revision.id,
+    sectionId: revision.sectionId,
+    criterionCode: revision.criterionCode,
+    reason: revision.reason,
+    instructions: revision.instructions,
+    content: revision.content,
+    createdAt: revision.createdAt,
+  }));
+}
@@ -1,12 +1,10 @@
-import OpenAI from 'openai';
+import { Language } from '@prisma/client';
 import { logAIUsage } from './admin.service';
-
-const openrouter = new OpenAI({
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY,
-});
-
-const GUIDANCE_MODEL = process.env.AI_MODEL || 'qwen/qwen-2.5-72b-instruct:free';
+import { recordLanguageCheck } from './quality.service';
+import { routedChat } from '../ai';
+import { generationSignal } from './cancellation.service';
+import { detectLanguage, getLanguageRetryInstructions, isLanguageMismatch } from '../utils/language';
+import { EvidenceChecklistItem } from '../types';
 
 interface LearningAim {
   code: string;
@@ -29,6 +27,7 @@ interface GuidanceInput {
   vocationalScenario: string;
   targetGrade: 'PASS' | 'MERIT' | 'DISTINCTION';
   language: string;
+  evidenceChecklist?: EvidenceChecklistItem[]; // Mapped by evidence.service - no AI involved
 }
 
 interface OverviewGuidance {
@@ -50,6 +49,8 @@ interface CriterionGuidance {
 export interface WritingGuidance {
   overview: OverviewGuidance;
   criteriaGuidance: CriterionGuidance[];
+  // What the brief asks to be handed in and whether the document already covers it
+  evidenceChecklist: EvidenceChecklistItem[];
 }
 
 /**
@@ -73,6 +74,7 @@ export const generateWritingGuidance = async (
   return {
     overview,
     criteriaGuidance,
+    evidenceChecklist: input.evidenceChecklist || [],
   };
 };
 
@@ -144,34 +146,7 @@ Return as JSON:
   "howToReachGrade": "paragraph text"
 }`;
 
-  const completion = await openrouter.chat.completions.create({
-    model: GUIDANCE_MODEL,
-    messages: [
-      { role: 'user', content: prompt }
-    ],
-    temperature: 0.7,
-    max_tokens: 2000,
-  });
-
-  await logAIUsage({
-    assignmentId,
-    aiProvider: 'OpenRouter',
-    aiModel: GUIDANCE_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
-    purpose: 'guidance_overview',
-  });
-  
-  const responseContent = completion.choices[0].message.content || '';
-  
-  // Parse JSON from response
-  const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('Failed to parse guidance overview JSON');
-  }
-
-  return JSON.parse(jsonMatch[0]);
+  return requestGuidance<OverviewGuidance>(prompt, 'guidance_overview', 2000, input, assignmentId);
 };
 
 /**
@@ -281,31 +256,69 @@ Return as JSON:
   "gradeDepthReminder": "text"
 }`;
 
-  const completion = await openrouter.chat.completions.create({
-    model: GUIDANCE_MODEL,
-    messages: [
-      { role: 'user', content: prompt }
-    ],
-    temperature: 0.7,
-    max_tokens: 1500,
-  });
+  return requestGuidance<CriterionGuidance>(prompt, `guidance_criterion_${criterion.code}`, 1500, input, assignmentId);
+};
 
-  await logAIUsage({
-    assignmentId,
-    aiProvider: 'OpenRouter',
-    aiModel: GUIDANCE_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
-    purpose: `guidance_criterion_${criterion.code}`,
-  });
-  
-  const responseContent = completion.choices[0].message.content || '';
-  
-  const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error(`Failed to parse guidance JSON for ${criterion.code}`);
+// All string values of a parsed guidance section
+const guidanceText = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(guidanceText).join(' ');
+  if (value && typeof value === 'object') return Object.values(value).map(guidanceText).join(' ');
+  return '';
+};
+
+/**
+ * Request one guidance section as JSON. When the answer is not in the
+ * assignment language it is requested once more with stronger instructions.
+ */
+const requestGuidance = async <T>(
+  prompt: string,
+  purpose: string,
+  maxTokens: number,
+  input: GuidanceInput,
+  assignmentId: string
+): Promise<T> => {
+  const language = (input.language || 'en') as Language;
+  let content = prompt;
+  let parsed: T | null = null;
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const completion = await routedChat({ purpose: 'GUIDANCE', grade: input.targetGrade }, {
+      purpose,
+      messages: [
+        { role: 'user', content }
+      ],
+      temperature: 0.7,
+      maxTokens,
+      signal: generationSignal(assignmentId),
+    });
+
+    await logAIUsage({
+      assignmentId,
+      aiProvider: completion.provider,
+      aiModel: completion.model,
+      promptTokens: completion.usage.promptTokens,
+      completionTokens: completion.usage.completionTokens,
+      totalTokens: completion.usage.totalTokens,
+      purpose,
+    });
+
+    const jsonMatch = completion.content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error(`Failed to parse ${purpose} JSON`);
+    }
+    parsed = JSON.parse(jsonMatch[0]) as T;
+
+    const detection = detectLanguage(guidanceText(parsed));
+    await recordLanguageCheck(assignmentId, purpose, completion.model, language, detection);
+
+    if (!isLanguageMismatch(detection, language)) {
+      break;
+    }
+
+    console.log(`[GUIDANCE] ${purpose} came back in ${detection.language || detection.script}, expected ${language}`);
+    content = `${prompt}\n\n${getLanguageRetryInstructions(language)}`;
   }
 
-  return JSON.parse(jsonMatch[0]);
+  return parsed!;
 };
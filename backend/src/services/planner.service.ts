@@ -1,15 +1,10 @@
-import OpenAI from 'openai';
+import { z } from 'zod';
 import { prisma } from '../lib/prisma';
 import { logAIUsage } from './admin.service';
+import { routedChat } from '../ai';
+import { generationSignal } from './cancellation.service';
 
-const openrouter = new OpenAI({
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY,
-});
-
-const PLANNER_MODEL = process.env.AI_MODEL || 'qwen/qwen-2.5-72b-instruct:free';
-
-interface BriefSnapshot {
+export interface BriefSnapshot {
   unitName: string;
   unitCode: string;
   level: number;
@@ -22,6 +17,7 @@ interface BriefSnapshot {
   };
   checklistOfEvidence?: string[];
   sources?: string[];
+  tasks?: BriefTask[];
   targetGrade: 'PASS' | 'MERIT' | 'DISTINCTION';
   language: string;
   options: {
@@ -30,6 +26,15 @@ interface BriefSnapshot {
   };
 }
 
+/**
+ * A task from the brief with the short criterion codes it covers (P1, M1)
+ */
+export interface BriefTask {
+  title: string;
+  description: string;
+  criteria: string[];
+}
+
 /**
  * NEW ATOMIC OUTLINE ITEM TYPES
  * Each item = ONE heading + ONE content block in DOCX
@@ -37,18 +42,25 @@ interface BriefSnapshot {
 export type OutlineItemType = 
   | 'INTRODUCTION'
   | 'LEARNING_AIM'
+  | 'TASK'
   | 'CRITERION'
+  | 'CUSTOM'
   | 'CONCLUSION'
   | 'REFERENCES';
 
 export interface OutlineItem {
   type: OutlineItemType;
-  title?: string;           // For INTRODUCTION, CONCLUSION, REFERENCES
+  title?: string;           // For INTRODUCTION, CUSTOM, CONCLUSION, REFERENCES
   aimCode?: string;         // For LEARNING_AIM, CRITERION (e.g., "A", "B")
   aimTitle?: string;        // For LEARNING_AIM (e.g., "Learning Aim A: Understand AI systems")
   criterionCode?: string;   // For CRITERION (e.g., "A.P1", "A.M1")
   criterionTitle?: string;  // For CRITERION (e.g., "A.P1 Describe the key components...")
   criterionDescription?: string; // Full criterion description for AI context
+  taskNumber?: number;      // For TASK (1-based, brief order)
+  taskTitle?: string;       // For TASK (e.g., "Task 1: Investigate network threats")
+  taskDescription?: string; // For TASK - what the teacher asks for in this task
+  customNumber?: number;    // For CUSTOM (1-based, stable while the plan is edited)
+  customDescription?: string; // For CUSTOM - what the student wants the section to cover
 }
 
 export interface TableRequirement {
@@ -61,6 +73,28 @@ export interface ImageSuggestion {
   imageType: string;
 }
 
+/**
+ * What validation found in the planner output and what the repair step changed.
+ * Stored on GenerationPlan.validationReport for admins.
+ * Section keys use content block sectionIds (introduction, aim_B, criterion_A.P1).
+ */
+export interface PlanValidationReport {
+  source: 'MODEL' | 'LEGACY' | 'FALLBACK'; // Model outline, converted legacy plan, or built from the brief
+  valid: boolean;                           // Model outline was used unchanged
+  schemaErrors: string[];
+  addedCriteria: string[];                  // In the brief (up to target grade) but missing from the outline
+  droppedCriteria: string[];                // Invented, or above the target grade
+  duplicateCriteria: string[];
+  reattachedCriteria: Array<{ criterionCode: string; from: string; to: string }>;
+  addedSections: string[];
+  droppedSections: string[];
+  reordered: boolean;
+  droppedTables: string[];
+  droppedImages: string[];
+  grouping: 'AIM' | 'TASK';                 // TASK when the brief's tasks claim criteria
+  validatedAt: string;
+}
+
 export interface GenerationPlan {
   documentOutline: OutlineItem[];
   tablesRequired: TableRequirement[];
@@ -74,6 +108,47 @@ export interface GenerationPlan {
   references?: any;
 }
 
+// =============================================================================
+// PLAN SCHEMA
+// =============================================================================
+
+// Models often send null for fields that do not apply to an item type
+const optionalText = z.string().nullish().transform((value) => value?.trim() || undefined);
+
+export const outlineItemSchema = z.object({
+  type: z.enum(['INTRODUCTION', 'LEARNING_AIM', 'TASK', 'CRITERION', 'CUSTOM', 'CONCLUSION', 'REFERENCES']),
+  title: optionalText,
+  aimCode: optionalText,
+  aimTitle: optionalText,
+  criterionCode: optionalText,
+  criterionTitle: optionalText,
+  criterionDescription: optionalText,
+  taskNumber: z.number().int().positive().nullish().transform((value) => value ?? undefined),
+  taskTitle: optionalText,
+  taskDescription: optionalText,
+  customNumber: z.number().int().positive().nullish().transform((value) => value ?? undefined),
+  customDescription: optionalText,
+}).refine((item) => item.type !== 'CRITERION' || !!item.criterionCode, {
+  message: 'CRITERION item requires criterionCode',
+  path: ['criterionCode'],
+});
+
+export const tableRequirementSchema = z.object({
+  criterionCode: z.string().min(1),
+  tableType: optionalText.transform((value) => value || 'Comparison'),
+});
+
+export const imageSuggestionSchema = z.object({
+  criterionCode: z.string().min(1),
+  imageType: optionalText.transform((value) => value || 'Diagram'),
+});
+
+export const generationPlanSchema = z.object({
+  documentOutline: z.array(outlineItemSchema).min(1),
+  tablesRequired: z.array(tableRequirementSchema),
+  imagesSuggested: z.array(imageSuggestionSchema),
+});
+
 const PLANNER_SYSTEM_PROMPT = `You are BTEC_ASSIGNMENT_PLANNER, a deterministic academic planning model.
 
 Your ONLY responsibility is to create an ATOMIC DOCUMENT OUTLINE where:
@@ -188,47 +263,56 @@ FINAL INSTRUCTIONS:
 If any required input is missing, output:
 { "error": "INVALID_BRIEF_SNAPSHOT" }`;
 
+/**
+ * Plan the assignment and save the plan. replace swaps out a saved plan in
+ * the same transaction, so a failed planner call leaves it untouched.
+ */
 export async function generatePlan(
   briefSnapshot: BriefSnapshot,
   userId: string,
-  assignmentId: string
+  assignmentId: string,
+  replace = false
 ): Promise<GenerationPlan> {
   const userPrompt = JSON.stringify(briefSnapshot, null, 2);
 
   console.log('[PLANNER] Generating atomic document outline for assignment:', assignmentId);
 
-  const completion = await openrouter.chat.completions.create({
-    model: PLANNER_MODEL,
+  const completion = await routedChat({ purpose: 'PLANNER', grade: briefSnapshot.targetGrade }, {
+    purpose: 'PLANNER',
     messages: [
       { role: 'system', content: PLANNER_SYSTEM_PROMPT },
       { role: 'user', content: userPrompt },
     ],
     temperature: 0.1, // Low temperature for deterministic output
-    response_format: { type: 'json_object' },
+    json: true,
+    signal: generationSignal(assignmentId),
   });
 
-  const response = completion.choices[0].message.content;
+  const response = completion.content;
   if (!response) {
     throw new Error('No response from planner model');
   }
 
-  let plan: GenerationPlan = JSON.parse(response);
-
-  // Validate plan structure
-  if ('error' in plan) {
-    throw new Error(`Planner error: ${(plan as any).error}`);
+  let raw: unknown = null;
+  try {
+    raw = JSON.parse(response);
+  } catch {
+    console.log('[PLANNER] Planner response is not valid JSON');
   }
 
-  // If AI returned old format, convert to new atomic format
-  if (!plan.documentOutline && plan.sections) {
-    console.log('[PLANNER] Converting legacy plan format to atomic outline');
-    plan = convertLegacyPlanToAtomic(plan, briefSnapshot);
+  if (raw && typeof raw === 'object' && 'error' in raw) {
+    throw new Error(`Planner error: ${(raw as any).error}`);
   }
 
-  // Validate atomic structure
-  if (!plan.documentOutline || plan.documentOutline.length === 0) {
-    console.log('[PLANNER] Plan missing documentOutline, building from brief');
-    plan = buildAtomicPlanFromBrief(briefSnapshot);
+  const { plan, report } = validateAndRepairPlan(raw, briefSnapshot);
+
+  if (!report.valid) {
+    console.log(
+      `[PLANNER] Plan repaired (source ${report.source}): ` +
+      `${report.schemaErrors.length} schema errors, ` +
+      `+${report.addedCriteria.length}/-${report.droppedCriteria.length} criteria, ` +
+      `${report.reattachedCriteria.length} reattached${report.reordered ? ', reordered' : ''}`
+    );
   }
 
   console.log('[PLANNER] Document outline items:', plan.documentOutline.length);
@@ -239,22 +323,28 @@ export async function generatePlan(
     assignmentId,
     userId,
     userRole: 'USER', // Will be updated by caller if needed
-    aiProvider: 'openrouter',
-    aiModel: PLANNER_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
     purpose: 'PLANNER',
   });
 
   // Save plan to database
-  await prisma.generationPlan.create({
+  const saved = prisma.generationPlan.create({
     data: {
       assignmentId,
       planData: plan as any,
-      tokensUsed: completion.usage?.total_tokens || 0,
+      validationReport: report as any,
+      tokensUsed: completion.usage.totalTokens,
     },
   });
+  if (replace) {
+    await prisma.$transaction([prisma.generationPlan.deleteMany({ where: { assignmentId } }), saved]);
+  } else {
+    await saved;
+  }
 
   console.log('[PLANNER] Atomic plan generated successfully');
   return plan;
@@ -320,7 +410,7 @@ function convertLegacyPlanToAtomic(legacyPlan: any, briefSnapshot: BriefSnapshot
 /**
  * Build atomic plan directly from brief snapshot (fallback)
  */
-function buildAtomicPlanFromBrief(briefSnapshot: BriefSnapshot): GenerationPlan {
+export function buildAtomicPlanFromBrief(briefSnapshot: BriefSnapshot): GenerationPlan {
   const outline: OutlineItem[] = [];
   const tablesRequired: TableRequirement[] = [];
   const imagesSuggested: ImageSuggestion[] = [];
@@ -417,7 +507,562 @@ function buildAtomicPlanFromBrief(briefSnapshot: BriefSnapshot): GenerationPlan
   outline.push({ type: 'CONCLUSION', title: 'Conclusion' });
   outline.push({ type: 'REFERENCES', title: 'References' });
   
-  return { documentOutline: outline, tablesRequired, imagesSuggested };
+  return {
+    documentOutline: groupOutlineByTasks(outline, briefSnapshot.tasks || []),
+    tablesRequired,
+    imagesSuggested,
+  };
+}
+
+/**
+ * Validate planner output against the plan schema and repair it deterministically.
+ * The brief snapshot is the source of truth: criteria missing from the outline are
+ * added, codes not in the brief (or above the target grade) are dropped, each
+ * criterion sits under one learning aim, and the outline is rebuilt in the order
+ * INTRODUCTION → (LEARNING_AIM → its CRITERIA)* → CONCLUSION → REFERENCES.
+ * When the brief's tasks claim criteria, the aims are then swapped for tasks
+ * (see groupOutlineByTasks). Output the planner could not produce at all falls back to buildAtomicPlanFromBrief().
+ */
+export function validateAndRepairPlan(
+  raw: unknown,
+  briefSnapshot: BriefSnapshot
+): { plan: GenerationPlan; report: PlanValidationReport } {
+  const report: PlanValidationReport = {
+    source: 'MODEL',
+    valid: false,
+    schemaErrors: [],
+    addedCriteria: [],
+    droppedCriteria: [],
+    duplicateCriteria: [],
+    reattachedCriteria: [],
+    addedSections: [],
+    droppedSections: [],
+    reordered: false,
+    droppedTables: [],
+    droppedImages: [],
+    grouping: 'AIM',
+    validatedAt: new Date().toISOString(),
+  };
+
+  let candidate: any = raw && typeof raw === 'object' ? raw : null;
+
+  if (candidate && !Array.isArray(candidate.documentOutline) && Array.isArray(candidate.sections)) {
+    console.log('[PLANNER] Converting legacy plan format to atomic outline');
+    candidate = convertLegacyPlanToAtomic(candidate, briefSnapshot);
+    report.source = 'LEGACY';
+  }
+
+  if (!candidate || !Array.isArray(candidate.documentOutline) || candidate.documentOutline.length === 0) {
+    console.log('[PLANNER] Plan missing documentOutline, building from brief');
+    report.schemaErrors.push(candidate ? 'documentOutline: missing or empty' : 'Response is not a JSON object');
+    candidate = buildAtomicPlanFromBrief(briefSnapshot);
+    report.source = 'FALLBACK';
+  }
+
+  // Items are checked one by one so a single malformed item does not discard the plan
+  const items: OutlineItem[] = [];
+  (candidate.documentOutline as unknown[]).forEach((value, index) => {
+    const parsed = outlineItemSchema.safeParse(value);
+    if (parsed.success) {
+      items.push(parsed.data);
+    } else {
+      report.schemaErrors.push(...formatIssues(`documentOutline[${index}]`, parsed.error));
+    }
+  });
+
+  const aimLetters = briefAimLetters(briefSnapshot);
+  const expected = expectedCriteria(briefSnapshot);
+  const expectedByCode = new Map(expected.map((criterion) => [criterion.code, criterion]));
+
+  // Walk the model outline: keep its titles and aim choices, drop what the brief does not have
+  const sectionTitles = new Map<string, string | undefined>();
+  const aimTitles = new Map<string, string | undefined>();
+  const criterionAims = new Map<string, string>(); // short code → aim letter
+  const modelKeys: string[] = [];
+  let currentAim: string | undefined;
+
+  for (const item of items) {
+    // Task headings are rebuilt from the brief below
+    if (item.type === 'TASK') continue;
+
+    // Custom sections are added by the student when editing the plan, never by the planner
+    if (item.type === 'CUSTOM') {
+      report.droppedSections.push(`custom_${item.customNumber || '?'}`);
+      continue;
+    }
+
+    if (item.type === 'LEARNING_AIM') {
+      const aim = item.aimCode?.charAt(0).toUpperCase();
+      if (!aim || !aimLetters.includes(aim) || aimTitles.has(aim)) {
+        report.droppedSections.push(`aim_${item.aimCode || '?'}`);
+        continue;
+      }
+      aimTitles.set(aim, item.aimTitle);
+      currentAim = aim;
+      modelKeys.push(`aim_${aim}`);
+      continue;
+    }
+
+    if (item.type !== 'CRITERION') {
+      const key = item.type.toLowerCase();
+      if (sectionTitles.has(key)) {
+        report.droppedSections.push(key);
+        continue;
+      }
+      sectionTitles.set(key, item.title);
+      modelKeys.push(key);
+      continue;
+    }
+
+    const rawCode = item.criterionCode!.toUpperCase();
+    const code = shortCriterionCode(rawCode);
+    const criterion = expectedByCode.get(code);
+
+    if (!criterion) {
+      report.droppedCriteria.push(rawCode);
+      continue;
+    }
+    if (criterionAims.has(code)) {
+      report.duplicateCriteria.push(rawCode);
+      continue;
+    }
+
+    // The aim prefix in the code wins over the item's aimCode (planner rule 5)
+    const claimed = [criterionAimPrefix(rawCode), item.aimCode?.charAt(0).toUpperCase()]
+      .filter((aim): aim is string => !!aim);
+    const modelAim = [...claimed, currentAim].find((aim) => aim && aimLetters.includes(aim));
+    const aim = criterion.aim || modelAim || aimLetters[0];
+
+    const conflicting = claimed.find((claim) => claim !== aim);
+    if (conflicting) {
+      report.reattachedCriteria.push({ criterionCode: `${aim}.${code}`, from: conflicting, to: aim });
+    }
+
+    criterionAims.set(code, aim);
+    modelKeys.push(`criterion_${aim}.${code}`);
+  }
+
+  // Missing criteria go under the aim of the nearest earlier criterion in the brief
+  let previousAim = aimLetters[0];
+  for (const criterion of expected) {
+    const placed = criterionAims.get(criterion.code);
+    if (placed) {
+      previousAim = placed;
+      continue;
+    }
+    const aim = criterion.aim || previousAim;
+    criterionAims.set(criterion.code, aim);
+    report.addedCriteria.push(`${aim}.${criterion.code}`);
+    previousAim = aim;
+  }
+
+  // Rebuild in canonical order
+  const outline: OutlineItem[] = [];
+  const addSection = (type: 'INTRODUCTION' | 'CONCLUSION' | 'REFERENCES', fallbackTitle: string) => {
+    const key = type.toLowerCase();
+    if (!sectionTitles.has(key)) report.addedSections.push(key);
+    outline.push({ type, title: sectionTitles.get(key) || fallbackTitle });
+  };
+
+  addSection('INTRODUCTION', 'Introduction');
+
+  const usedAims = [...new Set(criterionAims.values())].sort();
+  for (const aim of usedAims) {
+    if (!aimTitles.has(aim)) report.addedSections.push(`aim_${aim}`);
+    outline.push({
+      type: 'LEARNING_AIM',
+      aimCode: aim,
+      aimTitle: aimTitles.get(aim) || `Learning Aim ${aim}: ${learningAimText(briefSnapshot, aim, aimLetters)}`,
+    });
+
+    for (const criterion of expected) {
+      if (criterionAims.get(criterion.code) !== aim) continue;
+      const fullCode = `${aim}.${criterion.code}`;
+      outline.push({
+        type: 'CRITERION',
+        aimCode: aim,
+        criterionCode: fullCode,
+        criterionTitle: `${fullCode} ${criterion.description}`.substring(0, 80),
+        criterionDescription: criterion.description,
+      });
+    }
+  }
+
+  for (const aim of aimTitles.keys()) {
+    if (!usedAims.includes(aim)) report.droppedSections.push(`aim_${aim}`);
+  }
+
+  addSection('CONCLUSION', 'Conclusion');
+  addSection('REFERENCES', 'References');
+
+  const outlineKeys = outline.map((item) => {
+    if (item.type === 'LEARNING_AIM') return `aim_${item.aimCode}`;
+    if (item.type === 'CRITERION') return `criterion_${item.criterionCode}`;
+    return item.type.toLowerCase();
+  });
+  const keptModelKeys = modelKeys.filter((key) => outlineKeys.includes(key));
+  report.reordered = keptModelKeys.join('|') !== outlineKeys.filter((key) => keptModelKeys.includes(key)).join('|');
+
+  // Tables and images must point at a criterion in the repaired outline, one each
+  const tablesRequired: TableRequirement[] = [];
+  (candidate.tablesRequired || []).forEach((value: unknown, index: number) => {
+    const parsed = tableRequirementSchema.safeParse(value);
+    if (!parsed.success) {
+      report.schemaErrors.push(...formatIssues(`tablesRequired[${index}]`, parsed.error));
+      return;
+    }
+    const aim = criterionAims.get(shortCriterionCode(parsed.data.criterionCode));
+    const criterionCode = aim ? `${aim}.${shortCriterionCode(parsed.data.criterionCode)}` : '';
+    if (!briefSnapshot.options.includeTables || !aim || tablesRequired.some((t) => t.criterionCode === criterionCode)) {
+      report.droppedTables.push(parsed.data.criterionCode);
+      return;
+    }
+    tablesRequired.push({ criterionCode, tableType: parsed.data.tableType });
+  });
+
+  const imagesSuggested: ImageSuggestion[] = [];
+  (candidate.imagesSuggested || []).forEach((value: unknown, index: number) => {
+    const parsed = imageSuggestionSchema.safeParse(value);
+    if (!parsed.success) {
+      report.schemaErrors.push(...formatIssues(`imagesSuggested[${index}]`, parsed.error));
+      return;
+    }
+    const aim = criterionAims.get(shortCriterionCode(parsed.data.criterionCode));
+    const criterionCode = aim ? `${aim}.${shortCriterionCode(parsed.data.criterionCode)}` : '';
+    if (!briefSnapshot.options.includeImages || !aim || imagesSuggested.some((i) => i.criterionCode === criterionCode)) {
+      report.droppedImages.push(parsed.data.criterionCode);
+      return;
+    }
+    imagesSuggested.push({ criterionCode, imageType: parsed.data.imageType });
+  });
+
+  report.valid = report.source === 'MODEL'
+    && report.schemaErrors.length === 0
+    && report.addedCriteria.length === 0
+    && report.droppedCriteria.length === 0
+    && report.duplicateCriteria.length === 0
+    && report.reattachedCriteria.length === 0
+    && report.addedSections.length === 0
+    && report.droppedSections.length === 0
+    && !report.reordered
+    && report.droppedTables.length === 0
+    && report.droppedImages.length === 0;
+
+  // Validity is judged on the aim structure the planner is asked for
+  const documentOutline = groupOutlineByTasks(outline, briefSnapshot.tasks || []);
+  report.grouping = documentOutline.some((item) => item.type === 'TASK') ? 'TASK' : 'AIM';
+
+  const plan: GenerationPlan = { documentOutline, tablesRequired, imagesSuggested };
+  generationPlanSchema.parse(plan);
+
+  return { plan, report };
+}
+
+// =============================================================================
+// PLAN EDITS
+// =============================================================================
+
+// Custom sections a student can add to one plan
+export const MAX_CUSTOM_SECTIONS = 5;
+
+/**
+ * Stable key of an outline item - matches the content block sectionId
+ */
+export function outlineItemKey(item: OutlineItem): string {
+  switch (item.type) {
+    case 'LEARNING_AIM':
+      return `aim_${item.aimCode || 'A'}`;
+    case 'TASK':
+      return `task_${item.taskNumber || 1}`;
+    case 'CRITERION':
+      return `criterion_${item.criterionCode || 'A.P1'}`;
+    case 'CUSTOM':
+      return `custom_${item.customNumber || 1}`;
+    default:
+      return item.type.toLowerCase();
+  }
+}
+
+// Items are identified by their key - other fields sent back with them are ignored
+const planEditItemSchema = z.object({
+  type: z.enum(['INTRODUCTION', 'LEARNING_AIM', 'TASK', 'CRITERION', 'CUSTOM', 'CONCLUSION', 'REFERENCES']),
+  aimCode: z.string().optional(),
+  criterionCode: z.string().optional(),
+  taskNumber: z.number().int().positive().optional(),
+  customNumber: z.number().int().positive().optional(),
+  title: z.string().trim().max(120).optional(),
+  customDescription: z.string().trim().max(1000).optional(),
+});
+
+const planEditSchema = z.object({
+  documentOutline: z.array(planEditItemSchema).min(1).max(200),
+  tablesRequired: z.array(z.object({ criterionCode: z.string() })).optional(),
+  imagesSuggested: z.array(z.object({ criterionCode: z.string() })).optional(),
+});
+
+/**
+ * Apply a student's edits to a stored plan. The edits may reorder outline
+ * items, add CUSTOM sections and drop planned tables or images; every planned
+ * heading and criterion must stay, each criterion in its planned aim or task
+ * group, the introduction first and the references last. Planned items keep their stored fields. Throws "Invalid plan: ..." on
+ * anything else.
+ */
+export function applyPlanEdits(stored: GenerationPlan, edits: unknown): GenerationPlan {
+  const parsed = planEditSchema.safeParse(edits);
+  if (!parsed.success) {
+    throw new Error(`Invalid plan: ${formatIssues('plan', parsed.error)[0]}`);
+  }
+
+  const plannedByKey = new Map(
+    stored.documentOutline
+      .filter((item) => item.type !== 'CUSTOM')
+      .map((item) => [outlineItemKey(item), item])
+  );
+  const storedCustom = stored.documentOutline
+    .filter((item) => item.type === 'CUSTOM')
+    .map((item) => item.customNumber || 1);
+  let nextCustom = Math.max(0, ...storedCustom) + 1;
+
+  const seen = new Set<string>();
+  const documentOutline: OutlineItem[] = [];
+
+  for (const item of parsed.data.documentOutline) {
+    if (item.type === 'CUSTOM') {
+      if (!item.title) {
+        throw new Error('Invalid plan: custom sections need a title');
+      }
+      // Existing sections keep their number so a saved block stays attached
+      const reused = item.customNumber && storedCustom.includes(item.customNumber) && !seen.has(`custom_${item.customNumber}`);
+      const customNumber = reused ? item.customNumber! : nextCustom++;
+      seen.add(`custom_${customNumber}`);
+      documentOutline.push({
+        type: 'CUSTOM',
+        customNumber,
+        title: item.title,
+        customDescription: item.customDescription || undefined,
+      });
+      continue;
+    }
+
+    const key = outlineItemKey(item);
+    const planned = plannedByKey.get(key);
+    if (!planned) {
+      throw new Error(`Invalid plan: ${key} is not part of the planned outline`);
+    }
+    if (seen.has(key)) {
+      throw new Error(`Invalid plan: ${key} appears more than once`);
+    }
+    seen.add(key);
+    documentOutline.push(planned);
+  }
+
+  const missing = [...plannedByKey.keys()].filter((key) => !seen.has(key));
+  if (missing.length > 0) {
+    throw new Error(`Invalid plan: ${missing.join(', ')} cannot be removed`);
+  }
+  if (documentOutline.filter((item) => item.type === 'CUSTOM').length > MAX_CUSTOM_SECTIONS) {
+    throw new Error(`Invalid plan: at most ${MAX_CUSTOM_SECTIONS} custom sections can be added`);
+  }
+  if (documentOutline[0].type !== 'INTRODUCTION' || documentOutline[documentOutline.length - 1].type !== 'REFERENCES') {
+    throw new Error('Invalid plan: the introduction must stay first and the references last');
+  }
+
+  // Criteria stay in the aim or task group they were planned in, before the conclusion
+  const plannedGroup = new Map<string, string | null>();
+  let group: string | null = null;
+  for (const item of stored.documentOutline) {
+    if (item.type === 'LEARNING_AIM' || item.type === 'TASK') {
+      group = outlineItemKey(item);
+    } else if (item.type === 'CRITERION') {
+      plannedGroup.set(outlineItemKey(item), group);
+    }
+  }
+
+  group = null;
+  let closed = false;
+  for (const item of documentOutline) {
+    const key = outlineItemKey(item);
+    if (item.type === 'CONCLUSION' || item.type === 'REFERENCES') {
+      closed = true;
+    } else if (item.type === 'LEARNING_AIM' || item.type === 'TASK' || item.type === 'CRITERION') {
+      if (closed) {
+        throw new Error(`Invalid plan: ${key} cannot come after the conclusion`);
+      }
+      if (item.type !== 'CRITERION') {
+        group = key;
+      } else if (group !== plannedGroup.get(key)) {
+        const heading = plannedGroup.get(key);
+        throw new Error(`Invalid plan: ${key} must stay ${heading ? `under ${heading}` : 'outside the aim and task groups'}`);
+      }
+    }
+  }
+
+  // Tables and images can only be dropped - the planned type is kept
+  const keepPlanned = <T extends { criterionCode: string }>(
+    planned: T[],
+    requested: Array<{ criterionCode: string }> | undefined,
+    label: string
+  ): T[] => {
+    if (!requested) return planned;
+    const codes = new Set(requested.map((entry) => entry.criterionCode));
+    for (const code of codes) {
+      if (!planned.some((entry) => entry.criterionCode === code)) {
+        throw new Error(`Invalid plan: no ${label} was planned for ${code}`);
+      }
+    }
+    return planned.filter((entry) => codes.has(entry.criterionCode));
+  };
+
+  return {
+    documentOutline,
+    tablesRequired: keepPlanned(stored.tablesRequired || [], parsed.data.tablesRequired, 'table'),
+    imagesSuggested: keepPlanned(stored.imagesSuggested || [], parsed.data.imagesSuggested, 'image'),
+  };
+}
+
+// =============================================================================
+// TASKS
+// =============================================================================
+
+/**
+ * Normalize brief tasks - criteria may be missing on older briefs, in which case
+ * the codes mentioned in the task title or description are used
+ */
+export function normalizeTasks(tasks: any): BriefTask[] {
+  if (!Array.isArray(tasks)) return [];
+
+  return tasks
+    .filter((task: any) => task && typeof task === 'object' && (task.title || task.description))
+    .map((task: any) => {
+      const listed: string[] = Array.isArray(task.criteria)
+        ? task.criteria.flatMap((code: any) => String(code).split(/[,;\s]+/))
+        : [];
+      const mentioned = `${task.title || ''} ${task.description || ''}`.match(/\b(?:[A-Z]\.)?[PMD][1-9]\d?\b/g) || [];
+      const codes = (listed.length > 0 ? listed : mentioned)
+        .map(shortCriterionCode)
+        .filter((code) => /^[PMD][1-9]\d?$/.test(code));
+
+      return {
+        title: String(task.title || '').trim(),
+        description: String(task.description || '').trim(),
+        criteria: [...new Set(codes)],
+      };
+    });
+}
+
+/**
+ * Task a criterion is written under: the first task that lists it, otherwise the
+ * last task (unlisted criteria are usually the final evaluation). Null when no
+ * task claims any criteria.
+ */
+export function findTaskForCriterion(
+  tasks: BriefTask[],
+  criterionCode: string
+): { task: BriefTask; taskNumber: number } | null {
+  if (!tasks.some((task) => task.criteria.length > 0)) return null;
+
+  const code = shortCriterionCode(criterionCode);
+  const index = tasks.findIndex((task) => task.criteria.includes(code));
+  const taskIndex = index >= 0 ? index : tasks.length - 1;
+
+  return { task: tasks[taskIndex], taskNumber: taskIndex + 1 };
+}
+
+/**
+ * Regroup an aim-ordered outline by brief task: each TASK heading is followed by
+ * its criteria (in outline order) and learning aim headings are dropped. Tasks
+ * without criteria in the outline are left out. Returns the outline unchanged
+ * when no task claims criteria.
+ */
+export function groupOutlineByTasks(outline: OutlineItem[], tasks: BriefTask[]): OutlineItem[] {
+  if (!tasks.some((task) => task.criteria.length > 0)) return outline;
+
+  const criteriaByTask = new Map<number, OutlineItem[]>();
+  for (const item of outline) {
+    if (item.type !== 'CRITERION' || !item.criterionCode) continue;
+    const { taskNumber } = findTaskForCriterion(tasks, item.criterionCode)!;
+    criteriaByTask.set(taskNumber, [...(criteriaByTask.get(taskNumber) || []), item]);
+  }
+
+  const grouped = outline.filter((item) => item.type === 'INTRODUCTION');
+  tasks.forEach((task, index) => {
+    const criteria = criteriaByTask.get(index + 1);
+    if (!criteria) return;
+    grouped.push({
+      type: 'TASK',
+      taskNumber: index + 1,
+      // Teachers often number their titles already ("Task 2 - Evaluation")
+      taskTitle: /^task\s*\d+/i.test(task.title) ? task.title : `Task ${index + 1}: ${task.title}`,
+      taskDescription: task.description,
+    }, ...criteria);
+  });
+  grouped.push(...outline.filter((item) => item.type === 'CONCLUSION' || item.type === 'REFERENCES'));
+
+  return grouped;
+}
+
+/**
+ * Criteria the outline must cover for the target grade, in brief order.
+ * `aim` is set when the brief itself fixes it (code or description starts with "B.P3").
+ */
+function expectedCriteria(briefSnapshot: BriefSnapshot): Array<{ code: string; description: string; aim?: string }> {
+  const { pass, merit, distinction } = briefSnapshot.assessmentCriteria;
+  const criteria = [
+    ...pass,
+    ...(briefSnapshot.targetGrade !== 'PASS' ? merit : []),
+    ...(briefSnapshot.targetGrade === 'DISTINCTION' ? distinction : []),
+  ];
+
+  return criteria.map((criterion) => ({
+    code: shortCriterionCode(criterion.code),
+    description: criterion.description,
+    aim: criterionAimPrefix(criterion.code) || criterionAimPrefix(criterion.description),
+  }));
+}
+
+function briefAimLetters(briefSnapshot: BriefSnapshot): string[] {
+  const letters = briefSnapshot.learningAims.map((aim: any, index: number) => {
+    const code = typeof aim === 'object' ? aim?.code || aim?.letter : undefined;
+    return code ? String(code).charAt(0).toUpperCase() : String.fromCharCode(65 + index);
+  });
+  return letters.length > 0 ? [...new Set(letters)] : ['A'];
+}
+
+function learningAimText(briefSnapshot: BriefSnapshot, aim: string, aimLetters: string[]): string {
+  const learningAim = briefSnapshot.learningAims[aimLetters.indexOf(aim)];
+  if (typeof learningAim === 'string') return learningAim;
+  return learningAim?.title || learningAim?.description || `Section ${aim}`;
+}
+
+// "A.P1" → "P1"
+function shortCriterionCode(code: string): string {
+  return code.trim().toUpperCase().replace(/^[A-Z]\./, '');
+}
+
+// "B.M2 Analyse..." → "B"
+function criterionAimPrefix(text: string): string | undefined {
+  return text.trim().match(/^([A-Z])\.[PMD]\d+/i)?.[1].toUpperCase();
+}
+
+function formatIssues(prefix: string, error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${[prefix, ...issue.path].join('.')}: ${issue.message}`);
+}
+
+/**
+ * Normalize criteria array - handle both string[] and object[] formats
+ */
+export function normalizeCriteria(criteria: any, prefix: string): Array<{ code: string; description: string }> {
+  if (!Array.isArray(criteria)) return [];
+  
+  return criteria.map((item: any, idx: number) => {
+    if (typeof item === 'string') {
+      return { code: `${prefix}${idx + 1}`, description: item };
+    }
+    return {
+      code: item.code || `${prefix}${idx + 1}`,
+      description: item.description || item.text || String(item)
+    };
+  });
 }
 
 /**
@@ -0,0 +1,191 @@
+// =============================================================================
+// BTEC GENERATOR - PROGRESS SERVICE
+// =============================================================================
+// Live generation progress over WebSocket.
+// Clients connect to /api/ws?token=<JWT> and send { type: 'subscribe', jobId }
+// where jobId is the assignment ID. The orchestrator publishes job:* events.
+// =============================================================================
+
+import { Server, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { EventEmitter } from 'events';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { prisma } from '../lib/prisma';
+import { verifyToken } from '../utils/jwt';
+import { JWTPayload } from '../types';
+
+export const PROGRESS_SOCKET_PATH = '/api/ws';
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export type ProgressEventType = 'job:progress' | 'job:stageComplete' | 'job:complete' | 'job:error' | 'job:cancelled';
+
+export interface ProgressEvent {
+  type: ProgressEventType;
+  jobId: string;
+  payload: Record<string, unknown>;
+  timestamp: string;
+}
+
+// In-process bus: one event name per assignment ID
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+let wss: WebSocketServer | null = null;
+let heartbeatInterval: NodeJS.Timeout | null = null;
+const aliveSockets = new WeakSet<WebSocket>();
+
+// =============================================================================
+// PUBLISH / SUBSCRIBE
+// =============================================================================
+
+/**
+ * Publish a progress event for an assignment (no-op when nobody listens)
+ */
+export function publishProgress(
+  assignmentId: string,
+  type: ProgressEventType,
+  payload: Record<string, unknown>
+): void {
+  const event: ProgressEvent = {
+    type,
+    jobId: assignmentId,
+    payload,
+    timestamp: new Date().toISOString(),
+  };
+  bus.emit(assignmentId, event);
+}
+
+/**
+ * Listen to an assignment's progress events. Returns an unsubscribe function.
+ */
+export function subscribeProgress(assignmentId: string, listener: (event: ProgressEvent) => void): () => void {
+  bus.on(assignmentId, listener);
+  return () => {
+    bus.off(assignmentId, listener);
+  };
+}
+
+// =============================================================================
+// WEBSOCKET SERVER
+// =============================================================================
+
+function send(socket: WebSocket, message: object): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function rejectUpgrade(socket: Duplex, status: string): void {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+async function handleSubscribe(
+  socket: WebSocket,
+  user: JWTPayload,
+  jobId: string,
+  subscriptions: Map<string, () => void>
+): Promise<void> {
+  if (subscriptions.has(jobId)) {
+    return;
+  }
+
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: jobId },
+    select: { userId: true, status: true },
+  });
+
+  if (!assignment || (assignment.userId !== user.userId && user.role !== 'ADMIN')) {
+    send(socket, { type: 'error', jobId, payload: { error: 'Assignment not found' } });
+    return;
+  }
+
+  subscriptions.set(jobId, subscribeProgress(jobId, (event) => send(socket, event)));
+  send(socket, { type: 'subscribed', jobId, payload: { status: assignment.status } });
+}
+
+function handleConnection(socket: WebSocket, user: JWTPayload): void {
+  const subscriptions = new Map<string, () => void>();
+  aliveSockets.add(socket);
+
+  socket.on('pong', () => aliveSockets.add(socket));
+
+  socket.on('message', (raw: RawData) => {
+    let message: any;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      send(socket, { type: 'error', payload: { error: 'Invalid message' } });
+      return;
+    }
+
+    if (message?.type === 'subscribe' && typeof message.jobId === 'string') {
+      handleSubscribe(socket, user, message.jobId, subscriptions).catch((error) => {
+        console.error('[PROGRESS] Subscribe failed:', error);
+        send(socket, { type: 'error', jobId: message.jobId, payload: { error: 'Subscribe failed' } });
+      });
+    } else if (message?.type === 'unsubscribe' && typeof message.jobId === 'string') {
+      subscriptions.get(message.jobId)?.();
+      subscriptions.delete(message.jobId);
+    }
+  });
+
+  socket.on('close', () => {
+    subscriptions.forEach((unsubscribe) => unsubscribe());
+    subscriptions.clear();
+  });
+}
+
+/**
+ * Attach the progress WebSocket to the HTTP server.
+ * The JWT is checked during the upgrade, before the socket is accepted.
+ */
+export function attachProgressSocket(server: Server): void {
+  wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== PROGRESS_SOCKET_PATH || !wss) {
+      rejectUpgrade(socket, '404 Not Found');
+      return;
+    }
+
+    let user: JWTPayload;
+    try {
+      user = verifyToken(url.searchParams.get('token') || '');
+    } catch {
+      rejectUpgrade(socket, '401 Unauthorized');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, user));
+  });
+
+  // Drop connections that stopped answering pings (sleeping laptops, dead proxies)
+  heartbeatInterval = setInterval(() => {
+    wss?.clients.forEach((socket) => {
+      if (!aliveSockets.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      aliveSockets.delete(socket);
+      socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  console.log(`[PROGRESS] WebSocket listening on ${PROGRESS_SOCKET_PATH}`);
+}
+
+/**
+ * Close all progress sockets (graceful shutdown)
+ */
+export function closeProgressSocket(): void {
+  if (heartbeatInterval) {
+    clearInterval(heartbeatInterval);
+    heartbeatInterval = null;
+  }
+  wss?.clients.forEach((socket) => socket.terminate());
+  wss?.close();
+  wss = null;
+}
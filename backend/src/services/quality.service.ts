@@ -0,0 +1,222 @@
+// =============================================================================
+// BTEC GENERATOR - QUALITY SERVICE
+// =============================================================================
+// Deterministic checks of written content blocks against the writer's rules
+// (length per grade tier, plain prose, no headings or criterion codes) and
+// the assignment language. Tables are JSON and only get the language check;
+// references keep source titles in their original language and are skipped.
+// The orchestrator rewrites failing blocks - see applyQualityGate().
+// =============================================================================
+
+import { Language } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { detectLanguage, getLanguageRetryInstructions, isLanguageMismatch, LanguageDetection } from '../utils/language';
+
+// Rewrites per failing block before its last version is accepted as is
+export const QUALITY_MAX_REWRITES = Math.max(0, parseInt(process.env.GENERATION_QUALITY_MAX_REWRITES ?? '2', 10) || 0);
+
+// Word ranges from the writer's depth rules (see generateCriterionBlock)
+const CRITERION_WORD_RANGE: Record<'PASS' | 'MERIT' | 'DISTINCTION', [number, number]> = {
+  PASS: [200, 350],
+  MERIT: [300, 450],
+  DISTINCTION: [400, 550],
+};
+
+// Models rarely land exactly on a bound, so only clear misses fail
+const WORD_TOLERANCE = 0.1;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type QualityIssueCode =
+  | 'EMPTY'
+  | 'ERROR_OUTPUT'
+  | 'LANGUAGE'
+  | 'WORD_COUNT'
+  | 'MARKDOWN'
+  | 'BULLETS'
+  | 'HEADINGS'
+  | 'CRITERION_CODES';
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  message: string;             // Phrased as a fix, so it can go back to the writer
+}
+
+export interface BlockQualityResult {
+  sectionId: string;
+  criterionCode: string | null;
+  wordCount: number;
+  detectedLanguage: Language | null;
+  passed: boolean;
+  issues: QualityIssue[];      // Issues of the final version
+  rewrites: number;
+}
+
+export interface QualityReport {
+  checkedAt: string;
+  maxRewrites: number;
+  passed: boolean;
+  blocksChecked: number;
+  blocksFailed: number;        // Still failing after all rewrites
+  totalRewrites: number;
+  blocks: BlockQualityResult[];
+}
+
+// =============================================================================
+// CHECKS
+// =============================================================================
+
+/**
+ * Whether a block is checked at all (prose blocks and tables)
+ */
+export function isCheckedBlock(sectionId: string): boolean {
+  return sectionId === 'introduction'
+    || sectionId === 'conclusion'
+    || sectionId.startsWith('aim_')
+    || sectionId.startsWith('custom_')
+    || sectionId.startsWith('criterion_')
+    || sectionId.startsWith('table_');
+}
+
+// Visible text of a stored table (caption, headers and cells)
+function tableText(content: string): string {
+  try {
+    const table = JSON.parse(content);
+    return [table.caption, ...(table.headers || []), ...(table.rows || []).flat()].join(' ');
+  } catch {
+    return content;
+  }
+}
+
+// Criterion code without its learning aim prefix (A.P1 -> P1)
+function bareCode(code: string): string {
+  return code.replace(/^[A-Z]\./i, '').toUpperCase();
+}
+
+function criterionTier(criterionCode: string): 'PASS' | 'MERIT' | 'DISTINCTION' {
+  const level = bareCode(criterionCode).charAt(0);
+  if (level === 'D') return 'DISTINCTION';
+  if (level === 'M') return 'MERIT';
+  return 'PASS';
+}
+
+// A short line that does not end like a sentence reads as a heading
+function isHeadingLine(line: string): boolean {
+  if (/^#{1,6}\s/.test(line)) return true;
+  const words = line.split(/\s+/).length;
+  return words <= 8 && !/[.!?"'”»)]$/.test(line);
+}
+
+/**
+ * Check one block's text. Returns the issues found (empty when it passes)
+ * and the detected language (null when the block was empty or an error).
+ * briefCodes are the brief's criterion codes - only those count as leaked.
+ */
+export function checkBlock(
+  sectionId: string,
+  criterionCode: string | null,
+  content: string,
+  language: Language,
+  briefCodes: string[]
+): { wordCount: number; detection: LanguageDetection | null; issues: QualityIssue[] } {
+  const isTable = sectionId.startsWith('table_');
+  const text = (isTable ? tableText(content || '') : content || '').trim();
+  const wordCount = text ? text.split(/\s+/).length : 0;
+
+  if (!text) {
+    return { wordCount, detection: null, issues: [{ code: 'EMPTY', message: 'Write the section - the previous output was empty.' }] };
+  }
+  if (text.startsWith('ERROR:')) {
+    return { wordCount, detection: null, issues: [{ code: 'ERROR_OUTPUT', message: 'Write the section text instead of an error message.' }] };
+  }
+
+  const issues: QualityIssue[] = [];
+  const detection = detectLanguage(text);
+
+  if (isLanguageMismatch(detection, language)) {
+    issues.push({ code: 'LANGUAGE', message: getLanguageRetryInstructions(language) });
+  }
+
+  if (isTable) {
+    return { wordCount, detection, issues };
+  }
+
+  if (criterionCode && sectionId.startsWith('criterion_')) {
+    const tier = criterionTier(criterionCode);
+    const [min, max] = CRITERION_WORD_RANGE[tier];
+    if (wordCount < min * (1 - WORD_TOLERANCE) || wordCount > max * (1 + WORD_TOLERANCE)) {
+      issues.push({
+        code: 'WORD_COUNT',
+        message: `Write ${min}-${max} words for this ${tier} criterion (the previous version had ${wordCount}).`,
+      });
+    }
+  }
+
+  if (/\*\*|__|`|\[[^\]]+\]\([^)]+\)|^\s*>\s/m.test(text)) {
+    issues.push({ code: 'MARKDOWN', message: 'Remove all markdown (bold, code, links, quotes) and write plain text.' });
+  }
+
+  if (/^\s*([-*•▪◦]|\d+[.)])\s+/m.test(text)) {
+    issues.push({ code: 'BULLETS', message: 'Replace bullet points and numbered lists with connected paragraphs.' });
+  }
+
+  // The last line has nothing under it, so only markdown headings count there
+  const lines = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  if (lines.slice(0, -1).some(isHeadingLine) || /^#{1,6}\s/.test(lines[lines.length - 1])) {
+    issues.push({ code: 'HEADINGS', message: 'Remove headings and title lines - write continuous paragraphs only.' });
+  }
+
+  // "M1 motorway" or "D3.js" is only a leak when the brief has that criterion
+  const known = new Set(briefCodes.map(bareCode));
+  const codes = (text.match(/\b(?:[A-Z]\.)?[PMD][1-9]\d?\b/g) || []).filter((code) => known.has(bareCode(code)));
+  if (codes.length > 0) {
+    issues.push({
+      code: 'CRITERION_CODES',
+      message: `Do not mention criterion codes in the text (found ${[...new Set(codes)].join(', ')}).`,
+    });
+  }
+
+  return { wordCount, detection, issues };
+}
+
+/**
+ * Record one language check for the per-model mismatch rate in AI analytics
+ */
+export async function recordLanguageCheck(
+  assignmentId: string,
+  sectionId: string,
+  aiModel: string | null,
+  expectedLanguage: Language,
+  detection: LanguageDetection
+): Promise<void> {
+  await prisma.languageCheckLog.create({
+    data: {
+      assignmentId,
+      sectionId,
+      aiModel,
+      expectedLanguage,
+      detectedLanguage: detection.language,
+      script: detection.script,
+      mismatch: isLanguageMismatch(detection, expectedLanguage),
+    },
+  });
+}
+
+/**
+ * Summarise per-block results into the report stored on the assignment
+ */
+export function buildQualityReport(blocks: BlockQualityResult[]): QualityReport {
+  const blocksFailed = blocks.filter((block) => !block.passed).length;
+
+  return {
+    checkedAt: new Date().toISOString(),
+    maxRewrites: QUALITY_MAX_REWRITES,
+    passed: blocksFailed === 0,
+    blocksChecked: blocks.length,
+    blocksFailed,
+    totalRewrites: blocks.reduce((sum, block) => sum + block.rewrites, 0),
+    blocks,
+  };
+}
@@ -0,0 +1,716 @@
+// =============================================================================
+// BTEC GENERATOR - GENERATION QUEUE SERVICE
+// =============================================================================
+// Durable, Postgres-backed job queue for assignment generation.
+// Every generation request becomes a GenerationJob row; a worker loop claims
+// QUEUED jobs up to the configured concurrency and runs the orchestrator.
+// A running job is locked to its worker, which refreshes the lock every
+// JOB_HEARTBEAT_INTERVAL_MS. Jobs whose lock has gone stale (crashed or
+// restarted process) are re-queued; live jobs of other instances are left alone.
+// =============================================================================
+
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { prisma } from '../lib/prisma';
+import { runGeneration } from './generation.service';
+import { AIProviderError } from '../ai';
+import { publishProgress } from './progress.service';
+import { estimateAssignment } from './estimate.service';
+import { reserveTokens, releaseReservation, settleCancelledGeneration } from './token.service';
+import { abortGenerationRun, beginGenerationRun, endGenerationRun } from './cancellation.service';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const QUEUE_CONCURRENCY = Math.max(1, parseInt(process.env.GENERATION_CONCURRENCY || '2', 10) || 2);
+const QUEUE_MAX_ATTEMPTS = Math.max(1, parseInt(process.env.GENERATION_MAX_ATTEMPTS || '3', 10) || 3);
+const QUEUE_RETRY_BASE_MS = parseInt(process.env.GENERATION_RETRY_BASE_MS || '30000', 10) || 30000;
+const QUEUE_POLL_INTERVAL_MS = parseInt(process.env.GENERATION_POLL_INTERVAL_MS || '5000', 10) || 5000;
+const PAUSE_CHECK_INTERVAL_MS = 5000;
+const JOB_HEARTBEAT_INTERVAL_MS = 30000;
+const JOB_STALE_AFTER_MS = parseInt(process.env.GENERATION_JOB_STALE_MS || '120000', 10) || 120000;
+
+// Identifies this process as the owner of the jobs it runs
+const WORKER_ID = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+// SystemSetting key for the global pause flag
+const GENERATION_PAUSED_KEY = 'GENERATION_PAUSED';
+
+// Thrown by waitWhilePaused when this assignment is paused - the job is re-queued
+const GENERATION_PAUSED_ERROR = 'Generation paused';
+
+// Errors that will not go away by retrying
+const NON_RETRYABLE_ERRORS = [
+  'Assignment not found',
+  'Generation cancelled',
+  'Insufficient tokens',
+  'Unauthorized',
+];
+
+// =============================================================================
+// WORKER STATE
+// =============================================================================
+
+let workerInterval: NodeJS.Timeout | null = null;
+let isPolling = false;
+const runningJobs = new Set<string>();
+
+// =============================================================================
+// ENQUEUE
+// =============================================================================
+
+/**
+ * Add an assignment to the generation queue.
+ * Marks the assignment as GENERATING so the frontend starts polling immediately.
+ * If the assignment already has an active job, that job is returned instead.
+ * A new job first holds the estimated tokens (throws "Insufficient tokens").
+ */
+export async function enqueueGeneration(assignmentId: string, userId: string) {
+  const existing = await prisma.generationJob.findFirst({
+    where: { assignmentId, status: { in: ['QUEUED', 'RUNNING'] } },
+  });
+
+  if (existing) {
+    await prisma.assignment.update({
+      where: { id: assignmentId },
+      data: { status: 'GENERATING', error: null },
+    });
+    return {
+      job: existing,
+      queuePosition: await getQueuePosition(assignmentId),
+    };
+  }
+
+  await reserveGeneration(assignmentId, userId);
+
+  let job;
+  try {
+    [job] = await prisma.$transaction([
+      prisma.generationJob.create({
+        data: {
+          assignmentId,
+          userId,
+          maxAttempts: QUEUE_MAX_ATTEMPTS,
+        },
+      }),
+      prisma.assignment.update({
+        where: { id: assignmentId },
+        // A new run - settled again when it completes or is cancelled
+        data: { status: 'GENERATING', error: null, tokensSettledAt: null },
+      }),
+    ]);
+  } catch (error) {
+    await releaseReservation(assignmentId, 'enqueue failed');
+    throw error;
+  }
+
+  const queuePosition = await getQueuePosition(assignmentId);
+  console.log(`[QUEUE] Enqueued assignment ${assignmentId} (job ${job.id}, position ${queuePosition})`);
+
+  // Don't wait for the next poll if a slot is free
+  pollQueue().catch((error) => console.error('[QUEUE] Poll error:', error));
+
+  return { job, queuePosition };
+}
+
+/**
+ * Hold the estimated tokens for an assignment ahead of enqueueGeneration(),
+ * which reuses the hold - for callers that must know the owner can pay before
+ * they change anything. Throws "Insufficient tokens".
+ */
+export async function reserveGeneration(assignmentId: string, userId: string): Promise<number> {
+  const estimate = await estimateAssignment(assignmentId);
+  return reserveTokens(userId, assignmentId, estimate.totalTokens);
+}
+
+// =============================================================================
+// QUEUE INFO
+// =============================================================================
+
+/**
+ * 1-based position of the assignment's job among QUEUED jobs.
+ * Returns 0 when the job is running, null when there is no active job.
+ */
+export async function getQueuePosition(assignmentId: string): Promise<number | null> {
+  const job = await prisma.generationJob.findFirst({
+    where: { assignmentId, status: { in: ['QUEUED', 'RUNNING'] } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!job) return null;
+  if (job.status === 'RUNNING') return 0;
+
+  const ahead = await prisma.generationJob.count({
+    where: { status: 'QUEUED', createdAt: { lt: job.createdAt } },
+  });
+
+  return ahead + 1;
+}
+
+/**
+ * Queue counters for admin system status
+ */
+export async function getQueueStats() {
+  const [queued, running, failedLast24h] = await Promise.all([
+    prisma.generationJob.count({ where: { status: 'QUEUED' } }),
+    prisma.generationJob.count({ where: { status: 'RUNNING' } }),
+    prisma.generationJob.count({
+      where: {
+        status: 'FAILED',
+        finishedAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+      },
+    }),
+  ]);
+
+  return {
+    queued,
+    running,
+    failedLast24h,
+    concurrency: QUEUE_CONCURRENCY,
+  };
+}
+
+// =============================================================================
+// WORKER LOOP
+// =============================================================================
+
+/**
+ * Start the queue worker. Re-queues jobs interrupted by a previous shutdown
+ * and then polls for work every QUEUE_POLL_INTERVAL_MS.
+ */
+export async function startQueueWorker() {
+  if (workerInterval) return;
+
+  await recoverInterruptedJobs();
+
+  workerInterval = setInterval(() => {
+    pollQueue().catch((error) => console.error('[QUEUE] Poll error:', error));
+  }, QUEUE_POLL_INTERVAL_MS);
+
+  console.log(`📦 Generation queue worker started (concurrency ${QUEUE_CONCURRENCY})`);
+
+  await pollQueue();
+}
+
+/**
+ * Stop claiming new jobs. In-flight jobs are abandoned; once their heartbeat
+ * goes stale another worker (or this one, on restart) re-queues them.
+ */
+export function stopQueueWorker() {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
+
+/**
+ * Claim as many due jobs as there are free worker slots
+ */
+async function pollQueue() {
+  if (isPolling) return;
+  isPolling = true;
+
+  try {
+    await requeueStaleJobs();
+
+    // Paused: leave QUEUED jobs where they are
+    if (await isGenerationPaused()) return;
+
+    while (runningJobs.size < QUEUE_CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      runningJobs.add(job.id);
+      processJob(job.id, job.assignmentId, job.userId, job.attempts, job.maxAttempts)
+        .catch((error) => console.error(`[QUEUE] Job ${job.id} crashed:`, error))
+        .finally(() => {
+          runningJobs.delete(job.id);
+          pollQueue().catch((error) => console.error('[QUEUE] Poll error:', error));
+        });
+    }
+  } finally {
+    isPolling = false;
+  }
+}
+
+/**
+ * Atomically move the oldest due QUEUED job to RUNNING.
+ * The conditional update guards against another instance claiming it first.
+ */
+async function claimNextJob() {
+  for (let i = 0; i < 5; i++) {
+    const candidate = await prisma.generationJob.findFirst({
+      where: {
+        status: 'QUEUED',
+        runAfter: { lte: new Date() },
+        assignment: { pausedAt: null },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!candidate) return null;
+
+    const claimed = await prisma.generationJob.updateMany({
+      where: { id: candidate.id, status: 'QUEUED' },
+      data: {
+        status: 'RUNNING',
+        attempts: { increment: 1 },
+        startedAt: new Date(),
+        lockedBy: WORKER_ID,
+        lockedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 1) {
+      return { ...candidate, attempts: candidate.attempts + 1 };
+    }
+  }
+
+  return null;
+}
+
+async function processJob(
+  jobId: string,
+  assignmentId: string,
+  userId: string,
+  attempt: number,
+  maxAttempts: number
+) {
+  console.log(`[QUEUE] Running job ${jobId} for assignment ${assignmentId} (attempt ${attempt}/${maxAttempts})`);
+
+  // Assignment may have been cancelled, reset or deleted while queued
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: { status: true },
+  });
+
+  if (assignment?.status === 'CANCELLED') {
+    await finishCancelledJob(jobId, assignmentId);
+    return;
+  }
+
+  if (!assignment || assignment.status !== 'GENERATING') {
+    await prisma.generationJob.updateMany({
+      where: { id: jobId },
+      data: { status: 'FAILED', lastError: 'Assignment no longer awaiting generation', finishedAt: new Date() },
+    });
+    await releaseReservation(assignmentId, 'generation dropped');
+    console.log(`[QUEUE] Job ${jobId} dropped - assignment no longer awaiting generation`);
+    return;
+  }
+
+  // Model calls of this run carry the run's abort signal. A cancel on another
+  // instance is picked up here and aborts them as well.
+  beginGenerationRun(assignmentId);
+  const cancelWatch = setInterval(() => {
+    prisma.assignment
+      .findUnique({ where: { id: assignmentId }, select: { status: true } })
+      .then((current) => {
+        if (current?.status === 'CANCELLED') abortGenerationRun(assignmentId);
+      })
+      .catch((error) => console.error('[QUEUE] Cancel check failed:', error));
+  }, PAUSE_CHECK_INTERVAL_MS);
+
+  // Keep the lock fresh. A job that was re-queued from under us (heartbeat
+  // missed for too long) now belongs to another run - stop this one.
+  let lockLost = false;
+  const heartbeat = setInterval(() => {
+    prisma.generationJob
+      .updateMany({
+        where: { id: jobId, status: 'RUNNING', lockedBy: WORKER_ID },
+        data: { lockedAt: new Date() },
+      })
+      .then((result) => {
+        if (result.count === 0 && !lockLost) {
+          lockLost = true;
+          console.warn(`[QUEUE] Lost the lock on job ${jobId} - stopping this run`);
+          abortGenerationRun(assignmentId);
+        }
+      })
+      .catch((error) => console.error('[QUEUE] Heartbeat failed:', error));
+  }, JOB_HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await runGeneration(assignmentId, userId);
+
+    await prisma.generationJob.updateMany({
+      where: { id: jobId, lockedBy: WORKER_ID },
+      data: { status: 'COMPLETED', finishedAt: new Date(), lastError: null },
+    });
+
+    console.log(`[QUEUE] Job ${jobId} completed`);
+  } catch (error: any) {
+    if (lockLost) {
+      console.warn(`[QUEUE] Job ${jobId} stopped after losing its lock - left to its new owner`);
+      return;
+    }
+
+    const current = await prisma.assignment.findUnique({
+      where: { id: assignmentId },
+      select: { status: true },
+    });
+    if (current?.status === 'CANCELLED') {
+      await finishCancelledJob(jobId, assignmentId);
+      return;
+    }
+
+    // Paused: give the slot back. The attempt does not count and claimNextJob
+    // skips the job until the assignment is resumed.
+    if (error?.message === GENERATION_PAUSED_ERROR) {
+      await prisma.generationJob.updateMany({
+        where: { id: jobId, lockedBy: WORKER_ID },
+        data: {
+          status: 'QUEUED',
+          attempts: { decrement: 1 },
+          runAfter: new Date(),
+          lockedBy: null,
+          lockedAt: null,
+        },
+      });
+      console.log(`[QUEUE] Job ${jobId} re-queued - assignment ${assignmentId} paused`);
+      return;
+    }
+
+    const message = error?.message || 'Unknown error';
+    const retryable = isRetryable(error, message) && attempt < maxAttempts;
+
+    if (retryable) {
+      const delayMs = QUEUE_RETRY_BASE_MS * Math.pow(2, attempt - 1);
+
+      await prisma.generationJob.updateMany({
+        where: { id: jobId, lockedBy: WORKER_ID },
+        data: {
+          status: 'QUEUED',
+          lastError: message,
+          runAfter: new Date(Date.now() + delayMs),
+          lockedBy: null,
+          lockedAt: null,
+        },
+      });
+
+      publishProgress(assignmentId, 'job:error', { error: message, recoverable: true, retryInMs: delayMs });
+      console.warn(`[QUEUE] Job ${jobId} failed (${message}), retrying in ${Math.round(delayMs / 1000)}s`);
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.generationJob.updateMany({
+        where: { id: jobId, lockedBy: WORKER_ID },
+        data: { status: 'FAILED', lastError: message, finishedAt: new Date() },
+      }),
+      prisma.assignment.updateMany({
+        where: { id: assignmentId, status: 'GENERATING' },
+        data: { status: 'FAILED', error: message, pausedAt: null },
+      }),
+    ]);
+
+    // Nothing is charged for a failed generation - resuming holds tokens again
+    await releaseReservation(assignmentId, 'generation failed');
+    publishProgress(assignmentId, 'job:error', { error: message, recoverable: false });
+    console.error(`[QUEUE] Job ${jobId} failed permanently after ${attempt} attempt(s): ${message}`);
+  } finally {
+    clearInterval(cancelWatch);
+    clearInterval(heartbeat);
+    endGenerationRun(assignmentId);
+  }
+}
+
+/**
+ * Charge the finished blocks of a cancelled assignment, then close its job.
+ * A resume waits for the job to close, so it never races this settlement.
+ */
+async function finishCancelledJob(jobId: string, assignmentId: string) {
+  const tokensCharged = await settleCancelledGeneration(assignmentId);
+  await prisma.generationJob.updateMany({
+    where: { id: jobId },
+    data: { status: 'CANCELLED', finishedAt: new Date() },
+  });
+
+  publishProgress(assignmentId, 'job:cancelled', { tokensCharged });
+  console.log(`[QUEUE] Job ${jobId} stopped - assignment cancelled`);
+}
+
+function isRetryable(error: unknown, message: string): boolean {
+  // Bad API key or invalid model won't fix itself on retry
+  if (error instanceof AIProviderError && !error.retryable) {
+    return false;
+  }
+  return !NON_RETRYABLE_ERRORS.some((pattern) => message.includes(pattern));
+}
+
+// =============================================================================
+// CANCELLATION
+// =============================================================================
+
+/**
+ * Cancel a queued or running generation. The assignment is CANCELLED at once.
+ * A run in this process has its in-flight model calls aborted; one on another
+ * instance stops within PAUSE_CHECK_INTERVAL_MS. Finished blocks are kept and
+ * charged, the rest of the token hold is returned.
+ * Pass userId to enforce ownership (student), omit for admin.
+ */
+export async function cancelGeneration(assignmentId: string, reason: string, userId?: string) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: { userId: true },
+  });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  if (userId && assignment.userId !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  const cancelled = await prisma.assignment.updateMany({
+    where: { id: assignmentId, status: 'GENERATING' },
+    data: { status: 'CANCELLED', error: reason, pausedAt: null },
+  });
+
+  if (cancelled.count === 0) {
+    throw new Error('Only generating assignments can be cancelled');
+  }
+
+  // Jobs no worker has claimed yet
+  await prisma.generationJob.updateMany({
+    where: { assignmentId, status: 'QUEUED' },
+    data: { status: 'CANCELLED', lastError: reason, finishedAt: new Date() },
+  });
+
+  // A running job settles the tokens itself once it has stopped
+  const abortedHere = abortGenerationRun(assignmentId);
+  const running = await prisma.generationJob.count({
+    where: { assignmentId, status: 'RUNNING' },
+  });
+
+  if (!abortedHere && running === 0) {
+    const tokensCharged = await settleCancelledGeneration(assignmentId);
+    publishProgress(assignmentId, 'job:cancelled', { tokensCharged });
+  }
+
+  console.log(`[QUEUE] Assignment ${assignmentId} cancelled (${reason})`);
+
+  return prisma.assignment.findUniqueOrThrow({ where: { id: assignmentId } });
+}
+
+/**
+ * Stop an assignment's generation before it is deleted - a running worker
+ * would otherwise keep making paid AI calls for the deleted row. The hold is
+ * refunded in full first, so the cancel has nothing left to charge.
+ */
+export async function stopGenerationForDelete(assignmentId: string) {
+  await releaseReservation(assignmentId, 'assignment deleted');
+
+  try {
+    await cancelGeneration(assignmentId, 'Assignment deleted');
+  } catch (error: any) {
+    // Not generating - nothing to stop
+    if (error?.message !== 'Only generating assignments can be cancelled') {
+      throw error;
+    }
+  }
+}
+
+// =============================================================================
+// PAUSE CONTROL
+// =============================================================================
+
+/**
+ * Global pause flag (persisted in SystemSetting so it survives restarts)
+ */
+export async function isGenerationPaused(): Promise<boolean> {
+  const setting = await prisma.systemSetting.findUnique({
+    where: { key: GENERATION_PAUSED_KEY },
+  });
+  return setting?.value === 'true';
+}
+
+export async function setGenerationPaused(paused: boolean, updatedBy?: string) {
+  await prisma.systemSetting.upsert({
+    where: { key: GENERATION_PAUSED_KEY },
+    create: { key: GENERATION_PAUSED_KEY, value: String(paused), updatedBy },
+    update: { value: String(paused), updatedBy },
+  });
+
+  console.log(`[QUEUE] Generation ${paused ? 'PAUSED' : 'RESUMED'} globally${updatedBy ? ` by ${updatedBy}` : ''}`);
+
+  if (!paused) {
+    pollQueue().catch((error) => console.error('[QUEUE] Poll error:', error));
+  }
+}
+
+/**
+ * Pause a single assignment. A queued job is not picked up; a running
+ * orchestration stops before its next outline item and its job goes back to
+ * the queue, freeing the worker slot.
+ */
+export async function pauseAssignmentGeneration(assignmentId: string) {
+  const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  if (assignment.status !== 'GENERATING') {
+    throw new Error('Only generating assignments can be paused');
+  }
+
+  return prisma.assignment.update({
+    where: { id: assignmentId },
+    data: { pausedAt: new Date() },
+  });
+}
+
+export async function resumeAssignmentGeneration(assignmentId: string) {
+  const assignment = await prisma.assignment.findUnique({ where: { id: assignmentId } });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  if (!assignment.pausedAt) {
+    throw new Error('Assignment is not paused');
+  }
+
+  const updated = await prisma.assignment.update({
+    where: { id: assignmentId },
+    data: { pausedAt: null },
+  });
+
+  pollQueue().catch((error) => console.error('[QUEUE] Poll error:', error));
+
+  return updated;
+}
+
+/**
+ * Pause checkpoint for the orchestrator - called between outline items.
+ * Blocks while generation is paused globally and returns once resumed, so the
+ * run continues exactly where it stopped. A paused assignment throws
+ * "Generation paused" instead: its job is re-queued and the next run resumes
+ * from the saved blocks. Throws if the assignment was cancelled or removed.
+ */
+export async function waitWhilePaused(assignmentId: string) {
+  let logged = false;
+
+  while (true) {
+    const [globalPaused, assignment] = await Promise.all([
+      isGenerationPaused(),
+      prisma.assignment.findUnique({
+        where: { id: assignmentId },
+        select: { status: true, pausedAt: true },
+      }),
+    ]);
+
+    if (!assignment) {
+      throw new Error('Assignment not found');
+    }
+
+    if (assignment.status !== 'GENERATING') {
+      throw new Error('Generation cancelled');
+    }
+
+    if (assignment.pausedAt) {
+      console.log(`[QUEUE] Assignment ${assignmentId} paused - releasing its worker slot`);
+      throw new Error(GENERATION_PAUSED_ERROR);
+    }
+
+    if (!globalPaused) {
+      if (logged) {
+        console.log(`[QUEUE] Assignment ${assignmentId} resumed`);
+      }
+      return;
+    }
+
+    if (!logged) {
+      console.log(`[QUEUE] Assignment ${assignmentId} paused (global), waiting...`);
+      logged = true;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, PAUSE_CHECK_INTERVAL_MS));
+  }
+}
+
+// =============================================================================
+// RECOVERY
+// =============================================================================
+
+/**
+ * Re-queue RUNNING jobs whose worker stopped heartbeating (crashed, killed or
+ * restarted). Jobs from before the lock existed have no lockedAt and count
+ * as stale.
+ */
+async function requeueStaleJobs(): Promise<number> {
+  const staleBefore = new Date(Date.now() - JOB_STALE_AFTER_MS);
+  const requeued = await prisma.generationJob.updateMany({
+    where: {
+      status: 'RUNNING',
+      OR: [{ lockedAt: null }, { lockedAt: { lt: staleBefore } }],
+    },
+    data: { status: 'QUEUED', runAfter: new Date(), lockedBy: null, lockedAt: null },
+  });
+
+  if (requeued.count > 0) {
+    console.log(`[QUEUE] Re-queued ${requeued.count} job(s) with a stale heartbeat`);
+  }
+  return requeued.count;
+}
+
+/**
+ * Re-queue work interrupted by a restart:
+ * - RUNNING jobs with a stale heartbeat (the process that owned them is gone)
+ * - GENERATING assignments with no active job (started before the queue existed).
+ *   These hold their estimate first, like enqueueGeneration; one the balance
+ *   cannot cover is FAILED rather than run and charged afterwards.
+ */
+async function recoverInterruptedJobs() {
+  const requeued = await requeueStaleJobs();
+
+  const orphaned = await prisma.assignment.findMany({
+    where: {
+      status: 'GENERATING',
+      generationJobs: { none: { status: { in: ['QUEUED', 'RUNNING'] } } },
+    },
+    select: { id: true, userId: true },
+  });
+
+  let recovered = 0;
+  for (const assignment of orphaned) {
+    try {
+      await reserveGeneration(assignment.id, assignment.userId);
+    } catch (error: any) {
+      const message = error?.message || 'Token reservation failed';
+      await prisma.assignment.updateMany({
+        where: { id: assignment.id, status: 'GENERATING' },
+        data: { status: 'FAILED', error: message, pausedAt: null },
+      });
+      console.warn(`[QUEUE] Orphaned assignment ${assignment.id} not recovered: ${message}`);
+      continue;
+    }
+
+    try {
+      await prisma.$transaction([
+        prisma.generationJob.create({
+          data: {
+            assignmentId: assignment.id,
+            userId: assignment.userId,
+            maxAttempts: QUEUE_MAX_ATTEMPTS,
+          },
+        }),
+        prisma.assignment.update({
+          where: { id: assignment.id },
+          data: { tokensSettledAt: null },
+        }),
+      ]);
+      recovered++;
+    } catch (error) {
+      await releaseReservation(assignment.id, 'recovery failed');
+      throw error;
+    }
+  }
+
+  if (requeued > 0 || orphaned.length > 0) {
+    console.log(`[QUEUE] Recovered ${requeued} interrupted job(s), ${recovered}/${orphaned.length} orphaned assignment(s)`);
+  }
+}
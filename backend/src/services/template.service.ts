@@ -0,0 +1,154 @@
+// =============================================================================
+// BTEC GENERATOR - DOCUMENT TEMPLATE SERVICE
+// =============================================================================
+// Admin-managed DOCX templates and the lookup that picks one per assignment,
+// together with the cover page and front sheet details.
+// =============================================================================
+
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { documentTemplateSchema } from '../utils/validation';
+import { DEFAULT_DOCX_TEMPLATE, DocxOptions, DocxTemplate } from './docx.service';
+import { normalizeCriteria } from './planner.service';
+import { StudentProfileSnapshot } from '../types';
+
+type TemplateData = z.infer<typeof documentTemplateSchema>;
+
+const BRIEF_SUMMARY = { select: { id: true, unitCode: true, unitName: true, level: true } };
+
+export const listDocumentTemplates = async () => {
+  return prisma.documentTemplate.findMany({
+    include: { brief: BRIEF_SUMMARY },
+    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+  });
+};
+
+export const getDocumentTemplate = async (templateId: string) => {
+  const template = await prisma.documentTemplate.findUnique({
+    where: { id: templateId },
+    include: { brief: BRIEF_SUMMARY },
+  });
+
+  if (!template) {
+    throw new Error('Template not found');
+  }
+
+  return template;
+};
+
+const assertBriefExists = async (briefId: string | null | undefined) => {
+  if (!briefId) return;
+  const brief = await prisma.brief.findUnique({ where: { id: briefId }, select: { id: true } });
+  if (!brief) {
+    throw new Error('Brief not found');
+  }
+};
+
+export const createDocumentTemplate = async (data: TemplateData) => {
+  await assertBriefExists(data.briefId);
+
+  // Only one default - setting a new one clears the old
+  return prisma.$transaction(async (tx) => {
+    if (data.isDefault) {
+      await tx.documentTemplate.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+    }
+    return tx.documentTemplate.create({ data, include: { brief: BRIEF_SUMMARY } });
+  });
+};
+
+export const updateDocumentTemplate = async (templateId: string, data: Partial<TemplateData>) => {
+  await getDocumentTemplate(templateId);
+  await assertBriefExists(data.briefId);
+
+  return prisma.$transaction(async (tx) => {
+    if (data.isDefault) {
+      await tx.documentTemplate.updateMany({
+        where: { isDefault: true, id: { not: templateId } },
+        data: { isDefault: false },
+      });
+    }
+    return tx.documentTemplate.update({
+      where: { id: templateId },
+      data,
+      include: { brief: BRIEF_SUMMARY },
+    });
+  });
+};
+
+export const deleteDocumentTemplate = async (templateId: string) => {
+  await getDocumentTemplate(templateId);
+  await prisma.documentTemplate.delete({ where: { id: templateId } });
+  return { success: true };
+};
+
+/**
+ * Everything generateDocx needs beyond the content: the template, the
+ * language and the student and criteria details for the cover page and
+ * front sheet
+ */
+export const resolveDocxOptions = async (assignmentId: string): Promise<DocxOptions> => {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: {
+      studentProfileSnapshot: true,
+      language: true,
+      snapshot: { select: { briefId: true, level: true, assessmentCriteria: true } },
+    },
+  });
+
+  if (!assignment) {
+    return {};
+  }
+
+  const profile = assignment.studentProfileSnapshot as unknown as StudentProfileSnapshot | null;
+  const criteria = assignment.snapshot.assessmentCriteria as any;
+
+  return {
+    language: assignment.language,
+    template: await resolveDocumentTemplate(assignmentId, assignment.snapshot.briefId, profile?.universityName),
+    frontMatter: {
+      profile,
+      level: assignment.snapshot.level,
+      criteria: [
+        ...normalizeCriteria(criteria?.pass, 'P'),
+        ...normalizeCriteria(criteria?.merit, 'M'),
+        ...normalizeCriteria(criteria?.distinction, 'D'),
+      ],
+    },
+  };
+};
+
+/**
+ * Template for an assignment's DOCX: the one linked to its brief, then one
+ * for the student's university, then the default. Falls back to the built-in
+ * rules when none match.
+ */
+const resolveDocumentTemplate = async (
+  assignmentId: string,
+  briefId: string,
+  studentUniversity: string | undefined
+): Promise<DocxTemplate> => {
+  const universityName = studentUniversity?.trim();
+
+  const candidates = await prisma.documentTemplate.findMany({
+    where: {
+      OR: [
+        { briefId },
+        ...(universityName ? [{ universityName: { equals: universityName, mode: 'insensitive' as const } }] : []),
+        { isDefault: true },
+      ],
+    },
+    orderBy: { updatedAt: 'desc' },
+  });
+
+  const template =
+    candidates.find((candidate) => candidate.briefId === briefId) ||
+    candidates.find((candidate) => !!universityName && candidate.universityName?.toLowerCase() === universityName.toLowerCase()) ||
+    candidates.find((candidate) => candidate.isDefault);
+
+  if (template) {
+    console.log(`[TEMPLATE] Using "${template.name}" for assignment ${assignmentId}`);
+  }
+
+  return template || DEFAULT_DOCX_TEMPLATE;
+};
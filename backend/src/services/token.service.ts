@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 
 export const TOKEN_PLANS = {
@@ -47,25 +48,50 @@ export async function getTokenBalance(userId: string) {
     planType: plan.planType,
     tokensPerMonth: plan.tokensPerMonth,
     tokensRemaining: plan.tokensRemaining,
+    tokensReserved: await getReservedTokens(userId),
     resetAt: plan.resetAt,
   };
 }
 
+/**
+ * Tokens held for the user's queued/running generations
+ * (already taken out of tokensRemaining)
+ */
+export async function getReservedTokens(userId: string): Promise<number> {
+  const reserved = await prisma.assignment.aggregate({
+    where: { userId, tokensReserved: { gt: 0 } },
+    _sum: { tokensReserved: true },
+  });
+  return reserved._sum.tokensReserved || 0;
+}
+
+/**
+ * Balance after a reset to the monthly allowance. Generation holds were taken
+ * from the old balance and are settled or refunded into the new one, so they
+ * are taken out of the allowance again - otherwise the refund is a free top-up.
+ */
+export async function getResetBalance(userId: string, tokensPerMonth: number): Promise<number> {
+  const reserved = await getReservedTokens(userId);
+  // -1 = unlimited, never holds anything
+  return reserved > 0 ? Math.max(tokensPerMonth - reserved, 0) : tokensPerMonth;
+}
+
 export async function deductTokens(
   userId: string,
   tokensUsed: number,
   assignmentId: string | null,
-  purpose: string
+  purpose: string,
+  db: Prisma.TransactionClient = prisma
 ) {
   // Check user role first - VIP and ADMIN have infinite tokens
-  const user = await prisma.user.findUnique({
+  const user = await db.user.findUnique({
     where: { id: userId },
     select: { role: true },
   });
 
   if (user && (user.role === 'VIP' || user.role === 'ADMIN')) {
     console.log(`[TOKEN] Skipping deduction for ${user.role} user`);
-    await prisma.tokenTransaction.create({
+    await db.tokenTransaction.create({
       data: {
         userId,
         assignmentId,
@@ -77,7 +103,7 @@ export async function deductTokens(
     return;
   }
 
-  const plan = await prisma.tokenPlan.findUnique({
+  const plan = await db.tokenPlan.findUnique({
     where: { userId },
   });
 
@@ -87,7 +113,7 @@ export async function deductTokens(
 
   // Unlimited plan doesn't deduct
   if (plan.planType === 'UNLIMITED') {
-    await prisma.tokenTransaction.create({
+    await db.tokenTransaction.create({
       data: {
         userId,
         assignmentId,
@@ -107,7 +133,7 @@ export async function deductTokens(
   }
 
   // Deduct tokens
-  const updated = await prisma.tokenPlan.update({
+  const updated = await db.tokenPlan.update({
     where: { userId },
     data: {
       tokensRemaining: plan.tokensRemaining - tokensUsed,
@@ -115,7 +141,7 @@ export async function deductTokens(
   });
 
   // Log transaction
-  await prisma.tokenTransaction.create({
+  await db.tokenTransaction.create({
     data: {
       userId,
       assignmentId,
@@ -128,6 +154,341 @@ export async function deductTokens(
   return updated;
 }
 
+// =============================================================================
+// GENERATION ESCROW
+// =============================================================================
+// A generation holds its estimated cost when it is queued, so one balance
+// cannot fund several concurrent generations. The hold is settled against the
+// actual usage on completion or cancellation (finished blocks only), or
+// refunded in full on failure/delete. Blocks charged when a run was
+// cancelled are not charged again when it is resumed (tokensCharged).
+// Every movement is a TokenTransaction (negative tokensUsed = tokens returned).
+
+/**
+ * Hold tokens for a queued generation. Returns the tokens held
+ * (0 for VIP/ADMIN users and UNLIMITED plans, which are never charged).
+ */
+export async function reserveTokens(userId: string, assignmentId: string, tokens: number): Promise<number> {
+  const [user, plan, assignment] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { role: true } }),
+    prisma.tokenPlan.findUnique({ where: { userId } }),
+    prisma.assignment.findUnique({ where: { id: assignmentId }, select: { tokensReserved: true } }),
+  ]);
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  // Already holding for this assignment (job re-enqueued)
+  if (assignment.tokensReserved > 0) {
+    return assignment.tokensReserved;
+  }
+
+  if (user && (user.role === 'VIP' || user.role === 'ADMIN')) {
+    return 0;
+  }
+
+  if (!plan) {
+    throw new Error('Token plan not initialized');
+  }
+
+  if (plan.planType === 'UNLIMITED') {
+    return 0;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Conditional decrement so two concurrent holds cannot overdraw the balance
+    const held = await tx.tokenPlan.updateMany({
+      where: { userId, tokensRemaining: { gte: tokens } },
+      data: { tokensRemaining: { decrement: tokens } },
+    });
+
+    if (held.count === 0) {
+      throw new Error(
+        `Insufficient tokens. You have ${plan.tokensRemaining} tokens remaining, but this assignment needs about ${tokens}`
+      );
+    }
+
+    const updated = await tx.tokenPlan.findUniqueOrThrow({ where: { userId } });
+
+    await tx.assignment.update({
+      where: { id: assignmentId },
+      data: { tokensReserved: tokens },
+    });
+
+    await tx.tokenTransaction.create({
+      data: {
+        userId,
+        assignmentId,
+        tokensUsed: tokens,
+        tokensRemaining: updated.tokensRemaining,
+        purpose: 'GENERATION_RESERVE',
+      },
+    });
+
+    console.log(`[TOKEN] Reserved ${tokens} tokens for assignment ${assignmentId}`);
+    return tokens;
+  });
+}
+
+/**
+ * Settle a generation's hold against the tokens it actually used.
+ * blockTokens is the usage of all the assignment's blocks; what an earlier
+ * run already settled (cancelled, then resumed) is netted out.
+ * Unused tokens are returned; an overrun is charged from whatever balance is
+ * left instead of failing a finished assignment. Without a hold this is a
+ * plain deduction (VIP/ADMIN/UNLIMITED, or jobs queued before escrow).
+ * Settles once per run: a second call (job retry, cancel racing completion)
+ * charges nothing. Pass tx to settle inside the caller's transaction.
+ * Returns the tokens charged for this run.
+ */
+export async function settleReservation(
+  userId: string,
+  assignmentId: string,
+  blockTokens: number,
+  tx?: Prisma.TransactionClient
+): Promise<number> {
+  if (!tx) {
+    return prisma.$transaction((client) => settleReservation(userId, assignmentId, blockTokens, client));
+  }
+
+  const assignment = await tx.assignment.findUnique({
+    where: { id: assignmentId },
+    select: { tokensReserved: true, tokensCharged: true },
+  });
+  const reserved = assignment?.tokensReserved || 0;
+  const charged = assignment?.tokensCharged || 0;
+  const actualTokens = Math.max(blockTokens - charged, 0);
+
+  // Claim this run's settlement - a concurrent release/settle makes this a no-op
+  const claimed = await tx.assignment.updateMany({
+    where: { id: assignmentId, tokensReserved: reserved, tokensCharged: charged, tokensSettledAt: null },
+    data: { tokensReserved: 0, tokensCharged: charged + actualTokens, tokensSettledAt: new Date() },
+  });
+
+  if (claimed.count === 0) {
+    console.log(`[TOKEN] Assignment ${assignmentId} is already settled for this run - nothing charged`);
+    return 0;
+  }
+
+  if (reserved === 0) {
+    await deductTokens(userId, actualTokens, assignmentId, 'ASSIGNMENT_GENERATION', tx);
+    return actualTokens;
+  }
+
+  await settleAgainstHold(tx, userId, assignmentId, reserved, actualTokens, 'GENERATION');
+  console.log(`[TOKEN] Settled assignment ${assignmentId}: used ${actualTokens} of ${reserved} reserved tokens`);
+  return actualTokens;
+}
+
+/**
+ * Return the unused part of a hold, or charge an overrun from whatever
+ * balance is left (never below zero). Logged as <prefix>_RELEASE / _OVERRUN.
+ */
+async function settleAgainstHold(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  assignmentId: string,
+  held: number,
+  actualTokens: number,
+  purposePrefix: string
+) {
+  const difference = held - actualTokens;
+
+  if (difference > 0) {
+    const plan = await tx.tokenPlan.update({
+      where: { userId },
+      data: { tokensRemaining: { increment: difference } },
+    });
+    await tx.tokenTransaction.create({
+      data: {
+        userId,
+        assignmentId,
+        tokensUsed: -difference,
+        tokensRemaining: plan.tokensRemaining,
+        purpose: `${purposePrefix}_RELEASE`,
+      },
+    });
+    return plan;
+  }
+
+  const plan = await tx.tokenPlan.findUniqueOrThrow({ where: { userId } });
+  if (difference === 0) {
+    return plan;
+  }
+
+  const overrun = Math.min(-difference, Math.max(plan.tokensRemaining, 0));
+  if (overrun < -difference) {
+    console.warn(`[TOKEN] Assignment ${assignmentId} overran its hold by ${-difference}; ${-difference - overrun} tokens not covered by balance`);
+  }
+  if (overrun === 0) {
+    return plan;
+  }
+
+  const updated = await tx.tokenPlan.update({
+    where: { userId },
+    data: { tokensRemaining: { decrement: overrun } },
+  });
+  await tx.tokenTransaction.create({
+    data: {
+      userId,
+      assignmentId,
+      tokensUsed: overrun,
+      tokensRemaining: updated.tokensRemaining,
+      purpose: `${purposePrefix}_OVERRUN`,
+    },
+  });
+  return updated;
+}
+
+/**
+ * Refund a generation's whole hold (failure, delete).
+ * Safe to call repeatedly - returns the tokens refunded (0 if nothing was held).
+ */
+export async function releaseReservation(assignmentId: string, reason: string): Promise<number> {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: { userId: true, tokensReserved: true },
+  });
+
+  if (!assignment || assignment.tokensReserved === 0) {
+    return 0;
+  }
+
+  const reserved = assignment.tokensReserved;
+
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.assignment.updateMany({
+      where: { id: assignmentId, tokensReserved: reserved },
+      data: { tokensReserved: 0 },
+    });
+
+    if (claimed.count === 0) {
+      return 0;
+    }
+
+    const plan = await tx.tokenPlan.update({
+      where: { userId: assignment.userId },
+      data: { tokensRemaining: { increment: reserved } },
+    });
+
+    await tx.tokenTransaction.create({
+      data: {
+        userId: assignment.userId,
+        assignmentId,
+        tokensUsed: -reserved,
+        tokensRemaining: plan.tokensRemaining,
+        purpose: `GENERATION_REFUND: ${reason}`,
+      },
+    });
+
+    console.log(`[TOKEN] Refunded ${reserved} reserved tokens for assignment ${assignmentId} (${reason})`);
+    return reserved;
+  });
+}
+
+/**
+ * Settle a cancelled generation: the blocks it finished are charged, the rest
+ * of the hold is returned. Returns the tokens charged (0 when nothing is held,
+ * i.e. the hold was already settled or released).
+ */
+export async function settleCancelledGeneration(assignmentId: string): Promise<number> {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    select: { userId: true, tokensReserved: true },
+  });
+
+  if (!assignment || assignment.tokensReserved === 0) {
+    return 0;
+  }
+
+  const used = await prisma.contentBlock.aggregate({
+    where: { assignmentId },
+    _sum: { tokensUsed: true },
+  });
+  const tokens = await settleReservation(assignment.userId, assignmentId, used._sum.tokensUsed || 0);
+  console.log(`[TOKEN] Cancelled assignment ${assignmentId} charged ${tokens} tokens for finished blocks`);
+  return tokens;
+}
+
+// =============================================================================
+// SINGLE AI CALLS
+// =============================================================================
+// Calls outside a generation run (plan refresh, block regeneration) hold their
+// estimate before the AI is called and settle against the actual usage after,
+// so the balance is checked up front and concurrent calls cannot overdraw it.
+
+/**
+ * Hold the estimated cost of one AI call. Returns the tokens held (0 for
+ * VIP/ADMIN users and UNLIMITED plans - settleHold just records their usage).
+ */
+export async function holdTokens(userId: string, assignmentId: string, tokens: number, purpose: string): Promise<number> {
+  const [user, plan] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { role: true } }),
+    prisma.tokenPlan.findUnique({ where: { userId } }),
+  ]);
+
+  if (user && (user.role === 'VIP' || user.role === 'ADMIN')) {
+    return 0;
+  }
+
+  if (!plan) {
+    throw new Error('Token plan not initialized');
+  }
+
+  if (plan.planType === 'UNLIMITED') {
+    return 0;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const held = await tx.tokenPlan.updateMany({
+      where: { userId, tokensRemaining: { gte: tokens } },
+      data: { tokensRemaining: { decrement: tokens } },
+    });
+
+    if (held.count === 0) {
+      throw new Error(
+        `Insufficient tokens. You have ${plan.tokensRemaining} tokens remaining, but this needs about ${tokens}`
+      );
+    }
+
+    const updated = await tx.tokenPlan.findUniqueOrThrow({ where: { userId } });
+    await tx.tokenTransaction.create({
+      data: {
+        userId,
+        assignmentId,
+        tokensUsed: tokens,
+        tokensRemaining: updated.tokensRemaining,
+        purpose: `${purpose}_HOLD`,
+      },
+    });
+
+    return tokens;
+  });
+}
+
+/**
+ * Settle a hold from holdTokens against the tokens the call used
+ * (0 when the call failed - the whole hold is returned)
+ */
+export async function settleHold(
+  userId: string,
+  assignmentId: string,
+  held: number,
+  actualTokens: number,
+  purpose: string
+): Promise<void> {
+  if (held === 0) {
+    if (actualTokens > 0) {
+      await deductTokens(userId, actualTokens, assignmentId, purpose);
+    }
+    return;
+  }
+
+  await prisma.$transaction((tx) => settleAgainstHold(tx, userId, assignmentId, held, actualTokens, purpose));
+  console.log(`[TOKEN] ${purpose} for assignment ${assignmentId}: used ${actualTokens} of ${held} held tokens`);
+}
+
 export async function upgradePlan(userId: string, newPlanType: keyof typeof TOKEN_PLANS) {
   const planConfig = TOKEN_PLANS[newPlanType];
 
@@ -143,7 +504,7 @@ export async function upgradePlan(userId: string, newPlanType: keyof typeof TOKE
     update: {
       planType: newPlanType,
       tokensPerMonth: planConfig.tokensPerMonth,
-      tokensRemaining: planConfig.tokensPerMonth,
+      tokensRemaining: await getResetBalance(userId, planConfig.tokensPerMonth),
       resetAt: getNextMonthDate(),
       activatedAt: new Date(),
     },
@@ -164,7 +525,7 @@ export async function resetTokenPlan(userId: string) {
   const updated = await prisma.tokenPlan.update({
     where: { userId },
     data: {
-      tokensRemaining: plan.tokensPerMonth,
+      tokensRemaining: await getResetBalance(userId, plan.tokensPerMonth),
       resetAt: getNextMonthDate(),
     },
   });
@@ -0,0 +1,491 @@
+// =============================================================================
+// BTEC GENERATOR - ASSIGNMENT VERSION SERVICE
+// =============================================================================
+// Immutable assignment versions. A version is recorded after every generation,
+// block regeneration, rollback, edit and restore; it copies the content blocks,
+// assembled content, outline, guidance and DOCX path of that moment.
+// Restoring a version writes its blocks back and records a new version, so the
+// history only ever grows. The one exception is an open edit session: while a
+// user keeps autosaving the same block, the latest EDIT version is refreshed
+// instead of adding a version per save.
+// =============================================================================
+
+import * as fs from 'fs';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { generateDocx } from './docx.service';
+import { resolveDocxOptions } from './template.service';
+import { diffWords, DiffSegment } from '../utils/diff';
+import { GeneratedContent, Reference, TableData } from '../types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type VersionSource = 'GENERATION' | 'REGENERATE_BLOCK' | 'ROLLBACK' | 'EDIT' | 'RESTORE';
+
+export interface VersionBlock {
+  sectionId: string;
+  criterionCode: string | null;
+  blockOrder: number;
+  content: string;
+  tokensUsed: number;
+  aiModel: string | null;
+  generatedAt: string;
+}
+
+export interface VersionSummary {
+  id: string;
+  version: number;
+  source: VersionSource;
+  note: string | null;
+  tokensUsed: number;
+  totalTokensUsed: number;
+  modelsUsed: string[];
+  blockCount: number;
+  hasDocx: boolean;
+  current: boolean;            // Latest version - what the assignment shows now
+  createdById: string | null;
+  createdAt: Date;
+}
+
+export type BlockChange = 'ADDED' | 'REMOVED' | 'CHANGED' | 'UNCHANGED';
+
+export interface BlockComparison {
+  sectionId: string;
+  criterionCode: string | null;
+  change: BlockChange;
+  diff: DiffSegment[];         // Empty for unchanged blocks
+}
+
+export interface VersionComparison {
+  assignmentId: string;
+  from: VersionSummary;
+  to: VersionSummary;
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  blocks: BlockComparison[];
+}
+
+// Autosaves of one block by one user stay in the same EDIT version until the
+// block has been left alone this long
+const EDIT_SESSION_MS = 10 * 60 * 1000;
+
+// Tries at the next version number when concurrent recordings collide
+const VERSION_NUMBER_ATTEMPTS = 5;
+
+interface RecordOptions {
+  tokensUsed?: number;
+  note?: string;
+  createdById?: string;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+async function loadAssignment(assignmentId: string, userId?: string) {
+  const assignment = await prisma.assignment.findUnique({
+    where: { id: assignmentId },
+    include: { snapshot: true },
+  });
+
+  if (!assignment) {
+    throw new Error('Assignment not found');
+  }
+
+  if (userId && assignment.userId !== userId) {
+    throw new Error('Unauthorized');
+  }
+
+  return assignment;
+}
+
+function toSummary(
+  row: Prisma.AssignmentVersionGetPayload<{}>,
+  latestVersion: number
+): VersionSummary {
+  return {
+    id: row.id,
+    version: row.version,
+    source: row.source as VersionSource,
+    note: row.note,
+    tokensUsed: row.tokensUsed,
+    totalTokensUsed: row.totalTokensUsed,
+    modelsUsed: row.modelsUsed,
+    blockCount: (row.blocks as unknown as VersionBlock[]).length,
+    hasDocx: !!row.docxUrl,
+    current: row.version === latestVersion,
+    createdById: row.createdById,
+    createdAt: row.createdAt,
+  };
+}
+
+// Tables and references are stored as JSON - compare what the reader sees
+function readableText(sectionId: string, content: string): string {
+  try {
+    if (sectionId.startsWith('table_')) {
+      const table = JSON.parse(content) as TableData;
+      return [table.caption, table.headers.join(' | '), ...table.rows.map((row) => row.join(' | '))].join('\n');
+    }
+    if (sectionId === 'references') {
+      return (JSON.parse(content) as Reference[]).map((ref) => ref.text).join('\n');
+    }
+  } catch {
+    // Fall through to the raw text
+  }
+  return content;
+}
+
+async function findVersion(assignmentId: string, version: number) {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Version not found');
+  }
+
+  const row = await prisma.assignmentVersion.findUnique({
+    where: { assignmentId_version: { assignmentId, version } },
+  });
+
+  if (!row) {
+    throw new Error('Version not found');
+  }
+
+  return row;
+}
+
+async function latestVersionNumber(assignmentId: string): Promise<number> {
+  const latest = await prisma.assignmentVersion.aggregate({
+    where: { assignmentId },
+    _max: { version: true },
+  });
+  return latest._max.version || 0;
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+// Copy what is stored now: blocks, assembled content, outline, guidance and DOCX
+async function captureVersionData(assignmentId: string) {
+  const [assignment, blocks, plan] = await Promise.all([
+    prisma.assignment.findUniqueOrThrow({
+      where: { id: assignmentId },
+      select: { content: true, guidance: true, docxUrl: true, totalTokensUsed: true },
+    }),
+    prisma.contentBlock.findMany({
+      where: { assignmentId },
+      orderBy: { blockOrder: 'asc' },
+    }),
+    prisma.generationPlan.findUnique({ where: { assignmentId }, select: { planData: true } }),
+  ]);
+
+  const versionBlocks: VersionBlock[] = blocks.map((block) => ({
+    sectionId: block.sectionId,
+    criterionCode: block.criterionCode,
+    blockOrder: block.blockOrder,
+    content: block.content,
+    tokensUsed: block.tokensUsed,
+    aiModel: block.aiModel,
+    generatedAt: block.generatedAt.toISOString(),
+  }));
+
+  return {
+    content: (assignment.content ?? {}) as Prisma.InputJsonValue,
+    blocks: versionBlocks as unknown as Prisma.InputJsonValue,
+    planData: (plan?.planData ?? undefined) as Prisma.InputJsonValue | undefined,
+    guidance: (assignment.guidance ?? undefined) as Prisma.InputJsonValue | undefined,
+    docxUrl: assignment.docxUrl,
+    totalTokensUsed: assignment.totalTokensUsed,
+    modelsUsed: [...new Set(blocks.map((block) => block.aiModel).filter((model): model is string => !!model))],
+  };
+}
+
+/**
+ * Record the assignment's current blocks, content and DOCX as a new version.
+ * Call after the change is saved - the version copies what is stored now.
+ */
+export async function recordAssignmentVersion(
+  assignmentId: string,
+  source: VersionSource,
+  options: RecordOptions = {}
+): Promise<VersionSummary> {
+  const data = await captureVersionData(assignmentId);
+
+  // Two changes recorded at once can pick the same number - the unique index
+  // rejects the second, which takes the next number
+  let row;
+  for (let attempt = 1; ; attempt++) {
+    const latest = await latestVersionNumber(assignmentId);
+    try {
+      row = await prisma.assignmentVersion.create({
+        data: {
+          assignmentId,
+          version: latest + 1,
+          source,
+          note: options.note,
+          createdById: options.createdById,
+          tokensUsed: options.tokensUsed || 0,
+          ...data,
+        },
+      });
+      break;
+    } catch (error) {
+      const taken = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!taken || attempt >= VERSION_NUMBER_ATTEMPTS) throw error;
+    }
+  }
+
+  console.log(`[VERSION] Assignment ${assignmentId} version ${row.version} recorded (${source})`);
+
+  return toSummary(row, row.version);
+}
+
+/**
+ * The EDIT version a new save of this block continues, if any: the latest
+ * version is an edit of the same block by the same user, saved within
+ * EDIT_SESSION_MS
+ */
+export async function findOpenEditSession(
+  assignmentId: string,
+  sectionId: string,
+  createdById?: string
+): Promise<string | null> {
+  const latest = await prisma.assignmentVersion.findFirst({
+    where: { assignmentId },
+    orderBy: { version: 'desc' },
+    select: { id: true, source: true, note: true, createdById: true, updatedAt: true },
+  });
+
+  if (
+    !latest ||
+    latest.source !== 'EDIT' ||
+    latest.note !== sectionId ||
+    latest.createdById !== (createdById ?? null) ||
+    Date.now() - latest.updatedAt.getTime() > EDIT_SESSION_MS
+  ) {
+    return null;
+  }
+
+  return latest.id;
+}
+
+/**
+ * Refresh an open EDIT version with what is stored now (see findOpenEditSession)
+ */
+export async function refreshEditVersion(versionId: string): Promise<VersionSummary> {
+  const { assignmentId } = await prisma.assignmentVersion.findUniqueOrThrow({
+    where: { id: versionId },
+    select: { assignmentId: true },
+  });
+
+  const row = await prisma.assignmentVersion.update({
+    where: { id: versionId },
+    data: await captureVersionData(assignmentId),
+  });
+
+  return toSummary(row, row.version);
+}
+
+/**
+ * Record the current state of a completed assignment that has no versions yet
+ * (generated before versioning), so a full regeneration does not lose it
+ */
+export async function ensureCurrentVersion(assignmentId: string, createdById?: string): Promise<void> {
+  const [assignment, versions] = await Promise.all([
+    prisma.assignment.findUnique({ where: { id: assignmentId }, select: { status: true } }),
+    prisma.assignmentVersion.count({ where: { assignmentId } }),
+  ]);
+
+  if (assignment?.status === 'COMPLETED' && versions === 0) {
+    await recordAssignmentVersion(assignmentId, 'GENERATION', {
+      note: 'Recorded before regeneration',
+      createdById,
+    });
+  }
+}
+
+// =============================================================================
+// HISTORY
+// =============================================================================
+
+/**
+ * List an assignment's versions (newest first). Pass userId to enforce
+ * ownership (student), omit for admin.
+ */
+export async function listAssignmentVersions(assignmentId: string, userId?: string): Promise<VersionSummary[]> {
+  await loadAssignment(assignmentId, userId);
+
+  const rows = await prisma.assignmentVersion.findMany({
+    where: { assignmentId },
+    orderBy: { version: 'desc' },
+  });
+
+  const latest = rows[0]?.version || 0;
+  return rows.map((row) => toSummary(row, latest));
+}
+
+/**
+ * Compare two versions block by block. Blocks are matched by sectionId and
+ * listed in the order of the newer version; removed blocks come last.
+ */
+export async function compareAssignmentVersions(
+  assignmentId: string,
+  fromVersion: number,
+  toVersion: number,
+  userId?: string
+): Promise<VersionComparison> {
+  await loadAssignment(assignmentId, userId);
+
+  const [from, to, latest] = await Promise.all([
+    findVersion(assignmentId, fromVersion),
+    findVersion(assignmentId, toVersion),
+    latestVersionNumber(assignmentId),
+  ]);
+
+  const fromBlocks = from.blocks as unknown as VersionBlock[];
+  const toBlocks = to.blocks as unknown as VersionBlock[];
+  const fromBySection = new Map(fromBlocks.map((block) => [block.sectionId, block]));
+  const toSections = new Set(toBlocks.map((block) => block.sectionId));
+
+  const blocks: BlockComparison[] = toBlocks.map((block) => {
+    const before = fromBySection.get(block.sectionId);
+    const after = readableText(block.sectionId, block.content);
+
+    if (!before) {
+      return { sectionId: block.sectionId, criterionCode: block.criterionCode, change: 'ADDED', diff: diffWords('', after) };
+    }
+    if (before.content === block.content) {
+      return { sectionId: block.sectionId, criterionCode: block.criterionCode, change: 'UNCHANGED', diff: [] };
+    }
+    return {
+      sectionId: block.sectionId,
+      criterionCode: block.criterionCode,
+      change: 'CHANGED',
+      diff: diffWords(readableText(before.sectionId, before.content), after),
+    };
+  });
+
+  for (const block of fromBlocks) {
+    if (toSections.has(block.sectionId)) continue;
+    blocks.push({
+      sectionId: block.sectionId,
+      criterionCode: block.criterionCode,
+      change: 'REMOVED',
+      diff: diffWords(readableText(block.sectionId, block.content), ''),
+    });
+  }
+
+  const count = (change: BlockChange) => blocks.filter((block) => block.change === change).length;
+
+  return {
+    assignmentId,
+    from: toSummary(from, latest),
+    to: toSummary(to, latest),
+    added: count('ADDED'),
+    removed: count('REMOVED'),
+    changed: count('CHANGED'),
+    unchanged: count('UNCHANGED'),
+    blocks,
+  };
+}
+
+// =============================================================================
+// RESTORE
+// =============================================================================
+
+/**
+ * Make an earlier version current again: its blocks, content, outline, guidance
+ * and DOCX replace the current ones and a RESTORE version is recorded.
+ * Blocks whose text changes are kept as ContentBlockRevisions. No tokens are charged.
+ */
+export async function restoreAssignmentVersion(
+  assignmentId: string,
+  version: number,
+  userId?: string,
+  createdById?: string
+): Promise<VersionSummary> {
+  const assignment = await loadAssignment(assignmentId, userId);
+
+  if (assignment.status !== 'COMPLETED') {
+    throw new Error('Only completed assignments can be edited');
+  }
+
+  const [target, latest] = await Promise.all([
+    findVersion(assignmentId, version),
+    latestVersionNumber(assignmentId),
+  ]);
+
+  if (target.version === latest) {
+    throw new Error('Version is already current');
+  }
+
+  const targetBlocks = target.blocks as unknown as VersionBlock[];
+  const targetBySection = new Map(targetBlocks.map((block) => [block.sectionId, block]));
+  const currentBlocks = await prisma.contentBlock.findMany({ where: { assignmentId } });
+
+  // The old DOCX is reused when it is still on disk
+  let docxUrl = target.docxUrl;
+  if (!docxUrl || !fs.existsSync(docxUrl)) {
+    docxUrl = await generateDocx(
+      assignmentId,
+      target.content as unknown as GeneratedContent,
+      assignment.snapshot.unitName || 'Assignment',
+      assignment.snapshot.unitCode || 'N/A',
+      await resolveDocxOptions(assignmentId)
+    );
+  }
+
+  await prisma.$transaction([
+    ...currentBlocks
+      .filter((block) => targetBySection.get(block.sectionId)?.content !== block.content)
+      .map((block) => prisma.contentBlockRevision.create({
+        data: {
+          assignmentId,
+          sectionId: block.sectionId,
+          criterionCode: block.criterionCode,
+          blockOrder: block.blockOrder,
+          content: block.content,
+          tokensUsed: block.tokensUsed,
+          generatedAt: block.generatedAt,
+          reason: 'RESTORE',
+          instructions: `Replaced by version ${target.version}`,
+        },
+      })),
+    prisma.contentBlock.deleteMany({ where: { assignmentId } }),
+    prisma.contentBlock.createMany({
+      data: targetBlocks.map((block) => ({
+        assignmentId,
+        sectionId: block.sectionId,
+        criterionCode: block.criterionCode,
+        blockOrder: block.blockOrder,
+        content: block.content,
+        tokensUsed: block.tokensUsed,
+        aiModel: block.aiModel,
+        generatedAt: new Date(block.generatedAt),
+      })),
+    }),
+    ...(target.planData
+      ? [prisma.generationPlan.updateMany({
+        where: { assignmentId },
+        data: { planData: target.planData as Prisma.InputJsonValue },
+      })]
+      : []),
+    prisma.assignment.update({
+      where: { id: assignmentId },
+      data: {
+        content: target.content as Prisma.InputJsonValue,
+        guidance: (target.guidance ?? Prisma.JsonNull) as Prisma.InputJsonValue | typeof Prisma.JsonNull,
+        docxUrl,
+      },
+    }),
+  ]);
+
+  console.log(`[VERSION] Assignment ${assignmentId} restored to version ${target.version}`);
+
+  return recordAssignmentVersion(assignmentId, 'RESTORE', {
+    note: `Restored version ${target.version}`,
+    createdById,
+  });
+}
@@ -1,16 +1,11 @@
-import OpenAI from 'openai';
 import { Language } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { logAIUsage } from './admin.service';
+import { routedChat } from '../ai';
+import { generationSignal } from './cancellation.service';
 import { LANGUAGE_CONFIGS } from '../utils/language';
 import { Reference, TableData } from '../types';
-
-const openrouter = new OpenAI({
-  baseURL: 'https://openrouter.ai/api/v1',
-  apiKey: process.env.OPENROUTER_API_KEY,
-});
-
-const WRITER_MODEL = process.env.AI_MODEL || 'qwen/qwen-2.5-72b-instruct:free';
+import { BriefTask, findTaskForCriterion } from './planner.service';
 
 interface BriefSnapshot {
   unitName: string;
@@ -19,6 +14,7 @@ interface BriefSnapshot {
   scenario: string;
   learningAims: any[];
   assessmentCriteria: any;
+  tasks?: BriefTask[];
   language: string;
   targetGrade: 'PASS' | 'MERIT' | 'DISTINCTION';
   options: {
@@ -58,6 +54,36 @@ interface WritingTask {
   previousContentSummary: string;
 }
 
+/**
+ * Extra context when a single block is regenerated after the assignment is complete
+ */
+export interface RevisionRequest {
+  // Student's own notes on what to change
+  instructions?: string;
+  // Start of the block that follows, so the new text still leads into it
+  nextContent?: string;
+  // Automatic quality checks the previous version failed (see quality.service)
+  qualityIssues?: string[];
+}
+
+function withRevisionRequest(prompt: string, revision?: RevisionRequest): string {
+  if (!revision?.instructions && !revision?.nextContent && !revision?.qualityIssues?.length) {
+    return prompt;
+  }
+
+  let extra = '\n\nREVISION REQUEST:\nThis block is being rewritten. Produce a new version in the same format.';
+  if (revision.qualityIssues?.length) {
+    extra += `\nThe previous version failed automatic checks. Fix all of them:\n${revision.qualityIssues.map((issue) => `- ${issue}`).join('\n')}`;
+  }
+  if (revision.instructions) {
+    extra += `\nStudent instructions (follow them unless they conflict with the rules above): ${revision.instructions}`;
+  }
+  if (revision.nextContent) {
+    extra += `\nThe following section begins with: "${revision.nextContent}" - keep continuity with it.`;
+  }
+  return prompt + extra;
+}
+
 // Student context shape is defined inline in BriefSnapshot.studentContext
 // profileSnapshot: { fullName, universityName, faculty, groupName, city, academicYear }
 // studentInputs: Record<string, any> - dynamic fields based on brief requirements
@@ -312,18 +338,19 @@ Write the content now. Output ONLY the academic text in FIRST PERSON.`;
   // Use higher temperature and unique seed for variety
   const uniqueSeed = parseInt(assignmentId.slice(-8), 16) + blockOrder;
 
-  const completion = await openrouter.chat.completions.create({
-    model: WRITER_MODEL,
+  const completion = await routedChat({ purpose: 'WRITER', grade: briefSnapshot.targetGrade }, {
+    purpose: 'WRITER',
     messages: [
       { role: 'system', content: WRITER_SYSTEM_PROMPT },
       { role: 'user', content: userPrompt },
     ],
     temperature: 0.85, // Higher temperature for more variation
-    max_tokens: 2000,
+    maxTokens: 2000,
     seed: uniqueSeed, // Use unique seed for randomization
+    signal: generationSignal(assignmentId),
   });
 
-  const content = completion.choices[0].message.content;
+  const content = completion.content;
   if (!content) {
     throw new Error('No content from writer model');
   }
@@ -338,11 +365,11 @@ Write the content now. Output ONLY the academic text in FIRST PERSON.`;
     assignmentId,
     userId,
     userRole: 'USER',
-    aiProvider: 'openrouter',
-    aiModel: WRITER_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
     purpose: 'WRITER',
   });
 
@@ -354,7 +381,8 @@ Write the content now. Output ONLY the academic text in FIRST PERSON.`;
       criterionCode: task.criterionCode,
       blockOrder,
       content,
-      tokensUsed: completion.usage?.total_tokens || 0,
+      tokensUsed: completion.usage.totalTokens,
+      aiModel: completion.model,
     },
   });
 
@@ -458,7 +486,8 @@ export async function generateIntroduction(
   _generationPlan: GenerationPlan,
   userId: string,
   assignmentId: string,
-  blockOrder: number
+  blockOrder: number,
+  revision?: RevisionRequest
 ): Promise<string> {
   const language = (briefSnapshot.language || 'en') as Language;
   const languageInstructions = LANGUAGE_CONFIGS[language]?.academicInstructions || '';
@@ -467,6 +496,11 @@ export async function generateIntroduction(
     .map((aim: any) => `- ${aim.code || aim.letter}: ${aim.title || aim.description}`)
     .join('\n');
 
+  // The report follows the teacher's tasks when the brief has them
+  const tasksText = (briefSnapshot.tasks || [])
+    .map((task, index) => `- Task ${index + 1}: ${task.title}`)
+    .join('\n');
+
   // Build student context section
   const studentContextSection = buildStudentContextPrompt(briefSnapshot.studentContext);
   
@@ -483,7 +517,7 @@ VOCATIONAL SCENARIO: ${briefSnapshot.scenario}
 
 LEARNING AIMS:
 ${learningAimsText}
-${studentContextSection}
+${tasksText ? `\nTASKS SET BY THE TEACHER:\n${tasksText}\n` : ''}${studentContextSection}
 STRICT REQUIREMENTS:
 - Length: 120-180 words
 - Write in FIRST PERSON ("I designed...", "In this report, I...")
@@ -509,28 +543,29 @@ Write the introduction now in FIRST PERSON. Output ONLY the introduction text, n
   // Use unique seed for variety
   const uniqueSeed = parseInt(assignmentId.slice(-8), 16) + blockOrder;
 
-  const completion = await openrouter.chat.completions.create({
-    model: WRITER_MODEL,
+  const completion = await routedChat({ purpose: 'WRITER', grade: briefSnapshot.targetGrade }, {
+    purpose: 'INTRODUCTION',
     messages: [
       { role: 'system', content: WRITER_SYSTEM_PROMPT },
-      { role: 'user', content: prompt },
+      { role: 'user', content: withRevisionRequest(prompt, revision) },
     ],
     temperature: 0.85, // Higher temperature for uniqueness
-    max_tokens: 500,
+    maxTokens: 500,
     seed: uniqueSeed,
+    signal: generationSignal(assignmentId),
   });
 
-  const content = completion.choices[0].message.content || '';
+  const content = completion.content;
 
   await logAIUsage({
     assignmentId,
     userId,
     userRole: 'USER',
-    aiProvider: 'openrouter',
-    aiModel: WRITER_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
     purpose: 'INTRODUCTION',
   });
 
@@ -541,7 +576,8 @@ Write the introduction now in FIRST PERSON. Output ONLY the introduction text, n
       criterionCode: null,
       blockOrder,
       content,
-      tokensUsed: completion.usage?.total_tokens || 0,
+      tokensUsed: completion.usage.totalTokens,
+      aiModel: completion.model,
     },
   });
 
@@ -598,28 +634,29 @@ Write the learning aim context now. Output ONLY the context text, nothing else.`
   // Use unique seed for variety
   const uniqueSeed = parseInt(assignmentId.slice(-8), 16) + blockOrder;
 
-  const completion = await openrouter.chat.completions.create({
-    model: WRITER_MODEL,
+  const completion = await routedChat({ purpose: 'WRITER', grade: briefSnapshot.targetGrade }, {
+    purpose: 'LEARNING_AIM_CONTEXT',
     messages: [
       { role: 'system', content: WRITER_SYSTEM_PROMPT },
       { role: 'user', content: prompt },
     ],
     temperature: 0.85, // Higher temperature for uniqueness
-    max_tokens: 400,
+    maxTokens: 400,
     seed: uniqueSeed,
+    signal: generationSignal(assignmentId),
   });
 
-  const content = completion.choices[0].message.content || '';
+  const content = completion.content;
 
   await logAIUsage({
     assignmentId,
     userId,
     userRole: 'USER',
-    aiProvider: 'openrouter',
-    aiModel: WRITER_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
     purpose: 'LEARNING_AIM_CONTEXT',
   });
 
@@ -630,7 +667,8 @@ Write the learning aim context now. Output ONLY the context text, nothing else.`
       criterionCode: null,
       blockOrder,
       content,
-      tokensUsed: completion.usage?.total_tokens || 0,
+      tokensUsed: completion.usage.totalTokens,
+      aiModel: completion.model,
     },
   });
 
@@ -650,7 +688,8 @@ export async function generateConclusion(
   previousSummary: string,
   userId: string,
   assignmentId: string,
-  blockOrder: number
+  blockOrder: number,
+  revision?: RevisionRequest
 ): Promise<string> {
   const language = (briefSnapshot.language || 'en') as Language;
   const languageInstructions = LANGUAGE_CONFIGS[language]?.academicInstructions || '';
@@ -705,28 +744,29 @@ Write the conclusion now in FIRST PERSON. Output ONLY the conclusion text, nothi
   // Use unique seed for variety
   const uniqueSeed = parseInt(assignmentId.slice(-8), 16) + blockOrder;
 
-  const completion = await openrouter.chat.completions.create({
-    model: WRITER_MODEL,
+  const completion = await routedChat({ purpose: 'WRITER', grade: briefSnapshot.targetGrade }, {
+    purpose: 'CONCLUSION',
     messages: [
       { role: 'system', content: WRITER_SYSTEM_PROMPT },
-      { role: 'user', content: prompt },
+      { role: 'user', content: withRevisionRequest(prompt, revision) },
     ],
     temperature: 0.85, // Higher temperature for uniqueness
-    max_tokens: 500,
+    maxTokens: 500,
     seed: uniqueSeed,
+    signal: generationSignal(assignmentId),
   });
 
-  const content = completion.choices[0].message.content || '';
+  const content = completion.content;
 
   await logAIUsage({
     assignmentId,
     userId,
     userRole: 'USER',
-    aiProvider: 'openrouter',
-    aiModel: WRITER_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
     purpose: 'CONCLUSION',
   });
 
@@ -737,7 +777,8 @@ Write the conclusion now in FIRST PERSON. Output ONLY the conclusion text, nothi
       criterionCode: null,
       blockOrder,
       content,
-      tokensUsed: completion.usage?.total_tokens || 0,
+      tokensUsed: completion.usage.totalTokens,
+      aiModel: completion.model,
     },
   });
 
@@ -786,18 +827,19 @@ Generate the references now. Output ONLY the JSON array, nothing else.`;
 
   console.log('[WRITER] Generating references...');
 
-  const completion = await openrouter.chat.completions.create({
-    model: WRITER_MODEL,
+  const completion = await routedChat({ purpose: 'REFERENCES', grade: briefSnapshot.targetGrade }, {
+    purpose: 'REFERENCES',
     messages: [
       { role: 'user', content: prompt },
     ],
     temperature: 0.7,
-    max_tokens: 1000,
-    response_format: { type: 'json_object' },
+    maxTokens: 1000,
+    json: true,
+    signal: generationSignal(assignmentId),
   });
 
   let references: Reference[] = [];
-  const responseContent = completion.choices[0].message.content || '[]';
+  const responseContent = completion.content;
 
   try {
     const parsed = JSON.parse(responseContent);
@@ -821,11 +863,11 @@ Generate the references now. Output ONLY the JSON array, nothing else.`;
     assignmentId,
     userId,
     userRole: 'USER',
-    aiProvider: 'openrouter',
-    aiModel: WRITER_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
     purpose: 'REFERENCES',
   });
 
@@ -837,7 +879,8 @@ Generate the references now. Output ONLY the JSON array, nothing else.`;
       criterionCode: null,
       blockOrder,
       content: JSON.stringify(references),
-      tokensUsed: completion.usage?.total_tokens || 0,
+      tokensUsed: completion.usage.totalTokens,
+      aiModel: completion.model,
     },
   });
 
@@ -863,7 +906,8 @@ export async function generateLearningAimBlock(
   previousSummary: string,
   userId: string,
   assignmentId: string,
-  blockOrder: number
+  blockOrder: number,
+  revision?: RevisionRequest
 ): Promise<string> {
   const language = (briefSnapshot.language || 'en') as Language;
   const languageInstructions = LANGUAGE_CONFIGS[language]?.academicInstructions || '';
@@ -906,28 +950,29 @@ Write the learning aim introduction now in FIRST PERSON. Output ONLY the text, n
 
   const uniqueSeed = parseInt(assignmentId.slice(-8), 16) + blockOrder;
 
-  const completion = await openrouter.chat.completions.create({
-    model: WRITER_MODEL,
+  const completion = await routedChat({ purpose: 'WRITER', grade: briefSnapshot.targetGrade }, {
+    purpose: 'LEARNING_AIM',
     messages: [
       { role: 'system', content: WRITER_SYSTEM_PROMPT },
-      { role: 'user', content: prompt },
+      { role: 'user', content: withRevisionRequest(prompt, revision) },
     ],
     temperature: 0.85,
-    max_tokens: 400,
+    maxTokens: 400,
     seed: uniqueSeed,
+    signal: generationSignal(assignmentId),
   });
 
-  const content = completion.choices[0].message.content || '';
+  const content = completion.content;
 
   await logAIUsage({
     assignmentId,
     userId,
     userRole: 'USER',
-    aiProvider: 'openrouter',
-    aiModel: WRITER_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
     purpose: 'LEARNING_AIM',
   });
 
@@ -938,7 +983,8 @@ Write the learning aim introduction now in FIRST PERSON. Output ONLY the text, n
       criterionCode: null,
       blockOrder,
       content,
-      tokensUsed: completion.usage?.total_tokens || 0,
+      tokensUsed: completion.usage.totalTokens,
+      aiModel: completion.model,
     },
   });
 
@@ -946,6 +992,101 @@ Write the learning aim introduction now in FIRST PERSON. Output ONLY the text, n
   return content;
 }
 
+/**
+ * Generate a CUSTOM section the student added to the plan (e.g. "Testing evidence")
+ */
+export async function generateCustomSection(
+  briefSnapshot: BriefSnapshot,
+  customNumber: number,
+  title: string,
+  description: string,
+  previousSummary: string,
+  userId: string,
+  assignmentId: string,
+  blockOrder: number,
+  revision?: RevisionRequest
+): Promise<string> {
+  const language = (briefSnapshot.language || 'en') as Language;
+  const languageInstructions = LANGUAGE_CONFIGS[language]?.academicInstructions || '';
+
+  // Get student context for personalisation
+  const studentContextPrompt = buildStudentContextPrompt(briefSnapshot.studentContext);
+
+  const prompt = `Write an ADDITIONAL SECTION for a BTEC assignment in FIRST PERSON.
+
+You are writing ONLY for:
+Section title: ${title}
+${description ? `What the student wants this section to cover: ${description}` : ''}
+
+UNIT: ${briefSnapshot.unitName} (${briefSnapshot.unitCode})
+LEVEL: ${briefSnapshot.level}
+VOCATIONAL SCENARIO: ${briefSnapshot.scenario}
+${studentContextPrompt}
+
+PREVIOUS CONTENT SUMMARY:
+${previousSummary || 'This follows the introduction.'}
+
+STRICT REQUIREMENTS:
+- Length: 150-250 words ONLY
+- Write in FIRST PERSON about YOUR work on this unit
+- Cover exactly what the section title (and description, if given) asks for
+- Do NOT address assessment criteria - they have their own sections
+- NO grading language (no "Pass", "Merit", "Distinction")
+- NO criterion codes, NO bullet points, NO headings, NO markdown
+- Write in ${language}
+- Formal academic tone
+- UNIQUE VARIATION: Vary wording and structure. (Session: ${assignmentId.slice(-8)}, Block: ${blockOrder})
+
+${languageInstructions}
+
+Write the section now in FIRST PERSON. Output ONLY the text, nothing else.`;
+
+  console.log(`[WRITER] Generating custom section ${customNumber}: ${title}...`);
+
+  const uniqueSeed = parseInt(assignmentId.slice(-8), 16) + blockOrder;
+
+  const completion = await routedChat({ purpose: 'WRITER', grade: briefSnapshot.targetGrade }, {
+    purpose: 'CUSTOM_SECTION',
+    messages: [
+      { role: 'system', content: WRITER_SYSTEM_PROMPT },
+      { role: 'user', content: withRevisionRequest(prompt, revision) },
+    ],
+    temperature: 0.85,
+    maxTokens: 900,
+    seed: uniqueSeed,
+    signal: generationSignal(assignmentId),
+  });
+
+  const content = completion.content;
+
+  await logAIUsage({
+    assignmentId,
+    userId,
+    userRole: 'USER',
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
+    purpose: 'CUSTOM_SECTION',
+  });
+
+  await prisma.contentBlock.create({
+    data: {
+      assignmentId,
+      sectionId: `custom_${customNumber}`,
+      criterionCode: null,
+      blockOrder,
+      content,
+      tokensUsed: completion.usage.totalTokens,
+      aiModel: completion.model,
+    },
+  });
+
+  console.log(`[WRITER] Custom section ${customNumber} generated`);
+  return content;
+}
+
 /**
  * Generate content for a CRITERION item
  * This is the ATOMIC unit - one criterion = one content block
@@ -959,7 +1100,8 @@ export async function generateCriterionBlock(
   previousSummary: string,
   userId: string,
   assignmentId: string,
-  blockOrder: number
+  blockOrder: number,
+  revision?: RevisionRequest
 ): Promise<string> {
   const language = (briefSnapshot.language || 'en') as Language;
   const languageInstructions = LANGUAGE_CONFIGS[language]?.academicInstructions || '';
@@ -967,6 +1109,12 @@ export async function generateCriterionBlock(
   // Get student context for personalisation
   const studentContextPrompt = buildStudentContextPrompt(briefSnapshot.studentContext);
 
+  // The teacher's task this criterion is answered under, if the brief has tasks
+  const briefTask = findTaskForCriterion(briefSnapshot.tasks || [], criterionCode);
+  const taskSection = briefTask
+    ? `\nTASK ${briefTask.taskNumber}: ${briefTask.task.title}\nTask Description: ${briefTask.task.description}\n(Answer the criterion as part of this task.)\n`
+    : '';
+
   // Determine grade level and depth requirements
   let gradeLevel = 'PASS';
   let depthInstructions = 'EXPLAIN concepts clearly with examples from YOUR work. 200-350 words.';
@@ -988,7 +1136,7 @@ You are writing ONLY for:
 Learning Aim: ${aimCode}
 Criterion: ${criterionCode}
 Criterion Description: ${criterionDescription}
-
+${taskSection}
 UNIT: ${briefSnapshot.unitName} (${briefSnapshot.unitCode})
 LEVEL: ${briefSnapshot.level}
 VOCATIONAL SCENARIO: ${briefSnapshot.scenario}
@@ -1023,18 +1171,19 @@ Write the criterion content now in FIRST PERSON. Output ONLY the academic text.`
 
   const uniqueSeed = parseInt(assignmentId.slice(-8), 16) + blockOrder;
 
-  const completion = await openrouter.chat.completions.create({
-    model: WRITER_MODEL,
+  const completion = await routedChat({ purpose: 'WRITER', grade: briefSnapshot.targetGrade }, {
+    purpose: 'CRITERION',
     messages: [
       { role: 'system', content: WRITER_SYSTEM_PROMPT },
-      { role: 'user', content: prompt },
+      { role: 'user', content: withRevisionRequest(prompt, revision) },
     ],
     temperature: 0.85,
-    max_tokens: 1500,
+    maxTokens: 1500,
     seed: uniqueSeed,
+    signal: generationSignal(assignmentId),
   });
 
-  const content = completion.choices[0].message.content || '';
+  const content = completion.content;
 
   if (content.startsWith('ERROR:')) {
     throw new Error(content);
@@ -1044,11 +1193,11 @@ Write the criterion content now in FIRST PERSON. Output ONLY the academic text.`
     assignmentId,
     userId,
     userRole: 'USER',
-    aiProvider: 'openrouter',
-    aiModel: WRITER_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
     purpose: 'CRITERION',
   });
 
@@ -1059,7 +1208,8 @@ Write the criterion content now in FIRST PERSON. Output ONLY the academic text.`
       criterionCode,
       blockOrder,
       content,
-      tokensUsed: completion.usage?.total_tokens || 0,
+      tokensUsed: completion.usage.totalTokens,
+      aiModel: completion.model,
     },
   });
 
@@ -1079,7 +1229,8 @@ export async function generateCriterionTable(
   tableType: string,
   userId: string,
   assignmentId: string,
-  _blockOrder: number
+  blockOrder: number,
+  revision?: RevisionRequest
 ): Promise<TableData> {
   // Get student context for table data
   const studentContext = briefSnapshot.studentContext;
@@ -1137,18 +1288,19 @@ Generate the table now. Output ONLY the JSON, nothing else.`;
 
   console.log(`[WRITER] Generating table for criterion ${criterionCode}...`);
 
-  const completion = await openrouter.chat.completions.create({
-    model: WRITER_MODEL,
+  const completion = await routedChat({ purpose: 'TABLE', grade: briefSnapshot.targetGrade }, {
+    purpose: 'TABLE',
     messages: [
-      { role: 'user', content: prompt },
+      { role: 'user', content: withRevisionRequest(prompt, revision) },
     ],
     temperature: 0.7,
-    max_tokens: 800,
-    response_format: { type: 'json_object' },
+    maxTokens: 800,
+    json: true,
+    signal: generationSignal(assignmentId),
   });
 
   let table: TableData;
-  const responseContent = completion.choices[0].message.content || '{}';
+  const responseContent = completion.content;
 
   try {
     const parsed = JSON.parse(responseContent);
@@ -1174,14 +1326,27 @@ Generate the table now. Output ONLY the JSON, nothing else.`;
     assignmentId,
     userId,
     userRole: 'USER',
-    aiProvider: 'openrouter',
-    aiModel: WRITER_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
     purpose: 'TABLE',
   });
 
+  // Saved as a block so a resumed run can reuse it
+  await prisma.contentBlock.create({
+    data: {
+      assignmentId,
+      sectionId: `table_${criterionCode}`,
+      criterionCode,
+      blockOrder,
+      content: JSON.stringify(table),
+      tokensUsed: completion.usage.totalTokens,
+      aiModel: completion.model,
+    },
+  });
+
   console.log(`[WRITER] Table generated for criterion ${criterionCode}`);
   return table;
 }
@@ -1195,7 +1360,8 @@ export async function generateStructuredReferences(
   targetGrade: 'PASS' | 'MERIT' | 'DISTINCTION',
   userId: string,
   assignmentId: string,
-  blockOrder: number
+  blockOrder: number,
+  revision?: RevisionRequest
 ): Promise<Reference[]> {
   // Determine reference count based on grade
   const refCount = targetGrade === 'PASS' ? 3 : targetGrade === 'MERIT' ? 5 : 8;
@@ -1228,19 +1394,20 @@ Generate the references now. Output ONLY the JSON.`;
 
   const uniqueSeed = parseInt(assignmentId.slice(-8), 16) + blockOrder;
 
-  const completion = await openrouter.chat.completions.create({
-    model: WRITER_MODEL,
+  const completion = await routedChat({ purpose: 'REFERENCES', grade: briefSnapshot.targetGrade }, {
+    purpose: 'REFERENCES',
     messages: [
-      { role: 'user', content: prompt },
+      { role: 'user', content: withRevisionRequest(prompt, revision) },
     ],
     temperature: 0.8,
-    max_tokens: 1200,
-    response_format: { type: 'json_object' },
+    maxTokens: 1200,
+    json: true,
     seed: uniqueSeed,
+    signal: generationSignal(assignmentId),
   });
 
   let references: Reference[] = [];
-  const responseContent = completion.choices[0].message.content || '{}';
+  const responseContent = completion.content;
 
   try {
     const parsed = JSON.parse(responseContent);
@@ -1264,11 +1431,11 @@ Generate the references now. Output ONLY the JSON.`;
     assignmentId,
     userId,
     userRole: 'USER',
-    aiProvider: 'openrouter',
-    aiModel: WRITER_MODEL,
-    promptTokens: completion.usage?.prompt_tokens || 0,
-    completionTokens: completion.usage?.completion_tokens || 0,
-    totalTokens: completion.usage?.total_tokens || 0,
+    aiProvider: completion.provider,
+    aiModel: completion.model,
+    promptTokens: completion.usage.promptTokens,
+    completionTokens: completion.usage.completionTokens,
+    totalTokens: completion.usage.totalTokens,
     purpose: 'REFERENCES',
   });
 
@@ -1279,7 +1446,8 @@ Generate the references now. Output ONLY the JSON.`;
       criterionCode: null,
       blockOrder,
       content: JSON.stringify(references),
-      tokensUsed: completion.usage?.total_tokens || 0,
+      tokensUsed: completion.usage.totalTokens,
+      aiModel: completion.model,
     },
   });
 
@@ -100,19 +100,26 @@ export interface ContentSection {
 export type ContentBlockType = 
   | 'INTRODUCTION'
   | 'LEARNING_AIM'
+  | 'TASK'
   | 'CRITERION'
+  | 'CUSTOM'
   | 'CONCLUSION'
   | 'REFERENCES';
 
 export interface AtomicContentBlock {
   type: ContentBlockType;
-  // For INTRODUCTION, CONCLUSION
+  // For INTRODUCTION, CUSTOM (student-added section), CONCLUSION
   title?: string;
   content?: string;
   // For LEARNING_AIM
   aimCode?: string;
   aimTitle?: string;
   aimContent?: string;
+  // For TASK (heading only - task-driven outlines)
+  taskNumber?: number;
+  taskTitle?: string;
+  // For CUSTOM
+  customNumber?: number;
   // For CRITERION
   criterionCode?: string;
   criterionTitle?: string;
@@ -130,6 +137,49 @@ export interface GeneratedContent {
   references: Reference[];
   // New atomic structure (preferred)
   atomicBlocks?: AtomicContentBlock[];
+  // Brief's checklist of evidence mapped to the blocks above (see evidence.service)
+  evidenceChecklist?: EvidenceChecklistItem[];
+}
+
+// =============================================================================
+// EVIDENCE CHECKLIST
+// =============================================================================
+
+export type EvidenceKind = 'WRITTEN' | 'TABLE' | 'VISUAL' | 'PRACTICAL';
+
+// PLACEHOLDER: the document marks the spot, the student supplies the evidence
+export type EvidenceStatus = 'COVERED' | 'PLACEHOLDER' | 'MISSING';
+
+// The exporters and the guidance panel build labels and notes from these in
+// the reader's language
+export type EvidenceSource = 'INTRODUCTION' | 'CONCLUSION' | 'CUSTOM' | 'CRITERION';
+
+export type EvidenceNote =
+  | 'SECTIONS'
+  | 'WHOLE_REPORT'
+  | 'NO_SECTION'
+  | 'TABLES'
+  | 'NO_TABLE'
+  | 'FIGURE'
+  | 'CAPTURE'
+  | 'SUPPLY';
+
+export interface EvidenceMatch {
+  sectionId: string;           // Content block sectionId (criterion_A.P1, table_A.M1)
+  kind: 'BLOCK' | 'TABLE' | 'IMAGE';
+  source: EvidenceSource;
+  code?: string;               // Criterion code (CRITERION source)
+  title?: string;              // Generated block title or caption - already in the assignment language
+  label?: string;              // English label stored before checklists were localised
+}
+
+export interface EvidenceChecklistItem {
+  item: string;                // Checklist text from the brief
+  kind: EvidenceKind;
+  status: EvidenceStatus;
+  matches: EvidenceMatch[];
+  noteCode: EvidenceNote;
+  note?: string;               // English note stored before checklists were localised
 }
 
 // =============================================================================
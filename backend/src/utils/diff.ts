@@ -0,0 +1,77 @@
+// =============================================================================
+// WORD DIFF
+// =============================================================================
+// Word-level text diff (longest common subsequence) for comparing block
+// versions. Whitespace stays attached to the preceding word, so the segments
+// read as the new text with deletions marked in between.
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+// Above this many word pairs the LCS table gets too large - the texts are
+// reported as one deletion and one insertion instead
+const MAX_DIFF_CELLS = 4_000_000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) || [];
+}
+
+function pushSegment(segments: DiffSegment[], op: DiffOp, text: string): void {
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+}
+
+/**
+ * Diff two texts word by word
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  if (before === after) {
+    return before ? [{ op: 'equal', text: before }] : [];
+  }
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    const segments: DiffSegment[] = [];
+    if (before) segments.push({ op: 'delete', text: before });
+    if (after) segments.push({ op: 'insert', text: after });
+    return segments;
+  }
+
+  // lcs[i][j] = common words of a[i..] and b[j..] (compared without trailing whitespace)
+  const same = (i: number, j: number) => a[i].trimEnd() === b[j].trimEnd();
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = same(i, j) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(i, j)) {
+      pushSegment(segments, 'equal', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, 'delete', a[i++]);
+    } else {
+      pushSegment(segments, 'insert', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'delete', a[i++]);
+  while (j < b.length) pushSegment(segments, 'insert', b[j++]);
+
+  return segments;
+}
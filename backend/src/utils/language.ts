@@ -80,31 +80,101 @@ ${config.formatInstructions}
 ⚠️ CRITICAL: If you respond in the wrong language, your response will be discarded.`;
 };
 
-export const validateLanguageResponse = (text: string, expectedLanguage: Language): boolean => {
-  // Simple heuristic validation based on character patterns
-  const checks: Record<Language, RegExp> = {
-    en: /^[\x00-\x7F\s.,!?;:()\-'"]+$/i, // ASCII characters
-    ru: /[а-яА-ЯёЁ]+/i, // Cyrillic characters
-    uz: /[a-zA-Z']+/i, // Latin with apostrophe for Uzbek
-    es: /[a-záéíóúüñÁÉÍÓÚÜÑ]+/i, // Spanish characters
-  };
+// =============================================================================
+// LANGUAGE DETECTION (offline)
+// =============================================================================
+// Script share plus stopword hits per language. Good enough to catch a model
+// answering in English, or Uzbek drifting into Cyrillic - not a general detector.
+
+export type DetectedScript = 'latin' | 'cyrillic' | 'mixed' | 'none';
+
+export interface LanguageDetection {
+  language: Language | null;   // null when the text is too short to tell
+  script: DetectedScript;
+  cyrillicShare: number;       // Cyrillic letters / all letters
+  confidence: number;          // Lead of the best language over the runner-up (0-1)
+}
+
+// Fewer words than this give no reliable signal (short captions, names)
+const MIN_DETECTION_WORDS = 12;
+
+const STOPWORDS: Record<Language, Set<string>> = {
+  en: new Set('the and of to in is that for with this it as are was by on be which from my have i'.split(' ')),
+  es: new Set('el la de que y en los las del para con una un por es se como su al más este esta lo mi'.split(' ')),
+  // Latin stopwords plus their Cyrillic spelling, so Cyrillic Uzbek is told apart from Russian
+  uz: new Set("va bilan uchun bu ham men esa bo'lib bo'ladi yoki lekin kabi ular biz mening orqali qilib haqida ushbu ва билан учун бу ҳам мен эса ёки лекин орқали".split(' ')),
+  ru: new Set('и в на что с по для не это как из я к от а о мой при также или его был была'.split(' ')),
+};
+
+// Uzbek Latin letters o' and g', common Uzbek suffixes, and Uzbek-only Cyrillic letters
+const UZBEK_WORD = /o'|g'|(?:ning|lari|larni|dagi|ladi|lash|imiz|ingiz)$|[ўқғҳ]/;
+const SPANISH_WORD = /[ñáéíóú]/;
 
-  const pattern = checks[expectedLanguage];
-  
-  // For Russian, check if there are Cyrillic characters
-  if (expectedLanguage === 'ru') {
-    return pattern.test(text);
+export const detectLanguage = (text: string): LanguageDetection => {
+  const normalised = text.toLowerCase().replace(/[ʻʼ’‘`]/g, "'");
+  const cyrillic = (normalised.match(/[\u0400-\u04ff]/g) || []).length;
+  const latin = (normalised.match(/[a-z\u00c0-\u024f]/g) || []).length;
+
+  if (cyrillic + latin === 0) {
+    return { language: null, script: 'none', cyrillicShare: 0, confidence: 0 };
   }
-  
-  // For Uzbek and Spanish, check character presence
-  if (expectedLanguage === 'uz' || expectedLanguage === 'es') {
-    return pattern.test(text);
+
+  const cyrillicShare = cyrillic / (cyrillic + latin);
+  const script: DetectedScript = cyrillicShare >= 0.8 ? 'cyrillic' : cyrillicShare <= 0.2 ? 'latin' : 'mixed';
+  const words = normalised.match(/[\p{L}']+/gu) || [];
+
+  if (words.length < MIN_DETECTION_WORDS) {
+    return { language: null, script, cyrillicShare, confidence: 0 };
   }
-  
-  // For English, majority should be ASCII
-  if (expectedLanguage === 'en') {
-    return pattern.test(text);
+
+  const hits: Record<Language, number> = { en: 0, es: 0, uz: 0, ru: 0 };
+  for (const word of words) {
+    for (const language of Object.keys(STOPWORDS) as Language[]) {
+      if (STOPWORDS[language].has(word)) hits[language]++;
+    }
+    if (UZBEK_WORD.test(word)) hits.uz++;
+    else if (/[\u0400-\u04ff]/.test(word)) hits.ru += 0.25; // Plain Cyrillic word leans Russian
+    if (SPANISH_WORD.test(word)) hits.es++;
   }
-  
-  return true; // Default fallback
+
+  const ranked = (Object.keys(hits) as Language[]).sort((a, b) => hits[b] - hits[a]);
+  const [best, second] = ranked;
+
+  if (hits[best] === 0) {
+    return { language: null, script, cyrillicShare, confidence: 0 };
+  }
+
+  return {
+    language: best,
+    script,
+    cyrillicShare,
+    confidence: (hits[best] - hits[second]) / hits[best],
+  };
+};
+
+/**
+ * Whether detected output breaks the requested language.
+ * Uzbek is written in Latin script; Russian may carry Latin technical terms.
+ */
+export const isLanguageMismatch = (detection: LanguageDetection, expected: Language): boolean => {
+  if (detection.script === 'none') return false;
+  if (expected === 'ru' ? detection.cyrillicShare < 0.5 : detection.cyrillicShare > 0.2) return true;
+  return detection.language !== null && detection.language !== expected;
+};
+
+/**
+ * Stronger instructions for re-requesting text that came back in the wrong language
+ */
+export const getLanguageRetryInstructions = (language: Language): string => {
+  const config = getLanguageConfig(language);
+  const script = language === 'ru' ? 'Cyrillic' : 'Latin';
+
+  return `The previous version was NOT written in ${config.name}. Rewrite ALL of it in ${config.name} (${config.nativeName}) ` +
+    `using only the ${script} alphabet${language === 'uz' ? ' - no Cyrillic letters' : ''}. ` +
+    `Only proper names, tool names and technical terms may stay in their original form.\n` +
+    getLanguagePromptInstructions(language);
+};
+
+export const validateLanguageResponse = (text: string, expectedLanguage: Language): boolean => {
+  return !isLanguageMismatch(detectLanguage(text), expectedLanguage);
 };
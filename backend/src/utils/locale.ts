@@ -0,0 +1,384 @@
+import { Language } from '@prisma/client';
+
+// =============================================================================
+// DOCUMENT LOCALE
+// =============================================================================
+// Fixed text the exporters write around the generated content (headings,
+// captions, cover page, front sheet, appendices), per assignment language.
+// Templates take {placeholders}; numbers are formatted for the locale.
+// BTEC, criterion codes and the Pass/Merit/Distinction grade names are
+// Pearson's terms and stay as they are in every language.
+
+const EN_STRINGS = {
+  tableOfContents: 'Table of Contents',
+  introduction: 'Introduction',
+  conclusion: 'Conclusion',
+  references: 'References',
+  learningAim: 'Learning Aim {code}',
+  aimHeading: 'AIM {code}: {title}',
+  task: 'Task {number}',
+  additionalSection: 'Additional Section',
+  tableCaption: 'Table {number}. {caption}',
+  dataTable: 'Data table',
+  figureCaption: 'Figure {number}. {caption}',
+  diagram: 'Diagram',
+  imagePlaceholder: '[IMAGE PLACEHOLDER]',
+
+  // Evidence checklist appendix
+  evidenceAppendix: 'Appendix: Evidence Checklist',
+  evidenceIntro:
+    'The brief asks for the evidence below. Items marked "{missing}" are not part of this document and must be added before submission.',
+  evidenceRequired: 'Evidence required',
+  evidenceStatus: 'Status',
+  evidenceLocation: 'Where to find it',
+  evidenceCovered: 'Covered',
+  evidencePlaceholder: 'Placeholder - insert your own',
+  evidenceMissing: 'Supply yourself',
+  evidenceMatchCriterion: 'Criterion {code}',
+  evidenceMatchTable: 'Table for {code}',
+  evidenceMatchFigure: 'Figure for {code}',
+  evidenceNoteSections: 'Covered by the sections listed.',
+  evidenceNoteWholeReport: 'Covered by the report as a whole.',
+  evidenceNoteNoSection: 'No section addresses this - add it to your report yourself.',
+  evidenceNoteTables: 'Covered by the tables listed - check they use your own data.',
+  evidenceNoteNoTable: 'No matching table was generated - add one yourself.',
+  evidenceNoteFigure: 'A figure placeholder marks where it goes - insert your own image there.',
+  evidenceNoteCapture: 'Capture this yourself and add it to your report.',
+  evidenceNoteSupply: 'This cannot be generated - you need to supply it yourself.',
+
+  // Cover page
+  coverAssignment: 'Assignment',
+  coverUnit: 'Unit {code}',
+  coverUnitLevel: 'Unit {code} - BTEC Level {level}',
+  student: 'Student',
+  group: 'Group',
+  academicYear: 'Academic year',
+
+  // Front sheet
+  frontSheetTitle: 'Assignment Front Sheet',
+  learnerName: 'Learner name',
+  university: 'University',
+  unit: 'Unit',
+  level: 'Level',
+  btecLevel: 'BTEC Level {level}',
+  assessor: 'Assessor',
+  dateIssued: 'Date issued',
+  dateSubmitted: 'Date submitted',
+  assessmentCriteria: 'Assessment criteria',
+  criterion: 'Criterion',
+  criterionEvidence: 'To achieve the criterion the evidence must show that the learner is able to:',
+  evidencePage: 'Page where evidence is found',
+  achieved: 'Achieved (Y/N)',
+  learnerDeclaration: 'Learner declaration',
+  learnerDeclarationText:
+    'I certify that the work submitted for this assignment is my own. I have clearly referenced any sources used in the work. I understand that false declaration is a form of malpractice.',
+  learnerSignature: 'Learner signature',
+  assessorDeclaration: 'Assessor declaration',
+  assessorDeclarationText:
+    "I certify that the evidence submitted for this assignment is the learner's own. The learner has been assessed against the criteria above.",
+  assessorSignature: 'Assessor signature',
+  date: 'Date',
+
+  // Writing guidance appendix
+  guidanceAppendix: 'Appendix: Writing Guidance',
+  guidanceIntro: 'This guidance explains how to approach the assignment. It is not part of the submission.',
+  guidanceOverview: 'Your Assignment Overview',
+  guidanceAbout: 'What This Assignment Is About',
+  guidanceAssessor: 'What Your Assessor Is Looking For',
+  guidanceStructure: 'How to Structure Your Assignment',
+  guidanceGrade: 'How to Reach {grade} Grade',
+  criterionGoal: 'What This Criterion Asks',
+  criterionInclude: 'What You Should Include',
+  criterionApproach: 'How to Approach Writing It',
+  criterionMistakes: 'Common Mistakes to Avoid',
+  criterionDepth: 'Grade Depth',
+};
+
+export type DocumentStringKey = keyof typeof EN_STRINGS;
+
+export const DOCUMENT_STRINGS: Record<Language, Record<DocumentStringKey, string>> = {
+  en: EN_STRINGS,
+  ru: {
+    tableOfContents: 'Содержание',
+    introduction: 'Введение',
+    conclusion: 'Заключение',
+    references: 'Список литературы',
+    learningAim: 'Учебная цель {code}',
+    aimHeading: 'ЦЕЛЬ {code}: {title}',
+    task: 'Задание {number}',
+    additionalSection: 'Дополнительный раздел',
+    tableCaption: 'Таблица {number}. {caption}',
+    dataTable: 'Таблица данных',
+    figureCaption: 'Рисунок {number}. {caption}',
+    diagram: 'Схема',
+    imagePlaceholder: '[МЕСТО ДЛЯ ИЗОБРАЖЕНИЯ]',
+
+    evidenceAppendix: 'Приложение: перечень доказательств',
+    evidenceIntro:
+      'Задание требует перечисленных ниже доказательств. Пункты с отметкой «{missing}» не входят в этот документ, их нужно добавить перед сдачей работы.',
+    evidenceRequired: 'Требуемое доказательство',
+    evidenceStatus: 'Статус',
+    evidenceLocation: 'Где найти',
+    evidenceCovered: 'Раскрыто',
+    evidencePlaceholder: 'Заготовка - вставьте своё',
+    evidenceMissing: 'Предоставьте сами',
+    evidenceMatchCriterion: 'Критерий {code}',
+    evidenceMatchTable: 'Таблица для {code}',
+    evidenceMatchFigure: 'Рисунок для {code}',
+    evidenceNoteSections: 'Раскрыто в перечисленных разделах.',
+    evidenceNoteWholeReport: 'Раскрыто в отчёте в целом.',
+    evidenceNoteNoSection: 'Ни один раздел этого не раскрывает - добавьте это в отчёт сами.',
+    evidenceNoteTables: 'Раскрыто в перечисленных таблицах - проверьте, что в них ваши данные.',
+    evidenceNoteNoTable: 'Подходящая таблица не создана - добавьте её сами.',
+    evidenceNoteFigure: 'Место рисунка отмечено заготовкой - вставьте туда своё изображение.',
+    evidenceNoteCapture: 'Подготовьте это сами и добавьте в отчёт.',
+    evidenceNoteSupply: 'Это нельзя сгенерировать - предоставьте это сами.',
+
+    coverAssignment: 'Задание',
+    coverUnit: 'Модуль {code}',
+    coverUnitLevel: 'Модуль {code} - BTEC, уровень {level}',
+    student: 'Студент',
+    group: 'Группа',
+    academicYear: 'Учебный год',
+
+    frontSheetTitle: 'Титульный лист оценивания',
+    learnerName: 'ФИО студента',
+    university: 'Университет',
+    unit: 'Модуль',
+    level: 'Уровень',
+    btecLevel: 'BTEC, уровень {level}',
+    assessor: 'Проверяющий',
+    dateIssued: 'Дата выдачи',
+    dateSubmitted: 'Дата сдачи',
+    assessmentCriteria: 'Критерии оценивания',
+    criterion: 'Критерий',
+    criterionEvidence: 'Для выполнения критерия работа должна показать, что студент умеет:',
+    evidencePage: 'Страница с доказательством',
+    achieved: 'Выполнено (Да/Нет)',
+    learnerDeclaration: 'Заявление студента',
+    learnerDeclarationText:
+      'Я подтверждаю, что представленная работа выполнена мной самостоятельно. Все использованные источники указаны в работе. Я понимаю, что ложное заявление является нарушением академической честности.',
+    learnerSignature: 'Подпись студента',
+    assessorDeclaration: 'Заявление проверяющего',
+    assessorDeclarationText:
+      'Я подтверждаю, что представленные доказательства являются собственной работой студента. Работа оценена по указанным выше критериям.',
+    assessorSignature: 'Подпись проверяющего',
+    date: 'Дата',
+
+    guidanceAppendix: 'Приложение: рекомендации по написанию',
+    guidanceIntro: 'Эти рекомендации объясняют, как подойти к выполнению задания. Они не входят в сдаваемую работу.',
+    guidanceOverview: 'Обзор задания',
+    guidanceAbout: 'О чём это задание',
+    guidanceAssessor: 'Что ожидает проверяющий',
+    guidanceStructure: 'Как выстроить работу',
+    guidanceGrade: 'Как получить оценку {grade}',
+    criterionGoal: 'Что требует критерий',
+    criterionInclude: 'Что нужно включить',
+    criterionApproach: 'Как подойти к написанию',
+    criterionMistakes: 'Типичные ошибки',
+    criterionDepth: 'Глубина ответа для оценки',
+  },
+  uz: {
+    tableOfContents: 'Mundarija',
+    introduction: 'Kirish',
+    conclusion: 'Xulosa',
+    references: 'Foydalanilgan adabiyotlar',
+    learningAim: "O'quv maqsadi {code}",
+    aimHeading: 'MAQSAD {code}: {title}',
+    task: '{number}-topshiriq',
+    additionalSection: "Qo'shimcha bo'lim",
+    tableCaption: '{number}-jadval. {caption}',
+    dataTable: "Ma'lumotlar jadvali",
+    figureCaption: '{number}-rasm. {caption}',
+    diagram: 'Diagramma',
+    imagePlaceholder: '[RASM UCHUN JOY]',
+
+    evidenceAppendix: "Ilova: dalillar ro'yxati",
+    evidenceIntro:
+      "Topshiriq quyidagi dalillarni talab qiladi. \"{missing}\" deb belgilangan bandlar ushbu hujjatga kirmaydi va topshirishdan oldin qo'shilishi kerak.",
+    evidenceRequired: 'Talab qilinadigan dalil',
+    evidenceStatus: 'Holati',
+    evidenceLocation: 'Qayerda joylashgan',
+    evidenceCovered: 'Yoritilgan',
+    evidencePlaceholder: "Namuna - o'zingiznikini qo'ying",
+    evidenceMissing: "O'zingiz taqdim eting",
+    evidenceMatchCriterion: '{code} mezoni',
+    evidenceMatchTable: '{code} uchun jadval',
+    evidenceMatchFigure: '{code} uchun rasm',
+    evidenceNoteSections: "Ko'rsatilgan bo'limlarda yoritilgan.",
+    evidenceNoteWholeReport: 'Hisobotning umumiy mazmunida yoritilgan.',
+    evidenceNoteNoSection: "Buni hech bir bo'lim yoritmaydi - hisobotingizga o'zingiz qo'shing.",
+    evidenceNoteTables: "Ko'rsatilgan jadvallarda yoritilgan - ularda o'z ma'lumotlaringiz borligini tekshiring.",
+    evidenceNoteNoTable: "Mos jadval yaratilmadi - uni o'zingiz qo'shing.",
+    evidenceNoteFigure: "Rasm o'rni namuna bilan belgilangan - u yerga o'z rasmingizni qo'ying.",
+    evidenceNoteCapture: "Buni o'zingiz tayyorlang va hisobotingizga qo'shing.",
+    evidenceNoteSupply: "Buni yaratib bo'lmaydi - uni o'zingiz taqdim etishingiz kerak.",
+
+    coverAssignment: 'Topshiriq',
+    coverUnit: 'Modul {code}',
+    coverUnitLevel: 'Modul {code} - BTEC {level}-daraja',
+    student: 'Talaba',
+    group: 'Guruh',
+    academicYear: "O'quv yili",
+
+    frontSheetTitle: 'Topshiriqni baholash varaqasi',
+    learnerName: 'Talabaning F.I.Sh.',
+    university: 'Universitet',
+    unit: 'Modul',
+    level: 'Daraja',
+    btecLevel: 'BTEC {level}-daraja',
+    assessor: 'Baholovchi',
+    dateIssued: 'Berilgan sana',
+    dateSubmitted: 'Topshirilgan sana',
+    assessmentCriteria: 'Baholash mezonlari',
+    criterion: 'Mezon',
+    criterionEvidence: "Mezonni bajarish uchun dalillar talabaning quyidagilarni bajara olishini ko'rsatishi kerak:",
+    evidencePage: 'Dalil joylashgan sahifa',
+    achieved: "Bajarildi (Ha/Yo'q)",
+    learnerDeclaration: 'Talaba bayonoti',
+    learnerDeclarationText:
+      "Ushbu topshiriq uchun taqdim etilgan ish o'zimniki ekanligini tasdiqlayman. Ishda foydalanilgan barcha manbalar aniq ko'rsatilgan. Yolg'on bayonot akademik qoidabuzarlik ekanligini tushunaman.",
+    learnerSignature: 'Talaba imzosi',
+    assessorDeclaration: 'Baholovchi bayonoti',
+    assessorDeclarationText:
+      "Ushbu topshiriq uchun taqdim etilgan dalillar talabaning o'z ishi ekanligini tasdiqlayman. Talaba yuqoridagi mezonlar bo'yicha baholandi.",
+    assessorSignature: 'Baholovchi imzosi',
+    date: 'Sana',
+
+    guidanceAppendix: "Ilova: yozish bo'yicha tavsiyalar",
+    guidanceIntro: 'Ushbu tavsiyalar topshiriqni qanday bajarishni tushuntiradi. Ular topshiriladigan ishga kirmaydi.',
+    guidanceOverview: "Topshiriq haqida umumiy ma'lumot",
+    guidanceAbout: 'Topshiriq nima haqida',
+    guidanceAssessor: 'Baholovchi nimani kutadi',
+    guidanceStructure: 'Ishni qanday tuzish kerak',
+    guidanceGrade: '{grade} bahosiga qanday erishish mumkin',
+    criterionGoal: 'Mezon nimani talab qiladi',
+    criterionInclude: 'Nimalarni kiritish kerak',
+    criterionApproach: 'Yozishga qanday kirishish kerak',
+    criterionMistakes: 'Keng tarqalgan xatolar',
+    criterionDepth: "Baho uchun talab qilinadigan chuqurlik",
+  },
+  es: {
+    tableOfContents: 'Índice',
+    introduction: 'Introducción',
+    conclusion: 'Conclusión',
+    references: 'Referencias',
+    learningAim: 'Objetivo de aprendizaje {code}',
+    aimHeading: 'OBJETIVO {code}: {title}',
+    task: 'Tarea {number}',
+    additionalSection: 'Sección adicional',
+    tableCaption: 'Tabla {number}. {caption}',
+    dataTable: 'Tabla de datos',
+    figureCaption: 'Figura {number}. {caption}',
+    diagram: 'Diagrama',
+    imagePlaceholder: '[MARCADOR DE IMAGEN]',
+
+    evidenceAppendix: 'Anexo: lista de evidencias',
+    evidenceIntro:
+      'El encargo solicita las evidencias siguientes. Los elementos marcados como «{missing}» no forman parte de este documento y deben añadirse antes de la entrega.',
+    evidenceRequired: 'Evidencia requerida',
+    evidenceStatus: 'Estado',
+    evidenceLocation: 'Dónde encontrarla',
+    evidenceCovered: 'Cubierta',
+    evidencePlaceholder: 'Marcador - inserte la suya',
+    evidenceMissing: 'Aportar por su cuenta',
+    evidenceMatchCriterion: 'Criterio {code}',
+    evidenceMatchTable: 'Tabla para {code}',
+    evidenceMatchFigure: 'Figura para {code}',
+    evidenceNoteSections: 'Cubierta en las secciones indicadas.',
+    evidenceNoteWholeReport: 'Cubierta por el informe en su conjunto.',
+    evidenceNoteNoSection: 'Ninguna sección lo trata - añádalo usted mismo a su informe.',
+    evidenceNoteTables: 'Cubierta en las tablas indicadas - compruebe que usan sus propios datos.',
+    evidenceNoteNoTable: 'No se generó ninguna tabla adecuada - añada una usted mismo.',
+    evidenceNoteFigure: 'Un marcador indica dónde va la figura - inserte allí su propia imagen.',
+    evidenceNoteCapture: 'Capture esto usted mismo y añádalo a su informe.',
+    evidenceNoteSupply: 'Esto no se puede generar - debe aportarlo usted mismo.',
+
+    coverAssignment: 'Trabajo',
+    coverUnit: 'Unidad {code}',
+    coverUnitLevel: 'Unidad {code} - BTEC Nivel {level}',
+    student: 'Estudiante',
+    group: 'Grupo',
+    academicYear: 'Curso académico',
+
+    frontSheetTitle: 'Hoja de portada de la evaluación',
+    learnerName: 'Nombre del estudiante',
+    university: 'Universidad',
+    unit: 'Unidad',
+    level: 'Nivel',
+    btecLevel: 'BTEC Nivel {level}',
+    assessor: 'Evaluador',
+    dateIssued: 'Fecha de emisión',
+    dateSubmitted: 'Fecha de presentación',
+    assessmentCriteria: 'Criterios de evaluación',
+    criterion: 'Criterio',
+    criterionEvidence: 'Para cumplir el criterio, la evidencia debe demostrar que el estudiante es capaz de:',
+    evidencePage: 'Página de la evidencia',
+    achieved: 'Logrado (S/N)',
+    learnerDeclaration: 'Declaración del estudiante',
+    learnerDeclarationText:
+      'Certifico que el trabajo presentado en esta tarea es propio. He citado claramente todas las fuentes utilizadas. Entiendo que una declaración falsa constituye una falta académica.',
+    learnerSignature: 'Firma del estudiante',
+    assessorDeclaration: 'Declaración del evaluador',
+    assessorDeclarationText:
+      'Certifico que la evidencia presentada en esta tarea es obra del estudiante. El estudiante ha sido evaluado según los criterios anteriores.',
+    assessorSignature: 'Firma del evaluador',
+    date: 'Fecha',
+
+    guidanceAppendix: 'Anexo: orientación para la redacción',
+    guidanceIntro: 'Esta orientación explica cómo abordar el trabajo. No forma parte de la entrega.',
+    guidanceOverview: 'Resumen del trabajo',
+    guidanceAbout: 'De qué trata este trabajo',
+    guidanceAssessor: 'Qué busca el evaluador',
+    guidanceStructure: 'Cómo estructurar el trabajo',
+    guidanceGrade: 'Cómo alcanzar la calificación {grade}',
+    criterionGoal: 'Qué pide este criterio',
+    criterionInclude: 'Qué debe incluir',
+    criterionApproach: 'Cómo abordar la redacción',
+    criterionMistakes: 'Errores comunes que evitar',
+    criterionDepth: 'Profundidad según la calificación',
+  },
+};
+
+// BCP 47 tags for Intl and the documents' language metadata
+const LOCALE_TAGS: Record<Language, string> = {
+  en: 'en-GB',
+  ru: 'ru-RU',
+  uz: 'uz-Latn-UZ',
+  es: 'es-ES',
+};
+
+export interface DocumentLocale {
+  language: Language;
+  tag: string;
+  text(key: DocumentStringKey, params?: Record<string, string | number>): string;
+  number(value: number): string;
+  date(value: Date, options?: Intl.DateTimeFormatOptions): string;
+}
+
+/**
+ * Strings and formatters for one language. Unknown or missing languages fall
+ * back to English.
+ */
+export const getDocumentLocale = (language: Language | null | undefined): DocumentLocale => {
+  const code: Language = language && DOCUMENT_STRINGS[language] ? language : 'en';
+  const tag = LOCALE_TAGS[code];
+  const numberFormat = new Intl.NumberFormat(tag);
+  const number = (value: number) => numberFormat.format(value);
+
+  return {
+    language: code,
+    tag,
+    text(key, params = {}) {
+      return DOCUMENT_STRINGS[code][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const value = params[name];
+        if (value === undefined) return placeholder;
+        return typeof value === 'number' ? number(value) : value;
+      });
+    },
+    number,
+    date(value, options = { dateStyle: 'long' }) {
+      return new Intl.DateTimeFormat(tag, options).format(value);
+    },
+  };
+};
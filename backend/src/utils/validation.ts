@@ -37,6 +37,7 @@ export const createBriefSchema = z.object({
   tasks: z.array(z.object({
     title: z.string().min(1, 'Task title is required'),
     description: z.string().min(1, 'Task description is required'),
+    criteria: z.array(z.string()).optional(),
   })).min(1, 'At least one task is required'),
   
   // Assessment criteria
@@ -65,3 +66,53 @@ export const generateAssignmentSchema = z.object({
   includeImages: z.boolean().optional().default(false),
   includeTables: z.boolean().optional().default(false),
 });
+
+// Edited content blocks - tables and references are stored as JSON
+export const blockTextSchema = z.string().trim().min(1, 'Block text is required').max(50000);
+
+export const tableDataSchema = z.object({
+  caption: z.string().trim().max(500),
+  headers: z.array(z.string().max(500)).min(1, 'A table needs at least one column').max(20),
+  rows: z.array(z.array(z.string().max(5000))).max(200),
+}).refine(
+  (table) => table.rows.every((row) => row.length === table.headers.length),
+  { message: 'Every row needs one cell per column' }
+);
+
+export const referencesSchema = z.array(z.object({
+  text: z.string().trim().min(1, 'Reference text is required').max(2000),
+})).max(200);
+
+// Document templates - font sizes in points, margins and indent in millimetres
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().optional().transform((value) => (value === '' ? null : value));
+const marginSchema = z.number().min(5, 'Margins must be at least 5mm').max(60, 'Margins must be at most 60mm');
+
+export const documentTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required').max(100),
+  description: optionalText(500),
+  briefId: z.string().uuid('Invalid brief ID').nullable().optional(),
+  universityName: optionalText(200),
+  isDefault: z.boolean().optional(),
+  fontName: z.string().trim().min(1, 'Font name is required').max(100).optional(),
+  fontSize: z.number().int().min(8).max(24).optional(),
+  headingFontSize: z.number().int().min(8).max(36).optional(),
+  lineSpacing: z.number().min(1).max(3).optional(),
+  firstLineIndentMm: z.number().min(0).max(50).optional(),
+  marginTopMm: marginSchema.optional(),
+  marginBottomMm: marginSchema.optional(),
+  marginLeftMm: marginSchema.optional(),
+  marginRightMm: marginSchema.optional(),
+  centerHeadings: z.boolean().optional(),
+  headingNumbering: z.enum(['NONE', 'SECTIONS', 'SECTIONS_AND_CRITERIA']).optional(),
+  coverLayout: z.enum(['TITLE_ONLY', 'TITLE_PAGE']).optional(),
+  includeFrontSheet: z.boolean().optional(),
+  headerText: optionalText(200),
+  footerText: optionalText(200),
+  // ~500KB image once base64-encoded
+  logo: z.string()
+    .regex(/^data:image\/(png|jpeg);base64,/, 'Logo must be a PNG or JPEG image')
+    .max(700000, 'Logo must be smaller than 500KB')
+    .nullable()
+    .optional(),
+});
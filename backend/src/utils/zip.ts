@@ -0,0 +1,60 @@
+// =============================================================================
+// ZIP READER
+// =============================================================================
+// Minimal reader for one entry of a ZIP archive (DOCX files are ZIPs). Only
+// stored and deflated entries are supported, which covers what docx writes.
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const stop = Math.max(0, zip.length - 22 - 0xffff);
+  for (let offset = zip.length - 22; offset >= stop; offset--) {
+    if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+/**
+ * Read one entry of a ZIP archive, or null if it has no such entry
+ */
+export function readZipEntry(zip: Buffer, name: string): Buffer | null {
+  const end = findEndOfCentralDirectory(zip);
+  const entries = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+
+  for (let i = 0; i < entries; i++) {
+    if (zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const entryName = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      if (zip.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error('Corrupt ZIP entry');
+      }
+      // The local header has its own name and extra field lengths
+      const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+      const data = zip.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return Buffer.from(data);
+      if (method === 8) return inflateRawSync(data);
+      throw new Error(`Unsupported ZIP compression method ${method}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { 
   LayoutDashboard, FileText, Users, AlertCircle, 
-  BarChart3, ArrowLeft, CreditCard, Menu
+  BarChart3, ArrowLeft, CreditCard, Menu, LayoutTemplate
 } from 'lucide-react';
 import { Button } from './ui/button';
 import { AdminOverviewTab } from './admin/AdminOverviewTab';
@@ -10,9 +10,10 @@ import { AdminAssignmentsTab } from './admin/AdminAssignmentsTab';
 import { AdminIssuesTab } from './admin/AdminIssuesTab';
 import { AdminAnalyticsTab } from './admin/AdminAnalyticsTab';
 import { AdminPaymentsTab } from './admin/AdminPaymentsTab';
+import { AdminTemplatesTab } from './admin/AdminTemplatesTab';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from './ui/sheet';
 
-type AdminTab = 'overview' | 'assignments' | 'users' | 'payments' | 'issues' | 'analytics';
+type AdminTab = 'overview' | 'assignments' | 'users' | 'payments' | 'issues' | 'templates' | 'analytics';
 
 interface AdminPageProps {
   onNavigate: (page: 'dashboard') => void;
@@ -24,6 +25,7 @@ const tabs: { id: AdminTab; label: string; icon: React.ElementType }[] = [
   { id: 'users', label: 'Users', icon: Users },
   { id: 'payments', label: 'Payments', icon: CreditCard },
   { id: 'issues', label: 'Issues', icon: AlertCircle },
+  { id: 'templates', label: 'Templates', icon: LayoutTemplate },
   { id: 'analytics', label: 'Analytics', icon: BarChart3 },
 ];
 
@@ -43,6 +45,8 @@ export function AdminPage({ onNavigate }: AdminPageProps) {
         return <AdminPaymentsTab />;
       case 'issues':
         return <AdminIssuesTab />;
+      case 'templates':
+        return <AdminTemplatesTab />;
       case 'analytics':
         return <AdminAnalyticsTab />;
       default:
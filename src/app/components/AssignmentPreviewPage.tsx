@@ -1,10 +1,13 @@
 import { useEffect, useState } from 'react';
-import { generationApi, GenerationContent } from '../services/api';
+import { assignmentsApi, generationApi, GenerationContent } from '../services/api';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Lock, Download, Eye, Loader2, ArrowLeft } from 'lucide-react';
+import { Lock, Download, Eye, Loader2, ArrowLeft, RefreshCw, Undo2, Pencil } from 'lucide-react';
 import { toast } from 'sonner';
+import { VersionHistory } from './VersionHistory';
+import { BlockEditor } from './BlockEditor';
+import { BlockContent, blockTitle } from './BlockContent';
 
 interface AssignmentPreviewPageProps {
   assignmentId: string;
@@ -15,6 +18,13 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
   const [content, setContent] = useState<GenerationContent | null>(null);
   const [loading, setLoading] = useState(true);
   const [unlockedSections, setUnlockedSections] = useState<Set<string>>(new Set(['introduction']));
+  // Sections with a previous version that can be restored
+  const [rollbackSections, setRollbackSections] = useState<Set<string>>(new Set());
+  const [editingSection, setEditingSection] = useState<string | null>(null);
+  const [instructions, setInstructions] = useState('');
+  const [busySection, setBusySection] = useState<string | null>(null);
+  // Section open in the manual editor
+  const [manualEditSection, setManualEditSection] = useState<string | null>(null);
 
   useEffect(() => {
     loadContent();
@@ -24,8 +34,14 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
 
     try {
       setLoading(true);
-      const data = await generationApi.getContent(assignmentId);
+      const [data, revisionData] = await Promise.all([
+        generationApi.getContent(assignmentId),
+        assignmentsApi.getBlockRevisions(assignmentId).catch(() => ({ revisions: [] })),
+      ]);
       setContent(data);
+      setRollbackSections(new Set(
+        revisionData.revisions.filter((r) => r.reason === 'REGENERATE').map((r) => r.sectionId)
+      ));
     } catch (err: any) {
       console.error('[PREVIEW] Failed to load content:', err);
       toast.error(err.message || 'Failed to load preview');
@@ -41,12 +57,48 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
 
   const handleUnlockAll = () => {
     if (!content) return;
-    const allSections = content.blocks.map((b) => b.blockType);
+    const allSections = content.blocks.map((b) => b.sectionId);
     setUnlockedSections(new Set(allSections));
     toast.success('All sections unlocked! You can now download the full assignment.');
   };
 
-  if (loading) {
+  const handleRegenerate = async (sectionId: string) => {
+    setBusySection(sectionId);
+    try {
+      const result = await assignmentsApi.regenerateBlock(assignmentId, sectionId, instructions.trim() || undefined);
+      toast.success(`Section regenerated (${result.tokensUsed.toLocaleString()} tokens)`);
+      setEditingSection(null);
+      setInstructions('');
+      await loadContent();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to regenerate section');
+    } finally {
+      setBusySection(null);
+    }
+  };
+
+  const handleRollback = async (sectionId: string) => {
+    if (!confirm('Restore the previous version of this section?')) return;
+    setBusySection(sectionId);
+    try {
+      await assignmentsApi.rollbackBlock(assignmentId, sectionId);
+      toast.success('Previous version restored');
+      await loadContent();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to restore previous version');
+    } finally {
+      setBusySection(null);
+    }
+  };
+
+  const handleBlockSaved = (sectionId: string, blockContent: string) => {
+    setContent((prev) => prev && {
+      ...prev,
+      blocks: prev.blocks.map((b) => (b.sectionId === sectionId ? { ...b, content: blockContent } : b)),
+    });
+  };
+
+  if (loading && !content) {
     return (
       <div className="container mx-auto py-4 md:py-8 px-4 max-w-4xl">
         <div className="flex items-center justify-center py-20">
@@ -62,6 +114,7 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
         <Card className="p-8 md:p-12 text-center">
           <p className="text-base md:text-lg text-gray-600">Assignment not found</p>
           <Button onClick={() => onNavigate('dashboard')} className="mt-4 min-h-[44px]">
+            <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Dashboard
           </Button>
         </Card>
@@ -69,7 +122,8 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
     );
   }
 
-  const allUnlocked = content.blocks.every((b) => unlockedSections.has(b.blockType));
+  const allUnlocked = content.blocks.every((b) => unlockedSections.has(b.sectionId));
+  const canRegenerate = content.assignment.status === 'COMPLETED';
 
   return (
     <div className="container mx-auto py-4 md:py-8 px-4 max-w-4xl">
@@ -79,11 +133,12 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
           <div>
             <h1 className="text-xl md:text-2xl font-bold mb-2">Assignment Preview</h1>
             <p className="text-xs md:text-sm text-gray-600">
-              Generated on {new Date(content.generatedAt).toLocaleString()}
+              {content.brief.unitCode} {content.brief.unitName}
+              {content.assignment.completedAt && ` - generated on ${new Date(content.assignment.completedAt).toLocaleString()}`}
             </p>
           </div>
           <Badge className="text-base md:text-lg px-3 md:px-4 py-1 md:py-2">
-            {content.totalTokensUsed.toLocaleString()} tokens
+            {content.assignment.totalTokensUsed.toLocaleString()} tokens
           </Badge>
         </div>
 
@@ -104,11 +159,13 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
 
       {/* Content Blocks */}
       <div className="space-y-4 md:space-y-6">
-        {content.blocks
-          .sort((a, b) => a.orderIndex - b.orderIndex)
+        {[...content.blocks]
+          .sort((a, b) => a.blockOrder - b.blockOrder)
           .map((block) => {
-            const isLocked = !unlockedSections.has(block.blockType);
-            const isIntroduction = block.blockType === 'introduction';
+            const isLocked = !unlockedSections.has(block.sectionId);
+            const isBusy = busySection === block.sectionId;
+            const isEditing = editingSection === block.sectionId;
+            const isManualEditing = manualEditSection === block.sectionId;
 
             return (
               <Card
@@ -118,7 +175,7 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
                 <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
                   <div className="flex items-center gap-2 flex-wrap">
                     <h2 className="text-lg md:text-xl font-bold capitalize">
-                      {block.blockType.replace(/_/g, ' ')}
+                      {blockTitle(block)}
                     </h2>
                     {isLocked && (
                       <Badge variant="outline" className="text-orange-600 border-orange-300">
@@ -127,20 +184,95 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
                       </Badge>
                     )}
                   </div>
-                  <Badge variant="outline">{block.tokensUsed} tokens</Badge>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{block.tokensUsed} tokens</Badge>
+                    {canRegenerate && !isLocked && (
+                      <>
+                        {rollbackSections.has(block.sectionId) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busySection !== null}
+                            onClick={() => handleRollback(block.sectionId)}
+                            title="Restore previous version"
+                          >
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busySection !== null || isManualEditing}
+                          onClick={() => {
+                            setEditingSection(null);
+                            setManualEditSection(block.sectionId);
+                          }}
+                          title="Edit this section"
+                        >
+                          <Pencil className="h-4 w-4" />
+                          <span className="ml-1 hidden sm:inline">Edit</span>
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busySection !== null || isManualEditing}
+                          onClick={() => {
+                            setEditingSection(isEditing ? null : block.sectionId);
+                            setInstructions('');
+                          }}
+                        >
+                          {isBusy ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <RefreshCw className="h-4 w-4" />
+                          )}
+                          <span className="ml-1 hidden sm:inline">Regenerate</span>
+                        </Button>
+                      </>
+                    )}
+                  </div>
                 </div>
 
-                <div
-                  className={`prose prose-sm max-w-none ${
-                    isLocked ? 'filter blur-md select-none pointer-events-none' : ''
-                  }`}
-                >
-                  {block.content.split('\n').map((paragraph, idx) => (
-                    <p key={idx} className="mb-3">
-                      {paragraph}
+                {isEditing && (
+                  <div className="mb-4 p-3 bg-gray-50 border rounded space-y-2">
+                    <textarea
+                      value={instructions}
+                      onChange={(e) => setInstructions(e.target.value)}
+                      maxLength={2000}
+                      rows={3}
+                      placeholder="Optional: what should change? e.g. more detail on security risks"
+                      className="w-full border rounded p-2 text-sm"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setEditingSection(null)} disabled={isBusy}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={() => handleRegenerate(block.sectionId)} disabled={isBusy}>
+                        {isBusy ? 'Regenerating...' : 'Regenerate this section'}
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Only this section's tokens are charged. The current version is kept so you can restore it.
                     </p>
-                  ))}
-                </div>
+                  </div>
+                )}
+
+                {isManualEditing ? (
+                  <BlockEditor
+                    assignmentId={assignmentId}
+                    block={block}
+                    onSaved={(saved) => handleBlockSaved(block.sectionId, saved)}
+                    onClose={() => setManualEditSection(null)}
+                  />
+                ) : (
+                  <div
+                    className={`prose prose-sm max-w-none ${
+                      isLocked ? 'filter blur-md select-none pointer-events-none' : ''
+                    } ${isBusy ? 'opacity-50' : ''}`}
+                  >
+                    <BlockContent block={block} />
+                  </div>
+                )}
 
                 {isLocked && (
                   <div className="absolute inset-0 bg-gradient-to-b from-transparent via-transparent to-white/90 flex items-end justify-center pb-6">
@@ -149,7 +281,7 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
                       className="bg-white shadow-lg min-h-[44px]"
                       onClick={() => {
                         const newUnlocked = new Set(unlockedSections);
-                        newUnlocked.add(block.blockType);
+                        newUnlocked.add(block.sectionId);
                         setUnlockedSections(newUnlocked);
                       }}
                     >
@@ -179,10 +311,17 @@ export function AssignmentPreviewPage({ assignmentId, onNavigate }: AssignmentPr
           </div>
           <div>
             <p className="text-gray-600 text-xs md:text-sm">Total Tokens</p>
-            <p className="text-xl md:text-2xl font-bold">{content.totalTokensUsed.toLocaleString()}</p>
+            <p className="text-xl md:text-2xl font-bold">{content.assignment.totalTokensUsed.toLocaleString()}</p>
           </div>
         </div>
       </Card>
+
+      <VersionHistory
+        assignmentId={assignmentId}
+        canRestore={canRegenerate}
+        onRestored={loadContent}
+        refreshKey={content.blocks}
+      />
     </div>
   );
 }
@@ -6,7 +6,7 @@ import { RadioGroup, RadioGroupItem } from './ui/radio-group';
 import { Checkbox } from './ui/checkbox';
 import { Alert, AlertDescription } from './ui/alert';
 import { Loader2, AlertCircle, CheckCircle2, ArrowLeft } from 'lucide-react';
-import { studentsApi, briefsApi, assignmentsApi } from '../services/api';
+import { studentsApi, briefsApi, assignmentsApi, TokenEstimate } from '../services/api';
 import { useAssignments } from '../context/AssignmentContext';
 
 interface Brief {
@@ -61,6 +61,7 @@ export default function AssignmentWizard({ onNavigate }: AssignmentWizardProps)
   const [includeImages, setIncludeImages] = useState(false);
   const [includeTables, setIncludeTables] = useState(false);
   const [disclaimerAccepted, setDisclaimerAccepted] = useState(false);
+  const [estimate, setEstimate] = useState<TokenEstimate | null>(null);
 
   // Check profile on mount
   useEffect(() => {
@@ -86,6 +87,27 @@ export default function AssignmentWizard({ onNavigate }: AssignmentWizardProps)
     }
   }, [selectedLevel]);
 
+  // Re-estimate token usage whenever the generation options change
+  useEffect(() => {
+    if (!selectedBrief || !selectedGrade || !selectedLanguage) {
+      setEstimate(null);
+      return;
+    }
+
+    let cancelled = false;
+    briefsApi.getEstimate(selectedBrief, { grade: selectedGrade, language: selectedLanguage, includeTables })
+      .then((data) => {
+        if (!cancelled) setEstimate(data);
+      })
+      .catch(() => {
+        if (!cancelled) setEstimate(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedBrief, selectedGrade, selectedLanguage, includeTables]);
+
   const loadBriefs = async (level: number) => {
     try {
       setLoading(true);
@@ -398,6 +420,21 @@ export default function AssignmentWizard({ onNavigate }: AssignmentWizardProps)
                   </Label>
                 </div>
               </div>
+              {estimate && (
+                <Alert className="mt-4">
+                  <AlertDescription className="text-sm space-y-1">
+                    <p className="font-semibold">
+                      Estimated usage: ~{estimate.totalTokens.toLocaleString()} tokens
+                    </p>
+                    <p className="text-muted-foreground">
+                      {estimate.items.length} sections, {estimate.historyAssignments > 0
+                        ? `calibrated on ${estimate.historyAssignments} earlier assignment(s) for this brief`
+                        : 'based on section length rules'}.
+                      {' '}On a custom plan, buy at least {estimate.recommendedTokens.toLocaleString()} tokens.
+                    </p>
+                  </AlertDescription>
+                </Alert>
+              )}
               {step === 5 && (
                 <Button className="mt-4 w-full sm:w-auto min-h-[44px]" onClick={() => setStep(6)}>
                   Continue to Disclaimer
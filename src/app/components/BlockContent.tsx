@@ -0,0 +1,64 @@
+import { GenerationContentBlock } from '../services/api';
+
+export function blockTitle(block: GenerationContentBlock): string {
+  if (block.sectionId.startsWith('criterion_')) return `Criterion ${block.criterionCode}`;
+  if (block.sectionId.startsWith('table_')) return `Table for ${block.criterionCode}`;
+  if (block.sectionId.startsWith('aim_')) return `Learning Aim ${block.sectionId.replace('aim_', '')}`;
+  return block.sectionId.replace(/_/g, ' ');
+}
+
+/**
+ * Read-only rendering of a content block (prose, table or references)
+ */
+export function BlockContent({ block }: { block: GenerationContentBlock }) {
+  // Tables and references are stored as JSON
+  if (block.sectionId.startsWith('table_') || block.sectionId === 'references') {
+    try {
+      const data = JSON.parse(block.content);
+      if (block.sectionId === 'references') {
+        return (
+          <ol className="list-decimal pl-5 space-y-1">
+            {(data as { text: string }[]).map((ref, idx) => (
+              <li key={idx}>{ref.text}</li>
+            ))}
+          </ol>
+        );
+      }
+      return (
+        <div className="overflow-x-auto">
+          <p className="font-semibold mb-2">{data.caption}</p>
+          <table className="w-full text-sm border">
+            <thead>
+              <tr>
+                {(data.headers as string[]).map((h, idx) => (
+                  <th key={idx} className="border px-2 py-1 bg-gray-50 text-left">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(data.rows as string[][]).map((row, rIdx) => (
+                <tr key={rIdx}>
+                  {row.map((cell, cIdx) => (
+                    <td key={cIdx} className="border px-2 py-1">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    } catch {
+      // Fall through to plain text
+    }
+  }
+
+  return (
+    <>
+      {block.content.split('\n').map((paragraph, idx) => (
+        <p key={idx} className="mb-3">
+          {paragraph}
+        </p>
+      ))}
+    </>
+  );
+}
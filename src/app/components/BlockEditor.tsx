@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from 'react';
+import { assignmentsApi, EditableBlockContent, EditableTable, GenerationContentBlock } from '../services/api';
+import { Button } from './ui/button';
+import { Plus, Trash2, Loader2, Check } from 'lucide-react';
+
+interface BlockEditorProps {
+  assignmentId: string;
+  block: GenerationContentBlock;
+  onSaved: (content: string) => void; // Stored content after a successful save
+  onClose: () => void;
+}
+
+type SaveState = 'idle' | 'pending' | 'saving' | 'saved' | 'error';
+
+// Wait this long after the last keystroke before saving
+const AUTOSAVE_DELAY_MS = 1500;
+
+function isTable(sectionId: string): boolean {
+  return sectionId.startsWith('table_');
+}
+
+function parseContent(block: GenerationContentBlock): EditableBlockContent {
+  try {
+    if (isTable(block.sectionId)) {
+      const table = JSON.parse(block.content) as EditableTable;
+      return { caption: table.caption || '', headers: table.headers || [], rows: table.rows || [] };
+    }
+    if (block.sectionId === 'references') {
+      return (JSON.parse(block.content) as { text: string }[]).map((ref) => ({ text: ref.text }));
+    }
+  } catch {
+    // Fall through to plain text
+  }
+  return block.content;
+}
+
+// Empty reference lines are dropped rather than rejected while typing
+function toSavable(sectionId: string, value: EditableBlockContent): EditableBlockContent {
+  if (sectionId === 'references') {
+    return (value as { text: string }[]).filter((ref) => ref.text.trim());
+  }
+  return value;
+}
+
+/**
+ * Inline editor for one content block: prose, table cells or references.
+ * Changes autosave; the DOCX is rebuilt from the edited blocks on download.
+ */
+export function BlockEditor({ assignmentId, block, onSaved, onClose }: BlockEditorProps) {
+  const [value, setValue] = useState<EditableBlockContent>(() => parseContent(block));
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const [error, setError] = useState('');
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pending = useRef<EditableBlockContent | null>(null);
+  const inFlight = useRef<Promise<void>>(Promise.resolve());
+
+  // Each save waits for the previous request, so an older text never lands last
+  const save = () => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = null;
+    inFlight.current = inFlight.current.then(send);
+    return inFlight.current;
+  };
+
+  const send = async () => {
+    const content = pending.current;
+    if (content === null) return;
+    pending.current = null;
+
+    setSaveState('saving');
+    try {
+      const result = await assignmentsApi.editBlock(assignmentId, block.sectionId, content);
+      setError('');
+      // A newer change may have queued while this one was saving
+      setSaveState(pending.current === null ? 'saved' : 'pending');
+      onSaved(result.block.content);
+    } catch (err: any) {
+      setSaveState('error');
+      setError(err.message || 'Failed to save changes');
+    }
+  };
+
+  const update = (next: EditableBlockContent) => {
+    setValue(next);
+    pending.current = toSavable(block.sectionId, next);
+    setSaveState('pending');
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = setTimeout(save, AUTOSAVE_DELAY_MS);
+  };
+
+  // Save what is still pending when the editor closes
+  useEffect(() => () => {
+    if (timer.current) {
+      clearTimeout(timer.current);
+      save();
+    }
+  }, []);
+
+  const handleDone = async () => {
+    await save();
+    onClose();
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-gray-50 border rounded space-y-3">
+      {isTable(block.sectionId) ? (
+        <TableEditor table={value as EditableTable} onChange={update} />
+      ) : block.sectionId === 'references' ? (
+        <ReferencesEditor references={value as { text: string }[]} onChange={update} />
+      ) : (
+        <textarea
+          value={value as string}
+          onChange={(e) => update(e.target.value)}
+          rows={Math.min(30, Math.max(8, (value as string).split('\n').length + 2))}
+          className="w-full border rounded p-2 text-sm leading-relaxed"
+        />
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <p className={`text-xs flex items-center gap-1 ${saveState === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+          {saveState === 'saving' && <><Loader2 className="h-3 w-3 animate-spin" /> Saving...</>}
+          {saveState === 'pending' && 'Unsaved changes'}
+          {saveState === 'saved' && <><Check className="h-3 w-3" /> All changes saved</>}
+          {saveState === 'error' && error}
+          {saveState === 'idle' && 'Changes are saved automatically'}
+        </p>
+        <Button size="sm" onClick={handleDone} disabled={saveState === 'saving'}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function TableEditor({ table, onChange }: { table: EditableTable; onChange: (table: EditableTable) => void }) {
+  const setHeader = (col: number, text: string) =>
+    onChange({ ...table, headers: table.headers.map((h, idx) => (idx === col ? text : h)) });
+
+  const setCell = (row: number, col: number, text: string) =>
+    onChange({
+      ...table,
+      rows: table.rows.map((cells, r) => (r === row ? cells.map((c, idx) => (idx === col ? text : c)) : cells)),
+    });
+
+  return (
+    <div className="space-y-2">
+      <input
+        value={table.caption}
+        onChange={(e) => onChange({ ...table, caption: e.target.value })}
+        placeholder="Table caption"
+        className="w-full border rounded p-2 text-sm font-semibold"
+      />
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border">
+          <thead>
+            <tr>
+              {table.headers.map((header, col) => (
+                <th key={col} className="border p-1 bg-white">
+                  <input
+                    value={header}
+                    onChange={(e) => setHeader(col, e.target.value)}
+                    className="w-full p-1 font-semibold"
+                  />
+                </th>
+              ))}
+              <th className="border p-1 w-10" />
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map((cells, row) => (
+              <tr key={row}>
+                {cells.map((cell, col) => (
+                  <td key={col} className="border p-1 bg-white">
+                    <textarea
+                      value={cell}
+                      onChange={(e) => setCell(row, col, e.target.value)}
+                      rows={2}
+                      className="w-full p-1 resize-y"
+                    />
+                  </td>
+                ))}
+                <td className="border p-1 text-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange({ ...table, rows: table.rows.filter((_, r) => r !== row) })}
+                    title="Remove row"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({ ...table, rows: [...table.rows, table.headers.map(() => '')] })}
+      >
+        <Plus className="h-4 w-4" />
+        <span className="ml-1">Add row</span>
+      </Button>
+    </div>
+  );
+}
+
+function ReferencesEditor({
+  references,
+  onChange,
+}: {
+  references: { text: string }[];
+  onChange: (references: { text: string }[]) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      {references.map((ref, idx) => (
+        <div key={idx} className="flex items-start gap-2">
+          <span className="text-sm text-gray-500 pt-2 w-6 text-right">{idx + 1}.</span>
+          <textarea
+            value={ref.text}
+            onChange={(e) => onChange(references.map((r, i) => (i === idx ? { text: e.target.value } : r)))}
+            rows={2}
+            className="flex-1 border rounded p-2 text-sm"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(references.filter((_, i) => i !== idx))}
+            title="Remove reference"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...references, { text: '' }])}>
+        <Plus className="h-4 w-4" />
+        <span className="ml-1">Add reference</span>
+      </Button>
+    </div>
+  );
+}
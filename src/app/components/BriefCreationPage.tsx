@@ -19,6 +19,7 @@ import { InputFieldEditor } from './InputFieldEditor';
 interface TaskBlock {
   title: string;
   description: string;
+  criteria: string; // Comma-separated codes, e.g. "A.P1, A.M1"
 }
 
 interface CriterionItem {
@@ -91,7 +92,7 @@ export function BriefCreationPage({ onNavigate, editBriefId }: BriefCreationPage
     semester: '1',
     learningAims: [''],
     vocationalScenario: '',
-    tasks: [{ title: '', description: '' }],
+    tasks: [{ title: '', description: '', criteria: '' }],
     assessmentCriteria: {
       pass: [{ code: 'A.P1', description: '' }],
       merit: [{ code: 'A.M1', description: '' }],
@@ -155,7 +156,8 @@ export function BriefCreationPage({ onNavigate, editBriefId }: BriefCreationPage
         vocationalScenario: formData.vocationalScenario,
         tasks: formData.tasks.filter(t => t.title.trim() && t.description.trim()).map(t => ({
           title: t.title,
-          description: t.description
+          description: t.description,
+          criteria: t.criteria.split(',').map(c => c.trim()).filter(Boolean)
         })),
         assessmentCriteria: {
           pass: formData.assessmentCriteria.pass.filter(c => c.description.trim()).map(c => `${c.code}: ${c.description}`),
@@ -210,7 +212,8 @@ export function BriefCreationPage({ onNavigate, editBriefId }: BriefCreationPage
         vocationalScenario: formData.vocationalScenario,
         tasks: formData.tasks.filter(t => t.title.trim() && t.description.trim()).map(t => ({
           title: t.title,
-          description: t.description
+          description: t.description,
+          criteria: t.criteria.split(',').map(c => c.trim()).filter(Boolean)
         })),
         assessmentCriteria: {
           pass: formData.assessmentCriteria.pass.filter(c => c.description.trim()).map(c => `${c.code}: ${c.description}`),
@@ -252,11 +255,11 @@ export function BriefCreationPage({ onNavigate, editBriefId }: BriefCreationPage
 
   const addTask = () => setFormData({ 
     ...formData, 
-    tasks: [...formData.tasks, { title: '', description: '' }] 
+    tasks: [...formData.tasks, { title: '', description: '', criteria: '' }] 
   });
   const removeTask = (index: number) => {
     const newTasks = formData.tasks.filter((_, i) => i !== index);
-    setFormData({ ...formData, tasks: newTasks.length > 0 ? newTasks : [{ title: '', description: '' }] });
+    setFormData({ ...formData, tasks: newTasks.length > 0 ? newTasks : [{ title: '', description: '', criteria: '' }] });
   };
   const updateTask = (index: number, field: keyof TaskBlock, value: any) => {
     const newTasks = [...formData.tasks];
@@ -548,6 +551,11 @@ export function BriefCreationPage({ onNavigate, editBriefId }: BriefCreationPage
                     placeholder="Task description (e.g., Explain the key concepts of artificial intelligence...)"
                     rows={3}
                   />
+                  <Input
+                    value={task.criteria}
+                    onChange={(e) => updateTask(index, 'criteria', e.target.value)}
+                    placeholder="Criteria covered (e.g., A.P1, A.P2, A.M1) - the document is grouped by task"
+                  />
                 </div>
               ))}
               <Button variant="outline" onClick={addTask} className="w-full">
@@ -3,9 +3,9 @@ import { useAuth } from '../context/AuthContext';
 import { useAssignments } from '../context/AssignmentContext';
 import { Assignment } from '../types';
 import { Button } from './ui/button';
-import { LogOut, FileText, Clock, CircleCheck, CircleAlert, Plus, MessageCircle, ChevronDown, ChevronUp, Link2, Shield, Pause, Play, AlertCircle, User, Menu } from 'lucide-react';
+import { LogOut, FileText, Clock, CircleCheck, CircleAlert, CircleX, Plus, MessageCircle, ChevronDown, ChevronUp, Link2, Shield, Pause, Play, AlertCircle, User, Menu } from 'lucide-react';
 import { DiscordLinkCard } from './DiscordLinkCard';
-import { generationApi } from '../services/api';
+import { generationApi, assignmentsApi } from '../services/api';
 import { MobileNav, NavItem, ResponsiveNav } from './ui/mobile-nav';
 import { ResponsiveContainer, ResponsiveGrid } from './ui/responsive-container';
 
@@ -60,6 +60,15 @@ export function DashboardPage({ onNavigate }: DashboardPageProps) {
     }
   };
 
+  const handleResume = async (assignmentId: string) => {
+    try {
+      await assignmentsApi.resumeGeneration(assignmentId);
+      onNavigate('monitor', assignmentId);
+    } catch (error) {
+      alert('Failed to resume generation: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
   return (
     <div className="min-h-screen bg-white flex flex-col">
       
@@ -249,6 +258,7 @@ export function DashboardPage({ onNavigate }: DashboardPageProps) {
                   }
                 }}
                 onStartGeneration={() => handleStartGeneration(assignment.id)}
+                onResume={() => handleResume(assignment.id)}
               />
             ))}
           </div>
@@ -289,12 +299,14 @@ function AssignmentCard({
   onDelete,
   onPause,
   onStartGeneration,
+  onResume,
 }: { 
   assignment: Assignment; 
   onView: () => void; 
   onDelete: () => void;
   onPause?: () => void;
   onStartGeneration?: () => void;
+  onResume?: () => void;
 }) {
   const getStatusIcon = () => {
     switch (assignment.status) {
@@ -307,6 +319,8 @@ function AssignmentCard({
         return <CircleCheck className="w-5 h-5" />;
       case 'FAILED':
         return <CircleAlert className="w-5 h-5" />;
+      case 'CANCELLED':
+        return <CircleX className="w-5 h-5" />;
     }
   };
 
@@ -322,6 +336,8 @@ function AssignmentCard({
         return 'Completed';
       case 'FAILED':
         return 'Failed';
+      case 'CANCELLED':
+        return 'Cancelled';
     }
   };
 
@@ -386,6 +402,15 @@ function AssignmentCard({
           >
             Start Generation
           </Button>
+        ) : (assignment.status === 'FAILED' || assignment.status === 'CANCELLED') && onResume ? (
+          <Button
+            onClick={onResume}
+            className="flex-1 bg-black text-white py-2 hover:bg-gray-800 border-0 min-h-[44px]"
+            title="Continue from the last saved section"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Resume
+          </Button>
         ) : (
           <Button
             onClick={onView}
@@ -1,15 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { api } from '../services/api';
+import { api, assignmentsApi, JobWebSocket } from '../services/api';
 import { Button } from './ui/button';
 import { 
   ArrowLeft, Clock, CheckCircle, XCircle, AlertCircle,
-  RefreshCw, Download, Eye, Users, Zap, Loader2
+  RefreshCw, Download, Eye, Users, Zap, Loader2, Ban
 } from 'lucide-react';
+import { toast } from 'sonner';
 
 interface GenerationJob {
   id: string;
   assignmentId: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   currentStep: string;
   queuePosition: number | null;
@@ -39,22 +40,65 @@ const STEPS = [
   { id: 'completed', label: 'Complete', icon: CheckCircle }
 ];
 
+// Map the backend status response onto the page's job shape
+function toJob(data: any, prev: GenerationJob | null): GenerationJob {
+  const blocksCompleted = data.progress?.blocksCompleted ?? 0;
+  const totalBlocks = data.progress?.totalBlocks || 1;
+  const status: GenerationJob['status'] =
+    data.status === 'COMPLETED' ? 'completed' :
+    data.status === 'FAILED' ? 'failed' :
+    data.status === 'CANCELLED' ? 'cancelled' :
+    data.queuePosition ? 'queued' : 'processing';
+
+  return {
+    id: data.id,
+    assignmentId: data.assignmentId,
+    status,
+    progress: status === 'completed' ? 100 : Math.round((blocksCompleted / totalBlocks) * 100),
+    currentStep: prev?.currentStep || data.currentStage || 'planning',
+    queuePosition: data.queuePosition ?? null,
+    estimatedTime: null,
+    startedAt: data.startedAt,
+    completedAt: data.completedAt,
+    error: data.error,
+    logs: prev?.logs || [],
+    preview: prev?.preview || null,
+  };
+}
+
+// Outline item keys (criterion_A.P1) and pipeline stages -> step names
+function stepFor(stage: string): string {
+  if (stage === 'planning') return 'planning';
+  if (stage === 'assembling') return 'building_document';
+  return `generating_${stage}`;
+}
+
 export function MonitorPage({ assignmentId, onBack, onComplete }: MonitorPageProps) {
   const [job, setJob] = useState<GenerationJob | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
   const logsEndRef = useRef<HTMLDivElement>(null);
-  const wsRef = useRef<WebSocket | null>(null);
+  const jobRef = useRef<GenerationJob | null>(null);
+  jobRef.current = job;
 
   useEffect(() => {
     loadJob();
-    connectWebSocket();
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
+    const ws = connectWebSocket();
+
+    // Polling fallback in case the live connection drops or is blocked by a proxy
+    const pollInterval = setInterval(() => {
+      const status = jobRef.current?.status;
+      if (status !== 'completed' && status !== 'failed' && status !== 'cancelled') {
+        loadJob();
       }
+    }, 10000);
+
+    return () => {
+      ws?.disconnect();
+      clearInterval(pollInterval);
     };
   }, [assignmentId]);
 
@@ -65,10 +109,11 @@ export function MonitorPage({ assignmentId, onBack, onComplete }: MonitorPagePro
 
   const loadJob = async () => {
     try {
-      const data = await api.get(`/generation/status/${assignmentId}`) as GenerationJob;
-      setJob(data);
+      const data = await api.get(`/generation/status/${assignmentId}`);
+      const next = toJob(data, jobRef.current);
+      setJob(next);
       
-      if (data.status === 'completed') {
+      if (next.status === 'completed') {
         onComplete();
       }
     } catch (err) {
@@ -78,53 +123,84 @@ export function MonitorPage({ assignmentId, onBack, onComplete }: MonitorPagePro
     }
   };
 
-  const connectWebSocket = () => {
-    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = `${protocol}//${window.location.host}/ws/generation/${assignmentId}`;
-    
-    try {
-      const ws = new WebSocket(wsUrl);
-      wsRef.current = ws;
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          setJob(prev => prev ? { ...prev, ...data } : data);
-          
-          if (data.status === 'completed') {
-            setTimeout(onComplete, 1500);
-          }
-        } catch (e) {
-          console.error('Failed to parse WebSocket message:', e);
-        }
-      };
-
-      ws.onclose = () => {
-        // Reconnect after 3 seconds if not completed
-        setTimeout(() => {
-          if (job?.status !== 'completed' && job?.status !== 'failed') {
-            connectWebSocket();
-          }
-        }, 3000);
-      };
-
-      ws.onerror = () => {
-        // Fall back to polling
-        const pollInterval = setInterval(async () => {
-          await loadJob();
-          if (job?.status === 'completed' || job?.status === 'failed') {
-            clearInterval(pollInterval);
-          }
-        }, 5000);
-      };
-    } catch (e) {
-      // WebSocket not supported, use polling
-      const pollInterval = setInterval(async () => {
-        await loadJob();
-        if (job?.status === 'completed' || job?.status === 'failed') {
-          clearInterval(pollInterval);
+  const appendLog = (prev: GenerationJob | null, message: string, level = 'info'): GenerationJob | null => {
+    if (!prev) return prev;
+    return {
+      ...prev,
+      logs: [...prev.logs, { timestamp: new Date().toISOString(), message, level }].slice(-200),
+    };
+  };
+
+  const connectWebSocket = (): JobWebSocket | null => {
+    const token = localStorage.getItem('btec_token');
+    if (!token) return null;
+
+    const ws = new JobWebSocket(assignmentId);
+
+    ws.onProgress((data) => {
+      setJob(prev => {
+        if (!prev) return prev;
+        return appendLog({
+          ...prev,
+          status: 'processing',
+          queuePosition: null,
+          progress: data.progress ?? prev.progress,
+          currentStep: stepFor(data.stage),
+          preview: data.wordCount !== undefined
+            ? { introduction: null, wordCount: data.wordCount, sections: data.completedItems ?? 0 }
+            : prev.preview,
+        }, `Started ${data.stage.replace(/_/g, ' ')}`);
+      });
+    });
+
+    ws.onStageComplete((data) => {
+      const suffix = data.reused ? ' (saved)' : data.tokensUsed !== undefined ? ` - ${data.tokensUsed.toLocaleString()} tokens so far` : '';
+      setJob(prev => appendLog(prev, `Finished ${data.stage.replace(/_/g, ' ')}${suffix}`, 'success'));
+    });
+
+    ws.onComplete((data) => {
+      setJob(prev => prev && appendLog({
+        ...prev,
+        status: 'completed',
+        progress: 100,
+        completedAt: new Date().toISOString(),
+      }, `Generation complete - ${data.wordCount.toLocaleString()} words, ${data.totalTokens.toLocaleString()} tokens`, 'success'));
+      setTimeout(onComplete, 1500);
+    });
+
+    ws.onError((data) => {
+      setJob(prev => {
+        if (!prev) return prev;
+        if (data.recoverable) {
+          return appendLog(prev, `${data.error} - retrying`, 'warning');
         }
-      }, 5000);
+        return appendLog({ ...prev, status: 'failed', error: data.error }, data.error, 'error');
+      });
+    });
+
+    ws.onCancelled((data) => {
+      setJob(prev => prev && appendLog(
+        { ...prev, status: 'cancelled' },
+        `Generation cancelled - ${data.tokensCharged.toLocaleString()} tokens charged for finished sections`,
+        'warning'
+      ));
+    });
+
+    ws.connect(token);
+    return ws;
+  };
+
+  const handleCancel = async () => {
+    if (!confirm('Cancel this generation? Finished sections are kept and only their tokens are charged.')) return;
+    setCancelling(true);
+    try {
+      const result = await assignmentsApi.cancelGeneration(assignmentId);
+      setJob(prev => prev && appendLog({ ...prev, status: 'cancelled' }, 'Cancellation requested', 'warning'));
+      toast.success(result.message || 'Generation cancelled');
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to cancel the generation');
+    } finally {
+      setCancelling(false);
     }
   };
 
@@ -132,7 +208,7 @@ export function MonitorPage({ assignmentId, onBack, onComplete }: MonitorPagePro
     if (!job) return 0;
     if (job.status === 'queued') return 0;
     if (job.status === 'completed') return 4;
-    if (job.status === 'failed') return -1;
+    if (job.status === 'failed' || job.status === 'cancelled') return -1;
     
     // Map currentStep to step index
     const stepMap: Record<string, number> = {
@@ -221,6 +297,7 @@ export function MonitorPage({ assignmentId, onBack, onComplete }: MonitorPagePro
         {/* Status Card */}
         <div className={`bg-white border-2 p-6 mb-6 ${
           job?.status === 'failed' ? 'border-red-500' :
+          job?.status === 'cancelled' ? 'border-gray-400' :
           job?.status === 'completed' ? 'border-green-500' :
           'border-black'
         }`}>
@@ -283,6 +360,12 @@ export function MonitorPage({ assignmentId, onBack, onComplete }: MonitorPagePro
                 <h2 className="text-2xl font-bold text-red-700">Generation Failed</h2>
                 <p className="text-red-600 mt-2">{job.error || 'An unexpected error occurred.'}</p>
               </>
+            ) : job?.status === 'cancelled' ? (
+              <>
+                <Ban className="w-16 h-16 text-gray-500 mx-auto mb-4" />
+                <h2 className="text-2xl font-bold text-gray-700">Generation Cancelled</h2>
+                <p className="text-gray-600 mt-2">Finished sections are kept and you can resume from the dashboard.</p>
+              </>
             ) : (
               <>
                 <div className="w-16 h-16 border-4 border-black border-t-transparent rounded-full animate-spin mx-auto mb-4" />
@@ -395,6 +478,32 @@ export function MonitorPage({ assignmentId, onBack, onComplete }: MonitorPagePro
           </div>
         )}
 
+        {(job?.status === 'queued' || job?.status === 'processing') && (
+          <div className="mt-6 flex justify-center">
+            <Button
+              onClick={handleCancel}
+              disabled={cancelling}
+              variant="outline"
+              className="border-2 border-black"
+            >
+              {cancelling ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Ban className="w-4 h-4 mr-2" />}
+              Cancel Generation
+            </Button>
+          </div>
+        )}
+
+        {job?.status === 'cancelled' && (
+          <div className="mt-6 flex justify-center gap-4">
+            <Button 
+              onClick={onBack}
+              variant="outline"
+              className="border-2 border-black"
+            >
+              Go Back
+            </Button>
+          </div>
+        )}
+
         {job?.status === 'failed' && (
           <div className="mt-6 flex justify-center gap-4">
             <Button 
@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { assignmentsApi, PlanOutlineItem, PlanPreview as PlanPreviewData } from '../services/api';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { ArrowUp, ArrowDown, Plus, Trash2, Loader2, ListTree, RefreshCw, Save } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PlanPreviewProps {
+  assignmentId: string;
+}
+
+// Mirrors MAX_CUSTOM_SECTIONS in the planner
+const MAX_CUSTOM_SECTIONS = 5;
+
+function itemLabel(item: PlanOutlineItem): string {
+  switch (item.type) {
+    case 'LEARNING_AIM':
+      return item.aimTitle || `Learning Aim ${item.aimCode}`;
+    case 'TASK':
+      return item.taskTitle || `Task ${item.taskNumber}`;
+    case 'CRITERION':
+      return item.criterionTitle || item.criterionCode || 'Criterion';
+    default:
+      return item.title || item.type.charAt(0) + item.type.slice(1).toLowerCase();
+  }
+}
+
+// Headings sit flush, the content under them is indented
+function itemIndent(item: PlanOutlineItem): string {
+  if (item.type === 'CRITERION') return 'ml-8';
+  if (item.type === 'TASK') return 'ml-4';
+  return '';
+}
+
+/**
+ * Outline-only dry run: shows the planned sections, tables and token estimate
+ * before any content is written. Students can reorder sections, drop tables
+ * and add their own sections; generation writes the saved plan.
+ */
+export function PlanPreview({ assignmentId }: PlanPreviewProps) {
+  const [preview, setPreview] = useState<PlanPreviewData | null>(null);
+  const [outline, setOutline] = useState<PlanOutlineItem[]>([]);
+  const [keptTables, setKeptTables] = useState<Set<string>>(new Set());
+  const [customTitle, setCustomTitle] = useState('');
+  const [customDescription, setCustomDescription] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  const applyPreview = (data: PlanPreviewData) => {
+    setPreview(data);
+    setOutline(data.plan.documentOutline);
+    setKeptTables(new Set(data.plan.tablesRequired.map((table) => table.criterionCode)));
+    setDirty(false);
+  };
+
+  const loadPreview = async (refresh = false) => {
+    if (refresh && !confirm('Plan the outline again? Re-planning uses tokens and your changes to the current plan will be lost.')) return;
+    setLoading(true);
+    try {
+      applyPreview(await assignmentsApi.previewPlan(assignmentId, refresh));
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to preview the plan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...outline];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setOutline(next);
+    setDirty(true);
+  };
+
+  const removeCustom = (index: number) => {
+    setOutline(outline.filter((_, idx) => idx !== index));
+    setDirty(true);
+  };
+
+  const addCustom = () => {
+    if (!customTitle.trim()) return;
+    // New sections go before the conclusion, or before the references
+    const conclusion = outline.findIndex((item) => item.type === 'CONCLUSION');
+    const at = conclusion >= 0 ? conclusion : outline.length - 1;
+    const next = [...outline];
+    next.splice(at, 0, {
+      type: 'CUSTOM',
+      title: customTitle.trim(),
+      customDescription: customDescription.trim() || undefined,
+    });
+    setOutline(next);
+    setCustomTitle('');
+    setCustomDescription('');
+    setDirty(true);
+  };
+
+  const toggleTable = (criterionCode: string) => {
+    const next = new Set(keptTables);
+    if (next.has(criterionCode)) next.delete(criterionCode);
+    else next.add(criterionCode);
+    setKeptTables(next);
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      applyPreview(await assignmentsApi.updatePlan(assignmentId, {
+        documentOutline: outline,
+        tablesRequired: [...keptTables].map((criterionCode) => ({ criterionCode })),
+      }));
+      toast.success('Plan saved - generation will follow this outline');
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to save the plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!preview) {
+    return (
+      <div className="mt-8 pt-6 border-t border-white/10 flex items-center justify-between gap-4">
+        <div>
+          <p className="text-white font-medium">Preview the Outline</p>
+          <p className="text-white/60 text-sm">See the sections, tables and token cost before anything is written</p>
+        </div>
+        <Button variant="outline" onClick={() => loadPreview()} disabled={loading}>
+          {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ListTree className="mr-2 h-4 w-4" />}
+          Preview Plan
+        </Button>
+      </div>
+    );
+  }
+
+  const customCount = outline.filter((item) => item.type === 'CUSTOM').length;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-white/10 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-white font-medium">Planned Outline</p>
+          <p className="text-white/60 text-sm">
+            About {preview.estimate.totalTokens.toLocaleString()} tokens
+            {` (${preview.estimate.recommendedTokens.toLocaleString()} reserved)`}
+            {preview.edited && ' - edited plan'}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => loadPreview(true)} disabled={loading || saving}>
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            <span className="ml-1">Re-plan</span>
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!dirty || saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            <span className="ml-1">Save Plan</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {outline.map((item, idx) => {
+          const fixed = item.type === 'INTRODUCTION' || item.type === 'REFERENCES';
+          return (
+            <div
+              key={`${item.type}-${item.aimCode || ''}-${item.taskNumber || ''}-${item.criterionCode || ''}-${item.customNumber || idx}`}
+              className={`flex items-center justify-between gap-2 px-3 py-2 rounded bg-slate-900/50 ${itemIndent(item)}`}
+            >
+              <div className="min-w-0">
+                <p className={`text-sm truncate ${item.type === 'CUSTOM' ? 'text-blue-300' : 'text-white/90'}`}>
+                  {itemLabel(item)}
+                </p>
+                {item.customDescription && (
+                  <p className="text-xs text-white/50 truncate">{item.customDescription}</p>
+                )}
+              </div>
+              {!fixed && (
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-white/70"
+                    disabled={idx <= 1}
+                    onClick={() => move(idx, -1)}
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-white/70"
+                    disabled={idx >= outline.length - 2}
+                    onClick={() => move(idx, 1)}
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  {item.type === 'CUSTOM' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-white/70"
+                      onClick={() => removeCustom(idx)}
+                      title="Remove section"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {preview.plan.tablesRequired.length > 0 && (
+        <div>
+          <p className="text-white/80 text-sm font-medium mb-2">Tables</p>
+          <div className="space-y-1">
+            {preview.plan.tablesRequired.map((table) => (
+              <label key={table.criterionCode} className="flex items-center gap-2 text-sm text-white/80">
+                <input
+                  type="checkbox"
+                  checked={keptTables.has(table.criterionCode)}
+                  onChange={() => toggleTable(table.criterionCode)}
+                />
+                {table.tableType} table for {table.criterionCode}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {customCount < MAX_CUSTOM_SECTIONS && (
+        <div className="space-y-2">
+          <p className="text-white/80 text-sm font-medium">Add Your Own Section</p>
+          <Input
+            value={customTitle}
+            onChange={(e) => setCustomTitle(e.target.value)}
+            placeholder="Section title, e.g. Testing Evidence"
+            maxLength={120}
+          />
+          <Textarea
+            value={customDescription}
+            onChange={(e) => setCustomDescription(e.target.value)}
+            placeholder="What should this section cover? (optional)"
+            maxLength={1000}
+            rows={2}
+          />
+          <Button variant="outline" size="sm" onClick={addCustom} disabled={!customTitle.trim()}>
+            <Plus className="h-4 w-4" />
+            <span className="ml-1">Add Section</span>
+          </Button>
+        </div>
+      )}
+
+      {dirty && (
+        <p className="text-amber-300 text-xs">Save the plan to use these changes when generating.</p>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { useAssignments } from '../context/AssignmentContext';
 import { Button } from './ui/button';
-import { ArrowLeft, Download, Trash2, TriangleAlert, FileText, Calendar, Target, CheckCircle } from 'lucide-react';
+import { ArrowLeft, Download, Trash2, TriangleAlert, FileText, Calendar, Target, CheckCircle, Pencil } from 'lucide-react';
 import { WritingGuidance } from './WritingGuidance';
-import { assignmentsApi } from '../services/api';
+import { assignmentsApi, exportApi, ExportFormatInfo, generationApi, GenerationContentBlock } from '../services/api';
+import { BlockEditor } from './BlockEditor';
+import { BlockContent, blockTitle } from './BlockContent';
 
 interface ReviewPageProps {
   assignmentId: string;
@@ -19,6 +21,9 @@ export function ReviewPage({ assignmentId, onNavigate }: ReviewPageProps) {
   const { getAssignment, deleteAssignment, fetchAssignments } = useAssignments();
   const [isExporting, setIsExporting] = useState(false);
   const [assignment, setAssignment] = useState(getAssignment(assignmentId));
+  const [blocks, setBlocks] = useState<GenerationContentBlock[]>([]);
+  const [editingSection, setEditingSection] = useState<string | null>(null);
+  const [otherFormats, setOtherFormats] = useState<ExportFormatInfo[]>([]);
 
   // Refresh assignment when it completes
   useEffect(() => {
@@ -46,6 +51,25 @@ export function ReviewPage({ assignmentId, onNavigate }: ReviewPageProps) {
   // Allow download as soon as status is COMPLETED - backend will generate DOCX if needed
   const canDownload = assignment?.status === 'COMPLETED';
 
+  // Stored content blocks - shown and editable once generation has completed
+  useEffect(() => {
+    if (!canDownload) return;
+    generationApi.getContent(assignmentId)
+      .then((data) => setBlocks([...data.blocks].sort((a, b) => a.blockOrder - b.blockOrder)))
+      .catch((error) => console.error('[REVIEW] Failed to load content blocks:', error));
+  }, [assignmentId, canDownload]);
+
+  // Formats besides DOCX (which keeps its own button)
+  useEffect(() => {
+    exportApi.getFormats()
+      .then((data) => setOtherFormats(data.formats.filter((format) => format.id !== 'docx')))
+      .catch((error) => console.error('[REVIEW] Failed to load export formats:', error));
+  }, []);
+
+  const handleBlockSaved = (sectionId: string, content: string) => {
+    setBlocks((prev) => prev.map((b) => (b.sectionId === sectionId ? { ...b, content } : b)));
+  };
+
   const handleExportClick = async () => {
     if (!canDownload) {
       alert('Assignment must be completed before downloading');
@@ -79,6 +103,26 @@ export function ReviewPage({ assignmentId, onNavigate }: ReviewPageProps) {
     }
   };
 
+  const handleFormatExport = async (format: ExportFormatInfo) => {
+    setIsExporting(true);
+    try {
+      const blob = await exportApi.download(assignmentId, format.id);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Assignment_${assignment?.title || assignmentId}.${format.extension}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Export error:', error);
+      alert(error.message || `Failed to export as ${format.label}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (window.confirm('Are you sure you want to delete this assignment? This cannot be undone.')) {
       try {
@@ -149,6 +193,18 @@ export function ReviewPage({ assignmentId, onNavigate }: ReviewPageProps) {
                   {isExporting ? '...' : canDownload ? 'Download' : 'Wait'}
                 </span>
               </Button>
+              {canDownload && otherFormats.map((format) => (
+                <Button
+                  key={format.id}
+                  onClick={() => handleFormatExport(format)}
+                  disabled={isExporting}
+                  variant="outline"
+                  className="border-2 border-black bg-white hover:bg-black hover:text-white transition-colors min-h-[44px]"
+                  title={`Download as ${format.label}`}
+                >
+                  .{format.extension.toUpperCase()}
+                </Button>
+              ))}
               <Button
                 onClick={handleDelete}
                 variant="outline"
@@ -261,44 +317,85 @@ export function ReviewPage({ assignmentId, onNavigate }: ReviewPageProps) {
                 Content Preview
               </h2>
 
-              {/* Mock Content */}
-              <div className="space-y-6 text-sm">
-                <ContentSection 
-                  title="Introduction"
-                  content="This assignment explores the fundamental concepts and principles of [subject area]. Through a comprehensive analysis of key theories and practical applications, this work demonstrates an understanding of [core concepts]. The assignment is structured to address all required criteria, progressing from foundational knowledge to critical evaluation and reflection."
-                />
-
-                <ContentSection 
-                  title={`P1: ${getMockCriterionTitle('P1', assignment.level)}`}
-                  content="[AI-generated content for Pass criterion 1 would appear here. This section typically includes definitions, explanations, and basic examples demonstrating foundational understanding of key concepts. In the actual export, this would be 500-800 words with proper paragraphs, examples, and potentially diagrams or tables.]"
-                />
-
-                <ContentSection 
-                  title={`P2: ${getMockCriterionTitle('P2', assignment.level)}`}
-                  content="[AI-generated content for Pass criterion 2 would continue here with additional explanations, step-by-step processes, and real-world applications. The full exported document contains complete, detailed content for each criterion.]"
-                />
+              {blocks.length > 0 ? (
+                <div className="space-y-6 text-sm">
+                  {blocks.map((block) => (
+                    <div key={block.id}>
+                      <div className="flex items-center justify-between gap-2 mb-3 pb-2 border-b-2 border-gray-200">
+                        <h3 className="text-lg capitalize" style={{ fontWeight: 600 }}>
+                          {blockTitle(block)}
+                        </h3>
+                        {editingSection !== block.sectionId && (
+                          <Button
+                            onClick={() => setEditingSection(block.sectionId)}
+                            variant="outline"
+                            className="border-2 border-black bg-white hover:bg-black hover:text-white transition-colors flex items-center gap-2"
+                          >
+                            <Pencil className="w-4 h-4" />
+                            Edit
+                          </Button>
+                        )}
+                      </div>
+                      {editingSection === block.sectionId ? (
+                        <BlockEditor
+                          assignmentId={assignmentId}
+                          block={block}
+                          onSaved={(content) => handleBlockSaved(block.sectionId, content)}
+                          onClose={() => setEditingSection(null)}
+                        />
+                      ) : (
+                        <div className="text-gray-700 leading-relaxed">
+                          <BlockContent block={block} />
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  <div className="border-2 border-gray-300 bg-gray-50 p-4 text-center">
+                    <p className="text-xs text-gray-600">
+                      Your edits are saved automatically and included in the exported document.
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                // Mock content until the stored blocks are available
+                <div className="space-y-6 text-sm">
+                  <ContentSection 
+                    title="Introduction"
+                    content="This assignment explores the fundamental concepts and principles of [subject area]. Through a comprehensive analysis of key theories and practical applications, this work demonstrates an understanding of [core concepts]. The assignment is structured to address all required criteria, progressing from foundational knowledge to critical evaluation and reflection."
+                  />
 
-                {assignment.targetGrade !== 'PASS' && (
                   <ContentSection 
-                    title="M1: Comparative Analysis"
-                    content="[Merit-level content includes comparative analysis, justifications, and evidence-based arguments. This section would contain detailed comparisons between different approaches, theories, or methodologies with supporting evidence.]"
+                    title={`P1: ${getMockCriterionTitle('P1', assignment.level)}`}
+                    content="[AI-generated content for Pass criterion 1 would appear here. This section typically includes definitions, explanations, and basic examples demonstrating foundational understanding of key concepts. In the actual export, this would be 500-800 words with proper paragraphs, examples, and potentially diagrams or tables.]"
                   />
-                )}
 
-                {assignment.targetGrade === 'DISTINCTION' && (
                   <ContentSection 
-                    title="D1: Critical Evaluation"
-                    content="[Distinction-level content demonstrates critical thinking, evaluation of effectiveness, and synthesis of multiple frameworks. This section would include counterarguments, reflective analysis, and original conclusions.]"
+                    title={`P2: ${getMockCriterionTitle('P2', assignment.level)}`}
+                    content="[AI-generated content for Pass criterion 2 would continue here with additional explanations, step-by-step processes, and real-world applications. The full exported document contains complete, detailed content for each criterion.]"
                   />
-                )}
 
-                {/* Preview Note */}
-                <div className="border-2 border-gray-300 bg-gray-50 p-4 text-center">
-                  <p className="text-xs text-gray-600">
-                    This is a preview. Export the full document to see complete content.
-                  </p>
+                  {assignment.targetGrade !== 'PASS' && (
+                    <ContentSection 
+                      title="M1: Comparative Analysis"
+                      content="[Merit-level content includes comparative analysis, justifications, and evidence-based arguments. This section would contain detailed comparisons between different approaches, theories, or methodologies with supporting evidence.]"
+                    />
+                  )}
+
+                  {assignment.targetGrade === 'DISTINCTION' && (
+                    <ContentSection 
+                      title="D1: Critical Evaluation"
+                      content="[Distinction-level content demonstrates critical thinking, evaluation of effectiveness, and synthesis of multiple frameworks. This section would include counterarguments, reflective analysis, and original conclusions.]"
+                    />
+                  )}
+
+                  {/* Preview Note */}
+                  <div className="border-2 border-gray-300 bg-gray-50 p-4 text-center">
+                    <p className="text-xs text-gray-600">
+                      This is a preview. Export the full document to see complete content.
+                    </p>
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
 
             {/* Export Again Button */}
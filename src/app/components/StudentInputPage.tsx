@@ -5,6 +5,7 @@ import { Alert, AlertDescription } from './ui/alert';
 import { Loader2, AlertCircle, ArrowLeft, FileEdit, Sparkles } from 'lucide-react';
 import { assignmentsApi } from '../services/api';
 import { StudentInputForm } from './StudentInputForm';
+import { PlanPreview } from './PlanPreview';
 import type { Brief, StudentInputData, InputFieldDefinition } from '../types';
 
 type Page = 'login' | 'dashboard' | 'how-to-use' | 'create' | 'profile' | 'monitor' | 'review' | 'admin' | 'issues' | 'support' | 'tokens' | 'briefs' | 'create-brief' | 'preview' | 'teacher' | 'student-inputs' | 'terms' | 'privacy' | 'disclaimer';
@@ -275,6 +276,11 @@ export function StudentInputPage({ assignmentId, onNavigate }: StudentInputPageP
                 </div>
               </div>
             )}
+
+            {/* Outline dry run once the assignment can be generated */}
+            {(!hasRequiredInputs || inputsComplete) && (
+              <PlanPreview assignmentId={assignmentId} />
+            )}
           </CardContent>
         </Card>
 
@@ -76,6 +76,11 @@ export function TokenBalanceWidget({ onNavigate }: TokenBalanceWidgetProps) {
                 balance.tokensRemaining.toLocaleString()
               )}
             </p>
+            {!isUnlimited && !!balance.tokensReserved && (
+              <p className="text-xs text-gray-500">
+                {balance.tokensReserved.toLocaleString()} held for running generations
+              </p>
+            )}
           </div>
         </div>
         <Badge className={`${planColors[balance.planType]} border`}>
@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { assignmentsApi, AssignmentVersion, VersionComparison } from '../services/api';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { History, GitCompare, RotateCcw, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface VersionHistoryProps {
+  assignmentId: string;
+  canRestore: boolean;
+  onRestored: () => void;
+  refreshKey?: unknown; // Reload when the assignment content changes elsewhere
+}
+
+const SOURCE_LABELS: Record<AssignmentVersion['source'], string> = {
+  GENERATION: 'Generated',
+  REGENERATE_BLOCK: 'Section regenerated',
+  ROLLBACK: 'Section rolled back',
+  EDIT: 'Edited',
+  RESTORE: 'Restored',
+};
+
+function sectionTitle(sectionId: string, criterionCode: string | null): string {
+  if (sectionId.startsWith('criterion_')) return `Criterion ${criterionCode}`;
+  if (sectionId.startsWith('table_')) return `Table for ${criterionCode}`;
+  if (sectionId.startsWith('aim_')) return `Learning Aim ${sectionId.replace('aim_', '')}`;
+  return sectionId.replace(/_/g, ' ');
+}
+
+/**
+ * Assignment versions: list, compare any version with the current one, restore
+ */
+export function VersionHistory({ assignmentId, canRestore, onRestored, refreshKey }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<AssignmentVersion[]>([]);
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [busyVersion, setBusyVersion] = useState<number | null>(null);
+
+  const loadVersions = async () => {
+    try {
+      const data = await assignmentsApi.getVersions(assignmentId);
+      setVersions(data.versions);
+    } catch (err: any) {
+      console.error('[VERSIONS] Failed to load versions:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadVersions();
+  }, [assignmentId, refreshKey]);
+
+  const current = versions.find((v) => v.current);
+
+  const handleCompare = async (version: number) => {
+    if (!current) return;
+    setBusyVersion(version);
+    try {
+      setComparison(await assignmentsApi.compareVersions(assignmentId, version, current.version));
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to compare versions');
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? The current version stays in the history.`)) return;
+    setBusyVersion(version);
+    try {
+      await assignmentsApi.restoreVersion(assignmentId, version);
+      toast.success(`Version ${version} restored`);
+      setComparison(null);
+      onRestored();
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to restore version');
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="p-4 md:p-6 mt-4 md:mt-6">
+      <h3 className="font-bold mb-3 flex items-center gap-2">
+        <History className="h-5 w-5" />
+        Version History
+      </h3>
+
+      <div className="space-y-2">
+        {versions.map((version) => (
+          <div key={version.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border rounded">
+            <div className="text-sm">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-semibold">Version {version.version}</span>
+                <Badge variant="outline">{SOURCE_LABELS[version.source]}</Badge>
+                {version.current && <Badge>Current</Badge>}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {new Date(version.createdAt).toLocaleString()}
+                {version.note && ` - ${version.note}`}
+                {` - ${version.tokensUsed.toLocaleString()} tokens`}
+                {version.modelsUsed.length > 0 && ` - ${version.modelsUsed.join(', ')}`}
+              </p>
+            </div>
+            {!version.current && (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyVersion !== null}
+                  onClick={() => handleCompare(version.version)}
+                >
+                  {busyVersion === version.version ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitCompare className="h-4 w-4" />}
+                  <span className="ml-1">Compare</span>
+                </Button>
+                {canRestore && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyVersion !== null}
+                    onClick={() => handleRestore(version.version)}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    <span className="ml-1">Restore</span>
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {comparison && (
+        <div className="mt-4 border-t pt-4">
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-sm font-semibold">
+              Version {comparison.from.version} → Version {comparison.to.version}: {comparison.changed} changed,{' '}
+              {comparison.added} added, {comparison.removed} removed
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setComparison(null)}>
+              Close
+            </Button>
+          </div>
+          <div className="space-y-3">
+            {comparison.blocks
+              .filter((block) => block.change !== 'UNCHANGED')
+              .map((block) => (
+                <div key={block.sectionId} className="p-3 bg-gray-50 border rounded">
+                  <p className="text-sm font-semibold capitalize mb-2">
+                    {sectionTitle(block.sectionId, block.criterionCode)}{' '}
+                    <span className="text-xs font-normal text-gray-500">({block.change.toLowerCase()})</span>
+                  </p>
+                  <p className="text-sm whitespace-pre-wrap">
+                    {block.diff.map((segment, idx) => (
+                      <span
+                        key={idx}
+                        className={
+                          segment.op === 'insert' ? 'bg-green-100 text-green-800' :
+                          segment.op === 'delete' ? 'bg-red-100 text-red-800 line-through' :
+                          ''
+                        }
+                      >
+                        {segment.text}
+                      </span>
+                    ))}
+                  </p>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
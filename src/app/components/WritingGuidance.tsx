@@ -11,13 +11,16 @@ import {
   ChevronUp,
   GraduationCap,
   Lock,
-  Unlock
+  Unlock,
+  ClipboardList
 } from 'lucide-react';
 import { 
   Assignment, 
   WritingGuidanceData, 
   OverviewGuidance, 
-  CriterionGuidance 
+  CriterionGuidance,
+  EvidenceMatch,
+  EvidenceNote
 } from '../types';
 
 interface WritingGuidanceProps {
@@ -26,6 +29,33 @@ interface WritingGuidanceProps {
   assignment: Assignment;
 }
 
+const EVIDENCE_NOTES: Record<EvidenceNote, string> = {
+  SECTIONS: 'Covered by the sections listed.',
+  WHOLE_REPORT: 'Covered by the report as a whole.',
+  NO_SECTION: 'No section addresses this - add it to your report yourself.',
+  TABLES: 'Covered by the tables listed - check they use your own data.',
+  NO_TABLE: 'No matching table was generated - add one yourself.',
+  FIGURE: 'A figure placeholder marks where it goes - insert your own image there.',
+  CAPTURE: 'Capture this yourself and add it to your report.',
+  SUPPLY: 'This cannot be generated - you need to supply it yourself.',
+};
+
+const evidenceMatchLabel = (match: EvidenceMatch): string => {
+  if (match.title) return match.title;
+  switch (match.source) {
+    case 'INTRODUCTION':
+      return 'Introduction';
+    case 'CONCLUSION':
+      return 'Conclusion';
+    case 'CUSTOM':
+      return 'Additional section';
+    case 'CRITERION':
+      return `${match.kind === 'TABLE' ? 'Table for' : match.kind === 'IMAGE' ? 'Figure for' : 'Criterion'} ${match.code || ''}`;
+    default:
+      return match.label || '';
+  }
+};
+
 /**
  * Assignment Writing Guidance System
  * Teaches students HOW to write, not WHAT to write
@@ -296,6 +326,40 @@ export function WritingGuidance({ grade, level, assignment }: WritingGuidancePro
         </div>
       </div>
 
+      {/* SECTION 3: EVIDENCE CHECKLIST */}
+      {guidance.evidenceChecklist && guidance.evidenceChecklist.length > 0 && (
+        <div className="mt-8">
+          <div className="flex items-center gap-2 mb-4 pb-2 border-b-2 border-black">
+            <ClipboardList className="w-6 h-6 stroke-1" />
+            <h4 className="text-xl font-semibold">Evidence Checklist</h4>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            Your brief asks for the evidence below. Tick off the items you still have to supply yourself as you add them.
+          </p>
+
+          <div className="space-y-2">
+            {guidance.evidenceChecklist.map((entry, idx) => (
+              <div key={idx} className="p-3 bg-white border-2 border-gray-300">
+                {entry.status === 'COVERED' ? (
+                  <div className="flex items-start gap-2 p-2">
+                    <CheckCircle className="w-4 h-4 mt-1 stroke-1 text-green-600" />
+                    <span className="text-gray-700">{entry.item}</span>
+                  </div>
+                ) : (
+                  <ChecklistItem text={entry.item} />
+                )}
+                <p className="text-xs text-gray-500 ml-8">
+                  {entry.status === 'MISSING' && <strong className="text-red-600">Supply yourself: </strong>}
+                  {entry.status === 'PLACEHOLDER' && <strong className="text-orange-600">Placeholder: </strong>}
+                  {entry.matches.length > 0 && `${entry.matches.map(evidenceMatchLabel).join(', ')} - `}
+                  {entry.noteCode ? EVIDENCE_NOTES[entry.noteCode] : entry.note}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Footer Notice */}
       <div className="mt-8 p-4 bg-blue-50 border-l-4 border-blue-500 rounded">
         <p className="text-sm text-blue-800">
@@ -38,6 +38,15 @@ interface AnalyticsData {
   };
 }
 
+interface LanguageMismatchRow {
+  aiModel: string;
+  checks: number;
+  mismatches: number;
+  mismatchRate: number;
+}
+
+const PERIOD_DAYS = { '24h': 1, '7d': 7, '30d': 30, '90d': 90, '1y': 365 } as const;
+
 interface RecapData {
   period: string;
   assignments: {
@@ -58,6 +67,7 @@ interface RecapData {
 export function AdminAnalyticsTab() {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [recap, setRecap] = useState<any>(null);
+  const [languageByModel, setLanguageByModel] = useState<LanguageMismatchRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [tokenPeriod, setTokenPeriod] = useState<'24h' | '7d' | '30d' | '90d' | '1y'>('7d');
   const [recapPeriod, setRecapPeriod] = useState<'weekly' | 'monthly' | 'yearly'>('weekly');
@@ -73,10 +83,12 @@ export function AdminAnalyticsTab() {
   const loadAnalytics = async () => {
     setLoading(true);
     try {
-      const [analyticsData, tokenData] = await Promise.all([
+      const [analyticsData, tokenData, aiData] = await Promise.all([
         adminApi.getStats(),
-        adminApi.getTokenAnalytics(tokenPeriod)
+        adminApi.getTokenAnalytics(tokenPeriod),
+        adminApi.getAIAnalytics(PERIOD_DAYS[tokenPeriod]).catch(() => null)
       ]);
+      setLanguageByModel(aiData?.languageByModel || []);
       
       // Map token data from backend format to frontend format
       const tokenUsage = {
@@ -314,6 +326,31 @@ export function AdminAnalyticsTab() {
         </div>
       )}
 
+      {/* Output Language by Model */}
+      <div className="bg-white border-2 border-black p-4 md:p-6">
+        <h3 className="font-bold text-base md:text-lg mb-1">Output Language Mismatches</h3>
+        <p className="text-xs md:text-sm text-gray-500 mb-4">
+          Blocks, tables and guidance sections not written in the assignment language (rewrites included)
+        </p>
+        {languageByModel.length > 0 ? (
+          <div className="space-y-2">
+            {languageByModel.map((row) => (
+              <div key={row.aiModel} className="flex justify-between items-center text-xs md:text-sm gap-3">
+                <span className="font-mono truncate">{row.aiModel}</span>
+                <span className="flex items-center gap-3 shrink-0">
+                  <span className="text-gray-500">{row.mismatches} / {row.checks}</span>
+                  <span className={`font-bold ${row.mismatchRate >= 10 ? 'text-red-600' : 'text-green-600'}`}>
+                    {row.mismatchRate.toFixed(1)}%
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500">No language checks in this period</p>
+        )}
+      </div>
+
       {/* Weekly/Monthly Recap */}
       <div className="bg-white border-2 border-black p-4 md:p-6">
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4 md:mb-6">
@@ -1,12 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { adminApi } from '../../services/api';
+import { adminApi, exportApi } from '../../services/api';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { 
   Search, RefreshCw, FileText, Download, Eye, 
   RotateCcw, XCircle, CheckCircle, Clock, AlertTriangle,
-  ChevronLeft, ChevronRight, SlidersHorizontal, Play,
-  Trash2, CheckSquare, Square
+  ChevronLeft, ChevronRight, SlidersHorizontal, Play, Pause,
+  Trash2, CheckSquare, Square, Ban
 } from 'lucide-react';
 
 interface Assignment {
@@ -16,6 +16,7 @@ interface Assignment {
   language: string;
   createdAt: string;
   completedAt: string | null;
+  pausedAt?: string | null;
   snapshot: {
     unitName: string;
     unitNumber: string;
@@ -127,8 +128,20 @@ export function AdminAssignmentsTab() {
     }
   };
 
+  const handleResumeFailed = async (id: string) => {
+    setActionLoading(id);
+    try {
+      await adminApi.resumeAssignment(id);
+      await loadAssignments();
+    } catch (error) {
+      alert('Failed to resume: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleCancel = async (id: string) => {
-    if (!confirm('Cancel this generation? The user will need to regenerate.')) return;
+    if (!confirm('Cancel this generation? Finished sections are kept and the user can resume.')) return;
     setActionLoading(id);
     try {
       await adminApi.cancelAssignment(id);
@@ -140,6 +153,22 @@ export function AdminAssignmentsTab() {
     }
   };
 
+  const handleTogglePause = async (assignment: Assignment) => {
+    setActionLoading(assignment.id);
+    try {
+      if (assignment.pausedAt) {
+        await adminApi.resumeAssignment(assignment.id);
+      } else {
+        await adminApi.pauseAssignment(assignment.id);
+      }
+      await loadAssignments();
+    } catch (error) {
+      alert('Failed to update generation: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const handleExport = async () => {
     try {
       const blob = await adminApi.exportAssignments(filters);
@@ -227,6 +256,7 @@ export function AdminAssignmentsTab() {
       case 'COMPLETED': return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'GENERATING': return <Clock className="w-4 h-4 text-blue-500 animate-pulse" />;
       case 'FAILED': return <XCircle className="w-4 h-4 text-red-500" />;
+      case 'CANCELLED': return <Ban className="w-4 h-4 text-gray-500" />;
       case 'DRAFT': return <FileText className="w-4 h-4 text-gray-400" />;
       default: return <Clock className="w-4 h-4 text-gray-400" />;
     }
@@ -374,6 +404,7 @@ export function AdminAssignmentsTab() {
                 <option value="GENERATING">Generating</option>
                 <option value="COMPLETED">Completed</option>
                 <option value="FAILED">Failed</option>
+                <option value="CANCELLED">Cancelled</option>
               </select>
             </div>
             <div>
@@ -496,6 +527,16 @@ export function AdminAssignmentsTab() {
               <div className="flex flex-wrap gap-2 pt-3 border-t">
                 {assignment.status === 'GENERATING' && (
                   <>
+                    <Button
+                      onClick={() => handleTogglePause(assignment)}
+                      disabled={actionLoading === assignment.id}
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 min-h-[44px] border-yellow-500 text-yellow-700"
+                    >
+                      {assignment.pausedAt ? <Play className="w-4 h-4 mr-1" /> : <Pause className="w-4 h-4 mr-1" />}
+                      {assignment.pausedAt ? 'Resume' : 'Pause'}
+                    </Button>
                     <Button
                       onClick={() => handleForceComplete(assignment.id)}
                       disabled={actionLoading === assignment.id}
@@ -518,6 +559,18 @@ export function AdminAssignmentsTab() {
                     </Button>
                   </>
                 )}
+                {(assignment.status === 'FAILED' || assignment.status === 'CANCELLED') && (
+                  <Button
+                    onClick={() => handleResumeFailed(assignment.id)}
+                    disabled={actionLoading === assignment.id}
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 min-h-[44px] border-green-500 text-green-700"
+                  >
+                    <Play className="w-4 h-4 mr-1" />
+                    Resume
+                  </Button>
+                )}
                 {(assignment.status === 'FAILED' || assignment.status === 'COMPLETED') && (
                   <Button
                     onClick={() => handleRegenerate(assignment.id)}
@@ -617,6 +670,9 @@ export function AdminAssignmentsTab() {
                     <td className="p-4 text-center">
                       <div className="flex flex-col items-center gap-1">
                         <StatusBadge status={assignment.status} />
+                        {assignment.status === 'GENERATING' && assignment.pausedAt && (
+                          <span className="text-xs text-yellow-700">Paused</span>
+                        )}
                         {assignment.status === 'GENERATING' && assignment.generationProgress !== undefined && (
                           <div className="w-20 h-1.5 bg-gray-200 rounded-full overflow-hidden">
                             <div 
@@ -640,6 +696,14 @@ export function AdminAssignmentsTab() {
                       <div className="flex justify-end gap-1">
                         {assignment.status === 'GENERATING' && (
                           <>
+                            <button
+                              onClick={() => handleTogglePause(assignment)}
+                              title={assignment.pausedAt ? 'Resume generation' : 'Pause generation'}
+                              disabled={actionLoading === assignment.id}
+                              className="p-2 min-w-[44px] min-h-[44px] flex items-center justify-center hover:bg-yellow-100 rounded text-yellow-600"
+                            >
+                              {assignment.pausedAt ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                            </button>
                             <button
                               onClick={() => handleForceComplete(assignment.id)}
                               title="Force complete"
@@ -659,6 +723,17 @@ export function AdminAssignmentsTab() {
                           </>
                         )}
                         
+                        {(assignment.status === 'FAILED' || assignment.status === 'CANCELLED') && (
+                          <button
+                            onClick={() => handleResumeFailed(assignment.id)}
+                            title="Resume from last checkpoint"
+                            disabled={actionLoading === assignment.id}
+                            className="p-2 min-w-[44px] min-h-[44px] flex items-center justify-center hover:bg-green-100 rounded text-green-600"
+                          >
+                            <Play className="w-4 h-4" />
+                          </button>
+                        )}
+
                         {assignment.status === 'FAILED' && (
                           <button
                             onClick={() => handleRegenerate(assignment.id)}
@@ -756,6 +831,7 @@ function StatusBadge({ status }: { status: string }) {
     GENERATING: 'bg-blue-100 text-blue-800',
     COMPLETED: 'bg-green-100 text-green-800',
     FAILED: 'bg-red-100 text-red-800',
+    CANCELLED: 'bg-gray-200 text-gray-700',
   };
 
   return (
@@ -766,6 +842,33 @@ function StatusBadge({ status }: { status: string }) {
 }
 
 function AssignmentDetailModal({ assignment, onClose }: { assignment: Assignment; onClose: () => void }) {
+  const [exporting, setExporting] = useState<string | null>(null);
+
+  // HTML opens in a new tab for a quick read of the output; Markdown downloads
+  const handleExport = async (format: 'html' | 'markdown') => {
+    setExporting(format);
+    try {
+      const blob = await exportApi.download(assignment.id, format);
+      const url = window.URL.createObjectURL(blob);
+      if (format === 'html') {
+        window.open(url, '_blank');
+        setTimeout(() => window.URL.revokeObjectURL(url), 60000);
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `Assignment_${assignment.snapshot?.unitName || assignment.id}.md`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        window.URL.revokeObjectURL(url);
+      }
+    } catch (error) {
+      alert('Failed to export: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-0 sm:p-4">
       <div className="bg-white border-t-2 sm:border-2 border-black p-4 sm:p-6 w-full sm:max-w-2xl max-h-[90vh] sm:max-h-[80vh] overflow-y-auto rounded-t-xl sm:rounded-xl">
@@ -815,6 +918,29 @@ function AssignmentDetailModal({ assignment, onClose }: { assignment: Assignment
           )}
         </div>
 
+        {assignment.status === 'COMPLETED' && (
+          <div className="grid grid-cols-2 gap-3 mt-4 sm:mt-6">
+            <Button
+              onClick={() => handleExport('html')}
+              disabled={exporting !== null}
+              variant="outline"
+              className="min-h-[44px] border-2 border-black"
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              {exporting === 'html' ? 'Opening...' : 'Open HTML'}
+            </Button>
+            <Button
+              onClick={() => handleExport('markdown')}
+              disabled={exporting !== null}
+              variant="outline"
+              className="min-h-[44px] border-2 border-black"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              {exporting === 'markdown' ? 'Downloading...' : 'Markdown'}
+            </Button>
+          </div>
+        )}
+
         <div className="mt-4 sm:mt-6 pt-4 border-t">
           <Button onClick={onClose} className="w-full min-h-[44px] bg-black text-white hover:bg-gray-800">
             Close
@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { adminApi, ModelRoute, ModelRoutingTable } from '../../services/api';
+import { Button } from '../ui/button';
+import { Cpu, Save, RefreshCw } from 'lucide-react';
+
+const ALL_GRADES = 'ALL';
+
+export function AdminModelRoutingPanel() {
+  const [table, setTable] = useState<ModelRoutingTable>({ purposes: {} });
+  const [defaultModel, setDefaultModel] = useState('');
+  const [purposes, setPurposes] = useState<string[]>([]);
+  const [grades, setGrades] = useState<string[]>([]);
+  const [scope, setScope] = useState(ALL_GRADES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  // Bumped on load so uncontrolled inputs pick up the fresh table
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    loadRouting();
+  }, []);
+
+  const loadRouting = async () => {
+    setLoading(true);
+    try {
+      const data = await adminApi.getModelRouting();
+      setTable(data.table);
+      setDefaultModel(data.defaultModel);
+      setPurposes(data.purposes);
+      setGrades(data.grades);
+      setDirty(false);
+      setVersion(v => v + 1);
+    } catch (error) {
+      console.error('Failed to load model routing:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRoute = (purpose: string): ModelRoute => {
+    const purposeRoute = table.purposes[purpose] || {};
+    if (scope === ALL_GRADES) return purposeRoute;
+    return purposeRoute.grades?.[scope] || {};
+  };
+
+  const updateRoute = (purpose: string, changes: Partial<ModelRoute>) => {
+    const purposeRoute = { ...(table.purposes[purpose] || {}) };
+
+    if (scope === ALL_GRADES) {
+      Object.assign(purposeRoute, changes);
+    } else {
+      purposeRoute.grades = {
+        ...(purposeRoute.grades || {}),
+        [scope]: { ...(purposeRoute.grades?.[scope] || {}), ...changes },
+      };
+    }
+
+    setTable({ purposes: { ...table.purposes, [purpose]: purposeRoute } });
+    setDirty(true);
+  };
+
+  const parseNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await adminApi.updateModelRouting(table);
+      setTable(result.table);
+      setDirty(false);
+    } catch (error) {
+      alert('Failed to save model routing: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border-2 border-black p-4 md:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 className="font-bold flex items-center gap-2">
+          <Cpu className="w-5 h-5" />
+          AI Model Routing
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="border-2 border-black px-2 py-1 text-sm min-h-[36px]"
+          >
+            <option value={ALL_GRADES}>All grades</option>
+            {grades.map(grade => (
+              <option key={grade} value={grade}>{grade} override</option>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" onClick={loadRouting} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={!dirty || saving} className="bg-black text-white">
+            <Save className="w-4 h-4 mr-1" />
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-4">
+        Empty fields inherit from {scope === ALL_GRADES ? 'the pipeline defaults' : 'the all-grades route'}.
+        Default model: <span className="font-mono">{defaultModel}</span>
+      </p>
+
+      <div className="space-y-4">
+        {purposes.map(purpose => {
+          const route = getRoute(purpose);
+          return (
+            <div key={purpose} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center border-b border-gray-200 pb-3">
+              <span className="md:col-span-2 font-mono text-sm font-bold">{purpose}</span>
+              <input
+                value={route.model || ''}
+                onChange={(e) => updateRoute(purpose, { model: e.target.value || undefined })}
+                placeholder={defaultModel}
+                className="md:col-span-4 border border-gray-300 px-2 py-1 text-sm font-mono"
+              />
+              <input
+                type="number"
+                step="0.05"
+                min="0"
+                max="2"
+                value={route.temperature ?? ''}
+                onChange={(e) => updateRoute(purpose, { temperature: parseNumber(e.target.value) })}
+                placeholder="Temp"
+                className="md:col-span-1 border border-gray-300 px-2 py-1 text-sm"
+              />
+              <input
+                type="number"
+                min="1"
+                value={route.maxTokens ?? ''}
+                onChange={(e) => updateRoute(purpose, { maxTokens: parseNumber(e.target.value) })}
+                placeholder="Max tokens"
+                className="md:col-span-2 border border-gray-300 px-2 py-1 text-sm"
+              />
+              <input
+                key={`${purpose}-${scope}-${version}`}
+                defaultValue={(route.fallbackModels || []).join(', ')}
+                onBlur={(e) => {
+                  const models = e.target.value.split(',').map(m => m.trim()).filter(Boolean);
+                  updateRoute(purpose, { fallbackModels: models.length > 0 ? models : undefined });
+                }}
+                placeholder="Fallbacks (comma separated)"
+                className="md:col-span-3 border border-gray-300 px-2 py-1 text-sm font-mono"
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default AdminModelRoutingPanel;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { adminApi } from '../../services/api';
 import { Button } from '../ui/button';
+import { AdminModelRoutingPanel } from './AdminModelRoutingPanel';
 import { 
   RefreshCw, Users, FileText, Play, Pause, AlertCircle, 
   Shield, Crown, User as UserIcon, Activity, Zap, Clock,
@@ -299,6 +300,9 @@ export function AdminOverviewTab() {
         </div>
       </div>
 
+      {/* Model Routing */}
+      <AdminModelRoutingPanel />
+
       {/* Recent Activity */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
         <div className="bg-white border-2 border-black p-4 md:p-6">
@@ -0,0 +1,425 @@
+import React, { useState, useEffect } from 'react';
+import { adminApi, briefsApi, DocumentTemplate, DocumentTemplateInput } from '../../services/api';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { LayoutTemplate, Plus, RefreshCw, Pencil, Trash2, Star, Upload } from 'lucide-react';
+
+// Same values as the built-in DOCX rules
+const EMPTY_TEMPLATE: DocumentTemplateInput = {
+  name: '',
+  description: null,
+  briefId: null,
+  universityName: null,
+  isDefault: false,
+  fontName: 'Times New Roman',
+  fontSize: 14,
+  headingFontSize: 16,
+  lineSpacing: 1.5,
+  firstLineIndentMm: 12.7,
+  marginTopMm: 25.4,
+  marginBottomMm: 25.4,
+  marginLeftMm: 25.4,
+  marginRightMm: 25.4,
+  centerHeadings: true,
+  headingNumbering: 'SECTIONS',
+  coverLayout: 'TITLE_PAGE',
+  includeFrontSheet: true,
+  headerText: null,
+  footerText: null,
+  logo: null,
+};
+
+const NUMBERING_LABELS: Record<DocumentTemplateInput['headingNumbering'], string> = {
+  NONE: 'None (Introduction, A.P1)',
+  SECTIONS: 'Sections (1. Introduction, A.P1)',
+  SECTIONS_AND_CRITERIA: 'Sections and criteria (1. Introduction, 2.1 A.P1)',
+};
+
+const COVER_LABELS: Record<DocumentTemplateInput['coverLayout'], string> = {
+  TITLE_ONLY: 'Title above the contents',
+  TITLE_PAGE: 'Cover page (logo, university, unit, student details)',
+};
+
+type NumericField =
+  | 'fontSize'
+  | 'headingFontSize'
+  | 'lineSpacing'
+  | 'firstLineIndentMm'
+  | 'marginTopMm'
+  | 'marginBottomMm'
+  | 'marginLeftMm'
+  | 'marginRightMm';
+
+interface BriefOption {
+  id: string;
+  unitCode: string;
+  unitName: string;
+  level: number;
+}
+
+export function AdminTemplatesTab() {
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+  const [briefs, setBriefs] = useState<BriefOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ id: string | null; data: DocumentTemplateInput } | null>(null);
+
+  useEffect(() => {
+    loadTemplates();
+    briefsApi.getBriefs()
+      .then((list) => setBriefs(list))
+      .catch((error) => console.error('Failed to load briefs:', error));
+  }, []);
+
+  const loadTemplates = async () => {
+    setLoading(true);
+    try {
+      const data = await adminApi.getTemplates();
+      setTemplates(data.templates);
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEdit = (template: DocumentTemplate) => {
+    const { id, brief: _brief, createdAt: _createdAt, updatedAt: _updatedAt, ...data } = template;
+    setEditing({ id, data });
+  };
+
+  const handleDelete = async (template: DocumentTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Assignments using it fall back to the next matching template.`)) return;
+    try {
+      await adminApi.deleteTemplate(template.id);
+      await loadTemplates();
+    } catch (error) {
+      alert('Failed to delete template: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const handleSaved = async () => {
+    setEditing(null);
+    await loadTemplates();
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="bg-white border-2 border-black p-4 md:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-2">
+          <h3 className="font-bold flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5" />
+            Document Templates
+          </h3>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={loadTemplates} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button size="sm" onClick={() => setEditing({ id: null, data: EMPTY_TEMPLATE })} className="bg-black text-white">
+              <Plus className="w-4 h-4 mr-1" />
+              New Template
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          The DOCX uses the template linked to the brief, then one for the student's university, then the default.
+          Without any of these it follows the built-in rules (Times New Roman 14pt, 1.5 spacing, 1 inch margins, cover page and front sheet).
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-500">Loading templates...</div>
+      ) : templates.length === 0 ? (
+        <div className="bg-white border-2 border-black p-8 text-center text-gray-500">
+          No templates yet - every document uses the built-in rules.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {templates.map((template) => (
+            <div key={template.id} className="bg-white border-2 border-black p-4">
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <h4 className="font-bold truncate flex items-center gap-2">
+                    {template.name}
+                    {template.isDefault && <Star className="w-4 h-4 fill-black" aria-label="Default" />}
+                  </h4>
+                  {template.description && <p className="text-sm text-gray-500">{template.description}</p>}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => handleEdit(template)}
+                    title="Edit"
+                    className="p-2 min-w-[44px] min-h-[44px] flex items-center justify-center hover:bg-gray-100 rounded"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    title="Delete"
+                    className="p-2 min-w-[44px] min-h-[44px] flex items-center justify-center hover:bg-red-100 rounded text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="mt-3 space-y-1 text-sm">
+                {template.brief && (
+                  <p><span className="text-gray-500">Brief:</span> {template.brief.unitCode} - {template.brief.unitName} (Level {template.brief.level})</p>
+                )}
+                {template.universityName && (
+                  <p><span className="text-gray-500">University:</span> {template.universityName}</p>
+                )}
+                <p>
+                  <span className="text-gray-500">Style:</span> {template.fontName} {template.fontSize}pt, line spacing {template.lineSpacing}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <TemplateEditorModal
+          templateId={editing.id}
+          initial={editing.data}
+          briefs={briefs}
+          onClose={() => setEditing(null)}
+          onSaved={handleSaved}
+        />
+      )}
+    </div>
+  );
+}
+
+function TemplateEditorModal({
+  templateId,
+  initial,
+  briefs,
+  onClose,
+  onSaved,
+}: {
+  templateId: string | null;
+  initial: DocumentTemplateInput;
+  briefs: BriefOption[];
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [form, setForm] = useState<DocumentTemplateInput>(initial);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof DocumentTemplateInput>(key: K, value: DocumentTemplateInput[K]) => {
+    setForm((current) => ({ ...current, [key]: value }));
+  };
+
+  const textOrNull = (value: string) => (value.trim() === '' ? null : value);
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      setError('The logo must be a PNG or JPEG image');
+      return;
+    }
+    if (file.size > 500 * 1024) {
+      setError('The logo must be smaller than 500KB');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      update('logo', reader.result as string);
+      setError(null);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Template name is required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      if (templateId) {
+        await adminApi.updateTemplate(templateId, form);
+      } else {
+        await adminApi.createTemplate(form);
+      }
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const numberField = (key: NumericField, label: string, step: string) => (
+    <label className="block">
+      <span className="text-xs text-gray-500">{label}</span>
+      <Input
+        type="number"
+        step={step}
+        value={form[key]}
+        onChange={(e) => update(key, Number(e.target.value))}
+        className="border-2 border-black"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-0 sm:p-4">
+      <div className="bg-white border-t-2 sm:border-2 border-black p-4 sm:p-6 w-full sm:max-w-2xl max-h-[90vh] overflow-y-auto rounded-t-xl sm:rounded-xl">
+        <div className="flex justify-between items-start mb-4 gap-2">
+          <h3 className="font-bold text-lg sm:text-xl">{templateId ? 'Edit Template' : 'New Template'}</h3>
+          <button onClick={onClose} className="text-2xl hover:text-gray-500 min-w-[44px] min-h-[44px] flex items-center justify-center -mr-2 -mt-2">&times;</button>
+        </div>
+
+        <div className="space-y-5">
+          <section className="space-y-3">
+            <label className="block">
+              <span className="text-xs text-gray-500">Name</span>
+              <Input value={form.name} onChange={(e) => update('name', e.target.value)} className="border-2 border-black" />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-500">Description</span>
+              <Input value={form.description || ''} onChange={(e) => update('description', textOrNull(e.target.value))} className="border-2 border-black" />
+            </label>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="font-bold text-sm">Used for</h4>
+            <label className="block">
+              <span className="text-xs text-gray-500">Brief</span>
+              <select
+                value={form.briefId || ''}
+                onChange={(e) => update('briefId', e.target.value || null)}
+                className="w-full border-2 border-black px-2 py-2 text-sm min-h-[40px]"
+              >
+                <option value="">Any brief</option>
+                {briefs.map((brief) => (
+                  <option key={brief.id} value={brief.id}>
+                    {brief.unitCode} - {brief.unitName} (Level {brief.level})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-500">University (matched against the student's profile)</span>
+              <Input value={form.universityName || ''} onChange={(e) => update('universityName', textOrNull(e.target.value))} className="border-2 border-black" />
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.isDefault} onChange={(e) => update('isDefault', e.target.checked)} />
+              Default for everything else
+            </label>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="font-bold text-sm">Typography</h4>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              <label className="block col-span-2 sm:col-span-3">
+                <span className="text-xs text-gray-500">Font</span>
+                <Input value={form.fontName} onChange={(e) => update('fontName', e.target.value)} className="border-2 border-black" />
+              </label>
+              {numberField('fontSize', 'Body size (pt)', '1')}
+              {numberField('headingFontSize', 'Heading size (pt)', '1')}
+              {numberField('lineSpacing', 'Line spacing', '0.05')}
+              {numberField('firstLineIndentMm', 'First line indent (mm)', '0.1')}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="font-bold text-sm">Margins (mm)</h4>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {numberField('marginTopMm', 'Top', '0.1')}
+              {numberField('marginBottomMm', 'Bottom', '0.1')}
+              {numberField('marginLeftMm', 'Left', '0.1')}
+              {numberField('marginRightMm', 'Right', '0.1')}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="font-bold text-sm">Structure</h4>
+            <label className="block">
+              <span className="text-xs text-gray-500">Heading numbering</span>
+              <select
+                value={form.headingNumbering}
+                onChange={(e) => update('headingNumbering', e.target.value as DocumentTemplateInput['headingNumbering'])}
+                className="w-full border-2 border-black px-2 py-2 text-sm min-h-[40px]"
+              >
+                {Object.entries(NUMBERING_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-500">Cover</span>
+              <select
+                value={form.coverLayout}
+                onChange={(e) => update('coverLayout', e.target.value as DocumentTemplateInput['coverLayout'])}
+                className="w-full border-2 border-black px-2 py-2 text-sm min-h-[40px]"
+              >
+                {Object.entries(COVER_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.includeFrontSheet} onChange={(e) => update('includeFrontSheet', e.target.checked)} />
+              BTEC front sheet (criteria, evidence pages, declarations)
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={form.centerHeadings} onChange={(e) => update('centerHeadings', e.target.checked)} />
+              Centre section headings
+            </label>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="font-bold text-sm">Header, footer and logo</h4>
+            <p className="text-xs text-gray-500">
+              {'{unitName}'}, {'{unitCode}'}, {'{page}'} and {'{pages}'} are filled in on every page.
+            </p>
+            <label className="block">
+              <span className="text-xs text-gray-500">Header</span>
+              <Input value={form.headerText || ''} onChange={(e) => update('headerText', textOrNull(e.target.value))} placeholder="{unitCode} - {unitName}" className="border-2 border-black" />
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-500">Footer</span>
+              <Input value={form.footerText || ''} onChange={(e) => update('footerText', textOrNull(e.target.value))} placeholder="Page {page} of {pages}" className="border-2 border-black" />
+            </label>
+            <div className="flex items-center gap-3">
+              {form.logo && <img src={form.logo} alt="Template logo" className="h-12 border border-gray-300" />}
+              <label className="inline-flex items-center gap-2 border-2 border-black px-3 py-2 text-sm cursor-pointer hover:bg-gray-100 min-h-[40px]">
+                <Upload className="w-4 h-4" />
+                {form.logo ? 'Replace logo' : 'Upload logo'}
+                <input type="file" accept="image/png,image/jpeg" onChange={handleLogoUpload} className="hidden" />
+              </label>
+              {form.logo && (
+                <button onClick={() => update('logo', null)} className="text-sm text-red-600 hover:underline">
+                  Remove
+                </button>
+              )}
+            </div>
+          </section>
+
+          {error && (
+            <div className="bg-red-50 p-3 rounded border border-red-200 text-sm text-red-700">{error}</div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mt-6 pt-4 border-t">
+          <Button variant="outline" onClick={onClose} className="min-h-[44px] border-2 border-black">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="min-h-[44px] bg-black text-white hover:bg-gray-800">
+            {saving ? 'Saving...' : 'Save Template'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AdminTemplatesTab;
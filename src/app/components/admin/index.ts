@@ -5,3 +5,5 @@ export { AdminIssuesTab } from './AdminIssuesTab';
 export { AdminAnalyticsTab } from './AdminAnalyticsTab';
 export { AdminLogsTab } from './AdminLogsTab';
 export { AdminPaymentsTab } from './AdminPaymentsTab';
+export { AdminTemplatesTab } from './AdminTemplatesTab';
+export { AdminModelRoutingPanel } from './AdminModelRoutingPanel';
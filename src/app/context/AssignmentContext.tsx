@@ -55,6 +55,8 @@ const mapBackendStatus = (status: string): Assignment['status'] => {
       return 'COMPLETED';
     case 'FAILED':
       return 'FAILED';
+    case 'CANCELLED':
+      return 'CANCELLED';
     default:
       return 'DRAFT';
   }
@@ -27,7 +27,11 @@ const API_BASE_URL = import.meta.env.VITE_API_URL
   ? `${import.meta.env.VITE_API_URL}/api`  // Production: use ngrok URL + /api
   : '/api';  // Development: use Vite proxy
 
-const WS_URL = import.meta.env.DEV ? 'ws://localhost:3000' : window.location.origin.replace(/^http/, 'ws');
+// Live progress socket on the same backend as the REST calls. The Vercel
+// rewrite of /api cannot upgrade WebSockets, so production connects directly.
+const WS_URL = import.meta.env.VITE_API_URL
+  ? `${import.meta.env.VITE_API_URL.replace(/^http/, 'ws')}/api/ws`  // Production: ngrok URL (https -> wss)
+  : `${window.location.origin.replace(/^http/, 'ws')}/api/ws`;  // Development: /api/ws through the Vite proxy
 
 // =============================================================================
 // TYPES
@@ -364,6 +368,72 @@ export const assignmentsApi = {
   startGeneration: (assignmentId: string) =>
     api.post<{ assignment: AssignmentResponse; jobId: string }>(`/assignments/${assignmentId}/generate`, {}, { includeDisclaimer: true }),
 
+  /**
+   * Resume a failed generation from its saved checkpoints
+   */
+  resumeGeneration: (assignmentId: string) =>
+    api.post<{ id: string; jobId: string; status: string; queuePosition: number | null; savedBlocks: number; message: string }>(`/assignments/${assignmentId}/resume`),
+
+  /**
+   * Cancel a running generation - finished sections are kept and charged
+   */
+  cancelGeneration: (assignmentId: string) =>
+    api.post<{ id: string; assignmentId: string; status: string; message: string }>(`/assignments/${assignmentId}/cancel`),
+
+  /**
+   * Regenerate one content block (charges only that block's tokens)
+   */
+  regenerateBlock: (assignmentId: string, sectionId: string, instructions?: string) =>
+    api.post<{ block: GenerationContentBlock; tokensUsed: number; docxUrl: string }>(
+      `/assignments/${assignmentId}/blocks/regenerate`,
+      { sectionId, instructions }
+    ),
+
+  /**
+   * Restore the version of a block replaced by its last regeneration
+   */
+  rollbackBlock: (assignmentId: string, sectionId: string, revisionId?: string) =>
+    api.post<{ block: GenerationContentBlock; docxUrl: string }>(
+      `/assignments/${assignmentId}/blocks/rollback`,
+      { sectionId, revisionId }
+    ),
+
+  /**
+   * Save a manual edit of a block - text, { caption, headers, rows } for
+   * tables or [{ text }] for references
+   */
+  editBlock: (assignmentId: string, sectionId: string, content: EditableBlockContent) =>
+    api.put<{ block: Omit<GenerationContentBlock, 'tokensUsed' | 'generatedAt'>; saved: boolean }>(
+      `/assignments/${assignmentId}/blocks`,
+      { sectionId, content }
+    ),
+
+  getBlockRevisions: (assignmentId: string) =>
+    api.get<{ revisions: BlockRevision[] }>(`/assignments/${assignmentId}/blocks/revisions`),
+
+  getVersions: (assignmentId: string) =>
+    api.get<{ versions: AssignmentVersion[] }>(`/assignments/${assignmentId}/versions`),
+
+  compareVersions: (assignmentId: string, from: number, to: number) =>
+    api.get<VersionComparison>(`/assignments/${assignmentId}/versions/compare?from=${from}&to=${to}`),
+
+  restoreVersion: (assignmentId: string, version: number) =>
+    api.post<{ version: AssignmentVersion }>(`/assignments/${assignmentId}/versions/${version}/restore`),
+
+  /**
+   * Dry run of the planning phase - outline, tables, images and token
+   * estimate, no content written. refresh discards the saved plan.
+   */
+  previewPlan: (assignmentId: string, refresh = false) =>
+    api.post<PlanPreview>(`/assignments/${assignmentId}/plan/preview`, { refresh }),
+
+  /**
+   * Save the reordered outline, custom sections and kept tables/images.
+   * Generation writes the saved plan.
+   */
+  updatePlan: (assignmentId: string, plan: PlanEdits) =>
+    api.put<PlanPreview>(`/assignments/${assignmentId}/plan`, plan),
+
   /**
    * Check if student has completed required inputs
    */
@@ -375,10 +445,20 @@ export const assignmentsApi = {
 // EXPORT API
 // =============================================================================
 
+export interface ExportFormatInfo {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
 export const exportApi = {
-  download: async (assignmentId: string, format: 'docx' | 'pdf' | 'markdown'): Promise<Blob> => {
+  /**
+   * Download a completed assignment in one of the formats from getFormats()
+   */
+  download: async (assignmentId: string, format: string): Promise<Blob> => {
     const token = localStorage.getItem('btec_token');
-    const response = await fetch(`${API_BASE_URL}/export/${assignmentId}?format=${format}`, {
+    const response = await fetch(`${API_BASE_URL}/export/${assignmentId}?format=${encodeURIComponent(format)}`, {
       method: 'GET',
       headers: {
         ...(token && { Authorization: `Bearer ${token}` }),
@@ -386,29 +466,59 @@ export const exportApi = {
     });
 
     if (!response.ok) {
-      throw new Error('Export failed');
+      const error = await response.json().catch(() => ({ message: 'Export failed' }));
+      throw new Error(error.message || 'Export failed');
     }
 
     return response.blob();
   },
 
   getFormats: () =>
-    api.get<{ formats: string[] }>('/export/formats'),
+    api.get<{ formats: ExportFormatInfo[] }>('/export/formats'),
 };
 
 // =============================================================================
 // WEBSOCKET CONNECTION
 // =============================================================================
 
+// Stage is 'planning', 'assembling' or an outline item key (e.g. criterion_A.P1)
+export interface JobProgressEvent {
+  stage: string;
+  progress: number;
+  wordCount?: number;
+  completedItems?: number;
+  totalItems?: number;
+  tokensUsed?: number;
+}
+
+export interface JobStageCompleteEvent {
+  stage: string;
+  reused?: boolean;
+  progress?: number;
+  wordCount?: number;
+  completedItems?: number;
+  totalItems?: number;
+  tokensUsed?: number;
+}
+
+export interface JobCompleteEvent {
+  totalTokens: number;
+  totalBlocks: number;
+  wordCount: number;
+  durationMs: number;
+  hasDocx: boolean;
+}
+
 export class JobWebSocket {
   private socket: WebSocket | null = null;
   private jobId: string;
   private callbacks: {
-    onProgress?: (data: { stage: string; progress: number; wordCount: number }) => void;
-    onStageComplete?: (data: { stage: string; content?: string }) => void;
-    onComplete?: (data: { jobId: string; content: string }) => void;
-    onError?: (data: { error: string; recoverable: boolean }) => void;
+    onProgress?: (data: JobProgressEvent) => void;
+    onStageComplete?: (data: JobStageCompleteEvent) => void;
+    onComplete?: (data: JobCompleteEvent) => void;
+    onError?: (data: { error: string; recoverable: boolean; retryInMs?: number }) => void;
     onApprovalRequired?: (data: { stage: string }) => void;
+    onCancelled?: (data: { tokensCharged: number }) => void;
   } = {};
 
   constructor(jobId: string) {
@@ -416,7 +526,7 @@ export class JobWebSocket {
   }
 
   connect(token: string): void {
-    this.socket = new WebSocket(`${WS_URL}?token=${token}`);
+    this.socket = new WebSocket(`${WS_URL}?token=${encodeURIComponent(token)}`);
 
     this.socket.onopen = () => {
       console.log('WebSocket connected');
@@ -443,6 +553,9 @@ export class JobWebSocket {
           case 'job:approvalRequired':
             this.callbacks.onApprovalRequired?.(data.payload);
             break;
+          case 'job:cancelled':
+            this.callbacks.onCancelled?.(data.payload);
+            break;
         }
       } catch (e) {
         console.error('Failed to parse WebSocket message:', e);
@@ -483,6 +596,11 @@ export class JobWebSocket {
     return this;
   }
 
+  onCancelled(callback: typeof this.callbacks.onCancelled): this {
+    this.callbacks.onCancelled = callback;
+    return this;
+  }
+
   disconnect(): void {
     if (this.socket) {
       this.socket.close();
@@ -571,6 +689,31 @@ export const studentsApi = {
 // BRIEFS API
 // =============================================================================
 
+export interface TokenEstimateItem {
+  key: string;
+  type: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  source: 'history' | 'heuristic';
+  samples: number;
+}
+
+export interface TokenEstimate {
+  briefId: string;
+  unitCode: string;
+  unitName: string;
+  grade: 'PASS' | 'MERIT' | 'DISTINCTION';
+  language: string;
+  includeTables: boolean;
+  items: TokenEstimateItem[];
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  recommendedTokens: number;
+  historyAssignments: number;
+}
+
 export const briefsApi = {
   /**
    * Get all briefs (optionally filter by level or createdById)
@@ -621,6 +764,19 @@ export const briefsApi = {
   async deleteBrief(id: string): Promise<{ success: boolean }> {
     return api.delete(`/briefs/${id}`);
   },
+
+  /**
+   * Predict token usage for generating this brief
+   */
+  async getEstimate(
+    id: string,
+    params: { grade: string; language?: string; includeTables?: boolean }
+  ): Promise<TokenEstimate> {
+    const query = new URLSearchParams({ grade: params.grade });
+    if (params.language) query.append('language', params.language);
+    if (params.includeTables) query.append('includeTables', 'true');
+    return api.get(`/briefs/${id}/estimate?${query}`);
+  },
 };
 
 // =============================================================================
@@ -750,6 +906,16 @@ export const adminApi = {
     ),
 
   // Analytics
+  getAIAnalytics: (days = 7) =>
+    api.get<{
+      totalLogs: number;
+      totalTokens: number;
+      byModel: { aiModel: string; _count: number; _sum: { totalTokens: number | null } }[];
+      byPurpose: { purpose: string; _count: number; _sum: { totalTokens: number | null } }[];
+      // Output language checks of generated blocks and guidance (mismatchRate in %)
+      languageByModel: { aiModel: string; checks: number; mismatches: number; mismatchRate: number }[];
+    }>(`/admin/analytics/ai?days=${days}`),
+
   getTokenAnalytics: (period: '24h' | '7d' | '30d' | '90d' | '1y' = '7d') =>
     api.get<{
       period: string;
@@ -868,6 +1034,30 @@ export const adminApi = {
       aiModelsHealth: { model: string; status: string; failRate: number }[];
     }>('/admin/system/status'),
 
+  getModelRouting: () =>
+    api.get<{
+      table: ModelRoutingTable;
+      defaultModel: string;
+      purposes: string[];
+      grades: string[];
+    }>('/admin/system/model-routing'),
+
+  updateModelRouting: (table: ModelRoutingTable) =>
+    api.put<{ success: boolean; table: ModelRoutingTable }>('/admin/system/model-routing', { table }),
+
+  // Document templates
+  getTemplates: () =>
+    api.get<{ templates: DocumentTemplate[] }>('/admin/templates'),
+
+  createTemplate: (data: DocumentTemplateInput) =>
+    api.post<DocumentTemplate>('/admin/templates', data),
+
+  updateTemplate: (id: string, data: Partial<DocumentTemplateInput>) =>
+    api.put<DocumentTemplate>(`/admin/templates/${id}`, data),
+
+  deleteTemplate: (id: string) =>
+    api.delete<{ success: boolean }>(`/admin/templates/${id}`),
+
   // Assignment Actions
   forceCompleteAssignment: (id: string) =>
     api.post<{ success: boolean }>(`/admin/assignments/${id}/force-complete`),
@@ -927,10 +1117,54 @@ export const adminApi = {
 // TOKEN API
 // =============================================================================
 
+export interface ModelRoute {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  fallbackModels?: string[];
+}
+
+// Sizes in points, margins and indent in millimetres
+export interface DocumentTemplateInput {
+  name: string;
+  description: string | null;
+  briefId: string | null;
+  universityName: string | null;
+  isDefault: boolean;
+  fontName: string;
+  fontSize: number;
+  headingFontSize: number;
+  lineSpacing: number;
+  firstLineIndentMm: number;
+  marginTopMm: number;
+  marginBottomMm: number;
+  marginLeftMm: number;
+  marginRightMm: number;
+  centerHeadings: boolean;
+  headingNumbering: 'NONE' | 'SECTIONS' | 'SECTIONS_AND_CRITERIA';
+  coverLayout: 'TITLE_ONLY' | 'TITLE_PAGE';
+  includeFrontSheet: boolean;
+  headerText: string | null;
+  footerText: string | null;
+  logo: string | null; // PNG or JPEG data URL
+}
+
+export interface DocumentTemplate extends DocumentTemplateInput {
+  id: string;
+  brief: { id: string; unitCode: string; unitName: string; level: number } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ModelRoutingTable {
+  purposes: Record<string, ModelRoute & { grades?: Record<string, ModelRoute> }>;
+}
+
 export interface TokenBalance {
   userId: string;
   planType: 'FREE' | 'BASIC' | 'PRO' | 'UNLIMITED';
   tokensRemaining: number;
+  tokensReserved?: number;  // Held for queued/running generations, already excluded from tokensRemaining
   tokensPerMonth: number;
   lastResetAt: Date;
   nextResetAt: Date;
@@ -973,9 +1207,9 @@ export const tokenApi = {
 
 export interface GenerationStatus {
   assignmentId: string;
-  status: 'DRAFT' | 'GENERATING' | 'COMPLETED' | 'FAILED';
+  status: 'DRAFT' | 'GENERATING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
   progress: {
-    stage: 'planning' | 'writing' | 'assembling' | 'completed' | 'failed';
+    stage: 'planning' | 'writing' | 'assembling' | 'completed' | 'failed' | 'cancelled';
     blocksCompleted: number;
     totalBlocks: number;
     currentBlock?: string;
@@ -987,18 +1221,113 @@ export interface GenerationStatus {
   completedAt?: Date;
 }
 
-export interface GenerationContent {
-  assignmentId: string;
+export interface GenerationContentBlock {
+  id: string;
+  sectionId: string;
+  criterionCode: string | null;
   content: string;
-  blocks: {
+  blockOrder: number;
+  tokensUsed: number;
+  generatedAt: string;
+}
+
+export interface GenerationContent {
+  assignment: {
     id: string;
-    blockType: string;
-    orderIndex: number;
-    content: string;
-    tokensUsed: number;
-  }[];
+    language: string;
+    grade: string;
+    status: 'DRAFT' | 'GENERATING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+    totalTokensUsed: number;
+    completedAt: string | null;
+  };
+  brief: {
+    unitName: string;
+    unitCode: string;
+    level: number;
+  };
+  plan: unknown;
+  blocks: GenerationContentBlock[];
+}
+
+export interface EditableTable {
+  caption: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export type EditableBlockContent = string | EditableTable | { text: string }[];
+
+export interface BlockRevision {
+  id: string;
+  sectionId: string;
+  criterionCode: string | null;
+  reason: 'REGENERATE' | 'ROLLBACK' | 'EDIT' | 'RESTORE';
+  instructions: string | null;
+  content: string;
+  createdAt: string;
+}
+
+export interface AssignmentVersion {
+  id: string;
+  version: number;
+  source: 'GENERATION' | 'REGENERATE_BLOCK' | 'ROLLBACK' | 'EDIT' | 'RESTORE';
+  note: string | null;
+  tokensUsed: number;
   totalTokensUsed: number;
-  generatedAt: Date;
+  modelsUsed: string[];
+  blockCount: number;
+  hasDocx: boolean;
+  current: boolean;
+  createdById: string | null;
+  createdAt: string;
+}
+
+export interface VersionBlockComparison {
+  sectionId: string;
+  criterionCode: string | null;
+  change: 'ADDED' | 'REMOVED' | 'CHANGED' | 'UNCHANGED';
+  diff: { op: 'equal' | 'insert' | 'delete'; text: string }[];
+}
+
+export interface VersionComparison {
+  assignmentId: string;
+  from: AssignmentVersion;
+  to: AssignmentVersion;
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  blocks: VersionBlockComparison[];
+}
+
+export interface PlanOutlineItem {
+  type: 'INTRODUCTION' | 'LEARNING_AIM' | 'TASK' | 'CRITERION' | 'CUSTOM' | 'CONCLUSION' | 'REFERENCES';
+  title?: string;
+  aimCode?: string;
+  aimTitle?: string;
+  criterionCode?: string;
+  criterionTitle?: string;
+  taskNumber?: number;
+  taskTitle?: string;
+  customNumber?: number;
+  customDescription?: string;
+}
+
+export interface PlanPreview {
+  assignmentId: string;
+  plan: {
+    documentOutline: PlanOutlineItem[];
+    tablesRequired: { criterionCode: string; tableType: string }[];
+    imagesSuggested: { criterionCode: string; imageType: string }[];
+  };
+  edited: boolean;
+  estimate: TokenEstimate;
+}
+
+export interface PlanEdits {
+  documentOutline: PlanOutlineItem[];
+  tablesRequired?: { criterionCode: string }[];
+  imagesSuggested?: { criterionCode: string }[];
 }
 
 export const generationApi = {
@@ -1105,8 +1434,19 @@ export const paymentApi = {
   cancelPayment: (paymentId: string) => 
     api.post<{ payment: PaymentTransaction; message: string }>(`/payments/${paymentId}/cancel`),
   
-  calculateCustomPrice: (tokens: number) => 
-    api.post<{ tokens: number; price: number; priceFormatted: string }>('/payments/calculate-custom', { tokens }),
+  // Pass briefId + grade (tokens optional) to price the estimated amount
+  calculateCustomPrice: (
+    tokens: number | undefined,
+    options?: { grade?: string; briefId?: string; language?: string; includeTables?: boolean }
+  ) => 
+    api.post<{
+      tokens: number;
+      price: number;
+      priceFormatted: string;
+      minTokens: number;
+      estimate: TokenEstimate | null;
+      insufficient: boolean;
+    }>('/payments/calculate-custom', { tokens, ...options }),
   
   // Admin endpoints
   getAllPayments: (page = 1, limit = 50, status?: PaymentStatus, userId?: string) => {
@@ -62,7 +62,7 @@ export interface GradeRequirements {
 // ASSIGNMENT
 // ============================================================================
 
-export type AssignmentStatus = 'DRAFT' | 'GENERATING' | 'HUMANIZING' | 'COMPLETED' | 'FAILED';
+export type AssignmentStatus = 'DRAFT' | 'GENERATING' | 'HUMANIZING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
 
 // Guidance types
 export interface OverviewGuidance {
@@ -81,9 +81,38 @@ export interface CriterionGuidance {
   gradeDepthReminder: string;
 }
 
+export type EvidenceNote =
+  | 'SECTIONS'
+  | 'WHOLE_REPORT'
+  | 'NO_SECTION'
+  | 'TABLES'
+  | 'NO_TABLE'
+  | 'FIGURE'
+  | 'CAPTURE'
+  | 'SUPPLY';
+
+export interface EvidenceMatch {
+  sectionId: string;
+  kind: 'BLOCK' | 'TABLE' | 'IMAGE';
+  source: 'INTRODUCTION' | 'CONCLUSION' | 'CUSTOM' | 'CRITERION';
+  code?: string;
+  title?: string;
+  label?: string; // Guidance generated before the checklist was localised
+}
+
+export interface EvidenceChecklistItem {
+  item: string;
+  kind: 'WRITTEN' | 'TABLE' | 'VISUAL' | 'PRACTICAL';
+  status: 'COVERED' | 'PLACEHOLDER' | 'MISSING';
+  matches: EvidenceMatch[];
+  noteCode: EvidenceNote;
+  note?: string; // Guidance generated before the checklist was localised
+}
+
 export interface WritingGuidanceData {
   overview: OverviewGuidance;
   criteriaGuidance: CriterionGuidance[];
+  evidenceChecklist?: EvidenceChecklistItem[]; // Missing on guidance generated before the checklist existed
 }
 
 export interface Assignment {
@@ -25,6 +25,8 @@ export default defineConfig({
         target: process.env.VITE_API_URL || 'http://localhost:3000',
         changeOrigin: true,
         secure: false,
+        // Live generation progress (/api/ws)
+        ws: true,
       },
       // Proxy WebSocket connections
       '/socket.io': {